@@ -1,10 +1,58 @@
+import { Readable, Writable } from "node:stream";
 import type { DatabaseDriver } from "./drivers/types.js";
+import type {
+	AuditOperation,
+	AuditRecord,
+	ChangeRecord,
+	ChangeType,
+	ContentRefRecord,
+	ListSortKey,
+	NodeQuery,
+	NodeRecord,
+	SnapshotEntry,
+	SnapshotRecord,
+	TrashRecord,
+	VersionRecord,
+} from "./schema/types.js";
 import { FileSystemUtils } from "./utils.js";
+import { parseSearchQuery } from "./search-query.js";
+import { mergeText, unifiedDiff } from "./diff.js";
+import {
+	applyEdits,
+	applyHunks,
+	parsePatch,
+	resolvePatchPaths,
+	type EditResult,
+	type FilePatch,
+	type HunkResult,
+	type StringEdit,
+} from "./patch.js";
+import {
+	hasAccess,
+	normalizeMode,
+	PermissionDeniedError,
+	type Access,
+	type Principal,
+} from "./permissions.js";
+import { ConflictError } from "./revision.js";
+import {
+	MAX_SYMLINK_HOPS,
+	resolveLinkTarget,
+	SymlinkLoopError,
+} from "./links.js";
+import {
+	QuotaExceededError,
+	type DiskUsage,
+	type QuotaLimits,
+} from "./quota.js";
 
 export interface FileStats {
 	path: string;
 	name: string;
 	isDirectory: boolean;
+	isSymbolicLink: boolean;
+	/** Path a symbolic link points to, as given when it was created */
+	linkTarget?: string;
 	size: number;
 	mimeType?: string;
 	createdAt: Date;
@@ -12,14 +60,102 @@ export interface FileStats {
 	accessedAt: Date;
 	mode: string;
 	owner: string;
+	group: string;
+	/** Set by `stat` for files; changes whenever the content is written */
+	revision?: string;
+	/** Set by `stat` for files: how many paths are hard links to it */
+	nlink?: number;
+	/** Left out of change events */
+	metadata?: Record<string, unknown>;
+	/** The string entries of the `tags` array in the metadata */
+	tags?: string[];
 }
 
-export interface WriteOptions {
+export interface FileChangeEvent {
+	type: ChangeType;
+	path: string;
+	/** Previous path, for renames */
+	oldPath?: string;
+	/** Node after the change, or before it for deletes */
+	stats: FileStats;
+	timestamp: Date;
+}
+
+export interface WatchOptions {
+	/**
+	 * Receives errors thrown by the handler and, on PostgreSQL, the loss of
+	 * the listening connection, which stops the watch. Ignored if omitted.
+	 */
+	onError?: (error: unknown) => void;
+}
+
+/** Who made a change, recorded with it in the audit log. */
+export interface AuditContext {
+	/** User or agent name. Defaults to the principal's user */
+	actor?: string;
+	/** AI SDK tool call that made the change */
+	toolCallId?: string;
+}
+
+export interface AuditLogOptions {
+	/** Only changes at or below this path, including renames away from it */
+	path?: string;
+	/** Only changes made at or after this time */
+	since?: Date;
+	actor?: string;
+	toolCallId?: string;
+	limit?: number;
+}
+
+export interface WriteOptions extends AuditContext {
+	/**
+	 * Revision from `stat` or `readFile` the file must still have, otherwise
+	 * the write fails with `ConflictError`. A missing file never matches.
+	 */
+	ifMatch?: string;
 	mode?: string;
+	/** Ignored when a principal is set; new files belong to the principal */
 	owner?: string;
+	group?: string;
 	mimeType?: string;
 	metadata?: Record<string, any>;
 	createParents?: boolean;
+	comment?: string;
+}
+
+export interface PatchOptions extends AuditContext {
+	/** Directory that relative paths in the patch resolve against (default "/") */
+	basePath?: string;
+	/** Context lines a hunk may ignore at each end to apply (default 2) */
+	maxFuzz?: number;
+}
+
+export interface PatchFileResult {
+	path: string;
+	operation: "create" | "delete" | "modify" | "rename";
+	/** Path before a rename */
+	oldPath?: string;
+	hunks: HunkResult[];
+}
+
+export interface PatchResult {
+	/** false when a hunk did not apply, in which case nothing was changed */
+	applied: boolean;
+	files: PatchFileResult[];
+}
+
+export interface EditFileResult {
+	/** false when an edit did not apply, in which case nothing was changed */
+	applied: boolean;
+	edits: EditResult[];
+}
+
+export interface FileVersion {
+	version: number;
+	size: number;
+	createdAt: Date;
+	createdBy: string;
+	comment?: string;
 }
 
 export interface ReadOptions {
@@ -29,32 +165,592 @@ export interface ReadOptions {
 }
 
 export interface ListOptions {
+	/** List everything below the directory, not only its children */
 	recursive?: boolean;
+	/** Glob the entries must match, relative to the directory, e.g. `*.ts` */
 	pattern?: string;
-	sortBy?: "name" | "modified" | "size" | "created";
+	/** Default: directories first, then by name; by path when recursive */
+	sortBy?: ListSortKey;
 	order?: "asc" | "desc";
 	limit?: number;
 	offset?: number;
 }
 
+export interface GrepOptions {
+	basePath?: string;
+	/** Glob filter; patterns without a slash match file names at any depth */
+	include?: string;
+	caseSensitive?: boolean;
+	before?: number;
+	after?: number;
+	limit?: number;
+}
+
+export interface FindOptions
+	extends Omit<NodeQuery, "isDirectory" | "limit"> {
+	/** Only files or only directories (default: both) */
+	type?: "file" | "directory";
+	limit?: number;
+}
+
+export interface GrepLine {
+	line: number;
+	text: string;
+	/** false for context lines around a match */
+	match: boolean;
+}
+
+export interface GrepFileResult {
+	path: string;
+	matchCount: number;
+	lines: GrepLine[];
+}
+
+/** A directory path, or the label of a snapshot of one */
+export type TreeRef = string | { snapshot: string };
+
+export interface FileDiff {
+	/** Relative to the roots of the compared trees */
+	path: string;
+	status: "added" | "removed" | "modified";
+	/** Unified diff, or null for binary content */
+	diff: string | null;
+}
+
+export interface TreeDiff {
+	/** Relative paths of files and directories only in the second tree */
+	added: string[];
+	/** Relative paths of files and directories only in the first tree */
+	removed: string[];
+	/** Relative paths of files whose content differs */
+	modified: string[];
+	files: FileDiff[];
+}
+
+export interface TreeMergeResult {
+	/** Paths written, created or removed in the target tree */
+	changed: string[];
+	/** Paths both sides changed that need a decision */
+	conflicts: string[];
+}
+
+/** Something holding a reference to stored content */
+export interface ContentReference {
+	hash: string;
+	source: "node" | "version" | "trash" | "snapshot" | "chunk";
+	/** Path of the file holding it, null for chunks of chunked content */
+	path: string | null;
+}
+
+export interface FsckReport {
+	/** Content whose stored reference count was wrong */
+	refCounts: Array<{ hash: string; stored: number; actual: number }>;
+	/** Hashes of content nothing references */
+	orphans: string[];
+	/** References to content that no longer exists */
+	dangling: ContentReference[];
+	/** Content blocks deleted by a repair */
+	reclaimed: number;
+}
+
+export interface DbFileSystemOptions {
+	/** Content larger than this is split into deduplicated chunks */
+	chunkSize?: number;
+	/**
+	 * Caller whose access is checked against node modes. Without one every
+	 * operation is allowed.
+	 */
+	principal?: Principal;
+	/** Limits for the workspace as a whole */
+	quota?: QuotaLimits;
+	/** Limits applied to each owner's files and directories separately */
+	ownerQuota?: QuotaLimits;
+	/** Recorded with every change in the audit log */
+	audit?: AuditContext;
+	/**
+	 * Receives each file read instead of its access times being written
+	 * right away, so they can be written in batches. See `Maintenance`.
+	 */
+	onAccess?: (nodeId: string, contentHash: string | null) => void;
+}
+
 const MAX_FILE_SIZE_BYTES = 100_000;
 const MAX_LINES_PER_READ = 1000;
 const MAX_LIST_ITEMS = 500;
 const MAX_SEARCH_RESULTS = 100;
+const GREP_BATCH_SIZE = 200;
+const DEFAULT_CHUNK_SIZE_BYTES = 256 * 1024;
+const MAX_INDEXED_TEXT_BYTES = 10_000_000;
+const DEFAULT_AUDIT_LIMIT = 1000;
 
 export class DbFileSystem {
-	constructor(private driver: DatabaseDriver) {}
+	private readonly chunkSize: number;
+
+	constructor(
+		private driver: DatabaseDriver,
+		private options: DbFileSystemOptions = {},
+	) {
+		this.chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE_BYTES;
+	}
 
 	async initialize(): Promise<void> {
 		await this.driver.initialize();
 	}
 
+	get workspace(): string {
+		return this.driver.workspace;
+	}
+
+	/**
+	 * Returns an isolated filesystem for `workspace`, creating its root
+	 * directory if needed. Paths in a workspace can never resolve to nodes or
+	 * content of another workspace.
+	 */
+	async scope(workspace: string): Promise<DbFileSystem> {
+		if (!FileSystemUtils.isValidWorkspace(workspace)) {
+			throw new Error(`Invalid workspace: ${workspace}`);
+		}
+
+		const scoped = new DbFileSystem(
+			this.driver.withWorkspace(workspace),
+			this.options,
+		);
+		await scoped.initialize();
+		return scoped;
+	}
+
+	/**
+	 * Runs `fn` against a filesystem view bound to a single database
+	 * transaction. Every operation inside commits together or not at all.
+	 * Use `tx` inside `fn`; operations on this filesystem made from within
+	 * it join the transaction as nested ones.
+	 */
+	async transaction<T>(fn: (tx: DbFileSystem) => Promise<T>): Promise<T> {
+		return await this.driver.transaction(
+			async (driver) => await fn(new DbFileSystem(driver, this.options)),
+		);
+	}
+
+	get principal(): Principal | undefined {
+		return this.options.principal;
+	}
+
+	/**
+	 * Returns a view of this filesystem whose changes are recorded in the
+	 * audit log with `context`, e.g. the tool call that made them.
+	 */
+	withAuditContext(context: AuditContext): DbFileSystem {
+		return new DbFileSystem(this.driver, {
+			...this.options,
+			audit: {
+				actor: context.actor ?? this.options.audit?.actor,
+				toolCallId: context.toolCallId ?? this.options.audit?.toolCallId,
+			},
+		});
+	}
+
+	private checkAccess(
+		node: NodeRecord,
+		access: Access,
+		operation: string,
+		path: string,
+	): void {
+		if (this.principal && !hasAccess(node, this.principal, access)) {
+			throw new PermissionDeniedError(operation, path);
+		}
+	}
+
+	private async checkParentAccess(
+		normalized: string,
+		operation: string,
+		path: string,
+	): Promise<void> {
+		const parentPath = FileSystemUtils.getParentPath(normalized);
+		const parent =
+			parentPath && this.principal
+				? await this.driver.findNodeByPath(parentPath)
+				: undefined;
+		if (parent) {
+			this.checkAccess(parent, "write", operation, path);
+		}
+	}
+
+	private async canRead(path: string): Promise<boolean> {
+		if (!this.principal) {
+			return true;
+		}
+		const node = await this.driver.findNodeByPath(path);
+		return (
+			node !== undefined &&
+			hasAccess(node, this.principal, "read") &&
+			(await this.canSearch(path))
+		);
+	}
+
+	/**
+	 * Whether the principal may search, i.e. execute, every existing
+	 * directory above `path`, which resolving it needs as on Unix.
+	 */
+	private async canSearch(path: string): Promise<boolean> {
+		if (!this.principal) {
+			return true;
+		}
+		for (
+			let dir = FileSystemUtils.getParentPath(path);
+			dir;
+			dir = FileSystemUtils.getParentPath(dir)
+		) {
+			const node = await this.driver.findNodeByPath(dir);
+			if (node && !hasAccess(node, this.principal, "execute")) {
+				return false;
+			}
+		}
+		return true;
+	}
+
+	/**
+	 * Drops nodes the principal may not list, as listing a name needs read
+	 * access to the directory holding it.
+	 */
+	private async listable(nodes: NodeRecord[]): Promise<NodeRecord[]> {
+		if (!this.principal) {
+			return nodes;
+		}
+
+		const readable = new Map<string, boolean>();
+		const visible: NodeRecord[] = [];
+		for (const node of nodes) {
+			const parentPath = FileSystemUtils.getParentPath(node.path);
+			if (parentPath && !readable.has(parentPath)) {
+				readable.set(parentPath, await this.canRead(parentPath));
+			}
+			if (!parentPath || readable.get(parentPath)) {
+				visible.push(node);
+			}
+		}
+		return visible;
+	}
+
+	/**
+	 * Up to `limit` listable nodes from `fetch`, which returns the first
+	 * `count` matches. Asks for more until enough remain once hidden ones are
+	 * dropped, or there are no more.
+	 */
+	private async fetchListable(
+		fetch: (count: number) => Promise<NodeRecord[]>,
+		limit: number,
+	): Promise<NodeRecord[]> {
+		for (let count = limit; ; count *= 2) {
+			const nodes = await fetch(count);
+			const visible = await this.listable(nodes);
+			if (visible.length >= limit || nodes.length < count) {
+				return visible.slice(0, limit);
+			}
+		}
+	}
+
+	/**
+	 * Throws if growing the tree at `path` by `change` would exceed the
+	 * workspace quota or the quota of `owner`. Operations that do not grow
+	 * usage are always allowed, so an over-quota tree can still be cleaned up.
+	 */
+	private async enforceQuota(
+		path: string,
+		owner: string,
+		change: { files: number; bytes: number; fileSize?: number },
+		operation: string,
+	): Promise<void> {
+		const scopes: Array<[QuotaLimits | undefined, string | undefined]> = [
+			[this.options.quota, undefined],
+			[this.options.ownerQuota, owner],
+		];
+
+		for (const [limits, scopeOwner] of scopes) {
+			if (!limits) continue;
+
+			const exceeded = (limit: keyof QuotaLimits) => {
+				throw new QuotaExceededError(limit, limits[limit]!, operation, path);
+			};
+
+			const depth = path.split("/").filter(Boolean).length;
+			if (limits.maxDepth !== undefined && depth > limits.maxDepth) {
+				exceeded("maxDepth");
+			}
+			if (
+				limits.maxFileSize !== undefined &&
+				change.fileSize !== undefined &&
+				change.fileSize > limits.maxFileSize
+			) {
+				exceeded("maxFileSize");
+			}
+
+			const growsFiles = limits.maxFiles !== undefined && change.files > 0;
+			const growsBytes = limits.maxBytes !== undefined && change.bytes > 0;
+			if (!growsFiles && !growsBytes) continue;
+
+			const usage = await this.driver.getUsage(scopeOwner);
+			if (
+				growsFiles &&
+				usage.files + usage.directories + change.files > limits.maxFiles!
+			) {
+				exceeded("maxFiles");
+			}
+			if (growsBytes && usage.bytes + change.bytes > limits.maxBytes!) {
+				exceeded("maxBytes");
+			}
+		}
+	}
+
+	/** Smallest `maxFileSize` of the workspace and owner quotas. */
+	private get maxFileSize(): number {
+		return Math.min(
+			this.options.quota?.maxFileSize ?? Infinity,
+			this.options.ownerQuota?.maxFileSize ?? Infinity,
+		);
+	}
+
+	/** Owner and group for a node the caller creates. */
+	private ownership(options: { owner?: string; group?: string }): {
+		owner: string;
+		group: string;
+	} {
+		if (this.principal) {
+			return {
+				owner: this.principal.user,
+				group: this.principal.groups?.[0] ?? "default",
+			};
+		}
+		return {
+			owner: options.owner || "default",
+			group: options.group || "default",
+		};
+	}
+
+	/** Appends an entry to the audit log. Must run inside a transaction. */
+	private async audit(
+		operation: AuditOperation,
+		path: string,
+		change: {
+			oldPath?: string;
+			oldHash?: string | null;
+			newHash?: string | null;
+		},
+		context: AuditContext = {},
+	): Promise<void> {
+		const audit = this.options.audit;
+		await this.driver.insertAuditEntry({
+			operation,
+			path,
+			oldPath: change.oldPath ?? null,
+			oldHash: change.oldHash ?? null,
+			newHash: change.newHash ?? null,
+			actor: context.actor ?? audit?.actor ?? this.principal?.user ?? null,
+			toolCallId: context.toolCallId ?? audit?.toolCallId ?? null,
+		});
+	}
+
+	/**
+	 * Records a change for watchers. The driver holds it until the enclosing
+	 * transaction commits, so rolled back writes are never reported.
+	 */
+	private async publish(
+		type: ChangeType,
+		node: NodeRecord,
+		oldPath?: string,
+	): Promise<void> {
+		const { metadata: _metadata, ...rest } = node;
+		await this.driver.publishChange({
+			type,
+			workspace: this.workspace,
+			path: node.path,
+			...(oldPath === undefined ? {} : { oldPath }),
+			node: rest,
+			timestamp: new Date(),
+		});
+	}
+
 	async writeFile(
 		path: string,
-		content: string,
+		content: string | Buffer | Uint8Array,
 		options: WriteOptions = {},
 	): Promise<void> {
-		const normalized = FileSystemUtils.normalizePath(path);
+		const data =
+			typeof content === "string"
+				? Buffer.from(content, "utf8")
+				: Buffer.from(content.buffer, content.byteOffset, content.byteLength);
+
+		await this.transaction(async (tx) => {
+			const contentHash = await tx.storeContent(data);
+			await tx.putFile(
+				path,
+				contentHash,
+				data.length,
+				indexableText(data),
+				options,
+			);
+		});
+	}
+
+	/**
+	 * Streams content into the filesystem chunk by chunk, so large files never
+	 * need to be held in memory. The file appears once the stream finishes.
+	 */
+	createWriteStream(path: string, options: WriteOptions = {}): Writable {
+		const hasher = FileSystemUtils.createHasher();
+		const chunks: Array<{ hash: string; size: number }> = [];
+		const head: Buffer[] = [];
+		let headSize = 0;
+		let pending: Buffer[] = [];
+		let pendingSize = 0;
+		let size = 0;
+		let committed = false;
+
+		// Stores every full chunk buffered so far, and the rest once `final`
+		const storeChunks = async (final: boolean) => {
+			if (pendingSize < this.chunkSize && !(final && pendingSize > 0)) {
+				return;
+			}
+
+			const buffered = Buffer.concat(pending);
+			const end = final
+				? buffered.length
+				: buffered.length - (buffered.length % this.chunkSize);
+			const stored = await this.transaction(async (tx) => {
+				const batch: Array<{ hash: string; size: number }> = [];
+				for (let offset = 0; offset < end; offset += this.chunkSize) {
+					const chunk = buffered.subarray(
+						offset,
+						Math.min(offset + this.chunkSize, end),
+					);
+					batch.push({
+						hash: await tx.driver.getOrCreateContent(chunk),
+						size: chunk.length,
+					});
+				}
+				return batch;
+			});
+
+			chunks.push(...stored);
+			const rest = buffered.subarray(end);
+			pending = rest.length > 0 ? [rest] : [];
+			pendingSize = rest.length;
+		};
+
+		const releaseChunks = async () => {
+			const stored = chunks.splice(0);
+			await this.transaction(async (tx) => {
+				for (const chunk of stored) {
+					await tx.driver.decrementRefCount(chunk.hash);
+				}
+			});
+		};
+
+		const commit = async () => {
+			await storeChunks(true);
+			const hash = hasher.digest("hex");
+
+			await this.transaction(async (tx) => {
+				let contentHash: string;
+				if (chunks.length === 0) {
+					contentHash = await tx.driver.getOrCreateContent(Buffer.alloc(0));
+				} else if (chunks.length === 1) {
+					// A single chunk is byte-identical to the whole content
+					contentHash = chunks[0].hash;
+				} else {
+					contentHash = await tx.driver.getOrCreateChunkedContent(
+						hash,
+						size,
+						chunks,
+					);
+				}
+
+				await tx.putFile(
+					path,
+					contentHash,
+					size,
+					indexableText(Buffer.concat(head)),
+					options,
+				);
+			});
+			committed = true;
+		};
+
+		return new Writable({
+			write: (chunk: Buffer, _encoding, callback) => {
+				hasher.update(chunk);
+				size += chunk.length;
+				if (size > this.maxFileSize) {
+					// Fail fast rather than storing chunks the write will reject
+					callback(
+						new QuotaExceededError(
+							"maxFileSize",
+							this.maxFileSize,
+							"write",
+							FileSystemUtils.normalizePath(path),
+						),
+					);
+					return;
+				}
+				if (headSize < MAX_INDEXED_TEXT_BYTES) {
+					head.push(chunk);
+					headSize += chunk.length;
+				}
+				pending.push(chunk);
+				pendingSize += chunk.length;
+				storeChunks(false).then(() => callback(), callback);
+			},
+			final: (callback) => {
+				commit().then(
+					() => callback(),
+					(error) => callback(error),
+				);
+			},
+			destroy: (error, callback) => {
+				if (committed) {
+					callback(error);
+					return;
+				}
+				releaseChunks().then(
+					() => callback(error),
+					(releaseError) => callback(error || releaseError),
+				);
+			},
+		});
+	}
+
+	private async storeContent(data: Buffer): Promise<string> {
+		if (data.length <= this.chunkSize) {
+			return await this.driver.getOrCreateContent(data);
+		}
+
+		const chunks: Array<{ hash: string; size: number }> = [];
+		for (let offset = 0; offset < data.length; offset += this.chunkSize) {
+			const chunk = data.subarray(offset, offset + this.chunkSize);
+			chunks.push({
+				hash: await this.driver.getOrCreateContent(chunk),
+				size: chunk.length,
+			});
+		}
+
+		return await this.driver.getOrCreateChunkedContent(
+			FileSystemUtils.hashContent(data),
+			data.length,
+			chunks,
+		);
+	}
+
+	/**
+	 * Points `path` at already-stored content, taking over one reference to
+	 * it. Must run inside a transaction.
+	 */
+	private async putFile(
+		path: string,
+		contentHash: string,
+		size: number,
+		text: string,
+		options: WriteOptions,
+	): Promise<void> {
+		const normalized = await this.realPath(path);
 
 		if (!FileSystemUtils.isValidPath(normalized)) {
 			throw new Error(`Invalid path: ${path}`);
@@ -62,7 +758,9 @@ export class DbFileSystem {
 
 		const parentPath = FileSystemUtils.getParentPath(normalized);
 		if (parentPath && options.createParents) {
-			await this.mkdir(parentPath, { recursive: true });
+			await this.withAuditContext(options).mkdir(parentPath, {
+				recursive: true,
+			});
 		}
 
 		if (parentPath) {
@@ -73,12 +771,19 @@ export class DbFileSystem {
 		}
 
 		const existing = await this.driver.findNodeByPath(normalized);
-
-		const contentHash = await this.driver.getOrCreateContent(content);
-		const size = Buffer.byteLength(content, "utf8");
 		const fileName = FileSystemUtils.getFileName(normalized);
 		const treePath = FileSystemUtils.pathToTreePath(normalized);
 
+		if (options.ifMatch !== undefined) {
+			const current =
+				existing && !existing.isDirectory
+					? await this.revisionOf(existing)
+					: null;
+			if (current !== options.ifMatch) {
+				throw new ConflictError(path, options.ifMatch, current);
+			}
+		}
+
 		const parent = parentPath
 			? await this.driver.findNodeByPath(parentPath)
 			: null;
@@ -87,25 +792,67 @@ export class DbFileSystem {
 			if (existing.isDirectory) {
 				throw new Error(`Cannot write to directory: ${path}`);
 			}
+			// Hard links share their content, so the write reaches all of them
+			const links = existing.linkId
+				? await this.driver.findNodesByLinkId(existing.linkId)
+				: [existing];
+
+			for (const [i, link] of links.entries()) {
+				this.checkAccess(link, "write", "open", link.path);
+				await this.enforceQuota(
+					link.path,
+					link.owner,
+					{ files: 0, bytes: size - link.size, fileSize: size },
+					"write",
+				);
+
+				if (i > 0) {
+					await this.driver.incrementRefCount(contentHash);
+				}
+				if (link.contentHash) {
+					await this.driver.decrementRefCount(link.contentHash);
+				}
 
-			if (existing.contentHash) {
-				await this.driver.decrementRefCount(existing.contentHash);
-			}
-
-			await this.driver.updateNode(existing.id, {
-				contentHash,
-				size,
-				modifiedAt: new Date(),
-				mimeType: options.mimeType || existing.mimeType,
-				metadata: (options.metadata || existing.metadata) as Record<
-					string,
-					unknown
-				> | null,
-			});
+				await this.driver.updateNode(link.id, {
+					contentHash,
+					size,
+					modifiedAt: new Date(),
+					mimeType: options.mimeType || link.mimeType,
+					metadata: (options.metadata || link.metadata) as Record<
+						string,
+						unknown
+					> | null,
+				});
 
-			await this.driver.updateSearchIndex(existing.id, normalized, content);
+				await this.driver.updateSearchIndex(link.id, link.path, text);
+				await this.recordVersion(link.id, contentHash, size, {
+					createdBy: this.principal?.user || options.owner || link.owner,
+					comment: options.comment,
+				});
+				await this.audit(
+					"write",
+					link.path,
+					{ oldHash: link.contentHash, newHash: contentHash },
+					options,
+				);
+				await this.publish(
+					"modify",
+					(await this.driver.findNodeByPath(link.path))!,
+				);
+			}
 		} else {
+			if (parent) {
+				this.checkAccess(parent, "write", "open", path);
+			}
+
 			const nodeId = FileSystemUtils.generateId();
+			const { owner, group } = this.ownership(options);
+			await this.enforceQuota(
+				normalized,
+				owner,
+				{ files: 1, bytes: size, fileSize: size },
+				"write",
+			);
 
 			await this.driver.insertNode({
 				id: nodeId,
@@ -116,79 +863,365 @@ export class DbFileSystem {
 				isDirectory: false,
 				contentHash,
 				size,
-				mode: options.mode || "0644",
-				owner: options.owner || "default",
+				mode: options.mode ? normalizeMode(options.mode) : "0644",
+				owner,
+				group,
 				mimeType: options.mimeType,
 				metadata: options.metadata || {},
 			});
 
-			await this.driver.updateSearchIndex(nodeId, normalized, content);
+			await this.driver.updateSearchIndex(nodeId, normalized, text);
+			await this.recordVersion(nodeId, contentHash, size, {
+				createdBy: owner,
+				comment: options.comment,
+			});
+			await this.audit("write", normalized, { newHash: contentHash }, options);
+			await this.publish(
+				"create",
+				(await this.driver.findNodeByPath(normalized))!,
+			);
 		}
 	}
 
-	async readFile(path: string, options: ReadOptions = {}): Promise<{
-		content: string;
-		totalLines?: number;
-		totalSize: number;
-		hasMore?: boolean;
-		offset?: number;
-		limit?: number;
-	}> {
-		const normalized = FileSystemUtils.normalizePath(path);
-		const node = await this.driver.findNodeByPath(normalized);
-
-		if (!node) {
-			throw new Error(`File not found: ${path}`);
+	/**
+	 * Applies a unified diff that may create, delete, rename and modify
+	 * several files. Either every hunk applies and all files are written in
+	 * one transaction, or nothing changes and the result reports which hunks
+	 * failed and why.
+	 */
+	async applyPatch(
+		patch: string | FilePatch[],
+		options: PatchOptions = {},
+	): Promise<PatchResult> {
+		const patches = resolvePatchPaths(
+			typeof patch === "string" ? parsePatch(patch) : patch,
+			options.basePath,
+		);
+		if (patches.length === 0) {
+			throw new Error("Patch contains no file changes");
 		}
 
-		if (node.isDirectory) {
-			throw new Error(`Cannot read directory as file: ${path}`);
-		}
+		return await this.withAuditContext(options).transaction(async (tx) => {
+			const files: PatchFileResult[] = [];
+			const writes: Array<() => Promise<void>> = [];
 
-		if (!node.contentHash) {
-			return {
-				content: "",
-				totalSize: 0,
-				totalLines: 0,
-			};
-		}
+			for (const { oldPath, newPath, hunks } of patches) {
+				if (!oldPath && !newPath) {
+					throw new Error("Patch has a file without a path");
+				}
+				const path = (newPath ?? oldPath)!;
+				const operation: PatchFileResult["operation"] = !oldPath
+					? "create"
+					: !newPath
+						? "delete"
+						: oldPath !== newPath
+							? "rename"
+							: "modify";
+
+				if (!oldPath && (await tx.exists(path))) {
+					throw new Error(`File already exists: ${path}`);
+				}
+				const original = oldPath
+					? decodeContent(await tx.readFileBuffer(oldPath), oldPath)
+					: "";
+				const patched = applyHunks(original, hunks, options.maxFuzz);
+				files.push({
+					path,
+					operation,
+					...(operation === "rename" ? { oldPath: oldPath! } : {}),
+					hunks: patched.hunks,
+				});
 
-		await this.driver.updateNode(node.id, { accessedAt: new Date() });
+				writes.push(async () => {
+					if (operation === "delete") {
+						await tx.unlink(path);
+						return;
+					}
+					if (operation === "rename") {
+						await tx.mkdir(FileSystemUtils.getParentPath(path)!, {
+							recursive: true,
+						});
+						await tx.rename(oldPath!, path);
+					}
+					if (operation === "create" || patched.content !== original) {
+						await tx.writeFile(path, patched.content, {
+							createParents: true,
+						});
+					}
+				});
+			}
 
-		const fullContent = await this.driver.getContent(node.contentHash);
+			const applied = files.every((file) =>
+				file.hunks.every((hunk) => hunk.applied),
+			);
+			if (applied) {
+				for (const write of writes) {
+					await write();
+				}
+			}
+			return { applied, files };
+		});
+	}
 
-		if (options.encoding === "base64") {
-			const encoded = Buffer.from(fullContent).toString("base64");
-			return {
-				content: encoded,
-				totalSize: encoded.length,
-			};
-		}
+	/**
+	 * Applies string replacements to a text file in order, as a single write.
+	 * If any of them does not apply, the file is left unchanged.
+	 */
+	async editFile(
+		path: string,
+		edits: StringEdit[],
+		options: WriteOptions = {},
+	): Promise<EditFileResult> {
+		return await this.transaction(async (tx) => {
+			const original = decodeContent(await tx.readFileBuffer(path), path);
+			const result = applyEdits(original, edits);
+			const applied = result.edits.every((edit) => edit.applied);
+			if (applied && result.content !== original) {
+				await tx.writeFile(path, result.content, options);
+			}
+			return { applied, edits: result.edits };
+		});
+	}
 
-		const totalSize = Buffer.byteLength(fullContent, "utf8");
-		const lines = fullContent.split("\n");
-		const totalLines = lines.length;
+	/** Latest version number and a prefix of the content hash of a file. */
+	private async revisionOf(node: NodeRecord): Promise<string> {
+		const latest = await this.driver.findLatestVersion(node.id);
+		const hash = (node.contentHash ?? "").slice(0, 16);
+		return `${latest?.version ?? 0}-${hash}`;
+	}
 
-		if (!options.offset && !options.limit && totalSize <= MAX_FILE_SIZE_BYTES) {
-			return {
-				content: fullContent,
-				totalSize,
-				totalLines,
-			};
-		}
+	private async recordVersion(
+		nodeId: string,
+		contentHash: string,
+		size: number,
+		options: { createdBy: string; comment?: string },
+	): Promise<void> {
+		const latest = await this.driver.findLatestVersion(nodeId);
+
+		// Each version row holds its own reference so GC keeps old content alive
+		await this.driver.incrementRefCount(contentHash);
+		await this.driver.insertVersion({
+			id: FileSystemUtils.generateId(),
+			nodeId,
+			version: (latest?.version ?? 0) + 1,
+			contentHash,
+			size,
+			createdBy: options.createdBy,
+			comment: options.comment ?? null,
+		});
+	}
 
-		const offset = Math.max(0, (options.offset || 1) - 1);
-		const limit = Math.min(
-			options.limit || MAX_LINES_PER_READ,
-			MAX_LINES_PER_READ,
-		);
+	async listVersions(path: string): Promise<FileVersion[]> {
+		const node = await this.findFileNode(path);
+		this.checkAccess(node, "read", "open", path);
+		const versions = await this.driver.findVersions(node.id);
+
+		return versions.map((v) => ({
+			version: v.version,
+			size: v.size,
+			createdAt: v.createdAt,
+			createdBy: v.createdBy,
+			comment: v.comment || undefined,
+		}));
+	}
 
-		const paginatedLines = lines.slice(offset, offset + limit);
+	async readVersion(
+		path: string,
+		version: number,
+		options: Pick<ReadOptions, "encoding"> = {},
+	): Promise<FileVersion & { content: string }> {
+		const record = await this.findVersionRecord(path, version);
+		const data = await this.driver.getContent(record.contentHash);
+
+		return {
+			version: record.version,
+			size: record.size,
+			createdAt: record.createdAt,
+			createdBy: record.createdBy,
+			comment: record.comment || undefined,
+			content: decodeContent(data, path, options.encoding),
+		};
+	}
+
+	async restoreVersion(path: string, version: number): Promise<void> {
+		const record = await this.findVersionRecord(path, version);
+		const data = await this.driver.getContent(record.contentHash);
+
+		await this.writeFile(path, data, {
+			comment: `Restored from version ${version}`,
+		});
+	}
+
+	private async findVersionRecord(
+		path: string,
+		version: number,
+	): Promise<VersionRecord> {
+		const node = await this.findFileNode(path);
+		this.checkAccess(node, "read", "open", path);
+		const record = await this.driver.findVersion(node.id, version);
+
+		if (!record) {
+			throw new Error(`Version ${version} not found: ${path}`);
+		}
+
+		return record;
+	}
+
+	/**
+	 * `path` with every symbolic link in it resolved, like `realpath(3)`,
+	 * except that it need not exist. Throws ELOOP on cycles.
+	 */
+	async realpath(path: string): Promise<string> {
+		return await this.realPath(path);
+	}
+
+	/**
+	 * Normalizes `path` and resolves symbolic links in its parents, and in its
+	 * last component unless `followLast` is false, as `lstat` and `unlink` do.
+	 */
+	private async realPath(path: string, followLast = true): Promise<string> {
+		const normalized = FileSystemUtils.normalizePath(path);
+		const resolved = await this.resolveLinks(
+			normalized,
+			followLast,
+			{ hops: 0 },
+			path,
+		);
+
+		if (
+			!(await this.canSearch(normalized)) ||
+			(resolved !== normalized && !(await this.canSearch(resolved)))
+		) {
+			throw new PermissionDeniedError("search", path);
+		}
+		return resolved;
+	}
+
+	private async resolveLinks(
+		path: string,
+		followLast: boolean,
+		state: { hops: number },
+		original: string,
+	): Promise<string> {
+		let resolved = path;
+		let node = await this.driver.findNodeByPath(path);
+
+		// Only a missing path can have a symbolic link among its parents
+		const parentPath = FileSystemUtils.getParentPath(path);
+		if (!node && parentPath) {
+			const parent = await this.resolveLinks(
+				parentPath,
+				true,
+				state,
+				original,
+			);
+			if (parent !== parentPath) {
+				const name = FileSystemUtils.getFileName(path);
+				resolved = parent === "/" ? `/${name}` : `${parent}/${name}`;
+				node = await this.driver.findNodeByPath(resolved);
+			}
+		}
+
+		if (!followLast || !node?.linkTarget) {
+			return resolved;
+		}
+		if (++state.hops > MAX_SYMLINK_HOPS) {
+			throw new SymlinkLoopError(original);
+		}
+		return await this.resolveLinks(
+			resolveLinkTarget(resolved, node.linkTarget),
+			true,
+			state,
+			original,
+		);
+	}
+
+	private async findFileNode(path: string): Promise<NodeRecord> {
+		const normalized = await this.realPath(path);
+		const node = await this.driver.findNodeByPath(normalized);
+
+		if (!node) {
+			throw new Error(`File not found: ${path}`);
+		}
+		if (node.isDirectory) {
+			throw new Error(`Not a file: ${path}`);
+		}
+
+		return node;
+	}
+
+	async readFile(path: string, options: ReadOptions = {}): Promise<{
+		content: string;
+		/** Pass as `ifMatch` to only write if nobody changed the file since */
+		revision: string;
+		totalLines?: number;
+		totalSize: number;
+		hasMore?: boolean;
+		offset?: number;
+		limit?: number;
+	}> {
+		const normalized = await this.realPath(path);
+		const node = await this.driver.findNodeByPath(normalized);
+
+		if (!node) {
+			throw new Error(`File not found: ${path}`);
+		}
+
+		if (node.isDirectory) {
+			throw new Error(`Cannot read directory as file: ${path}`);
+		}
+
+		this.checkAccess(node, "read", "open", path);
+		const revision = await this.revisionOf(node);
+
+		if (!node.contentHash) {
+			return {
+				content: "",
+				revision,
+				totalSize: 0,
+				totalLines: 0,
+			};
+		}
+
+		await this.touch(node);
+
+		const data = await this.driver.getContent(node.contentHash);
+		const totalSize = data.length;
+
+		if (options.encoding === "base64") {
+			return {
+				content: data.toString("base64"),
+				revision,
+				totalSize,
+			};
+		}
+
+		const fullContent = decodeContent(data, path);
+		const lines = fullContent.split("\n");
+		const totalLines = lines.length;
+
+		if (!options.offset && !options.limit && totalSize <= MAX_FILE_SIZE_BYTES) {
+			return {
+				content: fullContent,
+				revision,
+				totalSize,
+				totalLines,
+			};
+		}
+
+		const offset = Math.max(0, (options.offset || 1) - 1);
+		const limit = Math.min(
+			options.limit || MAX_LINES_PER_READ,
+			MAX_LINES_PER_READ,
+		);
+
+		const paginatedLines = lines.slice(offset, offset + limit);
 		const content = paginatedLines.join("\n");
 		const hasMore = offset + limit < totalLines;
 
 		return {
 			content,
+			revision,
 			totalLines,
 			totalSize,
 			hasMore,
@@ -197,250 +1230,1625 @@ export class DbFileSystem {
 		};
 	}
 
+	async readFileBuffer(path: string): Promise<Buffer> {
+		const node = await this.findFileNode(path);
+		this.checkAccess(node, "read", "open", path);
+
+		if (!node.contentHash) {
+			return Buffer.alloc(0);
+		}
+
+		await this.touch(node);
+		return await this.driver.getContent(node.contentHash);
+	}
+
+	async readFileRange(
+		path: string,
+		offset: number,
+		length: number,
+	): Promise<Buffer> {
+		const node = await this.findFileNode(path);
+		this.checkAccess(node, "read", "open", path);
+		const end = Math.min(node.size, offset + length);
+		const parts: Buffer[] = [];
+
+		for await (const part of this.readChunks(node, offset, end)) {
+			parts.push(part);
+		}
+
+		return Buffer.concat(parts);
+	}
+
+	/**
+	 * Streams file content, fetching one chunk at a time. As with Node's
+	 * `fs.createReadStream`, `end` is inclusive.
+	 */
+	createReadStream(
+		path: string,
+		options: { start?: number; end?: number } = {},
+	): Readable {
+		const self = this;
+
+		return Readable.from(
+			(async function* () {
+				const node = await self.findFileNode(path);
+				self.checkAccess(node, "read", "open", path);
+				const end =
+					options.end === undefined
+						? node.size
+						: Math.min(node.size, options.end + 1);
+				yield* self.readChunks(node, options.start || 0, end);
+			})(),
+			{ objectMode: false },
+		);
+	}
+
+	/** Records a read of `node`, right away or through `onAccess`. */
+	private async touch(node: NodeRecord): Promise<void> {
+		if (this.options.onAccess) {
+			this.options.onAccess(node.id, node.contentHash);
+			return;
+		}
+
+		const now = new Date();
+		await this.transaction(async (tx) => {
+			await tx.driver.touchNodes([node.id], now);
+			if (node.contentHash) {
+				await tx.driver.touchContent([node.contentHash], now);
+			}
+		});
+	}
+
+	private async *readChunks(
+		node: NodeRecord,
+		start: number,
+		end: number,
+	): AsyncGenerator<Buffer> {
+		if (!node.contentHash || start >= end) {
+			return;
+		}
+
+		await this.touch(node);
+		const chunks = await this.driver.findContentChunks(
+			node.contentHash,
+			start,
+			end,
+		);
+
+		for (const chunk of chunks) {
+			const data = await this.driver.getContent(chunk.hash);
+			yield data.subarray(
+				Math.max(0, start - chunk.offset),
+				Math.min(chunk.size, end - chunk.offset),
+			);
+		}
+	}
+
 	async mkdir(
 		path: string,
-		options: { recursive?: boolean; mode?: string; owner?: string } = {},
+		options: {
+			recursive?: boolean;
+			mode?: string;
+			owner?: string;
+			group?: string;
+		} = {},
 	): Promise<void> {
-		const normalized = FileSystemUtils.normalizePath(path);
+		await this.transaction(async (tx) => {
+			const normalized = await tx.realPath(path, false);
 
-		if (!FileSystemUtils.isValidPath(normalized)) {
-			throw new Error(`Invalid path: ${path}`);
+			if (!FileSystemUtils.isValidPath(normalized)) {
+				throw new Error(`Invalid path: ${path}`);
+			}
+
+			const existing = await tx.driver.findNodeByPath(normalized);
+			if (existing) {
+				if (existing.isDirectory) {
+					return;
+				}
+				// Like `mkdir -p`, accept a symbolic link to a directory
+				if (existing.linkTarget && options.recursive) {
+					const target = await tx.driver.findNodeByPath(
+						await tx.realPath(normalized),
+					);
+					if (target?.isDirectory) {
+						return;
+					}
+				}
+				throw new Error(`File exists at path: ${path}`);
+			}
+
+			const parentPath = FileSystemUtils.getParentPath(normalized);
+
+			if (parentPath && parentPath !== "/") {
+				const parent = await tx.driver.findNodeByPath(parentPath);
+				if (!parent) {
+					if (options.recursive) {
+						await tx.mkdir(parentPath, options);
+					} else {
+						throw new Error(`Parent directory not found: ${parentPath}`);
+					}
+				}
+			}
+
+			const parent = parentPath
+				? await tx.driver.findNodeByPath(parentPath)
+				: null;
+			if (parent) {
+				tx.checkAccess(parent, "write", "mkdir", path);
+			}
+
+			const ownership = tx.ownership(options);
+			await tx.enforceQuota(
+				normalized,
+				ownership.owner,
+				{ files: 1, bytes: 0 },
+				"mkdir",
+			);
+
+			const fileName = FileSystemUtils.getFileName(normalized);
+			const treePath = FileSystemUtils.pathToTreePath(normalized);
+			const nodeId = FileSystemUtils.generateId();
+
+			await tx.driver.insertNode({
+				id: nodeId,
+				path: normalized,
+				name: fileName,
+				treePath,
+				parentId: parent?.id || null,
+				isDirectory: true,
+				size: 0,
+				mode: options.mode ? normalizeMode(options.mode) : "0755",
+				...ownership,
+			});
+			await tx.audit("mkdir", normalized, {});
+			await tx.publish("create", (await tx.driver.findNodeByPath(normalized))!);
+		});
+	}
+
+	/**
+	 * Creates a symbolic link at `path` to `target`, which need not exist.
+	 * A relative target is resolved against the directory holding the link.
+	 */
+	async symlink(
+		target: string,
+		path: string,
+		options: { owner?: string; group?: string } = {},
+	): Promise<void> {
+		await this.transaction(async (tx) => {
+			const normalized = await tx.realPath(path, false);
+
+			if (!FileSystemUtils.isValidPath(normalized) || normalized === "/") {
+				throw new Error(`Invalid path: ${path}`);
+			}
+			if (!target) {
+				throw new Error(`Symbolic link target is empty: ${path}`);
+			}
+			if (await tx.driver.findNodeByPath(normalized)) {
+				throw new Error(`Path already exists: ${path}`);
+			}
+
+			const parentPath = FileSystemUtils.getParentPath(normalized)!;
+			const parent = await tx.driver.findNodeByPath(parentPath);
+			if (parentPath !== "/" && !parent) {
+				throw new Error(`Parent directory not found: ${parentPath}`);
+			}
+			if (parent) {
+				tx.checkAccess(parent, "write", "symlink", path);
+			}
+
+			const ownership = tx.ownership(options);
+			await tx.enforceQuota(
+				normalized,
+				ownership.owner,
+				{ files: 1, bytes: 0 },
+				"symlink",
+			);
+
+			await tx.driver.insertNode({
+				id: FileSystemUtils.generateId(),
+				path: normalized,
+				name: FileSystemUtils.getFileName(normalized),
+				treePath: FileSystemUtils.pathToTreePath(normalized),
+				parentId: parent?.id || null,
+				isDirectory: false,
+				size: Buffer.byteLength(target),
+				mode: "0777",
+				linkTarget: target,
+				...ownership,
+			});
+			await tx.audit("symlink", normalized, {});
+			await tx.publish("create", (await tx.driver.findNodeByPath(normalized))!);
+		});
+	}
+
+	/**
+	 * Creates a hard link: `newPath` becomes another name for the file at
+	 * `existingPath`. They share content, so a write through either changes
+	 * both, and deleting one leaves the other.
+	 */
+	async link(existingPath: string, newPath: string): Promise<void> {
+		await this.transaction(async (tx) => {
+			const source = await tx.findFileNode(existingPath);
+			const dest = await tx.realPath(newPath, false);
+			tx.checkAccess(source, "read", "link", existingPath);
+
+			if (await tx.driver.findNodeByPath(dest)) {
+				throw new Error(`Destination path already exists: ${newPath}`);
+			}
+
+			const linkId = source.linkId ?? source.id;
+			if (!source.linkId) {
+				await tx.driver.updateNode(source.id, { linkId });
+			}
+
+			await tx.linkContent(dest, source);
+			const created = (await tx.driver.findNodeByPath(dest))!;
+			await tx.driver.updateNode(created.id, { linkId });
+			await tx.audit("link", dest, {
+				oldPath: source.path,
+				newHash: source.contentHash,
+			});
+		});
+	}
+
+	/**
+	 * Lists the names in a directory, or with `recursive` the paths of
+	 * everything below it relative to it.
+	 */
+	async readdir(path: string, options: ListOptions = {}): Promise<{
+		items: string[];
+		total: number;
+		hasMore: boolean;
+		offset: number;
+		limit: number;
+	}> {
+		const { dir, nodes, ...page } = await this.listPage(path, options);
+		const prefix = dir === "/" ? "/" : `${dir}/`;
+
+		return {
+			items: nodes.map((n) =>
+				options.recursive ? n.path.slice(prefix.length) : n.name,
+			),
+			...page,
+		};
+	}
+
+	async readdirStats(
+		path: string,
+		options: ListOptions = {},
+	): Promise<{
+		items: FileStats[];
+		total: number;
+		hasMore: boolean;
+		offset: number;
+		limit: number;
+	}> {
+		const { dir: _dir, nodes, ...page } = await this.listPage(path, options);
+		return { items: nodes.map(toFileStats), ...page };
+	}
+
+	/**
+	 * One page of a listing, sorted and paginated by the driver. Patterns are
+	 * globs relative to the directory; without a slash they match names at
+	 * any depth of a recursive listing.
+	 */
+	private async listPage(
+		path: string,
+		options: ListOptions,
+	): Promise<{
+		dir: string;
+		nodes: NodeRecord[];
+		total: number;
+		hasMore: boolean;
+		offset: number;
+		limit: number;
+	}> {
+		const normalized = await this.realPath(path);
+		const node = await this.driver.findNodeByPath(normalized);
+
+		if (!node) {
+			throw new Error(`Directory not found: ${path}`);
+		}
+		if (!node.isDirectory) {
+			throw new Error(`Not a directory: ${path}`);
 		}
+		this.checkAccess(node, "read", "scandir", path);
 
-		const existing = await this.driver.findNodeByPath(normalized);
-		if (existing) {
-			if (existing.isDirectory) {
+		const offset = options.offset || 0;
+		const limit = Math.min(
+			options.limit || MAX_LIST_ITEMS,
+			MAX_LIST_ITEMS,
+		);
+		const pattern =
+			options.pattern && options.recursive && !options.pattern.includes("/")
+				? `**/${options.pattern}`
+				: options.pattern;
+
+		const query = {
+			parentId: node.id,
+			path: normalized,
+			recursive: options.recursive,
+			pathRegex: pattern
+				? FileSystemUtils.globToRegex(pattern, normalized)
+				: undefined,
+			sortBy: options.sortBy,
+			order: options.order,
+		};
+
+		// Entries of the directory itself are all listable, but deeper ones
+		// may not be, so the page and total then count only those that are
+		if (!this.principal || !options.recursive) {
+			const { nodes, total } = await this.driver.listNodes({
+				...query,
+				limit,
+				offset,
+			});
+			return {
+				dir: normalized,
+				nodes,
+				total,
+				hasMore: offset + limit < total,
+				offset,
+				limit,
+			};
+		}
+
+		const visible: NodeRecord[] = [];
+		let total = 0;
+		for (let scanned = 0; ; scanned += MAX_LIST_ITEMS) {
+			const batch = await this.driver.listNodes({
+				...query,
+				limit: MAX_LIST_ITEMS,
+				offset: scanned,
+			});
+			for (const child of await this.listable(batch.nodes)) {
+				if (total >= offset && total < offset + limit) {
+					visible.push(child);
+				}
+				total++;
+			}
+			if (scanned + MAX_LIST_ITEMS >= batch.total) break;
+		}
+
+		return {
+			dir: normalized,
+			nodes: visible,
+			total,
+			hasMore: offset + limit < total,
+			offset,
+			limit,
+		};
+	}
+
+	async stat(path: string): Promise<FileStats> {
+		const normalized = await this.realPath(path);
+		const node = await this.driver.findNodeByPath(normalized);
+
+		if (!node) {
+			throw new Error(`Path not found: ${path}`);
+		}
+
+		if (node.isDirectory) {
+			return toFileStats(node);
+		}
+		return {
+			...toFileStats(node),
+			revision: await this.revisionOf(node),
+			nlink: node.linkId
+				? (await this.driver.findNodesByLinkId(node.linkId)).length
+				: 1,
+		};
+	}
+
+	/** Like `stat`, but describes a symbolic link rather than its target. */
+	async lstat(path: string): Promise<FileStats> {
+		const normalized = await this.realPath(path, false);
+		const node = await this.driver.findNodeByPath(normalized);
+
+		if (!node) {
+			throw new Error(`Path not found: ${path}`);
+		}
+
+		return node.linkTarget ? toFileStats(node) : await this.stat(normalized);
+	}
+
+	/** Target of the symbolic link at `path`, as it was given to `symlink`. */
+	async readlink(path: string): Promise<string> {
+		const normalized = await this.realPath(path, false);
+		const node = await this.driver.findNodeByPath(normalized);
+
+		if (!node) {
+			throw new Error(`Path not found: ${path}`);
+		}
+		if (!node.linkTarget) {
+			throw new Error(`Not a symbolic link: ${path}`);
+		}
+
+		return node.linkTarget;
+	}
+
+	async exists(path: string): Promise<boolean> {
+		try {
+			const normalized = await this.realPath(path);
+			const node = await this.driver.findNodeByPath(normalized);
+			return node !== undefined;
+		} catch (error) {
+			// Like Node's `existsSync`, paths that cannot be resolved do not exist
+			if (
+				error instanceof SymlinkLoopError ||
+				error instanceof PermissionDeniedError
+			) {
+				return false;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Reports usage like `df`: file and directory counts and total file size,
+	 * for the workspace or only for nodes owned by `owner`, with the limits
+	 * that apply to them.
+	 */
+	async diskUsage(owner?: string): Promise<DiskUsage> {
+		const usage = await this.driver.getUsage(owner);
+		const limits =
+			owner === undefined ? this.options.quota : this.options.ownerQuota;
+
+		return {
+			...usage,
+			...(owner === undefined ? {} : { owner }),
+			limits: { ...limits },
+		};
+	}
+
+	/**
+	 * Calls `handler` for every committed change at or below `path`, including
+	 * changes made by other filesystem instances and, on PostgreSQL, other
+	 * processes. Deleting or renaming an ancestor of `path` is reported too.
+	 * Resolves to a function that stops watching.
+	 */
+	async watch(
+		path: string,
+		handler: (event: FileChangeEvent) => void,
+		options: WatchOptions = {},
+	): Promise<() => Promise<void>> {
+		const prefix = FileSystemUtils.normalizePath(path);
+		const within = (candidate: string, base: string) =>
+			base === "/" || candidate === base || candidate.startsWith(`${base}/`);
+
+		return await this.driver.subscribeChanges((change: ChangeRecord) => {
+			const matches =
+				within(change.path, prefix) ||
+				(change.oldPath !== undefined && within(change.oldPath, prefix)) ||
+				(change.type !== "create" &&
+					change.type !== "modify" &&
+					within(prefix, change.oldPath ?? change.path));
+			if (!matches) return;
+			if (this.principal && !hasAccess(change.node, this.principal, "read")) {
 				return;
 			}
-			throw new Error(`File exists at path: ${path}`);
+
+			handler({
+				type: change.type,
+				path: change.path,
+				...(change.oldPath === undefined ? {} : { oldPath: change.oldPath }),
+				stats: toFileStats(change.node),
+				timestamp: change.timestamp,
+			});
+		}, options.onError);
+	}
+
+	/**
+	 * Lists audit log entries, newest first. A copy shows up as the writes and
+	 * mkdirs it made; recursive deletes and renames as one entry for the top
+	 * node. Reading the log is reserved for callers without a principal.
+	 */
+	async auditLog(options: AuditLogOptions = {}): Promise<AuditRecord[]> {
+		if (this.principal) {
+			throw new PermissionDeniedError("auditLog", options.path ?? "/");
+		}
+
+		return await this.driver.findAuditEntries({
+			path:
+				options.path === undefined
+					? undefined
+					: FileSystemUtils.normalizePath(options.path),
+			since: options.since,
+			actor: options.actor,
+			toolCallId: options.toolCallId,
+			limit: options.limit || DEFAULT_AUDIT_LIMIT,
+		});
+	}
+
+	/** Changes the mode of a node. Only its owner may do so. */
+	async chmod(path: string, mode: string): Promise<void> {
+		const normalizedMode = normalizeMode(mode);
+
+		await this.transaction(async (tx) => {
+			const normalized = await tx.realPath(path);
+			const node = await tx.driver.findNodeByPath(normalized);
+
+			if (!node) {
+				throw new Error(`Path not found: ${path}`);
+			}
+			if (tx.principal && tx.principal.user !== node.owner) {
+				throw new PermissionDeniedError("chmod", path);
+			}
+
+			await tx.driver.updateNode(node.id, { mode: normalizedMode });
+			await tx.audit("chmod", normalized, {
+				oldHash: node.contentHash,
+				newHash: node.contentHash,
+			});
+			await tx.publish("modify", (await tx.driver.findNodeByPath(normalized))!);
+		});
+	}
+
+	/**
+	 * Changes the owner and optionally the group of a node. With a principal
+	 * the owner cannot change, but the owner may move a node into one of
+	 * their own groups.
+	 */
+	async chown(path: string, owner: string, group?: string): Promise<void> {
+		await this.transaction(async (tx) => {
+			const normalized = await tx.realPath(path);
+			const node = await tx.driver.findNodeByPath(normalized);
+
+			if (!node) {
+				throw new Error(`Path not found: ${path}`);
+			}
+
+			const principal = tx.principal;
+			if (principal) {
+				const allowed =
+					principal.user === node.owner &&
+					owner === node.owner &&
+					(group === undefined ||
+						group === node.group ||
+						principal.groups?.includes(group));
+				if (!allowed) {
+					throw new PermissionDeniedError("chown", path);
+				}
+			}
+
+			await tx.driver.updateNode(node.id, {
+				owner,
+				group: group ?? node.group,
+			});
+			await tx.audit("chown", normalized, {
+				oldHash: node.contentHash,
+				newHash: node.contentHash,
+			});
+			await tx.publish("modify", (await tx.driver.findNodeByPath(normalized))!);
+		});
+	}
+
+	/**
+	 * Merges `metadata` into the metadata of `path`, removing keys set to
+	 * null. With `replace`, it becomes the whole metadata instead.
+	 */
+	async setMetadata(
+		path: string,
+		metadata: Record<string, unknown>,
+		options: { replace?: boolean } = {},
+	): Promise<void> {
+		await this.transaction(async (tx) => {
+			const normalized = await tx.realPath(path);
+			const node = await tx.driver.findNodeByPath(normalized);
+
+			if (!node) {
+				throw new Error(`Path not found: ${path}`);
+			}
+			tx.checkAccess(node, "write", "setxattr", path);
+
+			const entries = Object.entries(
+				options.replace ? metadata : { ...node.metadata, ...metadata },
+			).filter(([, value]) => value !== null && value !== undefined);
+			await tx.driver.updateNode(node.id, {
+				metadata: Object.fromEntries(entries),
+			});
+			await tx.audit("metadata", normalized, {});
+			await tx.publish("modify", (await tx.driver.findNodeByPath(normalized))!);
+		});
+	}
+
+	/** Adds `tags` to the `tags` array in the metadata of `path`. */
+	async tag(path: string, tags: string[]): Promise<void> {
+		await this.transaction(async (tx) => {
+			const { tags: current = [] } = await tx.stat(path);
+			await tx.setMetadata(path, {
+				tags: [...new Set([...current, ...tags])],
+			});
+		});
+	}
+
+	/** Removes `tags` from the metadata of `path`. */
+	async untag(path: string, tags: string[]): Promise<void> {
+		await this.transaction(async (tx) => {
+			const { tags: current = [] } = await tx.stat(path);
+			await tx.setMetadata(path, {
+				tags: current.filter((tag) => !tags.includes(tag)),
+			});
+		});
+	}
+
+	/**
+	 * Deletes a file or directory. Unless `permanent` is set, it moves to the
+	 * trash with its versions, where `restore` can bring it back until
+	 * `emptyTrash` purges it.
+	 */
+	async unlink(
+		path: string,
+		options: { recursive?: boolean; permanent?: boolean } = {},
+	): Promise<void> {
+		await this.transaction(async (tx) => {
+			const normalized = await tx.realPath(path, false);
+			const node = await tx.driver.findNodeByPath(normalized);
+
+			if (!node) {
+				throw new Error(`Path not found: ${path}`);
+			}
+
+			await tx.checkParentAccess(normalized, "unlink", path);
+
+			if (node.isDirectory) {
+				const children = await tx.driver.findChildNodes(node.id);
+				if (children.length > 0 && !options.recursive) {
+					throw new Error(`Directory not empty: ${path}`);
+				}
+			}
+
+			if (node.isDirectory && tx.principal) {
+				// Removing entries needs write access to every directory emptied
+				tx.checkAccess(node, "write", "unlink", path);
+				const descendants =
+					await tx.driver.findDescendantsByPathPrefix(normalized);
+				for (const desc of descendants) {
+					if (desc.isDirectory) {
+						tx.checkAccess(desc, "write", "unlink", desc.path);
+					}
+				}
+			}
+
+			if (!options.permanent) {
+				await tx.moveToTrash(node);
+			} else {
+				// Descendants and versions go with the node, so release them all
+				for (const n of await tx.collectTree(node)) {
+					if (n.contentHash) {
+						await tx.driver.decrementRefCount(n.contentHash);
+					}
+
+					for (const version of await tx.driver.findVersions(n.id)) {
+						await tx.driver.decrementRefCount(version.contentHash);
+					}
+				}
+			}
+
+			await tx.driver.deleteNode(node.id);
+			await tx.audit("unlink", normalized, { oldHash: node.contentHash });
+			await tx.publish("delete", node);
+		});
+	}
+
+	/** `node` and everything below it, parents before their children. */
+	private async collectTree(node: NodeRecord): Promise<NodeRecord[]> {
+		if (!node.isDirectory) {
+			return [node];
+		}
+
+		const descendants = await this.driver.findDescendantsByPathPrefix(
+			node.path === "/" ? "" : node.path,
+		);
+		// A parent's path is a prefix of its children's, so it sorts first
+		return [
+			node,
+			...descendants
+				.filter((desc) => desc.id !== node.id)
+				.sort((a, b) => (a.path < b.path ? -1 : 1)),
+		];
+	}
+
+	/** Copies `node` and everything below it into a new trash entry. */
+	private async moveToTrash(node: NodeRecord): Promise<void> {
+		const nodes = await this.collectTree(node);
+
+		const versions: VersionRecord[] = [];
+		for (const n of nodes) {
+			versions.push(...(await this.driver.findVersions(n.id)));
+		}
+
+		await this.driver.insertTrashEntry({
+			id: FileSystemUtils.generateId(),
+			path: node.path,
+			isDirectory: node.isDirectory,
+			nodeCount: nodes.length,
+			size: nodes.reduce((sum, n) => sum + (n.isDirectory ? 0 : n.size), 0),
+			deletedBy: this.principal?.user ?? this.options.audit?.actor ?? null,
+			tree: { nodes, versions },
+		});
+	}
+
+	/**
+	 * Trash entries, most recently deleted first. With a principal, only the
+	 * entries it deleted.
+	 */
+	async listTrash(): Promise<TrashRecord[]> {
+		const entries = await this.driver.findTrashEntries();
+		const principal = this.principal;
+		return principal
+			? entries.filter((entry) => entry.deletedBy === principal.user)
+			: entries;
+	}
+
+	/**
+	 * Brings back the most recently deleted tree from `path`, or moves it to
+	 * `options.to`, with its versions and original timestamps. Missing parent
+	 * directories are created.
+	 */
+	async restore(path: string, options: { to?: string } = {}): Promise<void> {
+		await this.transaction(async (tx) => {
+			const normalized = FileSystemUtils.normalizePath(path);
+			const entry = (await tx.listTrash()).find((e) => e.path === normalized);
+			const tree = entry && (await tx.driver.findTrashedTree(entry.id));
+			if (!entry || !tree) {
+				throw new Error(`Not found in trash: ${path}`);
+			}
+
+			const destPath = options.to ?? path;
+			const dest = await tx.realPath(destPath, false);
+			if (!FileSystemUtils.isValidPath(dest) || dest === "/") {
+				throw new Error(`Invalid path: ${destPath}`);
+			}
+			if (await tx.driver.findNodeByPath(dest)) {
+				throw new Error(`Destination path already exists: ${destPath}`);
+			}
+
+			const parentPath = FileSystemUtils.getParentPath(dest)!;
+			await tx.mkdir(parentPath, { recursive: true });
+			const parent = (await tx.driver.findNodeByPath(parentPath))!;
+			tx.checkAccess(parent, "write", "restore", destPath);
+
+			const [top] = tree.nodes;
+			await tx.enforceQuota(
+				dest,
+				top.owner,
+				{ files: entry.nodeCount, bytes: entry.size },
+				"restore",
+			);
+
+			for (const node of tree.nodes) {
+				const nodePath = dest + node.path.slice(entry.path.length);
+				await tx.driver.insertNode({
+					id: node.id,
+					path: nodePath,
+					name: FileSystemUtils.getFileName(nodePath),
+					treePath: FileSystemUtils.pathToTreePath(nodePath),
+					parentId: node === top ? parent.id : node.parentId,
+					isDirectory: node.isDirectory,
+					size: node.size,
+					mimeType: node.mimeType,
+					contentHash: node.contentHash,
+					mode: node.mode,
+					owner: node.owner,
+					group: node.group,
+					metadata: node.metadata ?? {},
+					// A restored hard link no longer shares writes with the others
+					linkTarget: node.linkTarget ?? null,
+				});
+				await tx.driver.updateNode(node.id, {
+					createdAt: node.createdAt,
+					modifiedAt: node.modifiedAt,
+					accessedAt: node.accessedAt,
+				});
+
+				if (!node.isDirectory && node.contentHash) {
+					const data = await tx.driver.getContent(node.contentHash);
+					await tx.driver.updateSearchIndex(
+						node.id,
+						nodePath,
+						indexableText(data),
+					);
+				}
+			}
+
+			for (const version of tree.versions) {
+				await tx.driver.insertVersion({
+					id: version.id,
+					nodeId: version.nodeId,
+					version: version.version,
+					contentHash: version.contentHash,
+					size: version.size,
+					createdBy: version.createdBy,
+					comment: version.comment,
+					createdAt: version.createdAt,
+				});
+			}
+
+			// The restored nodes and versions take the entry's references back
+			await tx.driver.deleteTrashEntry(entry.id);
+			await tx.audit("restore", dest, {
+				oldPath: entry.path,
+				newHash: top.contentHash,
+			});
+			await tx.publish("create", (await tx.driver.findNodeByPath(dest))!);
+		});
+	}
+
+	/**
+	 * Permanently deletes trash entries, or only those deleted before
+	 * `olderThan`, so `garbageCollect` can reclaim their content. Resolves to
+	 * the number of entries purged.
+	 */
+	async emptyTrash(olderThan?: Date): Promise<number> {
+		return await this.transaction(async (tx) => {
+			let purged = 0;
+
+			for (const entry of await tx.listTrash()) {
+				if (olderThan && entry.deletedAt >= olderThan) continue;
+
+				const tree = await tx.driver.findTrashedTree(entry.id);
+				if (!tree) continue;
+
+				for (const { contentHash } of [...tree.nodes, ...tree.versions]) {
+					if (contentHash) {
+						await tx.driver.decrementRefCount(contentHash);
+					}
+				}
+
+				await tx.driver.deleteTrashEntry(entry.id);
+				await tx.audit("purge", entry.path, {
+					oldHash: tree.nodes[0].contentHash,
+				});
+				purged++;
+			}
+
+			return purged;
+		});
+	}
+
+	/**
+	 * Recounts content references from the nodes, versions, trash entries,
+	 * snapshots and chunked content holding them. With `repair`, wrong counts
+	 * are corrected and orphaned content is collected; a file whose content is
+	 * missing falls back to its newest intact version, or becomes empty.
+	 * Reserved for callers without a principal.
+	 */
+	async fsck(options: { repair?: boolean } = {}): Promise<FsckReport> {
+		if (this.principal) {
+			throw new PermissionDeniedError("fsck", "/");
+		}
+
+		return await this.transaction(async (tx) => {
+			let blocks = await tx.driver.findContentRefs();
+			let refs = await tx.contentReferences(blocks);
+			const stored = new Set(blocks.map((block) => block.hash));
+			const dangling = refs.filter((ref) => !stored.has(ref.hash));
+
+			if (options.repair && dangling.some((ref) => ref.source === "node")) {
+				for (const ref of dangling) {
+					if (ref.source === "node") {
+						await tx.repairContent(ref.path!, stored);
+					}
+				}
+				blocks = await tx.driver.findContentRefs();
+				refs = await tx.contentReferences(blocks);
+			}
+
+			const actual = new Map<string, number>();
+			for (const { hash } of refs) {
+				actual.set(hash, (actual.get(hash) ?? 0) + 1);
+			}
+
+			const refCounts = blocks
+				.map((block) => ({
+					hash: block.hash,
+					stored: block.refCount,
+					actual: actual.get(block.hash) ?? 0,
+				}))
+				.filter((count) => count.stored !== count.actual);
+			const orphans = blocks
+				.filter((block) => !actual.has(block.hash))
+				.map((block) => block.hash);
+
+			let reclaimed = 0;
+			if (options.repair) {
+				for (const count of refCounts) {
+					await tx.driver.setRefCount(count.hash, count.actual);
+				}
+				reclaimed = await tx.driver.garbageCollect();
+			}
+
+			return { refCounts, orphans, dangling, reclaimed };
+		});
+	}
+
+	/**
+	 * Indexes the text of every file again, for search indexes that were
+	 * lost or built by an older version. Resolves to the number of files
+	 * indexed. Reserved for callers without a principal.
+	 */
+	async rebuildSearchIndex(): Promise<number> {
+		if (this.principal) {
+			throw new PermissionDeniedError("rebuildSearchIndex", "/");
+		}
+
+		const root = await this.driver.findNodeByPath("/");
+		let indexed = 0;
+		for (const node of root ? await this.collectTree(root) : []) {
+			if (node.isDirectory) continue;
+			const data = node.contentHash
+				? await this.driver.getContent(node.contentHash)
+				: Buffer.alloc(0);
+			await this.driver.updateSearchIndex(
+				node.id,
+				node.path,
+				indexableText(data),
+			);
+			indexed++;
+		}
+		return indexed;
+	}
+
+	/** Every reference to stored content in the workspace. */
+	private async contentReferences(
+		blocks: ContentRefRecord[],
+	): Promise<ContentReference[]> {
+		const refs: ContentReference[] = [];
+		const hold = (
+			hash: string | null,
+			source: ContentReference["source"],
+			path: string | null,
+		) => {
+			if (hash) refs.push({ hash, source, path });
+		};
+
+		const root = await this.driver.findNodeByPath("/");
+		for (const node of root ? await this.collectTree(root) : []) {
+			hold(node.contentHash, "node", node.path);
+			for (const version of await this.driver.findVersions(node.id)) {
+				hold(version.contentHash, "version", node.path);
+			}
+		}
+
+		for (const entry of await this.driver.findTrashEntries()) {
+			const tree = await this.driver.findTrashedTree(entry.id);
+			const paths = new Map(tree?.nodes.map((n) => [n.id, n.path]));
+			for (const node of tree?.nodes ?? []) {
+				hold(node.contentHash, "trash", node.path);
+			}
+			for (const version of tree?.versions ?? []) {
+				hold(version.contentHash, "trash", paths.get(version.nodeId)!);
+			}
+		}
+
+		for (const snapshot of await this.driver.findSnapshots()) {
+			const manifest = await this.driver.findSnapshotManifest(snapshot.id);
+			for (const entry of manifest ?? []) {
+				hold(entry.contentHash, "snapshot", entry.path);
+			}
+		}
+
+		for (const block of blocks) {
+			for (const chunk of block.chunks) {
+				hold(chunk, "chunk", null);
+			}
 		}
 
-		const parentPath = FileSystemUtils.getParentPath(normalized);
+		return refs;
+	}
 
-		if (parentPath && parentPath !== "/") {
-			const parent = await this.driver.findNodeByPath(parentPath);
-			if (!parent) {
-				if (options.recursive) {
-					await this.mkdir(parentPath, options);
-				} else {
-					throw new Error(`Parent directory not found: ${parentPath}`);
-				}
+	/** Points a file whose content is missing at its newest intact version. */
+	private async repairContent(
+		path: string,
+		stored: Set<string>,
+	): Promise<void> {
+		const node = (await this.driver.findNodeByPath(path))!;
+		const versions = await this.driver.findVersions(node.id);
+		const intact = versions.find((v) => stored.has(v.contentHash));
+		const contentHash =
+			intact?.contentHash ??
+			(await this.driver.getOrCreateContent(Buffer.alloc(0)));
+
+		await this.driver.updateNode(node.id, {
+			contentHash,
+			size: intact?.size ?? 0,
+		});
+		const data = await this.driver.getContent(contentHash);
+		await this.driver.updateSearchIndex(node.id, path, indexableText(data));
+	}
+
+	/**
+	 * Records the tree at `path` under `label`. Only paths and content hashes
+	 * are stored; the snapshot keeps that content from being collected until
+	 * it is deleted.
+	 */
+	async snapshot(path: string, label: string): Promise<SnapshotRecord> {
+		return await this.transaction(async (tx) => {
+			const normalized = await tx.realPath(path);
+			const node = await tx.driver.findNodeByPath(normalized);
+			if (!node) {
+				throw new Error(`Path not found: ${path}`);
+			}
+			if ((await tx.driver.findSnapshots()).some((s) => s.label === label)) {
+				throw new Error(`Snapshot already exists: ${label}`);
 			}
-		}
 
-		const parent = parentPath
-			? await this.driver.findNodeByPath(parentPath)
-			: null;
-		const fileName = FileSystemUtils.getFileName(normalized);
-		const treePath = FileSystemUtils.pathToTreePath(normalized);
-		const nodeId = FileSystemUtils.generateId();
+			const nodes = await tx.collectTree(node);
+			const manifest: SnapshotEntry[] = [];
+			for (const n of nodes) {
+				tx.checkAccess(n, "read", "snapshot", n.path);
+				if (n.contentHash) {
+					await tx.driver.incrementRefCount(n.contentHash);
+				}
+				manifest.push({
+					path: n.path,
+					isDirectory: n.isDirectory,
+					contentHash: n.contentHash,
+					size: n.size,
+					mimeType: n.mimeType,
+					mode: n.mode,
+					owner: n.owner,
+					group: n.group,
+					metadata: n.metadata,
+					linkTarget: n.linkTarget,
+				});
+			}
 
-		await this.driver.insertNode({
-			id: nodeId,
-			path: normalized,
-			name: fileName,
-			treePath,
-			parentId: parent?.id || null,
-			isDirectory: true,
-			size: 0,
-			mode: options.mode || "0755",
-			owner: options.owner || "default",
+			const id = FileSystemUtils.generateId();
+			await tx.driver.insertSnapshot({
+				id,
+				label,
+				path: normalized,
+				nodeCount: nodes.length,
+				size: nodes.reduce((sum, n) => sum + (n.isDirectory ? 0 : n.size), 0),
+				createdBy: tx.principal?.user ?? tx.options.audit?.actor ?? null,
+				manifest,
+			});
+			return (await tx.driver.findSnapshots()).find((s) => s.id === id)!;
 		});
 	}
 
-	async readdir(path: string, options: ListOptions = {}): Promise<{
-		items: string[];
-		total: number;
-		hasMore: boolean;
-		offset: number;
-		limit: number;
-	}> {
-		const normalized = FileSystemUtils.normalizePath(path);
-		const node = await this.driver.findNodeByPath(normalized);
-
-		if (!node) {
-			throw new Error(`Directory not found: ${path}`);
+	/**
+	 * Snapshots, most recent first. With a principal, only those it took or
+	 * whose root it can read.
+	 */
+	async listSnapshots(): Promise<SnapshotRecord[]> {
+		const snapshots = await this.driver.findSnapshots();
+		const principal = this.principal;
+		if (!principal) {
+			return snapshots;
 		}
-		if (!node.isDirectory) {
-			throw new Error(`Not a directory: ${path}`);
+
+		const visible: SnapshotRecord[] = [];
+		for (const snapshot of snapshots) {
+			if (
+				snapshot.createdBy === principal.user ||
+				(await this.canRead(snapshot.path))
+			) {
+				visible.push(snapshot);
+			}
 		}
+		return visible;
+	}
 
-		const allNodes = await this.driver.findChildNodes(node.id);
-		const total = allNodes.length;
+	/**
+	 * Rolls the snapshot's tree back to its captured state. Anything created
+	 * since is moved to the trash, and files that are unchanged keep their
+	 * history untouched. With a principal, it must have taken the snapshot or
+	 * be able to write its root.
+	 */
+	async restoreSnapshot(label: string): Promise<void> {
+		await this.transaction(async (tx) => {
+			const snapshot = await tx.findSnapshot(label);
+			await tx.checkSnapshotAccess(snapshot, "restore snapshot");
+			const manifest = (await tx.driver.findSnapshotManifest(snapshot.id))!;
+			const captured = new Map(manifest.map((entry) => [entry.path, entry]));
+
+			const root = await tx.driver.findNodeByPath(snapshot.path);
+			const removed: string[] = [];
+			for (const node of root ? await tx.collectTree(root) : []) {
+				if (removed.some((path) => node.path.startsWith(`${path}/`))) {
+					continue;
+				}
+				const entry = captured.get(node.path);
+				if (
+					!entry ||
+					entry.isDirectory !== node.isDirectory ||
+					(entry.linkTarget ?? null) !== node.linkTarget
+				) {
+					await tx.unlink(node.path, { recursive: true });
+					removed.push(node.path);
+				}
+			}
 
-		const offset = options.offset || 0;
-		const limit = Math.min(
-			options.limit || MAX_LIST_ITEMS,
-			MAX_LIST_ITEMS,
-		);
+			for (const entry of manifest) {
+				if (entry.isDirectory) {
+					await tx.mkdir(entry.path, {
+						recursive: true,
+						mode: entry.mode,
+						owner: entry.owner,
+						group: entry.group,
+					});
+					continue;
+				}
 
-		const paginatedNodes = allNodes.slice(offset, offset + limit);
-		const hasMore = offset + limit < total;
+				const existing = await tx.driver.findNodeByPath(entry.path);
+				if (entry.linkTarget) {
+					if (!existing) {
+						await tx.symlink(entry.linkTarget, entry.path, {
+							owner: entry.owner,
+							group: entry.group,
+						});
+					}
+					continue;
+				}
+				if (existing?.contentHash !== entry.contentHash) {
+					await tx.linkContent(entry.path, entry, { createParents: true });
+				}
+			}
+		});
+	}
 
-		return {
-			items: paginatedNodes.map((n) => n.name),
-			total,
-			hasMore,
-			offset,
-			limit,
-		};
+	/**
+	 * Deletes a snapshot and releases the content it kept alive. With a
+	 * principal, it must have taken the snapshot or be able to write its root.
+	 */
+	async deleteSnapshot(label: string): Promise<void> {
+		await this.transaction(async (tx) => {
+			const snapshot = await tx.findSnapshot(label);
+			await tx.checkSnapshotAccess(snapshot, "delete snapshot");
+			const manifest = await tx.driver.findSnapshotManifest(snapshot.id);
+			for (const { contentHash } of manifest ?? []) {
+				if (contentHash) {
+					await tx.driver.decrementRefCount(contentHash);
+				}
+			}
+			await tx.driver.deleteSnapshot(snapshot.id);
+		});
 	}
 
-	async readdirStats(
-		path: string,
-		options: ListOptions = {},
-	): Promise<{
-		items: FileStats[];
-		total: number;
-		hasMore: boolean;
-		offset: number;
-		limit: number;
-	}> {
-		const normalized = FileSystemUtils.normalizePath(path);
-		const node = await this.driver.findNodeByPath(normalized);
+	private async findSnapshot(label: string): Promise<SnapshotRecord> {
+		const snapshot = (await this.driver.findSnapshots()).find(
+			(s) => s.label === label,
+		);
+		if (!snapshot) {
+			throw new Error(`Snapshot not found: ${label}`);
+		}
+		return snapshot;
+	}
 
-		if (!node) {
-			throw new Error(`Directory not found: ${path}`);
+	private async checkSnapshotAccess(
+		snapshot: SnapshotRecord,
+		operation: string,
+	): Promise<void> {
+		if (!this.principal || snapshot.createdBy === this.principal.user) {
+			return;
 		}
-		if (!node.isDirectory) {
-			throw new Error(`Not a directory: ${path}`);
+		const root = await this.driver.findNodeByPath(snapshot.path);
+		if (
+			!root ||
+			!hasAccess(root, this.principal, "write") ||
+			!(await this.canSearch(snapshot.path))
+		) {
+			throw new PermissionDeniedError(operation, snapshot.path);
 		}
+	}
 
-		const allNodes = await this.driver.findChildNodes(node.id);
-		const total = allNodes.length;
+	/**
+	 * Branches the tree at `sourcePath` into `destPath`. Files in the branch
+	 * share stored content with their source until either side is written.
+	 */
+	async fork(sourcePath: string, destPath: string): Promise<void> {
+		await this.transaction(async (tx) => {
+			const normalizedSource = await tx.realPath(sourcePath);
+			const normalizedDest = await tx.realPath(destPath, false);
+
+			const sourceNode = await tx.driver.findNodeByPath(normalizedSource);
+			if (!sourceNode) {
+				throw new Error(`Source path not found: ${sourcePath}`);
+			}
+			if (await tx.driver.findNodeByPath(normalizedDest)) {
+				throw new Error(`Destination path already exists: ${destPath}`);
+			}
+			if (
+				normalizedSource === "/" ||
+				normalizedDest.startsWith(`${normalizedSource}/`)
+			) {
+				throw new Error(`Cannot fork a directory into itself: ${destPath}`);
+			}
 
-		const offset = options.offset || 0;
-		const limit = Math.min(
-			options.limit || MAX_LIST_ITEMS,
-			MAX_LIST_ITEMS,
-		);
+			for (const node of await tx.collectTree(sourceNode)) {
+				tx.checkAccess(node, "read", "fork", node.path);
+				const path =
+					normalizedDest + node.path.slice(normalizedSource.length);
+				if (node.isDirectory) {
+					await tx.mkdir(path, {
+						recursive: true,
+						mode: node.mode,
+						owner: node.owner,
+						group: node.group,
+					});
+				} else if (node.linkTarget) {
+					await tx.symlink(node.linkTarget, path, {
+						owner: node.owner,
+						group: node.group,
+					});
+				} else {
+					await tx.linkContent(path, node, { createParents: true });
+				}
+			}
+		});
+	}
 
-		const paginatedNodes = allNodes.slice(offset, offset + limit);
-		const hasMore = offset + limit < total;
+	/** Writes a file that reuses content already in the store. */
+	private async linkContent(
+		path: string,
+		source: SnapshotEntry,
+		options: WriteOptions = {},
+	): Promise<void> {
+		const contentHash = source.contentHash!;
+		// putFile takes over one reference to the content
+		await this.driver.incrementRefCount(contentHash);
+		const data = await this.driver.getContent(contentHash);
+		await this.putFile(path, contentHash, source.size, indexableText(data), {
+			...options,
+			mode: source.mode,
+			owner: source.owner,
+			group: source.group,
+			mimeType: source.mimeType ?? undefined,
+			metadata: source.metadata ?? undefined,
+		});
+	}
 
-		return {
-			items: paginatedNodes.map((n) => ({
-				path: n.path,
-				name: n.name,
-				isDirectory: n.isDirectory,
-				size: n.size,
-				mimeType: n.mimeType || undefined,
-				createdAt: n.createdAt,
-				modifiedAt: n.modifiedAt,
-				accessedAt: n.accessedAt,
-				mode: n.mode,
-				owner: n.owner,
-			})),
-			total,
-			hasMore,
-			offset,
-			limit,
+	/**
+	 * Compares two trees by content hash, with a unified diff for every file
+	 * that was added, removed or changed from `a` to `b`.
+	 */
+	async diffTrees(
+		a: TreeRef,
+		b: TreeRef,
+		options: { context?: number } = {},
+	): Promise<TreeDiff> {
+		const before = await this.loadTree(a);
+		const after = await this.loadTree(b);
+		const result: TreeDiff = {
+			added: [],
+			removed: [],
+			modified: [],
+			files: [],
 		};
-	}
 
-	async stat(path: string): Promise<FileStats> {
-		const normalized = FileSystemUtils.normalizePath(path);
-		const node = await this.driver.findNodeByPath(normalized);
+		const fileDiff = async (
+			path: string,
+			status: FileDiff["status"],
+			oldEntry: SnapshotEntry | undefined,
+			newEntry: SnapshotEntry | undefined,
+		) => {
+			const oldText = await this.treeText(oldEntry);
+			const newText = await this.treeText(newEntry);
+			result.files.push({
+				path,
+				status,
+				diff:
+					oldText === null || newText === null
+						? null
+						: unifiedDiff(oldText, newText, {
+								oldLabel: oldEntry ? `a/${path}` : "/dev/null",
+								newLabel: newEntry ? `b/${path}` : "/dev/null",
+								context: options.context,
+							}),
+			});
+		};
 
-		if (!node) {
-			throw new Error(`Path not found: ${path}`);
+		const paths = [...new Set([...before.keys(), ...after.keys()])].sort();
+		for (const path of paths) {
+			const oldEntry = before.get(path);
+			const newEntry = after.get(path);
+
+			if (
+				oldEntry &&
+				newEntry &&
+				oldEntry.isDirectory === newEntry.isDirectory
+			) {
+				if (
+					!oldEntry.isDirectory &&
+					(oldEntry.contentHash !== newEntry.contentHash ||
+						(oldEntry.linkTarget ?? null) !==
+							(newEntry.linkTarget ?? null))
+				) {
+					result.modified.push(path);
+					await fileDiff(path, "modified", oldEntry, newEntry);
+				}
+				continue;
+			}
+
+			// A path that changed between file and directory is both
+			if (oldEntry) {
+				result.removed.push(path);
+				if (!oldEntry.isDirectory) {
+					await fileDiff(path, "removed", oldEntry, undefined);
+				}
+			}
+			if (newEntry) {
+				result.added.push(path);
+				if (!newEntry.isDirectory) {
+					await fileDiff(path, "added", undefined, newEntry);
+				}
+			}
 		}
 
-		return {
-			path: node.path,
-			name: node.name,
-			isDirectory: node.isDirectory,
-			size: node.size,
-			mimeType: node.mimeType || undefined,
-			createdAt: node.createdAt,
-			modifiedAt: node.modifiedAt,
-			accessedAt: node.accessedAt,
-			mode: node.mode,
-			owner: node.owner,
-		};
+		return result;
 	}
 
-	async exists(path: string): Promise<boolean> {
-		const normalized = FileSystemUtils.normalizePath(path);
-		const node = await this.driver.findNodeByPath(normalized);
-		return node !== undefined;
-	}
+	/**
+	 * Three-way merge of the changes `theirs` made since `base` into the
+	 * directory `ours`. Text files both sides edited are merged line by line,
+	 * with conflict markers where the edits overlap. Other paths both sides
+	 * changed keep the `ours` version and are reported as conflicts. Removed
+	 * files go to the trash.
+	 */
+	async mergeTrees(
+		base: TreeRef,
+		ours: string,
+		theirs: TreeRef,
+	): Promise<TreeMergeResult> {
+		return await this.transaction(async (tx) => {
+			const root = await tx.realPath(ours);
+			const baseTree = await tx.loadTree(base);
+			const ourTree = await tx.loadTree(root);
+			const theirTree = await tx.loadTree(theirs);
+			const result: TreeMergeResult = { changed: [], conflicts: [] };
+
+			const key = (entry?: SnapshotEntry) =>
+				!entry
+					? null
+					: entry.isDirectory
+						? "dir"
+						: entry.linkTarget
+							? `link:${entry.linkTarget}`
+							: entry.contentHash;
+			const target = (path: string) =>
+				root === "/" ? `/${path}` : `${root}/${path}`;
+
+			const removals: string[] = [];
+			const additions: Array<[string, SnapshotEntry]> = [];
+			const paths = [
+				...new Set([
+					...baseTree.keys(),
+					...ourTree.keys(),
+					...theirTree.keys(),
+				]),
+			].sort();
+
+			for (const path of paths) {
+				const baseEntry = baseTree.get(path);
+				const ourEntry = ourTree.get(path);
+				const theirEntry = theirTree.get(path);
+				if (
+					key(ourEntry) === key(theirEntry) ||
+					key(baseEntry) === key(theirEntry)
+				) {
+					continue;
+				}
 
-	async unlink(
-		path: string,
-		options: { recursive?: boolean } = {},
-	): Promise<void> {
-		const normalized = FileSystemUtils.normalizePath(path);
-		const node = await this.driver.findNodeByPath(normalized);
+				if (key(baseEntry) === key(ourEntry)) {
+					// Symbolic links are replaced rather than written through
+					if (
+						ourEntry &&
+						(ourEntry.isDirectory !== theirEntry?.isDirectory ||
+							ourEntry.linkTarget ||
+							theirEntry?.linkTarget)
+					) {
+						removals.push(path);
+					}
+					if (theirEntry) {
+						additions.push([path, theirEntry]);
+					}
+					continue;
+				}
 
-		if (!node) {
-			throw new Error(`Path not found: ${path}`);
-		}
+				const bothFiles =
+					ourEntry?.isDirectory === false && theirEntry?.isDirectory === false;
+				const texts = bothFiles
+					? [
+							baseEntry?.isDirectory ? "" : await tx.treeText(baseEntry),
+							await tx.treeText(ourEntry),
+							await tx.treeText(theirEntry),
+						]
+					: null;
+				if (!texts || texts.includes(null)) {
+					result.conflicts.push(target(path));
+					continue;
+				}
 
-		if (node.isDirectory) {
-			const result = await this.readdir(normalized, { limit: 1 });
-			if (result.total > 0 && !options.recursive) {
-				throw new Error(`Directory not empty: ${path}`);
+				const [baseText, ourText, theirText] = texts as string[];
+				const merged = mergeText(baseText, ourText, theirText, {
+					ours: target(path),
+					theirs: typeof theirs === "string" ? theirs : theirs.snapshot,
+				});
+				await tx.writeFile(target(path), merged.content);
+				result.changed.push(target(path));
+				if (merged.conflicts > 0) {
+					result.conflicts.push(target(path));
+				}
+			}
+
+			// Children before their parents
+			for (const path of removals.reverse()) {
+				const node = (await tx.driver.findNodeByPath(target(path)))!;
+				const children = node.isDirectory
+					? await tx.driver.findChildNodes(node.id)
+					: [];
+				if (children.length > 0) {
+					// Still holds files only `ours` added
+					result.conflicts.push(target(path));
+					continue;
+				}
+				await tx.unlink(target(path));
+				result.changed.push(target(path));
+			}
+
+			for (const [path, entry] of additions) {
+				if (result.conflicts.includes(target(path))) {
+					continue;
+				}
+				if (entry.isDirectory) {
+					await tx.mkdir(target(path), {
+						recursive: true,
+						mode: entry.mode,
+						owner: entry.owner,
+						group: entry.group,
+					});
+				} else if (entry.linkTarget) {
+					await tx.symlink(entry.linkTarget, target(path), {
+						owner: entry.owner,
+						group: entry.group,
+					});
+				} else {
+					await tx.linkContent(target(path), entry, { createParents: true });
+				}
+				if (!result.changed.includes(target(path))) {
+					result.changed.push(target(path));
+				}
+			}
+
+			result.changed.sort();
+			result.conflicts.sort();
+			return result;
+		});
+	}
+
+	/**
+	 * Files and directories below a tree's root, keyed by their path relative
+	 * to it.
+	 */
+	private async loadTree(ref: TreeRef): Promise<Map<string, SnapshotEntry>> {
+		let root: string;
+		let entries: SnapshotEntry[];
+
+		if (typeof ref === "string") {
+			root = await this.realPath(ref);
+			const node = await this.driver.findNodeByPath(root);
+			if (!node) {
+				throw new Error(`Path not found: ${ref}`);
+			}
+			entries = await this.collectTree(node);
+			for (const entry of entries) {
+				this.checkAccess(entry as NodeRecord, "read", "open", entry.path);
 			}
+		} else {
+			const snapshot = await this.findSnapshot(ref.snapshot);
+			root = snapshot.path;
+			entries = (await this.driver.findSnapshotManifest(snapshot.id)) ?? [];
 		}
 
-		if (node.contentHash) {
-			await this.driver.decrementRefCount(node.contentHash);
+		if (!entries[0]?.isDirectory) {
+			throw new Error(`Not a directory: ${root}`);
 		}
 
-		await this.driver.deleteNode(node.id);
+		const prefix = root === "/" ? "/" : `${root}/`;
+		return new Map(
+			entries.slice(1).map((entry) => [entry.path.slice(prefix.length), entry]),
+		);
+	}
+
+	/**
+	 * Text of a tree file, "" when absent, or null for binary content and
+	 * symbolic links.
+	 */
+	private async treeText(entry?: SnapshotEntry): Promise<string | null> {
+		if (entry?.linkTarget) {
+			return null;
+		}
+		if (!entry?.contentHash) {
+			return "";
+		}
+		const data = await this.driver.getContent(entry.contentHash);
+		return FileSystemUtils.isBinary(data) ? null : data.toString("utf8");
 	}
 
 	async rename(oldPath: string, newPath: string): Promise<void> {
-		const normalizedOld = FileSystemUtils.normalizePath(oldPath);
-		const normalizedNew = FileSystemUtils.normalizePath(newPath);
+		await this.transaction(async (tx) => {
+			const normalizedOld = await tx.realPath(oldPath, false);
+			const normalizedNew = await tx.realPath(newPath, false);
 
-		const node = await this.driver.findNodeByPath(normalizedOld);
-		if (!node) {
-			throw new Error(`Source path not found: ${oldPath}`);
-		}
+			const node = await tx.driver.findNodeByPath(normalizedOld);
+			if (!node) {
+				throw new Error(`Source path not found: ${oldPath}`);
+			}
 
-		const existingNew = await this.driver.findNodeByPath(normalizedNew);
-		if (existingNew) {
-			throw new Error(`Destination path already exists: ${newPath}`);
-		}
+			const existingNew = await tx.driver.findNodeByPath(normalizedNew);
+			if (existingNew) {
+				throw new Error(`Destination path already exists: ${newPath}`);
+			}
 
-		const newParentPath = FileSystemUtils.getParentPath(normalizedNew);
-		const newParent = newParentPath
-			? await this.driver.findNodeByPath(newParentPath)
-			: null;
+			const newParentPath = FileSystemUtils.getParentPath(normalizedNew);
+			const newParent = newParentPath
+				? await tx.driver.findNodeByPath(newParentPath)
+				: null;
 
-		if (newParentPath && !newParent) {
-			throw new Error(
-				`Destination parent directory not found: ${newParentPath}`,
-			);
-		}
+			if (newParentPath && !newParent) {
+				throw new Error(
+					`Destination parent directory not found: ${newParentPath}`,
+				);
+			}
 
-		const newFileName = FileSystemUtils.getFileName(normalizedNew);
-		const newTreePath = FileSystemUtils.pathToTreePath(normalizedNew);
+			await tx.checkParentAccess(normalizedOld, "rename", oldPath);
+			if (newParent) {
+				tx.checkAccess(newParent, "write", "rename", newPath);
+			}
 
-		await this.driver.updateNode(node.id, {
-			path: normalizedNew,
-			name: newFileName,
-			treePath: newTreePath,
-			parentId: newParent?.id || null,
-			modifiedAt: new Date(),
-		});
+			const newFileName = FileSystemUtils.getFileName(normalizedNew);
+			const newTreePath = FileSystemUtils.pathToTreePath(normalizedNew);
 
-		if (node.isDirectory) {
-			const descendants =
-				await this.driver.findDescendantsByPathPrefix(normalizedOld);
+			await tx.enforceQuota(
+				normalizedNew,
+				node.owner,
+				{ files: 0, bytes: 0 },
+				"rename",
+			);
 
-			for (const desc of descendants) {
-				const newDescPath = desc.path.replace(normalizedOld, normalizedNew);
-				const newDescTreePath = FileSystemUtils.pathToTreePath(newDescPath);
+			await tx.driver.updateNode(node.id, {
+				path: normalizedNew,
+				name: newFileName,
+				treePath: newTreePath,
+				parentId: newParent?.id || null,
+				modifiedAt: new Date(),
+			});
 
-				await this.driver.updateNode(desc.id, {
-					path: newDescPath,
-					treePath: newDescTreePath,
-				});
+			if (node.isDirectory) {
+				const descendants =
+					await tx.driver.findDescendantsByPathPrefix(normalizedOld);
+
+				for (const desc of descendants) {
+					const newDescPath = desc.path.replace(normalizedOld, normalizedNew);
+					const newDescTreePath = FileSystemUtils.pathToTreePath(newDescPath);
+					await tx.enforceQuota(
+						newDescPath,
+						desc.owner,
+						{ files: 0, bytes: 0 },
+						"rename",
+					);
+
+					await tx.driver.updateNode(desc.id, {
+						path: newDescPath,
+						treePath: newDescTreePath,
+					});
+				}
 			}
-		}
+
+			await tx.audit("rename", normalizedNew, {
+				oldPath: normalizedOld,
+				oldHash: node.contentHash,
+				newHash: node.contentHash,
+			});
+			await tx.publish(
+				"rename",
+				(await tx.driver.findNodeByPath(normalizedNew))!,
+				normalizedOld,
+			);
+		});
 	}
 
 	async copy(
@@ -448,62 +2856,106 @@ export class DbFileSystem {
 		destPath: string,
 		options: { recursive?: boolean } = {},
 	): Promise<void> {
-		const normalizedSource = FileSystemUtils.normalizePath(sourcePath);
-		const normalizedDest = FileSystemUtils.normalizePath(destPath);
+		await this.transaction(async (tx) => {
+			const normalizedSource = await tx.realPath(sourcePath);
+			const normalizedDest = await tx.realPath(destPath, false);
 
-		const sourceNode = await this.driver.findNodeByPath(normalizedSource);
-		if (!sourceNode) {
-			throw new Error(`Source path not found: ${sourcePath}`);
-		}
+			const sourceNode = await tx.driver.findNodeByPath(normalizedSource);
+			if (!sourceNode) {
+				throw new Error(`Source path not found: ${sourcePath}`);
+			}
 
-		if (sourceNode.isDirectory && !options.recursive) {
-			throw new Error(
-				`Cannot copy directory without recursive option: ${sourcePath}`,
-			);
-		}
+			if (sourceNode.isDirectory && !options.recursive) {
+				throw new Error(
+					`Cannot copy directory without recursive option: ${sourcePath}`,
+				);
+			}
 
-		if (sourceNode.isDirectory) {
-			await this.mkdir(normalizedDest);
-			const result = await this.readdir(normalizedSource);
+			if (
+				sourceNode.isDirectory &&
+				(normalizedSource === "/" ||
+					normalizedDest === normalizedSource ||
+					normalizedDest.startsWith(`${normalizedSource}/`))
+			) {
+				throw new Error(`Cannot copy a directory into itself: ${destPath}`);
+			}
 
-			for (const childName of result.items) {
-				const childSourcePath = `${normalizedSource}/${childName}`;
-				const childDestPath = `${normalizedDest}/${childName}`;
-				await this.copy(childSourcePath, childDestPath, options);
+			if (sourceNode.isDirectory) {
+				await tx.mkdir(normalizedDest);
+
+				// Children are listed a page at a time
+				for (let offset = 0; ; ) {
+					const page = await tx.readdir(normalizedSource, { offset });
+					for (const childName of page.items) {
+						const childSourcePath = `${normalizedSource}/${childName}`;
+						const childDestPath = `${normalizedDest}/${childName}`;
+						// Links inside the tree are copied as links, like `cp -R`
+						const child =
+							await tx.driver.findNodeByPath(childSourcePath);
+						if (child?.linkTarget) {
+							await tx.symlink(child.linkTarget, childDestPath);
+						} else {
+							await tx.copy(childSourcePath, childDestPath, options);
+						}
+					}
+					offset += page.items.length;
+					if (!page.hasMore) break;
+				}
+			} else {
+				tx.checkAccess(sourceNode, "read", "open", sourcePath);
+				// The copy shares the source's content rather than storing it again
+				await tx.linkContent(normalizedDest, sourceNode, {
+					createParents: true,
+				});
 			}
-		} else {
-			const fileData = await this.readFile(normalizedSource);
-			await this.writeFile(normalizedDest, fileData.content, {
-				mode: sourceNode.mode,
-				owner: sourceNode.owner,
-				mimeType: sourceNode.mimeType || undefined,
-				createParents: true,
-			});
-		}
+		});
+	}
+
+	/**
+	 * Finds files and directories by metadata, tags, MIME type, size and
+	 * modification time, in path order. Every filter given must match.
+	 */
+	async find(
+		options: FindOptions = {},
+	): Promise<{ items: FileStats[]; hasMore: boolean }> {
+		const { type, limit = MAX_SEARCH_RESULTS, ...query } = options;
+		const base = query.path && (await this.realPath(query.path));
+
+		const nodes = await this.fetchListable(
+			async (count) =>
+				await this.driver.findNodes({
+					...query,
+					path: base || undefined,
+					isDirectory: type === undefined ? undefined : type === "directory",
+					limit: count,
+				}),
+			limit + 1,
+		);
+
+		return {
+			items: nodes.slice(0, limit).map(toFileStats),
+			hasMore: nodes.length > limit,
+		};
 	}
 
 	async glob(
 		pattern: string,
 		basePath: string = "/",
 		limit: number = MAX_SEARCH_RESULTS,
-	): Promise<{ matches: string[]; total: number; hasMore: boolean }> {
-		const normalizedBase = FileSystemUtils.normalizePath(basePath);
-		const likePattern = pattern.replace(/\*/g, "%").replace(/\?/g, "_");
+	): Promise<{ matches: string[]; hasMore: boolean }> {
+		const normalizedBase = await this.realPath(basePath);
 
-		const nodes = await this.driver.findNodesByGlob(
-			normalizedBase,
-			likePattern,
+		const prefix = FileSystemUtils.globLiteralPrefix(pattern, normalizedBase);
+		const regex = FileSystemUtils.globToRegex(pattern, normalizedBase);
+		const nodes = await this.fetchListable(
+			async (count) => await this.driver.findNodesByGlob(prefix, regex, count),
 			limit + 1,
 		);
 
 		const hasMore = nodes.length > limit;
 		const matches = nodes.slice(0, limit).map((node) => node.path);
 
-		return {
-			matches,
-			total: nodes.length,
-			hasMore,
-		};
+		return { matches, hasMore };
 	}
 
 	async search(
@@ -511,30 +2963,184 @@ export class DbFileSystem {
 		basePath: string = "/",
 		limit: number = MAX_SEARCH_RESULTS,
 	): Promise<{
-		results: Array<{ path: string; score: number }>;
-		total: number;
+		results: Array<{ path: string; score: number; snippet: string }>;
 		hasMore: boolean;
 	}> {
-		const normalizedBase = FileSystemUtils.normalizePath(basePath);
+		const normalizedBase = await this.realPath(basePath);
 
-		const results = await this.driver.searchContent(
-			query,
+		const found = await this.driver.searchContent(
+			parseSearchQuery(query),
 			normalizedBase,
 			limit + 1,
 		);
 
+		const results: typeof found = [];
+		for (const result of found) {
+			if (await this.canRead(result.path)) {
+				results.push(result);
+			}
+		}
+
 		const hasMore = results.length > limit;
 		const filteredResults = results.slice(0, limit).map((r) => ({
 			path: r.path,
-			score: 1.0,
+			score: r.score,
+			snippet: r.snippet,
 		}));
 
 		return {
 			results: filteredResults,
-			total: results.length,
 			hasMore,
 		};
 	}
+
+	async grep(
+		pattern: string,
+		options: GrepOptions = {},
+	): Promise<{ files: GrepFileResult[]; hasMore: boolean }> {
+		const normalizedBase = await this.realPath(options.basePath || "/");
+		const limit = options.limit || MAX_SEARCH_RESULTS;
+
+		let regex: RegExp;
+		try {
+			regex = new RegExp(pattern, options.caseSensitive === false ? "i" : "");
+		} catch (error) {
+			throw new Error(
+				`Invalid regex pattern: ${error instanceof Error ? error.message : pattern}`,
+			);
+		}
+
+		const include = options.include
+			? options.include.includes("/")
+				? options.include
+				: `**/${options.include}`
+			: null;
+		const pathPrefix = include
+			? FileSystemUtils.globLiteralPrefix(include, normalizedBase)
+			: normalizedBase === "/"
+				? "/"
+				: `${normalizedBase}/`;
+		const pathRegex = include
+			? FileSystemUtils.globToRegex(include, normalizedBase)
+			: null;
+
+		const files: GrepFileResult[] = [];
+		let offset = 0;
+
+		while (files.length <= limit) {
+			const batch = await this.driver.findIndexedContent(
+				pathPrefix,
+				pathRegex,
+				offset,
+				GREP_BATCH_SIZE,
+			);
+
+			for (const entry of batch) {
+				if (!(await this.canRead(entry.path))) continue;
+
+				const result = grepLines(
+					entry.content,
+					regex,
+					options.before || 0,
+					options.after || 0,
+				);
+				if (result.matchCount > 0) {
+					files.push({ path: entry.path, ...result });
+					if (files.length > limit) break;
+				}
+			}
+
+			if (batch.length < GREP_BATCH_SIZE) break;
+			offset += batch.length;
+		}
+
+		return {
+			files: files.slice(0, limit),
+			hasMore: files.length > limit,
+		};
+	}
+}
+
+function toFileStats(
+	node: Omit<NodeRecord, "metadata"> & Partial<Pick<NodeRecord, "metadata">>,
+): FileStats {
+	const metadata =
+		node.metadata === undefined
+			? {}
+			: { metadata: node.metadata ?? {}, tags: metadataTags(node.metadata) };
+
+	return {
+		path: node.path,
+		name: node.name,
+		isDirectory: node.isDirectory,
+		isSymbolicLink: Boolean(node.linkTarget),
+		...(node.linkTarget ? { linkTarget: node.linkTarget } : {}),
+		size: node.size,
+		mimeType: node.mimeType || undefined,
+		createdAt: node.createdAt,
+		modifiedAt: node.modifiedAt,
+		accessedAt: node.accessedAt,
+		mode: node.mode,
+		owner: node.owner,
+		group: node.group,
+		...metadata,
+	};
+}
+
+function metadataTags(metadata: Record<string, unknown> | null): string[] {
+	const tags = metadata?.tags;
+	return Array.isArray(tags)
+		? tags.filter((tag): tag is string => typeof tag === "string")
+		: [];
+}
+
+function indexableText(data: Buffer): string {
+	if (FileSystemUtils.isBinary(data)) {
+		return "";
+	}
+	return data.subarray(0, MAX_INDEXED_TEXT_BYTES).toString("utf8");
+}
+
+function decodeContent(
+	data: Buffer,
+	path: string,
+	encoding: ReadOptions["encoding"] = "utf8",
+): string {
+	if (encoding === "base64") {
+		return data.toString("base64");
+	}
+	if (FileSystemUtils.isBinary(data)) {
+		throw new Error(
+			`Cannot read binary file as text, use base64 encoding: ${path}`,
+		);
+	}
+	return data.toString("utf8");
+}
+
+function grepLines(
+	content: string,
+	regex: RegExp,
+	before: number,
+	after: number,
+): { matchCount: number; lines: GrepLine[] } {
+	const lines = content.split("\n");
+	const matched = new Set<number>();
+	const included = new Set<number>();
+
+	lines.forEach((text, i) => {
+		if (!regex.test(text)) return;
+		matched.add(i);
+		const start = Math.max(0, i - before);
+		const end = Math.min(lines.length - 1, i + after);
+		for (let j = start; j <= end; j++) included.add(j);
+	});
+
+	return {
+		matchCount: matched.size,
+		lines: [...included]
+			.sort((a, b) => a - b)
+			.map((i) => ({ line: i + 1, text: lines[i], match: matched.has(i) })),
+	};
 }
 
 export { DbFileSystem as PgFileSystem };
@@ -0,0 +1,289 @@
+/** Lines `aStart..aEnd` of one text replaced by `bStart..bEnd` of another. */
+interface Change {
+	aStart: number;
+	aEnd: number;
+	bStart: number;
+	bEnd: number;
+}
+
+export interface UnifiedDiffOptions {
+	/** Name shown on the `---` line (default "a") */
+	oldLabel?: string;
+	/** Name shown on the `+++` line (default "b") */
+	newLabel?: string;
+	/** Unchanged lines around each change (default 3) */
+	context?: number;
+}
+
+export interface TextMergeResult {
+	content: string;
+	/** Regions wrapped in conflict markers */
+	conflicts: number;
+}
+
+/**
+ * Edit distance beyond which the middle of two texts is treated as replaced
+ * wholesale, bounding the memory the diff needs.
+ */
+const MAX_DIFF_EDITS = 2000;
+const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * Renders the changes from `oldText` to `newText` as a unified diff, or an
+ * empty string when they are equal.
+ */
+export function unifiedDiff(
+	oldText: string,
+	newText: string,
+	options: UnifiedDiffOptions = {},
+): string {
+	const a = splitLines(oldText);
+	const b = splitLines(newText);
+	const context = options.context ?? DEFAULT_CONTEXT_LINES;
+	const changes = diffLines(a, b);
+	if (changes.length === 0) {
+		return "";
+	}
+
+	const out = [
+		`--- ${options.oldLabel ?? "a"}\n`,
+		`+++ ${options.newLabel ?? "b"}\n`,
+	];
+	const emit = (prefix: string, line: string) => {
+		out.push(prefix + line);
+		if (!line.endsWith("\n")) {
+			out.push("\n\\ No newline at end of file\n");
+		}
+	};
+
+	let i = 0;
+	while (i < changes.length) {
+		// Changes closer than twice the context share a hunk
+		let j = i;
+		while (
+			j + 1 < changes.length &&
+			changes[j + 1].aStart - changes[j].aEnd <= 2 * context
+		) {
+			j++;
+		}
+
+		const first = changes[i];
+		const last = changes[j];
+		const aStart = Math.max(0, first.aStart - context);
+		const aEnd = Math.min(a.length, last.aEnd + context);
+		const bStart = first.bStart - (first.aStart - aStart);
+		const bEnd = last.bEnd + (aEnd - last.aEnd);
+		out.push(
+			`@@ -${range(aStart, aEnd)} +${range(bStart, bEnd)} @@\n`,
+		);
+
+		let cursor = aStart;
+		for (const change of changes.slice(i, j + 1)) {
+			for (; cursor < change.aStart; cursor++) emit(" ", a[cursor]);
+			for (let k = change.aStart; k < change.aEnd; k++) emit("-", a[k]);
+			for (let k = change.bStart; k < change.bEnd; k++) emit("+", b[k]);
+			cursor = change.aEnd;
+		}
+		for (; cursor < aEnd; cursor++) emit(" ", a[cursor]);
+
+		i = j + 1;
+	}
+
+	return out.join("");
+}
+
+/**
+ * Three-way merge of two texts that both started from `base`. Changes to
+ * different regions are combined; regions both sides changed differently are
+ * kept from both, between `<<<<<<<`, `=======` and `>>>>>>>` markers.
+ */
+export function mergeText(
+	base: string,
+	ours: string,
+	theirs: string,
+	labels: { ours?: string; theirs?: string } = {},
+): TextMergeResult {
+	const baseLines = splitLines(base);
+	const sides = [splitLines(ours), splitLines(theirs)];
+	const hunks = sides
+		.flatMap((lines, side) =>
+			diffLines(baseLines, lines).map((change) => ({ ...change, side })),
+		)
+		.sort((x, y) => x.aStart - y.aStart || x.aEnd - y.aEnd);
+
+	const out: string[] = [];
+	let conflicts = 0;
+	let cursor = 0;
+	let i = 0;
+
+	while (i < hunks.length) {
+		// Overlapping or touching hunks form one region of the base
+		const group = [hunks[i]];
+		const regionStart = hunks[i].aStart;
+		let regionEnd = hunks[i].aEnd;
+		for (i++; i < hunks.length && hunks[i].aStart <= regionEnd; i++) {
+			group.push(hunks[i]);
+			regionEnd = Math.max(regionEnd, hunks[i].aEnd);
+		}
+
+		out.push(...baseLines.slice(cursor, regionStart));
+		cursor = regionEnd;
+
+		const versions = sides.map((lines, side) => {
+			const own = group.filter((h) => h.side === side);
+			if (own.length === 0) {
+				return null;
+			}
+			const first = own[0];
+			const last = own[own.length - 1];
+			return lines.slice(
+				first.bStart - (first.aStart - regionStart),
+				last.bEnd + (regionEnd - last.aEnd),
+			);
+		});
+
+		const [ourVersion, theirVersion] = versions;
+		if (!ourVersion || !theirVersion) {
+			out.push(...(ourVersion ?? theirVersion)!);
+		} else if (ourVersion.join("") === theirVersion.join("")) {
+			out.push(...ourVersion);
+		} else {
+			conflicts++;
+			out.push(
+				`<<<<<<< ${labels.ours ?? "ours"}\n`,
+				...terminated(ourVersion),
+				"=======\n",
+				...terminated(theirVersion),
+				`>>>>>>> ${labels.theirs ?? "theirs"}\n`,
+			);
+		}
+	}
+
+	out.push(...baseLines.slice(cursor));
+	return { content: out.join(""), conflicts };
+}
+
+/** Lines of `text`, each keeping its `\n` terminator. */
+function splitLines(text: string): string[] {
+	return text.match(/[^\n]*\n|[^\n]+/g) ?? [];
+}
+
+/** `lines` with a terminator added to the last one, for use before a marker. */
+function terminated(lines: string[]): string[] {
+	const last = lines[lines.length - 1];
+	return last === undefined || last.endsWith("\n")
+		? lines
+		: [...lines.slice(0, -1), `${last}\n`];
+}
+
+function range(start: number, end: number): string {
+	const count = end - start;
+	if (count === 1) {
+		return `${start + 1}`;
+	}
+	return `${count === 0 ? start : start + 1},${count}`;
+}
+
+/** Regions that differ between `a` and `b`, in order. */
+function diffLines(a: string[], b: string[]): Change[] {
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const matches = commonLines(
+		a.slice(prefix, a.length - suffix),
+		b.slice(prefix, b.length - suffix),
+	).map(([x, y]) => [x + prefix, y + prefix]);
+
+	const changes: Change[] = [];
+	let x = prefix;
+	let y = prefix;
+	for (const [mx, my] of [...matches, [a.length - suffix, b.length - suffix]]) {
+		if (mx > x || my > y) {
+			changes.push({ aStart: x, aEnd: mx, bStart: y, bEnd: my });
+		}
+		x = mx + 1;
+		y = my + 1;
+	}
+	return changes;
+}
+
+/**
+ * Index pairs of a longest common subsequence of `a` and `b`, using Myers'
+ * O(ND) algorithm.
+ */
+function commonLines(a: string[], b: string[]): Array<[number, number]> {
+	const n = a.length;
+	const m = b.length;
+	const max = Math.min(n + m, MAX_DIFF_EDITS);
+	const offset = max + 1;
+	const v = new Int32Array(2 * max + 3);
+	// Each step's furthest reaching x per diagonal, for the backtrack
+	const trace: Int32Array[] = [];
+
+	for (let d = 0; d <= max; d++) {
+		trace.push(v.slice(offset - d, offset + d + 1));
+
+		for (let k = -d; k <= d; k += 2) {
+			let x =
+				k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+					? v[offset + k + 1]
+					: v[offset + k - 1] + 1;
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+
+			if (x >= n && y >= m) {
+				return backtrack(trace, n, m);
+			}
+		}
+	}
+
+	return [];
+}
+
+function backtrack(
+	trace: Int32Array[],
+	n: number,
+	m: number,
+): Array<[number, number]> {
+	const pairs: Array<[number, number]> = [];
+	let x = n;
+	let y = m;
+
+	for (let d = trace.length - 1; d > 0; d--) {
+		const v = trace[d];
+		const k = x - y;
+		const prevK =
+			k === -d || (k !== d && v[k - 1 + d] < v[k + 1 + d]) ? k + 1 : k - 1;
+		const prevX = v[prevK + d];
+		const prevY = prevX - prevK;
+
+		while (x > prevX && y > prevY) {
+			x--;
+			y--;
+			pairs.push([x, y]);
+		}
+		x = prevX;
+		y = prevY;
+	}
+	while (x > 0 && y > 0) {
+		x--;
+		y--;
+		pairs.push([x, y]);
+	}
+
+	return pairs.reverse();
+}
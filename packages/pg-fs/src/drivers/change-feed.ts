@@ -0,0 +1,53 @@
+import type { ChangeRecord } from "../schema/types.js";
+
+/**
+ * Calls `handler` with `change` in a microtask of its own and passes anything
+ * it throws to `onError`, so a failing subscriber can neither fail a write
+ * that already committed, starve other subscribers nor crash the process.
+ */
+export function notify(
+	handler: (change: ChangeRecord) => void,
+	change: ChangeRecord,
+	onError?: (error: unknown) => void,
+): void {
+	queueMicrotask(() => {
+		try {
+			handler(change);
+		} catch (error) {
+			onError?.(error);
+		}
+	});
+}
+
+/**
+ * In-process fan-out of committed changes, shared by every driver instance
+ * over the same storage. Drivers buffer changes made inside a transaction and
+ * hand them to `deliver` once it commits.
+ */
+export class ChangeFeed {
+	private handlers = new Set<(change: ChangeRecord) => void>();
+
+	subscribe(
+		workspace: string,
+		handler: (change: ChangeRecord) => void,
+		onError?: (error: unknown) => void,
+	): () => void {
+		const scoped = (change: ChangeRecord) => {
+			if (change.workspace === workspace) {
+				notify(handler, change, onError);
+			}
+		};
+		this.handlers.add(scoped);
+		return () => {
+			this.handlers.delete(scoped);
+		};
+	}
+
+	deliver(changes: ChangeRecord[]): void {
+		for (const change of changes) {
+			for (const handler of this.handlers) {
+				handler(change);
+			}
+		}
+	}
+}
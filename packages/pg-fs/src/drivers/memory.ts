@@ -0,0 +1,1311 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { DEFAULT_WORKSPACE, type DatabaseDriver } from "./types.js";
+import type {
+	NodeRecord,
+	NewNodeRecord,
+	ContentBlockRecord,
+	VersionRecord,
+	NewVersionRecord,
+	ContentChunkRecord,
+	ContentRefRecord,
+	UsageRecord,
+	ChangeRecord,
+	AuditRecord,
+	NewAuditRecord,
+	AuditQuery,
+	ListQuery,
+	NodeQuery,
+	TrashRecord,
+	TrashedTree,
+	NewTrashRecord,
+	SnapshotRecord,
+	SnapshotEntry,
+	NewSnapshotRecord,
+} from "../schema/types.js";
+import { FileSystemUtils } from "../utils.js";
+import type { SearchQuery } from "../search-query.js";
+import { ChangeFeed } from "./change-feed.js";
+import { reviveTrashedTree, type SerializedTrashedTree } from "./trash.js";
+
+interface StoredChunk {
+	seq: number;
+	chunkHash: string;
+	offset: number;
+	size: number;
+}
+
+type StoredVersion = VersionRecord & { workspace: string };
+type StoredTrashEntry = TrashRecord & { tree: TrashedTree };
+type StoredSnapshot = SnapshotRecord & { manifest: SnapshotEntry[] };
+
+interface StoredIndexEntry {
+	textContent: string;
+	updatedAt: Date;
+}
+
+// Path and content keys are prefixed with the workspace, see `scopedKey`
+interface MemoryTables {
+	nodes: Map<string, NodeRecord>;
+	nodeIdsByPath: Map<string, string>;
+	contentBlocks: Map<string, ContentBlockRecord>;
+	contentChunks: Map<string, StoredChunk[]>;
+	searchIndex: Map<string, StoredIndexEntry>;
+	versions: Map<string, StoredVersion>;
+	auditLog: Map<number, AuditRecord>;
+	trash: Map<string, StoredTrashEntry>;
+	snapshots: Map<string, StoredSnapshot>;
+}
+
+type Serialized<T> = {
+	[K in keyof T]: T[K] extends Date | Buffer ? string : T[K];
+};
+
+/**
+ * JSON-safe copy of a `MemoryDriver`'s tables. Dates are ISO strings and
+ * content is base64.
+ */
+export interface MemorySnapshot {
+	version: 1;
+	nodes: Serialized<NodeRecord>[];
+	contentBlocks: Serialized<ContentBlockRecord>[];
+	contentChunks: Array<StoredChunk & { workspace: string; contentHash: string }>;
+	searchIndex: Array<Serialized<StoredIndexEntry> & { nodeId: string }>;
+	versions: Serialized<StoredVersion>[];
+	/** Missing from snapshots taken before the audit log existed */
+	auditLog?: Serialized<AuditRecord>[];
+	/** Missing from snapshots taken before the trash existed */
+	trash?: Array<Serialized<TrashRecord> & { tree: SerializedTrashedTree }>;
+	/** Missing from snapshots taken before filesystem snapshots existed */
+	snapshots?: Array<Serialized<StoredSnapshot>>;
+}
+
+// Top-level transactions share one set of tables, so they must not interleave.
+// Writes outside a transaction run as transactions of their own: made while
+// another one is open, a rollback would restore values from before them.
+const transactionQueues = new WeakMap<MemoryTables, Promise<void>>();
+// The innermost transaction whose callback is running, so the outer driver
+// used from inside it joins it rather than waiting on it forever
+const activeTransactions = new AsyncLocalStorage<{
+	tables: MemoryTables;
+	tx: MemoryDriver;
+	open: boolean;
+}>();
+const changeFeeds = new WeakMap<MemoryTables, ChangeFeed>();
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+const SNIPPET_WORDS = 20;
+
+/**
+ * Pure TypeScript driver that keeps every table in memory. Useful for tests,
+ * edge runtimes and throwaway sessions; use `snapshot` and `restore` to
+ * persist state as JSON.
+ *
+ * Full-text search matches whole words (or prefixes) case-insensitively,
+ * without the stemming the SQL backends apply.
+ */
+export class MemoryDriver implements DatabaseDriver {
+	private tables: MemoryTables = {
+		nodes: new Map(),
+		nodeIdsByPath: new Map(),
+		contentBlocks: new Map(),
+		contentChunks: new Map(),
+		searchIndex: new Map(),
+		versions: new Map(),
+		auditLog: new Map(),
+		trash: new Map(),
+		snapshots: new Map(),
+	};
+	// Inverse operations for the open transaction, replayed on rollback
+	private undoLog: Array<() => void> | null = null;
+	// Changes published in the open transaction, delivered on commit
+	private pendingChanges: ChangeRecord[] | null = null;
+
+	constructor(
+		snapshot?: MemorySnapshot,
+		readonly workspace: string = DEFAULT_WORKSPACE,
+	) {
+		if (snapshot) {
+			this.restore(snapshot);
+		}
+	}
+
+	withWorkspace(workspace: string): DatabaseDriver {
+		const scoped = new MemoryDriver(undefined, workspace);
+		scoped.tables = this.tables;
+		scoped.undoLog = this.undoLog;
+		scoped.pendingChanges = this.pendingChanges;
+		return scoped;
+	}
+
+	async initialize(): Promise<void> {
+		const root = await this.findNodeByPath("/");
+		if (!root) {
+			await this.insertNode({
+				id: FileSystemUtils.generateId(),
+				path: "/",
+				name: "",
+				treePath: "root",
+				parentId: null,
+				isDirectory: true,
+				size: 0,
+				mode: "0755",
+				owner: "system",
+			});
+		}
+	}
+
+	async transaction<T>(fn: (tx: DatabaseDriver) => Promise<T>): Promise<T> {
+		const active = activeTransactions.getStore();
+		if (!this.undoLog && active?.open && active.tables === this.tables) {
+			return await active.tx.withWorkspace(this.workspace).transaction(fn);
+		}
+
+		const log: Array<() => void> = [];
+		const changes: ChangeRecord[] = [];
+		const tx = new MemoryDriver(undefined, this.workspace);
+		tx.tables = this.tables;
+		tx.undoLog = log;
+		tx.pendingChanges = changes;
+
+		const run = async () => {
+			const scope = { tables: this.tables, tx, open: true };
+			try {
+				const result = await activeTransactions.run(scope, () => fn(tx));
+				this.undoLog?.push(...log);
+				if (this.pendingChanges) {
+					this.pendingChanges.push(...changes);
+				} else {
+					this.changeFeed().deliver(changes);
+				}
+				return result;
+			} catch (error) {
+				for (const undo of log.reverse()) {
+					undo();
+				}
+				throw error;
+			} finally {
+				scope.open = false;
+			}
+		};
+
+		if (this.undoLog) {
+			return await run();
+		}
+
+		const previous = transactionQueues.get(this.tables) ?? Promise.resolve();
+		let release!: () => void;
+		const current = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+		transactionQueues.set(
+			this.tables,
+			previous.then(() => current),
+		);
+
+		await previous;
+		try {
+			return await run();
+		} finally {
+			release();
+		}
+	}
+
+	/** Serializes all tables to a JSON-safe object. */
+	snapshot(): MemorySnapshot {
+		const {
+			nodes,
+			contentBlocks,
+			contentChunks,
+			searchIndex,
+			versions,
+			auditLog,
+			trash,
+			snapshots,
+		} = this.tables;
+
+		return {
+			version: 1,
+			nodes: [...nodes.values()].map((node) => ({
+				...node,
+				metadata: node.metadata ? structuredClone(node.metadata) : null,
+				createdAt: node.createdAt.toISOString(),
+				modifiedAt: node.modifiedAt.toISOString(),
+				accessedAt: node.accessedAt.toISOString(),
+			})),
+			contentBlocks: [...contentBlocks.values()].map((block) => ({
+				...block,
+				data: block.data.toString("base64"),
+				createdAt: block.createdAt.toISOString(),
+				lastAccessedAt: block.lastAccessedAt.toISOString(),
+			})),
+			contentChunks: [...contentChunks.entries()].flatMap(([key, chunks]) => {
+				const [workspace, contentHash] = splitScopedKey(key);
+				return chunks.map((chunk) => ({ workspace, contentHash, ...chunk }));
+			}),
+			searchIndex: [...searchIndex.entries()].map(([nodeId, entry]) => ({
+				nodeId,
+				textContent: entry.textContent,
+				updatedAt: entry.updatedAt.toISOString(),
+			})),
+			versions: [...versions.values()].map((version) => ({
+				...version,
+				createdAt: version.createdAt.toISOString(),
+			})),
+			auditLog: [...auditLog.values()].map((entry) => ({
+				...entry,
+				timestamp: entry.timestamp.toISOString(),
+			})),
+			trash: [...trash.values()].map((entry) => ({
+				...entry,
+				deletedAt: entry.deletedAt.toISOString(),
+				tree: JSON.parse(JSON.stringify(entry.tree)),
+			})),
+			snapshots: [...snapshots.values()].map((snapshot) => ({
+				...snapshot,
+				createdAt: snapshot.createdAt.toISOString(),
+				manifest: structuredClone(snapshot.manifest),
+			})),
+		};
+	}
+
+	/** Replaces all tables with the contents of `snapshot`. */
+	restore(snapshot: MemorySnapshot): void {
+		if (snapshot.version !== 1) {
+			throw new Error(
+				`Unsupported memory snapshot version: ${snapshot.version}`,
+			);
+		}
+
+		const tables = this.tables;
+		for (const table of Object.values(tables)) {
+			table.clear();
+		}
+
+		// Snapshots taken before workspaces have none on nodes, content and
+		// versions; everything in them belongs to the default workspace
+		for (const node of snapshot.nodes) {
+			const workspace = node.workspace ?? DEFAULT_WORKSPACE;
+			tables.nodes.set(node.id, {
+				...node,
+				workspace,
+				// Snapshots taken before nodes had a group or links
+				group: node.group ?? "default",
+				linkTarget: node.linkTarget ?? null,
+				linkId: node.linkId ?? null,
+				metadata: node.metadata ? structuredClone(node.metadata) : null,
+				createdAt: new Date(node.createdAt),
+				modifiedAt: new Date(node.modifiedAt),
+				accessedAt: new Date(node.accessedAt),
+			});
+			tables.nodeIdsByPath.set(scopedKey(workspace, node.path), node.id);
+		}
+
+		for (const block of snapshot.contentBlocks) {
+			const workspace = block.workspace ?? DEFAULT_WORKSPACE;
+			tables.contentBlocks.set(scopedKey(workspace, block.hash), {
+				...block,
+				workspace,
+				data: Buffer.from(block.data, "base64"),
+				createdAt: new Date(block.createdAt),
+				lastAccessedAt: new Date(block.lastAccessedAt),
+			});
+		}
+
+		for (const { workspace, contentHash, ...chunk } of snapshot.contentChunks) {
+			const key = scopedKey(workspace ?? DEFAULT_WORKSPACE, contentHash);
+			const chunks = tables.contentChunks.get(key) ?? [];
+			chunks.push(chunk);
+			tables.contentChunks.set(key, chunks);
+		}
+		for (const chunks of tables.contentChunks.values()) {
+			chunks.sort((a, b) => a.seq - b.seq);
+		}
+
+		for (const entry of snapshot.searchIndex) {
+			tables.searchIndex.set(entry.nodeId, {
+				textContent: entry.textContent,
+				updatedAt: new Date(entry.updatedAt),
+			});
+		}
+
+		for (const version of snapshot.versions) {
+			tables.versions.set(version.id, {
+				...version,
+				workspace: version.workspace ?? DEFAULT_WORKSPACE,
+				createdAt: new Date(version.createdAt),
+			});
+		}
+
+		for (const entry of snapshot.auditLog ?? []) {
+			tables.auditLog.set(entry.id, {
+				...entry,
+				timestamp: new Date(entry.timestamp),
+			});
+		}
+
+		for (const entry of snapshot.trash ?? []) {
+			tables.trash.set(entry.id, {
+				...entry,
+				deletedAt: new Date(entry.deletedAt),
+				tree: reviveTrashedTree(entry.tree),
+			});
+		}
+
+		for (const entry of snapshot.snapshots ?? []) {
+			tables.snapshots.set(entry.id, {
+				...entry,
+				createdAt: new Date(entry.createdAt),
+				manifest: structuredClone(entry.manifest),
+			});
+		}
+	}
+
+	private key(value: string): string {
+		return scopedKey(this.workspace, value);
+	}
+
+	private ownNodes(): NodeRecord[] {
+		return [...this.tables.nodes.values()].filter(
+			(node) => node.workspace === this.workspace,
+		);
+	}
+
+	private ownNode(id: string): NodeRecord | undefined {
+		const node = this.tables.nodes.get(id);
+		return node?.workspace === this.workspace ? node : undefined;
+	}
+
+	/** Sets or deletes `key`, recording the previous value for rollback. */
+	private put<K, V>(map: Map<K, V>, key: K, value: V | undefined): void {
+		if (this.undoLog) {
+			const had = map.has(key);
+			const previous = map.get(key);
+			this.undoLog.push(() => {
+				if (had) map.set(key, previous as V);
+				else map.delete(key);
+			});
+		}
+
+		if (value === undefined) map.delete(key);
+		else map.set(key, value);
+	}
+
+	async findNodeByPath(path: string): Promise<NodeRecord | undefined> {
+		const normalized = FileSystemUtils.normalizePath(path);
+		const id = this.tables.nodeIdsByPath.get(this.key(normalized));
+		const node = id ? this.tables.nodes.get(id) : undefined;
+		return node ? cloneNode(node) : undefined;
+	}
+
+	async insertNode(node: NewNodeRecord): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(async (tx) => await tx.insertNode(node));
+		}
+		if (this.tables.nodes.has(node.id)) {
+			throw new Error(`Node already exists: ${node.id}`);
+		}
+		if (this.tables.nodeIdsByPath.has(this.key(node.path))) {
+			throw new Error(`Node already exists at path: ${node.path}`);
+		}
+
+		const now = new Date();
+		this.put(this.tables.nodes, node.id, {
+			id: node.id,
+			workspace: this.workspace,
+			path: node.path,
+			name: node.name,
+			treePath: node.treePath,
+			parentId: node.parentId ?? null,
+			isDirectory: node.isDirectory ?? false,
+			size: node.size ?? 0,
+			mimeType: node.mimeType ?? null,
+			contentHash: node.contentHash ?? null,
+			createdAt: now,
+			modifiedAt: now,
+			accessedAt: now,
+			mode: node.mode ?? "0644",
+			owner: node.owner ?? "default",
+			group: node.group ?? "default",
+			metadata: node.metadata ? structuredClone(node.metadata) : {},
+			linkTarget: node.linkTarget ?? null,
+			linkId: node.linkId ?? null,
+		});
+		this.put(this.tables.nodeIdsByPath, this.key(node.path), node.id);
+	}
+
+	async updateNode(id: string, data: Partial<NodeRecord>): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(
+				async (tx) => await tx.updateNode(id, data),
+			);
+		}
+		const existing = this.ownNode(id);
+		if (!existing) {
+			return;
+		}
+
+		const updated: NodeRecord = { ...existing };
+		for (const [key, value] of Object.entries(data)) {
+			if (value !== undefined) {
+				(updated as unknown as Record<string, unknown>)[key] = value;
+			}
+		}
+		if (data.metadata) {
+			updated.metadata = structuredClone(data.metadata);
+		}
+
+		if (updated.path !== existing.path) {
+			if (this.tables.nodeIdsByPath.has(this.key(updated.path))) {
+				throw new Error(`Node already exists at path: ${updated.path}`);
+			}
+			this.put(this.tables.nodeIdsByPath, this.key(existing.path), undefined);
+			this.put(this.tables.nodeIdsByPath, this.key(updated.path), id);
+		}
+
+		this.put(this.tables.nodes, id, updated);
+	}
+
+	async deleteNode(id: string): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(async (tx) => await tx.deleteNode(id));
+		}
+		if (!this.ownNode(id)) {
+			return;
+		}
+
+		// Mirror ON DELETE CASCADE from nodes to children, index and versions
+		const doomed = new Set([id]);
+		let grew = true;
+		while (grew) {
+			grew = false;
+			for (const node of this.tables.nodes.values()) {
+				if (
+					node.parentId &&
+					doomed.has(node.parentId) &&
+					!doomed.has(node.id)
+				) {
+					doomed.add(node.id);
+					grew = true;
+				}
+			}
+		}
+
+		for (const nodeId of doomed) {
+			const node = this.tables.nodes.get(nodeId)!;
+			this.put(this.tables.nodes, nodeId, undefined);
+			this.put(this.tables.nodeIdsByPath, this.key(node.path), undefined);
+			this.put(this.tables.searchIndex, nodeId, undefined);
+		}
+
+		for (const version of this.tables.versions.values()) {
+			if (doomed.has(version.nodeId)) {
+				this.put(this.tables.versions, version.id, undefined);
+			}
+		}
+	}
+
+	async findChildNodes(parentId: string): Promise<NodeRecord[]> {
+		return this.ownNodes()
+			.filter((node) => node.parentId === parentId)
+			.sort(
+				(a, b) =>
+					Number(b.isDirectory) - Number(a.isDirectory) ||
+					compareStrings(a.name, b.name),
+			)
+			.map(cloneNode);
+	}
+
+	async findNodesByLinkId(linkId: string): Promise<NodeRecord[]> {
+		return this.ownNodes()
+			.filter((node) => node.linkId === linkId)
+			.sort((a, b) => compareStrings(a.path, b.path))
+			.map(cloneNode);
+	}
+
+	async findNodes(query: NodeQuery): Promise<NodeRecord[]> {
+		const matches = (node: NodeRecord) => {
+			const metadata = node.metadata ?? {};
+			const tags = Array.isArray(metadata.tags) ? metadata.tags : [];
+			const mimeType = query.mimeType?.endsWith("/*")
+				? query.mimeType.slice(0, -1)
+				: undefined;
+
+			return (
+				(query.path === undefined ||
+					query.path === "/" ||
+					node.path.startsWith(`${query.path}/`)) &&
+				(query.isDirectory === undefined ||
+					node.isDirectory === query.isDirectory) &&
+				(query.keys ?? []).every((key) => key in metadata) &&
+				Object.entries(query.metadata ?? {}).every(
+					([key, value]) => metadata[key] === value,
+				) &&
+				(query.tags ?? []).every((tag) => tags.includes(tag)) &&
+				(query.mimeType === undefined ||
+					(mimeType !== undefined
+						? node.mimeType?.startsWith(mimeType) === true
+						: node.mimeType === query.mimeType)) &&
+				(query.minSize === undefined || node.size >= query.minSize) &&
+				(query.maxSize === undefined || node.size <= query.maxSize) &&
+				(query.modifiedAfter === undefined ||
+					node.modifiedAt >= query.modifiedAfter) &&
+				(query.modifiedBefore === undefined ||
+					node.modifiedAt < query.modifiedBefore)
+			);
+		};
+
+		return this.ownNodes()
+			.filter(matches)
+			.sort((a, b) => compareStrings(a.path, b.path))
+			.slice(0, query.limit)
+			.map(cloneNode);
+	}
+
+	async listNodes(
+		query: ListQuery,
+	): Promise<{ nodes: NodeRecord[]; total: number }> {
+		const prefix = query.path === "/" ? "/" : `${query.path}/`;
+		const regex =
+			query.pathRegex === undefined ? null : new RegExp(query.pathRegex);
+		const key = (node: NodeRecord): string | number => {
+			switch (query.sortBy ?? "name") {
+				case "name":
+					return node.name;
+				case "modified":
+					return node.modifiedAt.getTime();
+				case "size":
+					return node.size;
+				case "created":
+					return node.createdAt.getTime();
+			}
+		};
+		const compareKeys = (a: NodeRecord, b: NodeRecord) => {
+			const [x, y] = [key(a), key(b)];
+			return typeof x === "string"
+				? compareStrings(x, y as string)
+				: x - (y as number);
+		};
+		const sign = query.order === "desc" ? -1 : 1;
+
+		const matches = this.ownNodes()
+			.filter(
+				(node) =>
+					(query.recursive
+						? node.path !== query.path && node.path.startsWith(prefix)
+						: node.parentId === query.parentId) &&
+					(regex === null || regex.test(node.path)),
+			)
+			.sort((a, b) =>
+				query.sortBy || query.order
+					? sign * compareKeys(a, b) || compareStrings(a.path, b.path)
+					: query.recursive
+						? compareStrings(a.path, b.path)
+						: Number(b.isDirectory) - Number(a.isDirectory) ||
+							compareStrings(a.name, b.name),
+			);
+
+		return {
+			nodes: matches
+				.slice(query.offset, query.offset + query.limit)
+				.map(cloneNode),
+			total: matches.length,
+		};
+	}
+
+	async findDescendantsByPathPrefix(
+		pathPrefix: string,
+	): Promise<NodeRecord[]> {
+		return this.ownNodes()
+			.filter((node) => node.path.startsWith(`${pathPrefix}/`))
+			.map(cloneNode);
+	}
+
+	async findNodesByGlob(
+		pathPrefix: string,
+		pathRegex: string,
+		limit: number,
+	): Promise<NodeRecord[]> {
+		const regex = new RegExp(pathRegex);
+
+		return this.ownNodes()
+			.filter(
+				(node) => node.path.startsWith(pathPrefix) && regex.test(node.path),
+			)
+			.sort(
+				(a, b) =>
+					b.modifiedAt.getTime() - a.modifiedAt.getTime() ||
+					compareStrings(a.path, b.path),
+			)
+			.slice(0, limit)
+			.map(cloneNode);
+	}
+
+	async getContent(hash: string): Promise<Buffer> {
+		const block = this.tables.contentBlocks.get(this.key(hash));
+
+		if (!block) {
+			throw new Error(`Content not found: ${hash}`);
+		}
+
+		if (block.chunkCount > 0) {
+			const chunks = await this.findContentChunks(hash, 0, block.size);
+			const parts: Buffer[] = [];
+			for (const chunk of chunks) {
+				parts.push(await this.getContent(chunk.hash));
+			}
+			return Buffer.concat(parts);
+		}
+
+		return Buffer.from(block.data);
+	}
+
+	async getOrCreateContent(content: Buffer): Promise<string> {
+		if (!this.undoLog) {
+			return await this.transaction(
+				async (tx) => await tx.getOrCreateContent(content),
+			);
+		}
+		const hash = FileSystemUtils.hashContent(content);
+
+		if (this.tables.contentBlocks.has(this.key(hash))) {
+			await this.incrementRefCount(hash);
+			return hash;
+		}
+
+		const now = new Date();
+		this.put(this.tables.contentBlocks, this.key(hash), {
+			workspace: this.workspace,
+			hash,
+			data: Buffer.from(content),
+			size: content.length,
+			refCount: 1,
+			chunkCount: 0,
+			createdAt: now,
+			lastAccessedAt: now,
+		});
+
+		return hash;
+	}
+
+	async getOrCreateChunkedContent(
+		hash: string,
+		size: number,
+		chunks: Array<{ hash: string; size: number }>,
+	): Promise<string> {
+		if (!this.undoLog) {
+			return await this.transaction(
+				async (tx) => await tx.getOrCreateChunkedContent(hash, size, chunks),
+			);
+		}
+		if (this.tables.contentBlocks.has(this.key(hash))) {
+			await this.incrementRefCount(hash);
+			for (const chunk of chunks) {
+				await this.decrementRefCount(chunk.hash);
+			}
+			return hash;
+		}
+
+		const now = new Date();
+		this.put(this.tables.contentBlocks, this.key(hash), {
+			workspace: this.workspace,
+			hash,
+			data: Buffer.alloc(0),
+			size,
+			refCount: 1,
+			chunkCount: chunks.length,
+			createdAt: now,
+			lastAccessedAt: now,
+		});
+
+		let offset = 0;
+		const stored = chunks.map((chunk, seq) => {
+			const row = { seq, chunkHash: chunk.hash, offset, size: chunk.size };
+			offset += chunk.size;
+			return row;
+		});
+		this.put(this.tables.contentChunks, this.key(hash), stored);
+
+		return hash;
+	}
+
+	async findContentChunks(
+		hash: string,
+		start: number,
+		end: number,
+	): Promise<ContentChunkRecord[]> {
+		const block = this.tables.contentBlocks.get(this.key(hash));
+		if (!block) {
+			return [];
+		}
+
+		if (block.chunkCount === 0) {
+			return [{ hash, offset: 0, size: block.size }];
+		}
+
+		return (this.tables.contentChunks.get(this.key(hash)) ?? [])
+			.filter(
+				(chunk) => chunk.offset < end && chunk.offset + chunk.size > start,
+			)
+			.map((chunk) => ({
+				hash: chunk.chunkHash,
+				offset: chunk.offset,
+				size: chunk.size,
+			}));
+	}
+
+	async incrementRefCount(hash: string): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(
+				async (tx) => await tx.incrementRefCount(hash),
+			);
+		}
+		const block = this.tables.contentBlocks.get(this.key(hash));
+		if (block) {
+			this.put(this.tables.contentBlocks, this.key(hash), {
+				...block,
+				refCount: block.refCount + 1,
+				lastAccessedAt: new Date(),
+			});
+		}
+	}
+
+	async decrementRefCount(hash: string): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(
+				async (tx) => await tx.decrementRefCount(hash),
+			);
+		}
+		const block = this.tables.contentBlocks.get(this.key(hash));
+		if (block) {
+			this.put(this.tables.contentBlocks, this.key(hash), {
+				...block,
+				refCount: block.refCount - 1,
+			});
+		}
+	}
+
+	async findContentRefs(): Promise<ContentRefRecord[]> {
+		return [...this.tables.contentBlocks.values()]
+			.filter((block) => block.workspace === this.workspace)
+			.map((block) => ({
+				hash: block.hash,
+				refCount: block.refCount,
+				chunks: (
+					this.tables.contentChunks.get(this.key(block.hash)) ?? []
+				).map((chunk) => chunk.chunkHash),
+			}));
+	}
+
+	async setRefCount(hash: string, refCount: number): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(
+				async (tx) => await tx.setRefCount(hash, refCount),
+			);
+		}
+		const block = this.tables.contentBlocks.get(this.key(hash));
+		if (block) {
+			this.put(this.tables.contentBlocks, this.key(hash), {
+				...block,
+				refCount,
+			});
+		}
+	}
+
+	async touchNodes(ids: string[], accessedAt: Date): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(
+				async (tx) => await tx.touchNodes(ids, accessedAt),
+			);
+		}
+		for (const id of ids) {
+			await this.updateNode(id, { accessedAt });
+		}
+	}
+
+	async touchContent(hashes: string[], accessedAt: Date): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(
+				async (tx) => await tx.touchContent(hashes, accessedAt),
+			);
+		}
+		for (const hash of hashes) {
+			const block = this.tables.contentBlocks.get(this.key(hash));
+			if (block) {
+				this.put(this.tables.contentBlocks, this.key(hash), {
+					...block,
+					lastAccessedAt: accessedAt,
+				});
+			}
+		}
+	}
+
+	async garbageCollect(
+		options: { accessedBefore?: Date } = {},
+	): Promise<number> {
+		return await this.transaction(
+			async (tx) =>
+				await (tx as MemoryDriver).collectUnreferenced(options.accessedBefore),
+		);
+	}
+
+	private async collectUnreferenced(accessedBefore?: Date): Promise<number> {
+		let removed = 0;
+
+		// Releasing a chunked manifest can orphan its chunks, so repeat until
+		// a pass finds nothing left to collect.
+		for (;;) {
+			const dead = [...this.tables.contentBlocks.values()].filter(
+				(block) =>
+					block.workspace === this.workspace &&
+					block.refCount === 0 &&
+					(!accessedBefore || block.lastAccessedAt < accessedBefore),
+			);
+
+			if (dead.length === 0) {
+				return removed;
+			}
+
+			for (const block of dead) {
+				const chunks =
+					this.tables.contentChunks.get(this.key(block.hash)) ?? [];
+				for (const chunk of chunks) {
+					await this.decrementRefCount(chunk.chunkHash);
+				}
+			}
+
+			for (const block of dead) {
+				this.put(this.tables.contentBlocks, this.key(block.hash), undefined);
+				this.put(this.tables.contentChunks, this.key(block.hash), undefined);
+			}
+			removed += dead.length;
+		}
+	}
+
+	async getUsage(owner?: string): Promise<UsageRecord> {
+		const usage: UsageRecord = {
+			files: 0,
+			directories: 0,
+			bytes: 0,
+			storedBytes: 0,
+		};
+
+		for (const node of this.ownNodes()) {
+			if (node.path === "/") continue;
+			if (owner !== undefined && node.owner !== owner) continue;
+			if (node.isDirectory) {
+				usage.directories++;
+			} else {
+				usage.files++;
+				usage.bytes += node.size;
+			}
+		}
+
+		for (const block of this.tables.contentBlocks.values()) {
+			// Manifests only point at chunks, which are counted themselves
+			if (block.workspace === this.workspace && block.chunkCount === 0) {
+				usage.storedBytes += block.size;
+			}
+		}
+
+		return usage;
+	}
+
+	async publishChange(change: ChangeRecord): Promise<void> {
+		if (this.pendingChanges) {
+			this.pendingChanges.push(change);
+		} else {
+			this.changeFeed().deliver([change]);
+		}
+	}
+
+	async subscribeChanges(
+		handler: (change: ChangeRecord) => void,
+		onError?: (error: unknown) => void,
+	): Promise<() => Promise<void>> {
+		const unsubscribe = this.changeFeed().subscribe(
+			this.workspace,
+			handler,
+			onError,
+		);
+		return async () => unsubscribe();
+	}
+
+	private changeFeed(): ChangeFeed {
+		let feed = changeFeeds.get(this.tables);
+		if (!feed) {
+			feed = new ChangeFeed();
+			changeFeeds.set(this.tables, feed);
+		}
+		return feed;
+	}
+
+	async insertAuditEntry(entry: NewAuditRecord): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(
+				async (tx) => await tx.insertAuditEntry(entry),
+			);
+		}
+		// Entries are only appended, and rollbacks remove the newest first
+		const id = this.tables.auditLog.size + 1;
+		this.put(this.tables.auditLog, id, {
+			...entry,
+			id,
+			workspace: this.workspace,
+			timestamp: new Date(),
+		});
+	}
+
+	async findAuditEntries(query: AuditQuery): Promise<AuditRecord[]> {
+		const under = (path: string | null) =>
+			path !== null &&
+			(query.path === "/" ||
+				path === query.path ||
+				path.startsWith(`${query.path}/`));
+
+		return [...this.tables.auditLog.values()]
+			.filter(
+				(entry) =>
+					entry.workspace === this.workspace &&
+					(query.path === undefined ||
+						under(entry.path) ||
+						under(entry.oldPath)) &&
+					(query.since === undefined || entry.timestamp >= query.since) &&
+					(query.actor === undefined || entry.actor === query.actor) &&
+					(query.toolCallId === undefined ||
+						entry.toolCallId === query.toolCallId),
+			)
+			.sort((a, b) => b.id - a.id)
+			.slice(0, query.limit)
+			.map((entry) => ({ ...entry }));
+	}
+
+	async insertTrashEntry(entry: NewTrashRecord): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(
+				async (tx) => await tx.insertTrashEntry(entry),
+			);
+		}
+		this.put(this.tables.trash, entry.id, {
+			...entry,
+			workspace: this.workspace,
+			deletedAt: new Date(),
+			tree: structuredClone(entry.tree),
+		});
+	}
+
+	async findTrashEntries(): Promise<TrashRecord[]> {
+		return [...this.tables.trash.values()]
+			.filter((entry) => entry.workspace === this.workspace)
+			.reverse()
+			.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime())
+			.map(({ tree: _tree, ...entry }) => entry);
+	}
+
+	async findTrashedTree(id: string): Promise<TrashedTree | undefined> {
+		const entry = this.tables.trash.get(id);
+		return entry?.workspace === this.workspace
+			? structuredClone(entry.tree)
+			: undefined;
+	}
+
+	async deleteTrashEntry(id: string): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(
+				async (tx) => await tx.deleteTrashEntry(id),
+			);
+		}
+		if (this.tables.trash.get(id)?.workspace === this.workspace) {
+			this.put(this.tables.trash, id, undefined);
+		}
+	}
+
+	async insertSnapshot(snapshot: NewSnapshotRecord): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(
+				async (tx) => await tx.insertSnapshot(snapshot),
+			);
+		}
+		for (const existing of this.tables.snapshots.values()) {
+			if (
+				existing.workspace === this.workspace &&
+				existing.label === snapshot.label
+			) {
+				throw new Error(`Snapshot label already exists: ${snapshot.label}`);
+			}
+		}
+
+		this.put(this.tables.snapshots, snapshot.id, {
+			...snapshot,
+			workspace: this.workspace,
+			createdAt: new Date(),
+			manifest: structuredClone(snapshot.manifest),
+		});
+	}
+
+	async findSnapshots(): Promise<SnapshotRecord[]> {
+		return [...this.tables.snapshots.values()]
+			.filter((snapshot) => snapshot.workspace === this.workspace)
+			.reverse()
+			.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+			.map(({ manifest: _manifest, ...snapshot }) => snapshot);
+	}
+
+	async findSnapshotManifest(
+		id: string,
+	): Promise<SnapshotEntry[] | undefined> {
+		const snapshot = this.tables.snapshots.get(id);
+		return snapshot?.workspace === this.workspace
+			? structuredClone(snapshot.manifest)
+			: undefined;
+	}
+
+	async deleteSnapshot(id: string): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(async (tx) => await tx.deleteSnapshot(id));
+		}
+		if (this.tables.snapshots.get(id)?.workspace === this.workspace) {
+			this.put(this.tables.snapshots, id, undefined);
+		}
+	}
+
+	async insertVersion(version: NewVersionRecord): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(
+				async (tx) => await tx.insertVersion(version),
+			);
+		}
+		for (const existing of this.tables.versions.values()) {
+			if (
+				existing.workspace === this.workspace &&
+				existing.nodeId === version.nodeId &&
+				existing.version === version.version
+			) {
+				throw new Error(
+					`Version ${version.version} already exists for node: ${version.nodeId}`,
+				);
+			}
+		}
+
+		this.put(this.tables.versions, version.id, {
+			...version,
+			workspace: this.workspace,
+			comment: version.comment ?? null,
+			createdAt: version.createdAt ?? new Date(),
+		});
+	}
+
+	async findVersions(nodeId: string): Promise<VersionRecord[]> {
+		return [...this.tables.versions.values()]
+			.filter(
+				(version) =>
+					version.workspace === this.workspace && version.nodeId === nodeId,
+			)
+			.sort((a, b) => b.version - a.version)
+			.map((version) => ({ ...version }));
+	}
+
+	async findVersion(
+		nodeId: string,
+		version: number,
+	): Promise<VersionRecord | undefined> {
+		const versions = await this.findVersions(nodeId);
+		return versions.find((v) => v.version === version);
+	}
+
+	async findLatestVersion(nodeId: string): Promise<VersionRecord | undefined> {
+		const versions = await this.findVersions(nodeId);
+		return versions[0];
+	}
+
+	async updateSearchIndex(
+		nodeId: string,
+		_path: string,
+		content?: string,
+	): Promise<void> {
+		if (!this.undoLog) {
+			return await this.transaction(
+				async (tx) => await tx.updateSearchIndex(nodeId, _path, content),
+			);
+		}
+		this.put(this.tables.searchIndex, nodeId, {
+			textContent: content || "",
+			updatedAt: new Date(),
+		});
+	}
+
+	async findIndexedContent(
+		pathPrefix: string,
+		pathRegex: string | null,
+		offset: number,
+		limit: number,
+	): Promise<Array<{ nodeId: string; path: string; content: string }>> {
+		const regex = pathRegex ? new RegExp(pathRegex) : null;
+
+		return this.indexedNodes()
+			.filter(
+				({ path }) =>
+					path.startsWith(pathPrefix) && (!regex || regex.test(path)),
+			)
+			.sort((a, b) => compareStrings(a.path, b.path))
+			.slice(offset, offset + limit);
+	}
+
+	async searchContent(
+		query: SearchQuery,
+		basePath: string,
+		limit: number,
+	): Promise<
+		Array<{ nodeId: string; path: string; score: number; snippet: string }>
+	> {
+		const results: Array<{
+			nodeId: string;
+			path: string;
+			score: number;
+			snippet: string;
+		}> = [];
+
+		for (const { nodeId, path, content } of this.indexedNodes()) {
+			if (
+				basePath !== "/" &&
+				path !== basePath &&
+				!path.startsWith(`${basePath}/`)
+			) {
+				continue;
+			}
+
+			const words = [...content.matchAll(WORD_PATTERN)];
+			const hits = matchQuery(
+				query,
+				words.map((word) => word[0].toLowerCase()),
+			);
+			if (!hits) continue;
+
+			results.push({
+				nodeId,
+				path,
+				score: hits.size / Math.log2(words.length + 1),
+				snippet: buildSnippet(content, words, hits),
+			});
+		}
+
+		return results
+			.sort((a, b) => b.score - a.score || compareStrings(a.path, b.path))
+			.slice(0, limit);
+	}
+
+	private indexedNodes(): Array<{
+		nodeId: string;
+		path: string;
+		content: string;
+	}> {
+		const results: Array<{ nodeId: string; path: string; content: string }> =
+			[];
+
+		for (const [nodeId, entry] of this.tables.searchIndex) {
+			const node = this.ownNode(nodeId);
+			if (node) {
+				results.push({
+					nodeId,
+					path: node.path,
+					content: entry.textContent,
+				});
+			}
+		}
+
+		return results;
+	}
+}
+
+function cloneNode(node: NodeRecord): NodeRecord {
+	return {
+		...node,
+		metadata: node.metadata ? structuredClone(node.metadata) : null,
+	};
+}
+
+function scopedKey(workspace: string, value: string): string {
+	return `${workspace}\0${value}`;
+}
+
+function splitScopedKey(key: string): [string, string] {
+	const separator = key.indexOf("\0");
+	return [key.slice(0, separator), key.slice(separator + 1)];
+}
+
+// Binary comparison, matching SQLite's default collation
+function compareStrings(a: string, b: string): number {
+	return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Returns the word positions `query` hit, or null when it does not match. */
+function matchQuery(query: SearchQuery, words: string[]): Set<number> | null {
+	switch (query.type) {
+		case "term": {
+			const value = query.value.toLowerCase();
+			const hits = new Set<number>();
+			words.forEach((word, i) => {
+				if (query.prefix ? word.startsWith(value) : word === value) {
+					hits.add(i);
+				}
+			});
+			return hits.size > 0 ? hits : null;
+		}
+		case "phrase": {
+			const terms = query.terms.map((t) => t.toLowerCase());
+			const hits = new Set<number>();
+			for (let i = 0; i + terms.length <= words.length; i++) {
+				if (terms.every((term, j) => words[i + j] === term)) {
+					terms.forEach((_, j) => hits.add(i + j));
+				}
+			}
+			return hits.size > 0 ? hits : null;
+		}
+		case "and": {
+			const hits = new Set<number>();
+			for (const child of query.children) {
+				const childHits = matchQuery(child, words);
+				if (!childHits) return null;
+				for (const hit of childHits) hits.add(hit);
+			}
+			return hits;
+		}
+		case "or": {
+			let hits: Set<number> | null = null;
+			for (const child of query.children) {
+				const childHits = matchQuery(child, words);
+				if (!childHits) continue;
+				hits ??= new Set();
+				for (const hit of childHits) hits.add(hit);
+			}
+			return hits;
+		}
+		case "not":
+			return matchQuery(query.child, words) ? null : new Set();
+	}
+}
+
+function buildSnippet(
+	content: string,
+	words: RegExpMatchArray[],
+	hits: Set<number>,
+): string {
+	const firstHit = hits.size > 0 ? Math.min(...hits) : 0;
+	const start = Math.max(
+		0,
+		Math.min(firstHit - 2, words.length - SNIPPET_WORDS),
+	);
+	const end = Math.min(words.length, start + SNIPPET_WORDS);
+
+	let snippet = start > 0 ? "..." : "";
+	for (let i = start; i < end; i++) {
+		if (i > start) {
+			const previous = words[i - 1];
+			const gapStart = previous.index! + previous[0].length;
+			snippet += content.slice(gapStart, words[i].index);
+		}
+		snippet += hits.has(i) ? `**${words[i][0]}**` : words[i][0];
+	}
+	if (end < words.length) snippet += "...";
+
+	return snippet;
+}
@@ -1,34 +1,99 @@
-import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
-import { eq, and, like, sql, desc } from "drizzle-orm";
-import type { Pool } from "pg";
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+	drizzle,
+	type NodePgQueryResultHKT,
+} from "drizzle-orm/node-postgres";
+import type { AnyPgColumn, PgDatabase } from "drizzle-orm/pg-core";
+import {
+	eq,
+	and,
+	or,
+	ne,
+	count,
+	sum,
+	like,
+	sql,
+	desc,
+	gt,
+	gte,
+	lt,
+	lte,
+	asc,
+	inArray,
+} from "drizzle-orm";
+import type { Notification, Pool } from "pg";
 import * as schema from "../schema/pg.js";
-import type { DatabaseDriver } from "./types.js";
-import type { NodeRecord, NewNodeRecord } from "../schema/types.js";
+import { DEFAULT_WORKSPACE, type DatabaseDriver } from "./types.js";
+import type {
+	NodeRecord,
+	NewNodeRecord,
+	VersionRecord,
+	NewVersionRecord,
+	ContentChunkRecord,
+	ContentRefRecord,
+	UsageRecord,
+	ChangeRecord,
+	AuditRecord,
+	NewAuditRecord,
+	AuditQuery,
+	ListQuery,
+	NodeQuery,
+	TrashRecord,
+	TrashedTree,
+	NewTrashRecord,
+	SnapshotRecord,
+	SnapshotEntry,
+	NewSnapshotRecord,
+} from "../schema/types.js";
 import { FileSystemUtils } from "../utils.js";
+import { toTsQuery, type SearchQuery } from "../search-query.js";
+import { reviveTrashedTree, type SerializedTrashedTree } from "./trash.js";
+import { notify } from "./change-feed.js";
+
+type PgDb = PgDatabase<NodePgQueryResultHKT, typeof schema>;
+
+// The innermost transaction whose callback is running, so the outer driver
+// used from inside it joins it instead of running on another connection
+const activeTransactions = new AsyncLocalStorage<{
+	pool: Pool;
+	tx: PostgresDriver;
+	open: boolean;
+}>();
+
+const CHUNK_INSERT_BATCH = 500;
+const TOUCH_BATCH = 500;
+const CHANGE_CHANNEL = "pgfs_changes";
+
+// LIKE pattern matching paths that start with `prefix` literally
+function likePrefix(prefix: string): string {
+	return `${prefix.replace(/[\\%_]/g, "\\$&")}%`;
+}
 
 export class PostgresDriver implements DatabaseDriver {
-	private db: NodePgDatabase<typeof schema>;
+	private db: PgDb;
+	private inTransaction = false;
+
+	constructor(
+		private pool: Pool,
+		db?: PgDb,
+		readonly workspace: string = DEFAULT_WORKSPACE,
+	) {
+		this.db = db ?? drizzle(pool, { schema });
+	}
 
-	constructor(private pool: Pool) {
-		this.db = drizzle(pool, { schema });
+	withWorkspace(workspace: string): DatabaseDriver {
+		const scoped = new PostgresDriver(this.pool, this.db, workspace);
+		scoped.inTransaction = this.inTransaction;
+		return scoped;
 	}
 
 	async initialize(): Promise<void> {
 		await this.pool.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
 
-		await this.pool.query(`
-			DO $$
-			BEGIN
-				IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'pgfs_search') THEN
-					CREATE TEXT SEARCH CONFIGURATION pgfs_search (COPY = english);
-				END IF;
-			END $$;
-		`);
-
 		const root = await this.findNodeByPath("/");
 		if (!root) {
 			const rootId = FileSystemUtils.generateId();
-			await this.db.insert(schema.nodes).values({
+			await this.insertNode({
 				id: rootId,
 				path: "/",
 				name: "",
@@ -42,84 +107,233 @@ export class PostgresDriver implements DatabaseDriver {
 		}
 	}
 
+	async transaction<T>(fn: (tx: DatabaseDriver) => Promise<T>): Promise<T> {
+		const active = activeTransactions.getStore();
+		if (active?.open && active.pool === this.pool && !this.inTransaction) {
+			return await active.tx.withWorkspace(this.workspace).transaction(fn);
+		}
+
+		// Nested calls on a transaction-bound driver become savepoints
+		return await this.db.transaction(async (tx) => {
+			const driver = new PostgresDriver(this.pool, tx, this.workspace);
+			driver.inTransaction = true;
+			const scope = { pool: this.pool, tx: driver, open: true };
+			try {
+				return await activeTransactions.run(scope, () => fn(driver));
+			} finally {
+				scope.open = false;
+			}
+		});
+	}
+
+	private nodeWhere(id: string) {
+		return and(
+			eq(schema.nodes.workspace, this.workspace),
+			eq(schema.nodes.id, id),
+		);
+	}
+
+	private blockWhere(hash: string) {
+		return and(
+			eq(schema.contentBlocks.workspace, this.workspace),
+			eq(schema.contentBlocks.hash, hash),
+		);
+	}
+
 	async findNodeByPath(path: string): Promise<NodeRecord | undefined> {
 		const normalized = FileSystemUtils.normalizePath(path);
 		const result = await this.db.query.nodes.findFirst({
-			where: eq(schema.nodes.path, normalized),
+			where: and(
+				eq(schema.nodes.workspace, this.workspace),
+				eq(schema.nodes.path, normalized),
+			),
 		});
 		return result as NodeRecord | undefined;
 	}
 
 	async insertNode(node: NewNodeRecord): Promise<void> {
-		await this.db.insert(schema.nodes).values(node);
+		await this.db
+			.insert(schema.nodes)
+			.values({ ...node, workspace: this.workspace });
 	}
 
 	async updateNode(id: string, data: Partial<NodeRecord>): Promise<void> {
 		await this.db
 			.update(schema.nodes)
 			.set(data)
-			.where(eq(schema.nodes.id, id));
+			.where(this.nodeWhere(id));
 	}
 
 	async deleteNode(id: string): Promise<void> {
-		await this.db.delete(schema.nodes).where(eq(schema.nodes.id, id));
+		await this.db.delete(schema.nodes).where(this.nodeWhere(id));
 	}
 
 	async findChildNodes(parentId: string): Promise<NodeRecord[]> {
 		const results = await this.db.query.nodes.findMany({
-			where: eq(schema.nodes.parentId, parentId),
+			where: and(
+				eq(schema.nodes.workspace, this.workspace),
+				eq(schema.nodes.parentId, parentId),
+			),
 			orderBy: [desc(schema.nodes.isDirectory), schema.nodes.name],
 		});
 		return results as NodeRecord[];
 	}
 
+	async findNodesByLinkId(linkId: string): Promise<NodeRecord[]> {
+		const results = await this.db.query.nodes.findMany({
+			where: and(
+				eq(schema.nodes.workspace, this.workspace),
+				eq(schema.nodes.linkId, linkId),
+			),
+			orderBy: [schema.nodes.path],
+		});
+		return results as NodeRecord[];
+	}
+
 	async findDescendantsByPathPrefix(
 		pathPrefix: string,
 	): Promise<NodeRecord[]> {
 		const results = await this.db.query.nodes.findMany({
-			where: like(schema.nodes.path, `${pathPrefix}/%`),
+			where: and(
+				eq(schema.nodes.workspace, this.workspace),
+				like(schema.nodes.path, likePrefix(`${pathPrefix}/`)),
+			),
+		});
+		return results as NodeRecord[];
+	}
+
+	async findNodes(query: NodeQuery): Promise<NodeRecord[]> {
+		const { metadata, mimeType, size, modifiedAt } = schema.nodes;
+		// Containment and key existence can use the GIN index on metadata
+		const contains = {
+			...query.metadata,
+			...(query.tags?.length ? { tags: query.tags } : {}),
+		};
+		const keys = query.keys ?? [];
+
+		const results = await this.db.query.nodes.findMany({
+			where: and(
+				eq(schema.nodes.workspace, this.workspace),
+				query.path === undefined || query.path === "/"
+					? undefined
+					: like(schema.nodes.path, likePrefix(`${query.path}/`)),
+				query.isDirectory === undefined
+					? undefined
+					: eq(schema.nodes.isDirectory, query.isDirectory),
+				Object.keys(contains).length === 0
+					? undefined
+					: sql`${metadata} @> ${JSON.stringify(contains)}::jsonb`,
+				keys.length === 0
+					? undefined
+					: sql`${metadata} ?& array[${sql.join(
+							keys.map((key) => sql`${key}`),
+							sql`, `,
+						)}]::text[]`,
+				query.mimeType === undefined
+					? undefined
+					: query.mimeType.endsWith("/*")
+						? like(mimeType, likePrefix(query.mimeType.slice(0, -1)))
+						: eq(mimeType, query.mimeType),
+				query.minSize === undefined ? undefined : gte(size, query.minSize),
+				query.maxSize === undefined ? undefined : lte(size, query.maxSize),
+				query.modifiedAfter === undefined
+					? undefined
+					: gte(modifiedAt, query.modifiedAfter),
+				query.modifiedBefore === undefined
+					? undefined
+					: lt(modifiedAt, query.modifiedBefore),
+			),
+			orderBy: [asc(schema.nodes.path)],
+			limit: query.limit,
 		});
 		return results as NodeRecord[];
 	}
 
+	async listNodes(
+		query: ListQuery,
+	): Promise<{ nodes: NodeRecord[]; total: number }> {
+		const where = and(
+			eq(schema.nodes.workspace, this.workspace),
+			query.recursive
+				? and(
+						ne(schema.nodes.path, query.path),
+						like(
+							schema.nodes.path,
+							likePrefix(query.path === "/" ? "/" : `${query.path}/`),
+						),
+					)
+				: eq(schema.nodes.parentId, query.parentId),
+			query.pathRegex === undefined
+				? undefined
+				: sql`${schema.nodes.path} ~ ${query.pathRegex}`,
+		);
+
+		const column = {
+			name: schema.nodes.name,
+			modified: schema.nodes.modifiedAt,
+			size: schema.nodes.size,
+			created: schema.nodes.createdAt,
+		}[query.sortBy ?? "name"];
+		const direction = query.order === "desc" ? desc : asc;
+		const orderBy =
+			query.sortBy || query.order
+				? [direction(column), asc(schema.nodes.path)]
+				: query.recursive
+					? [asc(schema.nodes.path)]
+					: [desc(schema.nodes.isDirectory), asc(schema.nodes.name)];
+
+		const nodes = await this.db.query.nodes.findMany({
+			where,
+			orderBy,
+			limit: query.limit,
+			offset: query.offset,
+		});
+		const [{ total }] = await this.db
+			.select({ total: count() })
+			.from(schema.nodes)
+			.where(where);
+		return { nodes: nodes as NodeRecord[], total };
+	}
+
 	async findNodesByGlob(
-		basePath: string,
-		namePattern: string,
+		pathPrefix: string,
+		pathRegex: string,
 		limit: number,
 	): Promise<NodeRecord[]> {
 		const results = await this.db.query.nodes.findMany({
 			where: and(
-				like(schema.nodes.path, `${basePath}%`),
-				like(schema.nodes.name, namePattern),
+				eq(schema.nodes.workspace, this.workspace),
+				like(schema.nodes.path, likePrefix(pathPrefix)),
+				sql`${schema.nodes.path} ~ ${pathRegex}`,
 			),
+			orderBy: [desc(schema.nodes.modifiedAt), schema.nodes.path],
 			limit,
 		});
 		return results as NodeRecord[];
 	}
 
-	async getContent(hash: string): Promise<string> {
+	async getContent(hash: string): Promise<Buffer> {
 		const block = await this.db.query.contentBlocks.findFirst({
-			where: eq(schema.contentBlocks.hash, hash),
+			where: this.blockWhere(hash),
 		});
 
 		if (!block) {
 			throw new Error(`Content not found: ${hash}`);
 		}
 
-		await this.db
-			.update(schema.contentBlocks)
-			.set({ lastAccessedAt: new Date() })
-			.where(eq(schema.contentBlocks.hash, hash));
+		if (block.chunkCount > 0) {
+			return await this.concatChunks(hash, block.size);
+		}
 
 		return block.data;
 	}
 
-	async getOrCreateContent(content: string): Promise<string> {
+	async getOrCreateContent(content: Buffer): Promise<string> {
 		const hash = FileSystemUtils.hashContent(content);
-		const size = Buffer.byteLength(content, "utf8");
+		const size = content.length;
 
 		const existing = await this.db.query.contentBlocks.findFirst({
-			where: eq(schema.contentBlocks.hash, hash),
+			where: this.blockWhere(hash),
 		});
 
 		if (existing) {
@@ -128,6 +342,7 @@ export class PostgresDriver implements DatabaseDriver {
 		}
 
 		await this.db.insert(schema.contentBlocks).values({
+			workspace: this.workspace,
 			hash,
 			data: content,
 			size,
@@ -137,6 +352,107 @@ export class PostgresDriver implements DatabaseDriver {
 		return hash;
 	}
 
+	async getOrCreateChunkedContent(
+		hash: string,
+		size: number,
+		chunks: Array<{ hash: string; size: number }>,
+	): Promise<string> {
+		const existing = await this.db.query.contentBlocks.findFirst({
+			where: this.blockWhere(hash),
+		});
+
+		if (existing) {
+			await this.incrementRefCount(hash);
+			for (const chunk of chunks) {
+				await this.decrementRefCount(chunk.hash);
+			}
+			return hash;
+		}
+
+		await this.db.insert(schema.contentBlocks).values({
+			workspace: this.workspace,
+			hash,
+			data: Buffer.alloc(0),
+			size,
+			refCount: 1,
+			chunkCount: chunks.length,
+		});
+
+		let offset = 0;
+		const rows = chunks.map((chunk, seq) => {
+			const row = {
+				workspace: this.workspace,
+				contentHash: hash,
+				seq,
+				chunkHash: chunk.hash,
+				offset,
+				size: chunk.size,
+			};
+			offset += chunk.size;
+			return row;
+		});
+
+		for (let i = 0; i < rows.length; i += CHUNK_INSERT_BATCH) {
+			await this.db
+				.insert(schema.contentChunks)
+				.values(rows.slice(i, i + CHUNK_INSERT_BATCH));
+		}
+
+		return hash;
+	}
+
+	async findContentChunks(
+		hash: string,
+		start: number,
+		end: number,
+	): Promise<ContentChunkRecord[]> {
+		const chunks = await this.db
+			.select({
+				hash: schema.contentChunks.chunkHash,
+				offset: schema.contentChunks.offset,
+				size: schema.contentChunks.size,
+			})
+			.from(schema.contentChunks)
+			.where(
+				and(
+					eq(schema.contentChunks.workspace, this.workspace),
+					eq(schema.contentChunks.contentHash, hash),
+					lt(schema.contentChunks.offset, end),
+					gt(
+						sql`${schema.contentChunks.offset} + ${schema.contentChunks.size}`,
+						start,
+					),
+				),
+			)
+			.orderBy(schema.contentChunks.seq);
+
+		if (chunks.length > 0) {
+			return chunks;
+		}
+
+		const block = await this.db.query.contentBlocks.findFirst({
+			where: this.blockWhere(hash),
+			columns: { size: true, chunkCount: true },
+		});
+
+		if (!block || block.chunkCount > 0) {
+			return [];
+		}
+
+		return [{ hash, offset: 0, size: block.size }];
+	}
+
+	private async concatChunks(hash: string, size: number): Promise<Buffer> {
+		const chunks = await this.findContentChunks(hash, 0, size);
+		const parts: Buffer[] = [];
+
+		for (const chunk of chunks) {
+			parts.push(await this.getContent(chunk.hash));
+		}
+
+		return Buffer.concat(parts);
+	}
+
 	async incrementRefCount(hash: string): Promise<void> {
 		await this.db
 			.update(schema.contentBlocks)
@@ -144,7 +460,7 @@ export class PostgresDriver implements DatabaseDriver {
 				refCount: sql`${schema.contentBlocks.refCount} + 1`,
 				lastAccessedAt: new Date(),
 			})
-			.where(eq(schema.contentBlocks.hash, hash));
+			.where(this.blockWhere(hash));
 	}
 
 	async decrementRefCount(hash: string): Promise<void> {
@@ -153,16 +469,390 @@ export class PostgresDriver implements DatabaseDriver {
 			.set({
 				refCount: sql`${schema.contentBlocks.refCount} - 1`,
 			})
-			.where(eq(schema.contentBlocks.hash, hash));
+			.where(this.blockWhere(hash));
+	}
+
+	async findContentRefs(): Promise<ContentRefRecord[]> {
+		const blocks = await this.db
+			.select({
+				hash: schema.contentBlocks.hash,
+				refCount: schema.contentBlocks.refCount,
+			})
+			.from(schema.contentBlocks)
+			.where(eq(schema.contentBlocks.workspace, this.workspace));
+		const chunks = await this.db
+			.select({
+				contentHash: schema.contentChunks.contentHash,
+				chunkHash: schema.contentChunks.chunkHash,
+			})
+			.from(schema.contentChunks)
+			.where(eq(schema.contentChunks.workspace, this.workspace))
+			.orderBy(schema.contentChunks.contentHash, schema.contentChunks.seq);
+
+		const refs = new Map<string, ContentRefRecord>(
+			blocks.map((block) => [block.hash, { ...block, chunks: [] }]),
+		);
+		for (const chunk of chunks) {
+			refs.get(chunk.contentHash)?.chunks.push(chunk.chunkHash);
+		}
+		return [...refs.values()];
+	}
+
+	async setRefCount(hash: string, refCount: number): Promise<void> {
+		await this.db
+			.update(schema.contentBlocks)
+			.set({ refCount })
+			.where(this.blockWhere(hash));
+	}
+
+	async touchNodes(ids: string[], accessedAt: Date): Promise<void> {
+		for (let i = 0; i < ids.length; i += TOUCH_BATCH) {
+			await this.db
+				.update(schema.nodes)
+				.set({ accessedAt })
+				.where(
+					and(
+						eq(schema.nodes.workspace, this.workspace),
+						inArray(schema.nodes.id, ids.slice(i, i + TOUCH_BATCH)),
+					),
+				);
+		}
+	}
+
+	async touchContent(hashes: string[], accessedAt: Date): Promise<void> {
+		for (let i = 0; i < hashes.length; i += TOUCH_BATCH) {
+			await this.db
+				.update(schema.contentBlocks)
+				.set({ lastAccessedAt: accessedAt })
+				.where(
+					and(
+						eq(schema.contentBlocks.workspace, this.workspace),
+						inArray(
+							schema.contentBlocks.hash,
+							hashes.slice(i, i + TOUCH_BATCH),
+						),
+					),
+				);
+		}
+	}
+
+	async garbageCollect(
+		options: { accessedBefore?: Date } = {},
+	): Promise<number> {
+		return await this.transaction(
+			async (tx) =>
+				await (tx as PostgresDriver).collectUnreferenced(options.accessedBefore),
+		);
+	}
+
+	private async collectUnreferenced(accessedBefore?: Date): Promise<number> {
+		let removed = 0;
+
+		// Releasing a chunked manifest can orphan its chunks, so repeat until
+		// a pass finds nothing left to collect.
+		for (;;) {
+			const dead = await this.db
+				.select({
+					hash: schema.contentBlocks.hash,
+					chunkCount: schema.contentBlocks.chunkCount,
+				})
+				.from(schema.contentBlocks)
+				.where(
+					and(
+						eq(schema.contentBlocks.workspace, this.workspace),
+						eq(schema.contentBlocks.refCount, 0),
+						accessedBefore
+							? lt(schema.contentBlocks.lastAccessedAt, accessedBefore)
+							: undefined,
+					),
+				);
+
+			if (dead.length === 0) {
+				return removed;
+			}
+
+			for (const block of dead) {
+				if (block.chunkCount === 0) continue;
+				const chunks = await this.db
+					.select({ chunkHash: schema.contentChunks.chunkHash })
+					.from(schema.contentChunks)
+					.where(
+						and(
+							eq(schema.contentChunks.workspace, this.workspace),
+							eq(schema.contentChunks.contentHash, block.hash),
+						),
+					);
+				for (const chunk of chunks) {
+					await this.decrementRefCount(chunk.chunkHash);
+				}
+			}
+
+			await this.db.delete(schema.contentBlocks).where(
+				and(
+					eq(schema.contentBlocks.workspace, this.workspace),
+					inArray(
+						schema.contentBlocks.hash,
+						dead.map((block) => block.hash),
+					),
+				),
+			);
+			removed += dead.length;
+		}
+	}
+
+	async getUsage(owner?: string): Promise<UsageRecord> {
+		const groups = await this.db
+			.select({
+				isDirectory: schema.nodes.isDirectory,
+				count: count(),
+				bytes: sum(schema.nodes.size).mapWith(Number),
+			})
+			.from(schema.nodes)
+			.where(
+				and(
+					eq(schema.nodes.workspace, this.workspace),
+					ne(schema.nodes.path, "/"),
+					owner === undefined ? undefined : eq(schema.nodes.owner, owner),
+				),
+			)
+			.groupBy(schema.nodes.isDirectory);
+
+		const [blocks] = await this.db
+			.select({ size: sum(schema.contentBlocks.size).mapWith(Number) })
+			.from(schema.contentBlocks)
+			.where(
+				and(
+					eq(schema.contentBlocks.workspace, this.workspace),
+					// Manifests only point at chunks, which are counted themselves
+					eq(schema.contentBlocks.chunkCount, 0),
+				),
+			);
+
+		const files = groups.find((group) => !group.isDirectory);
+		const directories = groups.find((group) => group.isDirectory);
+		return {
+			files: files?.count ?? 0,
+			directories: directories?.count ?? 0,
+			bytes: files?.bytes ?? 0,
+			storedBytes: blocks?.size ?? 0,
+		};
+	}
+
+	async publishChange(change: ChangeRecord): Promise<void> {
+		// Postgres holds notifications sent in a transaction until it commits
+		await this.db.execute(
+			sql`SELECT pg_notify(${CHANGE_CHANNEL}, ${JSON.stringify(change)})`,
+		);
+	}
+
+	/**
+	 * Listens on a dedicated pool connection, so changes committed by other
+	 * processes arrive too. The connection is held until unsubscribed.
+	 */
+	async subscribeChanges(
+		handler: (change: ChangeRecord) => void,
+		onError?: (error: unknown) => void,
+	): Promise<() => Promise<void>> {
+		const client = await this.pool.connect();
+		let listening = true;
+		const onNotification = (message: Notification) => {
+			if (message.channel !== CHANGE_CHANNEL || !message.payload) return;
+			let change: ChangeRecord;
+			try {
+				change = parseChange(message.payload);
+			} catch (error) {
+				onError?.(error);
+				return;
+			}
+			if (change.workspace === this.workspace) {
+				notify(handler, change, onError);
+			}
+		};
+		// A lost connection ends the subscription; the pool discards the client
+		const onClientError = (error: Error) => {
+			if (!listening) return;
+			listening = false;
+			client.off("notification", onNotification);
+			client.release(error);
+			onError?.(error);
+		};
+
+		client.on("notification", onNotification);
+		client.on("error", onClientError);
+		try {
+			await client.query(`LISTEN ${CHANGE_CHANNEL}`);
+		} catch (error) {
+			if (listening) {
+				listening = false;
+				client.off("notification", onNotification);
+				client.off("error", onClientError);
+				client.release();
+			}
+			throw error;
+		}
+
+		return async () => {
+			if (!listening) return;
+			listening = false;
+			client.off("notification", onNotification);
+			try {
+				await client.query(`UNLISTEN ${CHANGE_CHANNEL}`);
+			} finally {
+				client.off("error", onClientError);
+				client.release();
+			}
+		};
+	}
+
+	async insertAuditEntry(entry: NewAuditRecord): Promise<void> {
+		await this.db
+			.insert(schema.auditLog)
+			.values({ ...entry, workspace: this.workspace });
+	}
+
+	async findAuditEntries(query: AuditQuery): Promise<AuditRecord[]> {
+		// Everything is at or below the root
+		const path = query.path === "/" ? undefined : query.path;
+		const under = (column: AnyPgColumn) =>
+			or(eq(column, path!), like(column, likePrefix(`${path}/`)));
+
+		const results = await this.db.query.auditLog.findMany({
+			where: and(
+				eq(schema.auditLog.workspace, this.workspace),
+				path === undefined
+					? undefined
+					: or(under(schema.auditLog.path), under(schema.auditLog.oldPath)),
+				query.since === undefined
+					? undefined
+					: gte(schema.auditLog.timestamp, query.since),
+				query.actor === undefined
+					? undefined
+					: eq(schema.auditLog.actor, query.actor),
+				query.toolCallId === undefined
+					? undefined
+					: eq(schema.auditLog.toolCallId, query.toolCallId),
+			),
+			orderBy: [desc(schema.auditLog.id)],
+			limit: query.limit,
+		});
+		return results as AuditRecord[];
 	}
 
-	async garbageCollect(): Promise<number> {
-		const result = await this.db
-			.delete(schema.contentBlocks)
-			.where(eq(schema.contentBlocks.refCount, 0))
-			.returning();
+	async insertTrashEntry(entry: NewTrashRecord): Promise<void> {
+		await this.db
+			.insert(schema.trash)
+			.values({ ...entry, workspace: this.workspace });
+	}
 
-		return result.length;
+	async findTrashEntries(): Promise<TrashRecord[]> {
+		const results = await this.db.query.trash.findMany({
+			columns: { tree: false },
+			where: eq(schema.trash.workspace, this.workspace),
+			orderBy: [desc(schema.trash.deletedAt)],
+		});
+		return results as TrashRecord[];
+	}
+
+	async findTrashedTree(id: string): Promise<TrashedTree | undefined> {
+		const result = await this.db.query.trash.findFirst({
+			columns: { tree: true },
+			where: and(
+				eq(schema.trash.workspace, this.workspace),
+				eq(schema.trash.id, id),
+			),
+		});
+		return result
+			? reviveTrashedTree(result.tree as SerializedTrashedTree)
+			: undefined;
+	}
+
+	async deleteTrashEntry(id: string): Promise<void> {
+		await this.db
+			.delete(schema.trash)
+			.where(
+				and(eq(schema.trash.workspace, this.workspace), eq(schema.trash.id, id)),
+			);
+	}
+
+	async insertSnapshot(snapshot: NewSnapshotRecord): Promise<void> {
+		await this.db
+			.insert(schema.snapshots)
+			.values({ ...snapshot, workspace: this.workspace });
+	}
+
+	async findSnapshots(): Promise<SnapshotRecord[]> {
+		const results = await this.db.query.snapshots.findMany({
+			columns: { manifest: false },
+			where: eq(schema.snapshots.workspace, this.workspace),
+			orderBy: [desc(schema.snapshots.createdAt)],
+		});
+		return results as SnapshotRecord[];
+	}
+
+	async findSnapshotManifest(
+		id: string,
+	): Promise<SnapshotEntry[] | undefined> {
+		const result = await this.db.query.snapshots.findFirst({
+			columns: { manifest: true },
+			where: and(
+				eq(schema.snapshots.workspace, this.workspace),
+				eq(schema.snapshots.id, id),
+			),
+		});
+		return result?.manifest as SnapshotEntry[] | undefined;
+	}
+
+	async deleteSnapshot(id: string): Promise<void> {
+		await this.db
+			.delete(schema.snapshots)
+			.where(
+				and(
+					eq(schema.snapshots.workspace, this.workspace),
+					eq(schema.snapshots.id, id),
+				),
+			);
+	}
+
+	async insertVersion(version: NewVersionRecord): Promise<void> {
+		await this.db
+			.insert(schema.versions)
+			.values({ ...version, workspace: this.workspace });
+	}
+
+	async findVersions(nodeId: string): Promise<VersionRecord[]> {
+		const results = await this.db.query.versions.findMany({
+			where: and(
+				eq(schema.versions.workspace, this.workspace),
+				eq(schema.versions.nodeId, nodeId),
+			),
+			orderBy: [desc(schema.versions.version)],
+		});
+		return results as VersionRecord[];
+	}
+
+	async findVersion(
+		nodeId: string,
+		version: number,
+	): Promise<VersionRecord | undefined> {
+		const result = await this.db.query.versions.findFirst({
+			where: and(
+				eq(schema.versions.workspace, this.workspace),
+				eq(schema.versions.nodeId, nodeId),
+				eq(schema.versions.version, version),
+			),
+		});
+		return result as VersionRecord | undefined;
+	}
+
+	async findLatestVersion(nodeId: string): Promise<VersionRecord | undefined> {
+		const result = await this.db.query.versions.findFirst({
+			where: and(
+				eq(schema.versions.workspace, this.workspace),
+				eq(schema.versions.nodeId, nodeId),
+			),
+			orderBy: [desc(schema.versions.version)],
+		});
+		return result as VersionRecord | undefined;
 	}
 
 	async updateSearchIndex(
@@ -170,36 +860,36 @@ export class PostgresDriver implements DatabaseDriver {
 		path: string,
 		content?: string,
 	): Promise<void> {
+		// search_vector is generated from text_content by the database
 		const textContent = content || "";
-		const searchText = `${path} ${textContent}`;
 
 		await this.db
 			.insert(schema.searchIndex)
 			.values({
 				nodeId,
 				textContent,
-				searchVector: searchText,
 				updatedAt: new Date(),
 			})
 			.onConflictDoUpdate({
 				target: schema.searchIndex.nodeId,
 				set: {
 					textContent,
-					searchVector: searchText,
 					updatedAt: new Date(),
 				},
 			});
 	}
 
-	async searchContent(
-		query: string,
-		basePath: string,
+	async findIndexedContent(
+		pathPrefix: string,
+		pathRegex: string | null,
+		offset: number,
 		limit: number,
-	): Promise<Array<{ nodeId: string; path: string }>> {
+	): Promise<Array<{ nodeId: string; path: string; content: string }>> {
 		const results = await this.db
 			.select({
 				nodeId: schema.searchIndex.nodeId,
 				path: schema.nodes.path,
+				content: schema.searchIndex.textContent,
 			})
 			.from(schema.searchIndex)
 			.innerJoin(
@@ -208,12 +898,77 @@ export class PostgresDriver implements DatabaseDriver {
 			)
 			.where(
 				and(
-					like(schema.nodes.path, `${basePath}%`),
-					like(schema.searchIndex.textContent, `%${query}%`),
+					eq(schema.nodes.workspace, this.workspace),
+					like(schema.nodes.path, likePrefix(pathPrefix)),
+					pathRegex
+						? sql`${schema.nodes.path} ~ ${pathRegex}`
+						: undefined,
 				),
 			)
-			.limit(limit);
+			.orderBy(schema.nodes.path)
+			.limit(limit)
+			.offset(offset);
 
-		return results;
+		return results.map((r) => ({ ...r, content: r.content || "" }));
 	}
+
+	async searchContent(
+		query: SearchQuery,
+		basePath: string,
+		limit: number,
+	): Promise<
+		Array<{ nodeId: string; path: string; score: number; snippet: string }>
+	> {
+		const result = await this.db.execute<{
+			node_id: string;
+			path: string;
+			score: number;
+			snippet: string;
+		}>(sql`
+			SELECT
+				si.node_id,
+				n.path,
+				ts_rank(si.search_vector, q) AS score,
+				ts_headline(
+					'english',
+					si.text_content,
+					q,
+					'StartSel=**, StopSel=**, MaxFragments=2, MaxWords=20, MinWords=5'
+				) AS snippet
+			FROM search_index si
+			INNER JOIN nodes n ON n.id = si.node_id,
+				to_tsquery('english', ${toTsQuery(query)}) q
+			WHERE si.search_vector @@ q
+				AND n.workspace = ${this.workspace}
+				AND ${
+					basePath === "/"
+						? sql`TRUE`
+						: sql`(n.path = ${basePath}
+							OR n.path LIKE ${likePrefix(`${basePath}/`)})`
+				}
+			ORDER BY score DESC, n.path
+			LIMIT ${limit}
+		`);
+
+		return result.rows.map((row) => ({
+			nodeId: row.node_id,
+			path: row.path,
+			score: Number(row.score),
+			snippet: row.snippet,
+		}));
+	}
+}
+
+function parseChange(payload: string): ChangeRecord {
+	const change = JSON.parse(payload);
+	return {
+		...change,
+		timestamp: new Date(change.timestamp),
+		node: {
+			...change.node,
+			createdAt: new Date(change.node.createdAt),
+			modifiedAt: new Date(change.node.modifiedAt),
+			accessedAt: new Date(change.node.accessedAt),
+		},
+	};
 }
@@ -1,69 +1,248 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { drizzle, type BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
-import { eq, and, like, sql, desc } from "drizzle-orm";
+import type { AnySQLiteColumn } from "drizzle-orm/sqlite-core";
+import {
+	eq,
+	and,
+	or,
+	ne,
+	count,
+	sum,
+	sql,
+	desc,
+	gt,
+	gte,
+	lt,
+	lte,
+	asc,
+	inArray,
+} from "drizzle-orm";
 import type BetterSqlite3 from "better-sqlite3";
 import * as schema from "../schema/sqlite.js";
-import type { DatabaseDriver } from "./types.js";
-import type { NodeRecord, NewNodeRecord } from "../schema/types.js";
+import { DEFAULT_WORKSPACE, type DatabaseDriver } from "./types.js";
+import type {
+	NodeRecord,
+	NewNodeRecord,
+	VersionRecord,
+	NewVersionRecord,
+	ContentChunkRecord,
+	ContentRefRecord,
+	UsageRecord,
+	ChangeRecord,
+	AuditRecord,
+	NewAuditRecord,
+	AuditQuery,
+	ListQuery,
+	NodeQuery,
+	TrashRecord,
+	TrashedTree,
+	NewTrashRecord,
+	SnapshotRecord,
+	SnapshotEntry,
+	NewSnapshotRecord,
+} from "../schema/types.js";
 import { FileSystemUtils } from "../utils.js";
+import { toFts5Query, type SearchQuery } from "../search-query.js";
+import { ChangeFeed } from "./change-feed.js";
+import { reviveTrashedTree, type SerializedTrashedTree } from "./trash.js";
+
+// better-sqlite3 is a single synchronous connection, so top-level
+// transactions on the same database must not interleave. Writes outside a
+// transaction run as transactions of their own, as on the open connection
+// they would otherwise join another one and be rolled back with it.
+const transactionQueues = new WeakMap<BetterSqlite3.Database, Promise<void>>();
+// The innermost transaction whose callback is running, so the outer driver
+// used from inside it joins it rather than waiting on it forever
+const activeTransactions = new AsyncLocalStorage<{
+	database: BetterSqlite3.Database;
+	tx: SqliteDriver;
+	open: boolean;
+}>();
+const changeFeeds = new WeakMap<BetterSqlite3.Database, ChangeFeed>();
+
+// SQLite parses `x REGEXP y` but ships without an implementation.
+function registerRegexpFunction(database: BetterSqlite3.Database): void {
+	const cache = new Map<string, RegExp>();
+
+	database.function(
+		"regexp",
+		{ deterministic: true },
+		(pattern: unknown, value: unknown) => {
+			if (typeof pattern !== "string" || typeof value !== "string") return 0;
+			let regex = cache.get(pattern);
+			if (!regex) {
+				regex = new RegExp(pattern);
+				cache.set(pattern, regex);
+			}
+			return regex.test(value) ? 1 : 0;
+		},
+	);
+}
+
+const CHUNK_INSERT_BATCH = 500;
+const TOUCH_BATCH = 500;
+
+// GLOB pattern matching paths that start with `prefix` literally. Unlike
+// LIKE, GLOB is case-sensitive, which matches PostgreSQL path semantics.
+function globPrefix(prefix: string): string {
+	return `${prefix.replace(/[*?[]/g, "[$&]")}*`;
+}
+
+/** JSON path of a top-level metadata key, for `json_extract`. */
+function jsonPath(key: string): string {
+	return `$."${key}"`;
+}
+
+const TABLES: Record<string, string> = {
+	nodes: `
+		id TEXT PRIMARY KEY,
+		workspace TEXT NOT NULL DEFAULT 'default',
+		path TEXT NOT NULL,
+		name TEXT NOT NULL,
+		tree_path TEXT NOT NULL,
+		parent_id TEXT REFERENCES nodes(id) ON DELETE CASCADE,
+		is_directory INTEGER NOT NULL DEFAULT 0,
+		size INTEGER NOT NULL DEFAULT 0,
+		mime_type TEXT,
+		content_hash TEXT,
+		created_at INTEGER NOT NULL,
+		modified_at INTEGER NOT NULL,
+		accessed_at INTEGER NOT NULL,
+		mode TEXT NOT NULL DEFAULT '0644',
+		owner TEXT NOT NULL DEFAULT 'default',
+		"group" TEXT NOT NULL DEFAULT 'default',
+		metadata TEXT DEFAULT '{}',
+		link_target TEXT,
+		link_id TEXT`,
+	content_blocks: `
+		workspace TEXT NOT NULL DEFAULT 'default',
+		hash TEXT NOT NULL,
+		data BLOB NOT NULL,
+		size INTEGER NOT NULL,
+		ref_count INTEGER NOT NULL DEFAULT 1,
+		chunk_count INTEGER NOT NULL DEFAULT 0,
+		created_at INTEGER NOT NULL,
+		last_accessed_at INTEGER NOT NULL,
+		PRIMARY KEY (workspace, hash)`,
+	content_chunks: `
+		workspace TEXT NOT NULL DEFAULT 'default',
+		content_hash TEXT NOT NULL,
+		seq INTEGER NOT NULL,
+		chunk_hash TEXT NOT NULL,
+		offset INTEGER NOT NULL,
+		size INTEGER NOT NULL,
+		PRIMARY KEY (workspace, content_hash, seq),
+		FOREIGN KEY (workspace, content_hash)
+			REFERENCES content_blocks(workspace, hash) ON DELETE CASCADE,
+		FOREIGN KEY (workspace, chunk_hash)
+			REFERENCES content_blocks(workspace, hash)`,
+	search_index: `
+		node_id TEXT PRIMARY KEY REFERENCES nodes(id) ON DELETE CASCADE,
+		search_vector TEXT,
+		text_content TEXT,
+		updated_at INTEGER NOT NULL`,
+	versions: `
+		id TEXT PRIMARY KEY,
+		node_id TEXT NOT NULL REFERENCES nodes(id) ON DELETE CASCADE,
+		workspace TEXT NOT NULL DEFAULT 'default',
+		version INTEGER NOT NULL,
+		content_hash TEXT NOT NULL,
+		size INTEGER NOT NULL,
+		created_at INTEGER NOT NULL,
+		created_by TEXT NOT NULL,
+		comment TEXT,
+		UNIQUE(node_id, version),
+		FOREIGN KEY (workspace, content_hash)
+			REFERENCES content_blocks(workspace, hash)`,
+	audit_log: `
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		workspace TEXT NOT NULL DEFAULT 'default',
+		operation TEXT NOT NULL,
+		path TEXT NOT NULL,
+		old_path TEXT,
+		old_hash TEXT,
+		new_hash TEXT,
+		actor TEXT,
+		tool_call_id TEXT,
+		timestamp INTEGER NOT NULL`,
+	trash: `
+		id TEXT PRIMARY KEY,
+		workspace TEXT NOT NULL DEFAULT 'default',
+		path TEXT NOT NULL,
+		is_directory INTEGER NOT NULL DEFAULT 0,
+		node_count INTEGER NOT NULL,
+		size INTEGER NOT NULL DEFAULT 0,
+		deleted_at INTEGER NOT NULL,
+		deleted_by TEXT,
+		tree TEXT NOT NULL`,
+	snapshots: `
+		id TEXT PRIMARY KEY,
+		workspace TEXT NOT NULL DEFAULT 'default',
+		label TEXT NOT NULL,
+		path TEXT NOT NULL,
+		node_count INTEGER NOT NULL,
+		size INTEGER NOT NULL DEFAULT 0,
+		created_at INTEGER NOT NULL,
+		created_by TEXT,
+		manifest TEXT NOT NULL`,
+};
+
+// Tables whose keys gained a workspace column and must be rebuilt
+const WORKSPACE_TABLES = [
+	"nodes",
+	"content_blocks",
+	"content_chunks",
+	"versions",
+];
 
 export class SqliteDriver implements DatabaseDriver {
 	private db: BetterSQLite3Database<typeof schema>;
+	// Changes published in the open transaction, delivered on commit
+	private pendingChanges: ChangeRecord[] | null = null;
 
-	constructor(database: BetterSqlite3.Database) {
+	constructor(
+		private database: BetterSqlite3.Database,
+		private transactionDepth = 0,
+		readonly workspace: string = DEFAULT_WORKSPACE,
+	) {
 		this.db = drizzle(database, { schema });
-		database.pragma("journal_mode = WAL");
-		database.pragma("foreign_keys = ON");
+		if (transactionDepth === 0) {
+			database.pragma("journal_mode = WAL");
+			database.pragma("foreign_keys = ON");
+			registerRegexpFunction(database);
+		}
 	}
 
-	async initialize(): Promise<void> {
-		this.db.run(sql`CREATE TABLE IF NOT EXISTS nodes (
-			id TEXT PRIMARY KEY,
-			path TEXT NOT NULL UNIQUE,
-			name TEXT NOT NULL,
-			tree_path TEXT NOT NULL,
-			parent_id TEXT REFERENCES nodes(id) ON DELETE CASCADE,
-			is_directory INTEGER NOT NULL DEFAULT 0,
-			size INTEGER NOT NULL DEFAULT 0,
-			mime_type TEXT,
-			content_hash TEXT,
-			created_at INTEGER NOT NULL,
-			modified_at INTEGER NOT NULL,
-			accessed_at INTEGER NOT NULL,
-			mode TEXT NOT NULL DEFAULT '0644',
-			owner TEXT NOT NULL DEFAULT 'default',
-			metadata TEXT DEFAULT '{}'
-		)`);
+	withWorkspace(workspace: string): DatabaseDriver {
+		const scoped = new SqliteDriver(
+			this.database,
+			this.transactionDepth,
+			workspace,
+		);
+		scoped.pendingChanges = this.pendingChanges;
+		return scoped;
+	}
 
-		this.db.run(sql`CREATE TABLE IF NOT EXISTS content_blocks (
-			hash TEXT PRIMARY KEY,
-			data TEXT NOT NULL,
-			size INTEGER NOT NULL,
-			ref_count INTEGER NOT NULL DEFAULT 1,
-			created_at INTEGER NOT NULL,
-			last_accessed_at INTEGER NOT NULL
-		)`);
+	async initialize(): Promise<void> {
+		this.migrateToWorkspaces();
 
-		this.db.run(sql`CREATE TABLE IF NOT EXISTS search_index (
-			node_id TEXT PRIMARY KEY REFERENCES nodes(id) ON DELETE CASCADE,
-			search_vector TEXT,
-			text_content TEXT,
-			updated_at INTEGER NOT NULL
-		)`);
+		for (const [table, columns] of Object.entries(TABLES)) {
+			this.database.exec(`CREATE TABLE IF NOT EXISTS ${table} (${columns})`);
+		}
 
-		this.db.run(sql`CREATE TABLE IF NOT EXISTS versions (
-			id TEXT PRIMARY KEY,
-			node_id TEXT NOT NULL REFERENCES nodes(id) ON DELETE CASCADE,
-			version INTEGER NOT NULL,
-			content_hash TEXT NOT NULL REFERENCES content_blocks(hash),
-			size INTEGER NOT NULL,
-			created_at INTEGER NOT NULL,
-			created_by TEXT NOT NULL,
-			comment TEXT,
-			UNIQUE(node_id, version)
-		)`);
+		if (!this.hasColumn("nodes", "group")) {
+			this.database.exec(
+				`ALTER TABLE nodes ADD COLUMN "group" TEXT NOT NULL DEFAULT 'default'`,
+			);
+		}
+		for (const column of ["link_target", "link_id"]) {
+			if (!this.hasColumn("nodes", column)) {
+				this.database.exec(`ALTER TABLE nodes ADD COLUMN ${column} TEXT`);
+			}
+		}
 
 		this.db.run(
-			sql`CREATE INDEX IF NOT EXISTS path_idx ON nodes(path)`,
+			sql`CREATE UNIQUE INDEX IF NOT EXISTS workspace_path_idx ON nodes(workspace, path)`,
 		);
 		this.db.run(
 			sql`CREATE INDEX IF NOT EXISTS parent_idx ON nodes(parent_id)`,
@@ -80,6 +259,9 @@ export class SqliteDriver implements DatabaseDriver {
 		this.db.run(
 			sql`CREATE INDEX IF NOT EXISTS modified_idx ON nodes(modified_at)`,
 		);
+		this.db.run(
+			sql`CREATE INDEX IF NOT EXISTS link_idx ON nodes(workspace, link_id)`,
+		);
 		this.db.run(
 			sql`CREATE INDEX IF NOT EXISTS ref_count_idx ON content_blocks(ref_count)`,
 		);
@@ -89,6 +271,23 @@ export class SqliteDriver implements DatabaseDriver {
 		this.db.run(
 			sql`CREATE INDEX IF NOT EXISTS search_vector_idx ON search_index(search_vector)`,
 		);
+		this.db.run(
+			sql`CREATE INDEX IF NOT EXISTS chunk_hash_idx ON content_chunks(workspace, chunk_hash)`,
+		);
+		this.db.run(
+			sql`CREATE INDEX IF NOT EXISTS audit_workspace_path_idx ON audit_log(workspace, path)`,
+		);
+		this.db.run(
+			sql`CREATE INDEX IF NOT EXISTS audit_workspace_timestamp_idx ON audit_log(workspace, timestamp)`,
+		);
+		this.db.run(
+			sql`CREATE INDEX IF NOT EXISTS trash_workspace_path_idx ON trash(workspace, path)`,
+		);
+		this.db.run(
+			sql`CREATE UNIQUE INDEX IF NOT EXISTS snapshot_workspace_label_idx ON snapshots(workspace, label)`,
+		);
+
+		await this.initializeFullTextSearch();
 
 		const root = await this.findNodeByPath("/");
 		if (!root) {
@@ -107,84 +306,372 @@ export class SqliteDriver implements DatabaseDriver {
 		}
 	}
 
+	async transaction<T>(fn: (tx: DatabaseDriver) => Promise<T>): Promise<T> {
+		const active = activeTransactions.getStore();
+		if (
+			this.transactionDepth === 0 &&
+			active?.open &&
+			active.database === this.database
+		) {
+			return await active.tx.withWorkspace(this.workspace).transaction(fn);
+		}
+
+		const tx = new SqliteDriver(
+			this.database,
+			this.transactionDepth + 1,
+			this.workspace,
+		);
+		const changes: ChangeRecord[] = [];
+		tx.pendingChanges = changes;
+		const run = async () => {
+			const scope = { database: this.database, tx, open: true };
+			try {
+				return await activeTransactions.run(scope, () => fn(tx));
+			} finally {
+				scope.open = false;
+			}
+		};
+
+		if (this.transactionDepth > 0) {
+			const savepoint = `pgfs_sp_${this.transactionDepth}`;
+			this.database.exec(`SAVEPOINT ${savepoint}`);
+			try {
+				const result = await run();
+				this.database.exec(`RELEASE ${savepoint}`);
+				this.pendingChanges?.push(...changes);
+				return result;
+			} catch (error) {
+				this.database.exec(`ROLLBACK TO ${savepoint}`);
+				this.database.exec(`RELEASE ${savepoint}`);
+				throw error;
+			}
+		}
+
+		const previous = transactionQueues.get(this.database) ?? Promise.resolve();
+		let release!: () => void;
+		const current = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+		transactionQueues.set(
+			this.database,
+			previous.then(() => current),
+		);
+
+		await previous;
+		try {
+			this.database.exec("BEGIN IMMEDIATE");
+			try {
+				const result = await run();
+				this.database.exec("COMMIT");
+				this.changeFeed().deliver(changes);
+				return result;
+			} catch (error) {
+				this.database.exec("ROLLBACK");
+				throw error;
+			}
+		} finally {
+			release();
+		}
+	}
+
+	/**
+	 * Databases created before workspaces keyed nodes by path and content by
+	 * hash alone. SQLite cannot alter keys in place, so those tables are
+	 * rebuilt with every existing row assigned to the default workspace.
+	 */
+	private migrateToWorkspaces(): void {
+		if (!this.hasTable("nodes") || this.hasColumn("nodes", "workspace")) {
+			return;
+		}
+
+		this.database.pragma("foreign_keys = OFF");
+		try {
+			this.database.transaction(() => {
+				for (const table of WORKSPACE_TABLES) {
+					if (!this.hasTable(table)) continue;
+
+					const columns = this.columnsOf(table).join(", ");
+					this.database.exec(`
+						CREATE TABLE ${table}_new (${TABLES[table]});
+						INSERT INTO ${table}_new (${columns}) SELECT ${columns} FROM ${table};
+						DROP TABLE ${table};
+						ALTER TABLE ${table}_new RENAME TO ${table};
+					`);
+				}
+			})();
+		} finally {
+			this.database.pragma("foreign_keys = ON");
+		}
+	}
+
+	private hasTable(table: string): boolean {
+		return this.columnsOf(table).length > 0;
+	}
+
+	private hasColumn(table: string, column: string): boolean {
+		return this.columnsOf(table).includes(column);
+	}
+
+	private columnsOf(table: string): string[] {
+		const columns = this.database
+			.prepare(`PRAGMA table_info(${table})`)
+			.all() as Array<{ name: string }>;
+		return columns.map((c) => c.name);
+	}
+
+	private async initializeFullTextSearch(): Promise<void> {
+		const existing = this.db.get<{ name: string }>(
+			sql`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'search_fts'`,
+		);
+
+		// External-content FTS5 table over search_index, kept in sync by triggers
+		this.db.run(sql`CREATE VIRTUAL TABLE IF NOT EXISTS search_fts USING fts5(
+			text_content,
+			content='search_index',
+			tokenize='porter unicode61'
+		)`);
+
+		this.db.run(sql`CREATE TRIGGER IF NOT EXISTS search_index_ai AFTER INSERT ON search_index BEGIN
+			INSERT INTO search_fts(rowid, text_content) VALUES (new.rowid, new.text_content);
+		END`);
+		this.db.run(sql`CREATE TRIGGER IF NOT EXISTS search_index_ad AFTER DELETE ON search_index BEGIN
+			INSERT INTO search_fts(search_fts, rowid, text_content) VALUES ('delete', old.rowid, old.text_content);
+		END`);
+		this.db.run(sql`CREATE TRIGGER IF NOT EXISTS search_index_au AFTER UPDATE ON search_index BEGIN
+			INSERT INTO search_fts(search_fts, rowid, text_content) VALUES ('delete', old.rowid, old.text_content);
+			INSERT INTO search_fts(rowid, text_content) VALUES (new.rowid, new.text_content);
+		END`);
+
+		if (!existing) {
+			this.db.run(sql`INSERT INTO search_fts(search_fts) VALUES ('rebuild')`);
+		}
+	}
+
+	private nodeWhere(id: string) {
+		return and(
+			eq(schema.nodes.workspace, this.workspace),
+			eq(schema.nodes.id, id),
+		);
+	}
+
+	private blockWhere(hash: string) {
+		return and(
+			eq(schema.contentBlocks.workspace, this.workspace),
+			eq(schema.contentBlocks.hash, hash),
+		);
+	}
+
 	async findNodeByPath(path: string): Promise<NodeRecord | undefined> {
 		const normalized = FileSystemUtils.normalizePath(path);
 		const result = await this.db.query.nodes.findFirst({
-			where: eq(schema.nodes.path, normalized),
+			where: and(
+				eq(schema.nodes.workspace, this.workspace),
+				eq(schema.nodes.path, normalized),
+			),
 		});
 		return result as NodeRecord | undefined;
 	}
 
 	async insertNode(node: NewNodeRecord): Promise<void> {
-		await this.db.insert(schema.nodes).values(node);
+		if (this.transactionDepth === 0) {
+			return await this.transaction(async (tx) => await tx.insertNode(node));
+		}
+		await this.db
+			.insert(schema.nodes)
+			.values({ ...node, workspace: this.workspace });
 	}
 
 	async updateNode(id: string, data: Partial<NodeRecord>): Promise<void> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(
+				async (tx) => await tx.updateNode(id, data),
+			);
+		}
 		await this.db
 			.update(schema.nodes)
 			.set(data)
-			.where(eq(schema.nodes.id, id));
+			.where(this.nodeWhere(id));
 	}
 
 	async deleteNode(id: string): Promise<void> {
-		await this.db.delete(schema.nodes).where(eq(schema.nodes.id, id));
+		if (this.transactionDepth === 0) {
+			return await this.transaction(async (tx) => await tx.deleteNode(id));
+		}
+		await this.db.delete(schema.nodes).where(this.nodeWhere(id));
 	}
 
 	async findChildNodes(parentId: string): Promise<NodeRecord[]> {
 		const results = await this.db.query.nodes.findMany({
-			where: eq(schema.nodes.parentId, parentId),
+			where: and(
+				eq(schema.nodes.workspace, this.workspace),
+				eq(schema.nodes.parentId, parentId),
+			),
 			orderBy: [desc(schema.nodes.isDirectory), schema.nodes.name],
 		});
 		return results as NodeRecord[];
 	}
 
+	async findNodesByLinkId(linkId: string): Promise<NodeRecord[]> {
+		const results = await this.db.query.nodes.findMany({
+			where: and(
+				eq(schema.nodes.workspace, this.workspace),
+				eq(schema.nodes.linkId, linkId),
+			),
+			orderBy: [schema.nodes.path],
+		});
+		return results as NodeRecord[];
+	}
+
 	async findDescendantsByPathPrefix(
 		pathPrefix: string,
 	): Promise<NodeRecord[]> {
 		const results = await this.db.query.nodes.findMany({
-			where: like(schema.nodes.path, `${pathPrefix}/%`),
+			where: and(
+				eq(schema.nodes.workspace, this.workspace),
+				sql`${schema.nodes.path} GLOB ${globPrefix(`${pathPrefix}/`)}`,
+			),
 		});
 		return results as NodeRecord[];
 	}
 
+	async findNodes(query: NodeQuery): Promise<NodeRecord[]> {
+		const { metadata, mimeType, size, modifiedAt } = schema.nodes;
+
+		const results = await this.db.query.nodes.findMany({
+			where: and(
+				eq(schema.nodes.workspace, this.workspace),
+				query.path === undefined || query.path === "/"
+					? undefined
+					: sql`${schema.nodes.path} GLOB ${globPrefix(`${query.path}/`)}`,
+				query.isDirectory === undefined
+					? undefined
+					: eq(schema.nodes.isDirectory, query.isDirectory),
+				...(query.keys ?? []).map(
+					(key) => sql`json_type(${metadata}, ${jsonPath(key)}) IS NOT NULL`,
+				),
+				// json_extract turns booleans into 1 and 0, so match their type
+				...Object.entries(query.metadata ?? {}).map(([key, value]) =>
+					typeof value === "boolean"
+						? sql`json_type(${metadata}, ${jsonPath(key)}) = ${String(value)}`
+						: sql`json_extract(${metadata}, ${jsonPath(key)}) = ${value}`,
+				),
+				...(query.tags ?? []).map(
+					(tag) => sql`EXISTS (
+						SELECT 1 FROM json_each(${metadata}, '$.tags')
+						WHERE value = ${tag}
+					)`,
+				),
+				query.mimeType === undefined
+					? undefined
+					: query.mimeType.endsWith("/*")
+						? sql`${mimeType} GLOB ${globPrefix(query.mimeType.slice(0, -1))}`
+						: eq(mimeType, query.mimeType),
+				query.minSize === undefined ? undefined : gte(size, query.minSize),
+				query.maxSize === undefined ? undefined : lte(size, query.maxSize),
+				query.modifiedAfter === undefined
+					? undefined
+					: gte(modifiedAt, query.modifiedAfter),
+				query.modifiedBefore === undefined
+					? undefined
+					: lt(modifiedAt, query.modifiedBefore),
+			),
+			orderBy: [asc(schema.nodes.path)],
+			limit: query.limit,
+		});
+		return results as NodeRecord[];
+	}
+
+	async listNodes(
+		query: ListQuery,
+	): Promise<{ nodes: NodeRecord[]; total: number }> {
+		const where = and(
+			eq(schema.nodes.workspace, this.workspace),
+			query.recursive
+				? and(
+						ne(schema.nodes.path, query.path),
+						sql`${schema.nodes.path} GLOB ${globPrefix(
+							query.path === "/" ? "/" : `${query.path}/`,
+						)}`,
+					)
+				: eq(schema.nodes.parentId, query.parentId),
+			query.pathRegex === undefined
+				? undefined
+				: sql`${schema.nodes.path} REGEXP ${query.pathRegex}`,
+		);
+
+		const column = {
+			name: schema.nodes.name,
+			modified: schema.nodes.modifiedAt,
+			size: schema.nodes.size,
+			created: schema.nodes.createdAt,
+		}[query.sortBy ?? "name"];
+		const direction = query.order === "desc" ? desc : asc;
+		const orderBy =
+			query.sortBy || query.order
+				? [direction(column), asc(schema.nodes.path)]
+				: query.recursive
+					? [asc(schema.nodes.path)]
+					: [desc(schema.nodes.isDirectory), asc(schema.nodes.name)];
+
+		const nodes = await this.db.query.nodes.findMany({
+			where,
+			orderBy,
+			limit: query.limit,
+			offset: query.offset,
+		});
+		const [{ total }] = await this.db
+			.select({ total: count() })
+			.from(schema.nodes)
+			.where(where);
+		return { nodes: nodes as NodeRecord[], total };
+	}
+
 	async findNodesByGlob(
-		basePath: string,
-		namePattern: string,
+		pathPrefix: string,
+		pathRegex: string,
 		limit: number,
 	): Promise<NodeRecord[]> {
 		const results = await this.db.query.nodes.findMany({
 			where: and(
-				like(schema.nodes.path, `${basePath}%`),
-				like(schema.nodes.name, namePattern),
+				eq(schema.nodes.workspace, this.workspace),
+				sql`${schema.nodes.path} GLOB ${globPrefix(pathPrefix)}`,
+				sql`${schema.nodes.path} REGEXP ${pathRegex}`,
 			),
+			orderBy: [desc(schema.nodes.modifiedAt), schema.nodes.path],
 			limit,
 		});
 		return results as NodeRecord[];
 	}
 
-	async getContent(hash: string): Promise<string> {
+	async getContent(hash: string): Promise<Buffer> {
 		const block = await this.db.query.contentBlocks.findFirst({
-			where: eq(schema.contentBlocks.hash, hash),
+			where: this.blockWhere(hash),
 		});
 
 		if (!block) {
 			throw new Error(`Content not found: ${hash}`);
 		}
 
-		await this.db
-			.update(schema.contentBlocks)
-			.set({ lastAccessedAt: new Date() })
-			.where(eq(schema.contentBlocks.hash, hash));
+		if (block.chunkCount > 0) {
+			return await this.concatChunks(hash, block.size);
+		}
 
-		return block.data;
+		// Databases created before binary support stored content as TEXT
+		const data = block.data as Buffer | string;
+		return typeof data === "string" ? Buffer.from(data, "utf8") : data;
 	}
 
-	async getOrCreateContent(content: string): Promise<string> {
+	async getOrCreateContent(content: Buffer): Promise<string> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(
+				async (tx) => await tx.getOrCreateContent(content),
+			);
+		}
 		const hash = FileSystemUtils.hashContent(content);
-		const size = Buffer.byteLength(content, "utf8");
+		const size = content.length;
 
 		const existing = await this.db.query.contentBlocks.findFirst({
-			where: eq(schema.contentBlocks.hash, hash),
+			where: this.blockWhere(hash),
 		});
 
 		if (existing) {
@@ -193,6 +680,7 @@ export class SqliteDriver implements DatabaseDriver {
 		}
 
 		await this.db.insert(schema.contentBlocks).values({
+			workspace: this.workspace,
 			hash,
 			data: content,
 			size,
@@ -202,32 +690,528 @@ export class SqliteDriver implements DatabaseDriver {
 		return hash;
 	}
 
+	async getOrCreateChunkedContent(
+		hash: string,
+		size: number,
+		chunks: Array<{ hash: string; size: number }>,
+	): Promise<string> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(
+				async (tx) => await tx.getOrCreateChunkedContent(hash, size, chunks),
+			);
+		}
+		const existing = await this.db.query.contentBlocks.findFirst({
+			where: this.blockWhere(hash),
+		});
+
+		if (existing) {
+			await this.incrementRefCount(hash);
+			for (const chunk of chunks) {
+				await this.decrementRefCount(chunk.hash);
+			}
+			return hash;
+		}
+
+		await this.db.insert(schema.contentBlocks).values({
+			workspace: this.workspace,
+			hash,
+			data: Buffer.alloc(0),
+			size,
+			refCount: 1,
+			chunkCount: chunks.length,
+		});
+
+		let offset = 0;
+		const rows = chunks.map((chunk, seq) => {
+			const row = {
+				workspace: this.workspace,
+				contentHash: hash,
+				seq,
+				chunkHash: chunk.hash,
+				offset,
+				size: chunk.size,
+			};
+			offset += chunk.size;
+			return row;
+		});
+
+		for (let i = 0; i < rows.length; i += CHUNK_INSERT_BATCH) {
+			await this.db
+				.insert(schema.contentChunks)
+				.values(rows.slice(i, i + CHUNK_INSERT_BATCH));
+		}
+
+		return hash;
+	}
+
+	async findContentChunks(
+		hash: string,
+		start: number,
+		end: number,
+	): Promise<ContentChunkRecord[]> {
+		const chunks = await this.db
+			.select({
+				hash: schema.contentChunks.chunkHash,
+				offset: schema.contentChunks.offset,
+				size: schema.contentChunks.size,
+			})
+			.from(schema.contentChunks)
+			.where(
+				and(
+					eq(schema.contentChunks.workspace, this.workspace),
+					eq(schema.contentChunks.contentHash, hash),
+					lt(schema.contentChunks.offset, end),
+					gt(
+						sql`${schema.contentChunks.offset} + ${schema.contentChunks.size}`,
+						start,
+					),
+				),
+			)
+			.orderBy(schema.contentChunks.seq);
+
+		if (chunks.length > 0) {
+			return chunks;
+		}
+
+		const block = await this.db.query.contentBlocks.findFirst({
+			where: this.blockWhere(hash),
+			columns: { size: true, chunkCount: true },
+		});
+
+		if (!block || block.chunkCount > 0) {
+			return [];
+		}
+
+		return [{ hash, offset: 0, size: block.size }];
+	}
+
+	private async concatChunks(hash: string, size: number): Promise<Buffer> {
+		const chunks = await this.findContentChunks(hash, 0, size);
+		const parts: Buffer[] = [];
+
+		for (const chunk of chunks) {
+			parts.push(await this.getContent(chunk.hash));
+		}
+
+		return Buffer.concat(parts);
+	}
+
 	async incrementRefCount(hash: string): Promise<void> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(
+				async (tx) => await tx.incrementRefCount(hash),
+			);
+		}
 		await this.db
 			.update(schema.contentBlocks)
 			.set({
 				refCount: sql`${schema.contentBlocks.refCount} + 1`,
 				lastAccessedAt: new Date(),
 			})
-			.where(eq(schema.contentBlocks.hash, hash));
+			.where(this.blockWhere(hash));
 	}
 
 	async decrementRefCount(hash: string): Promise<void> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(
+				async (tx) => await tx.decrementRefCount(hash),
+			);
+		}
 		await this.db
 			.update(schema.contentBlocks)
 			.set({
 				refCount: sql`${schema.contentBlocks.refCount} - 1`,
 			})
-			.where(eq(schema.contentBlocks.hash, hash));
+			.where(this.blockWhere(hash));
+	}
+
+	async findContentRefs(): Promise<ContentRefRecord[]> {
+		const blocks = await this.db
+			.select({
+				hash: schema.contentBlocks.hash,
+				refCount: schema.contentBlocks.refCount,
+			})
+			.from(schema.contentBlocks)
+			.where(eq(schema.contentBlocks.workspace, this.workspace));
+		const chunks = await this.db
+			.select({
+				contentHash: schema.contentChunks.contentHash,
+				chunkHash: schema.contentChunks.chunkHash,
+			})
+			.from(schema.contentChunks)
+			.where(eq(schema.contentChunks.workspace, this.workspace))
+			.orderBy(schema.contentChunks.contentHash, schema.contentChunks.seq);
+
+		const refs = new Map<string, ContentRefRecord>(
+			blocks.map((block) => [block.hash, { ...block, chunks: [] }]),
+		);
+		for (const chunk of chunks) {
+			refs.get(chunk.contentHash)?.chunks.push(chunk.chunkHash);
+		}
+		return [...refs.values()];
+	}
+
+	async setRefCount(hash: string, refCount: number): Promise<void> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(
+				async (tx) => await tx.setRefCount(hash, refCount),
+			);
+		}
+		await this.db
+			.update(schema.contentBlocks)
+			.set({ refCount })
+			.where(this.blockWhere(hash));
+	}
+
+	async touchNodes(ids: string[], accessedAt: Date): Promise<void> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(
+				async (tx) => await tx.touchNodes(ids, accessedAt),
+			);
+		}
+		for (let i = 0; i < ids.length; i += TOUCH_BATCH) {
+			await this.db
+				.update(schema.nodes)
+				.set({ accessedAt })
+				.where(
+					and(
+						eq(schema.nodes.workspace, this.workspace),
+						inArray(schema.nodes.id, ids.slice(i, i + TOUCH_BATCH)),
+					),
+				);
+		}
+	}
+
+	async touchContent(hashes: string[], accessedAt: Date): Promise<void> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(
+				async (tx) => await tx.touchContent(hashes, accessedAt),
+			);
+		}
+		for (let i = 0; i < hashes.length; i += TOUCH_BATCH) {
+			await this.db
+				.update(schema.contentBlocks)
+				.set({ lastAccessedAt: accessedAt })
+				.where(
+					and(
+						eq(schema.contentBlocks.workspace, this.workspace),
+						inArray(
+							schema.contentBlocks.hash,
+							hashes.slice(i, i + TOUCH_BATCH),
+						),
+					),
+				);
+		}
+	}
+
+	async garbageCollect(
+		options: { accessedBefore?: Date } = {},
+	): Promise<number> {
+		return await this.transaction(
+			async (tx) =>
+				await (tx as SqliteDriver).collectUnreferenced(options.accessedBefore),
+		);
+	}
+
+	private async collectUnreferenced(accessedBefore?: Date): Promise<number> {
+		let removed = 0;
+
+		// Releasing a chunked manifest can orphan its chunks, so repeat until
+		// a pass finds nothing left to collect.
+		for (;;) {
+			const dead = await this.db
+				.select({
+					hash: schema.contentBlocks.hash,
+					chunkCount: schema.contentBlocks.chunkCount,
+				})
+				.from(schema.contentBlocks)
+				.where(
+					and(
+						eq(schema.contentBlocks.workspace, this.workspace),
+						eq(schema.contentBlocks.refCount, 0),
+						accessedBefore
+							? lt(schema.contentBlocks.lastAccessedAt, accessedBefore)
+							: undefined,
+					),
+				);
+
+			if (dead.length === 0) {
+				return removed;
+			}
+
+			for (const block of dead) {
+				if (block.chunkCount === 0) continue;
+				const chunks = await this.db
+					.select({ chunkHash: schema.contentChunks.chunkHash })
+					.from(schema.contentChunks)
+					.where(
+						and(
+							eq(schema.contentChunks.workspace, this.workspace),
+							eq(schema.contentChunks.contentHash, block.hash),
+						),
+					);
+				for (const chunk of chunks) {
+					await this.decrementRefCount(chunk.chunkHash);
+				}
+			}
+
+			await this.db.delete(schema.contentBlocks).where(
+				and(
+					eq(schema.contentBlocks.workspace, this.workspace),
+					inArray(
+						schema.contentBlocks.hash,
+						dead.map((block) => block.hash),
+					),
+				),
+			);
+			removed += dead.length;
+		}
+	}
+
+	async getUsage(owner?: string): Promise<UsageRecord> {
+		const groups = await this.db
+			.select({
+				isDirectory: schema.nodes.isDirectory,
+				count: count(),
+				bytes: sum(schema.nodes.size).mapWith(Number),
+			})
+			.from(schema.nodes)
+			.where(
+				and(
+					eq(schema.nodes.workspace, this.workspace),
+					ne(schema.nodes.path, "/"),
+					owner === undefined ? undefined : eq(schema.nodes.owner, owner),
+				),
+			)
+			.groupBy(schema.nodes.isDirectory);
+
+		const [blocks] = await this.db
+			.select({ size: sum(schema.contentBlocks.size).mapWith(Number) })
+			.from(schema.contentBlocks)
+			.where(
+				and(
+					eq(schema.contentBlocks.workspace, this.workspace),
+					// Manifests only point at chunks, which are counted themselves
+					eq(schema.contentBlocks.chunkCount, 0),
+				),
+			);
+
+		const files = groups.find((group) => !group.isDirectory);
+		const directories = groups.find((group) => group.isDirectory);
+		return {
+			files: files?.count ?? 0,
+			directories: directories?.count ?? 0,
+			bytes: files?.bytes ?? 0,
+			storedBytes: blocks?.size ?? 0,
+		};
+	}
+
+	async publishChange(change: ChangeRecord): Promise<void> {
+		if (this.pendingChanges) {
+			this.pendingChanges.push(change);
+		} else {
+			this.changeFeed().deliver([change]);
+		}
+	}
+
+	async subscribeChanges(
+		handler: (change: ChangeRecord) => void,
+		onError?: (error: unknown) => void,
+	): Promise<() => Promise<void>> {
+		const unsubscribe = this.changeFeed().subscribe(
+			this.workspace,
+			handler,
+			onError,
+		);
+		return async () => unsubscribe();
+	}
+
+	private changeFeed(): ChangeFeed {
+		let feed = changeFeeds.get(this.database);
+		if (!feed) {
+			feed = new ChangeFeed();
+			changeFeeds.set(this.database, feed);
+		}
+		return feed;
+	}
+
+	async insertAuditEntry(entry: NewAuditRecord): Promise<void> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(
+				async (tx) => await tx.insertAuditEntry(entry),
+			);
+		}
+		await this.db
+			.insert(schema.auditLog)
+			.values({ ...entry, workspace: this.workspace });
+	}
+
+	async findAuditEntries(query: AuditQuery): Promise<AuditRecord[]> {
+		// Everything is at or below the root
+		const path = query.path === "/" ? undefined : query.path;
+		const under = (column: AnySQLiteColumn) =>
+			or(eq(column, path!), sql`${column} GLOB ${globPrefix(`${path}/`)}`);
+
+		const results = await this.db.query.auditLog.findMany({
+			where: and(
+				eq(schema.auditLog.workspace, this.workspace),
+				path === undefined
+					? undefined
+					: or(under(schema.auditLog.path), under(schema.auditLog.oldPath)),
+				query.since === undefined
+					? undefined
+					: gte(schema.auditLog.timestamp, query.since),
+				query.actor === undefined
+					? undefined
+					: eq(schema.auditLog.actor, query.actor),
+				query.toolCallId === undefined
+					? undefined
+					: eq(schema.auditLog.toolCallId, query.toolCallId),
+			),
+			orderBy: [desc(schema.auditLog.id)],
+			limit: query.limit,
+		});
+		return results as AuditRecord[];
+	}
+
+	async insertTrashEntry(entry: NewTrashRecord): Promise<void> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(
+				async (tx) => await tx.insertTrashEntry(entry),
+			);
+		}
+		await this.db
+			.insert(schema.trash)
+			.values({ ...entry, workspace: this.workspace });
+	}
+
+	async findTrashEntries(): Promise<TrashRecord[]> {
+		const results = await this.db.query.trash.findMany({
+			columns: { tree: false },
+			where: eq(schema.trash.workspace, this.workspace),
+			orderBy: [desc(schema.trash.deletedAt)],
+		});
+		return results as TrashRecord[];
+	}
+
+	async findTrashedTree(id: string): Promise<TrashedTree | undefined> {
+		const result = await this.db.query.trash.findFirst({
+			columns: { tree: true },
+			where: and(
+				eq(schema.trash.workspace, this.workspace),
+				eq(schema.trash.id, id),
+			),
+		});
+		return result
+			? reviveTrashedTree(result.tree as SerializedTrashedTree)
+			: undefined;
+	}
+
+	async deleteTrashEntry(id: string): Promise<void> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(
+				async (tx) => await tx.deleteTrashEntry(id),
+			);
+		}
+		await this.db
+			.delete(schema.trash)
+			.where(
+				and(eq(schema.trash.workspace, this.workspace), eq(schema.trash.id, id)),
+			);
 	}
 
-	async garbageCollect(): Promise<number> {
-		const result = await this.db
-			.delete(schema.contentBlocks)
-			.where(eq(schema.contentBlocks.refCount, 0))
-			.returning();
+	async insertSnapshot(snapshot: NewSnapshotRecord): Promise<void> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(
+				async (tx) => await tx.insertSnapshot(snapshot),
+			);
+		}
+		await this.db
+			.insert(schema.snapshots)
+			.values({ ...snapshot, workspace: this.workspace });
+	}
 
-		return result.length;
+	async findSnapshots(): Promise<SnapshotRecord[]> {
+		const results = await this.db.query.snapshots.findMany({
+			columns: { manifest: false },
+			where: eq(schema.snapshots.workspace, this.workspace),
+			orderBy: [desc(schema.snapshots.createdAt)],
+		});
+		return results as SnapshotRecord[];
+	}
+
+	async findSnapshotManifest(
+		id: string,
+	): Promise<SnapshotEntry[] | undefined> {
+		const result = await this.db.query.snapshots.findFirst({
+			columns: { manifest: true },
+			where: and(
+				eq(schema.snapshots.workspace, this.workspace),
+				eq(schema.snapshots.id, id),
+			),
+		});
+		return result?.manifest as SnapshotEntry[] | undefined;
+	}
+
+	async deleteSnapshot(id: string): Promise<void> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(async (tx) => await tx.deleteSnapshot(id));
+		}
+		await this.db
+			.delete(schema.snapshots)
+			.where(
+				and(
+					eq(schema.snapshots.workspace, this.workspace),
+					eq(schema.snapshots.id, id),
+				),
+			);
+	}
+
+	async insertVersion(version: NewVersionRecord): Promise<void> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(
+				async (tx) => await tx.insertVersion(version),
+			);
+		}
+		await this.db
+			.insert(schema.versions)
+			.values({ ...version, workspace: this.workspace });
+	}
+
+	async findVersions(nodeId: string): Promise<VersionRecord[]> {
+		const results = await this.db.query.versions.findMany({
+			where: and(
+				eq(schema.versions.workspace, this.workspace),
+				eq(schema.versions.nodeId, nodeId),
+			),
+			orderBy: [desc(schema.versions.version)],
+		});
+		return results as VersionRecord[];
+	}
+
+	async findVersion(
+		nodeId: string,
+		version: number,
+	): Promise<VersionRecord | undefined> {
+		const result = await this.db.query.versions.findFirst({
+			where: and(
+				eq(schema.versions.workspace, this.workspace),
+				eq(schema.versions.nodeId, nodeId),
+				eq(schema.versions.version, version),
+			),
+		});
+		return result as VersionRecord | undefined;
+	}
+
+	async findLatestVersion(nodeId: string): Promise<VersionRecord | undefined> {
+		const result = await this.db.query.versions.findFirst({
+			where: and(
+				eq(schema.versions.workspace, this.workspace),
+				eq(schema.versions.nodeId, nodeId),
+			),
+			orderBy: [desc(schema.versions.version)],
+		});
+		return result as VersionRecord | undefined;
 	}
 
 	async updateSearchIndex(
@@ -235,41 +1219,43 @@ export class SqliteDriver implements DatabaseDriver {
 		path: string,
 		content?: string,
 	): Promise<void> {
+		if (this.transactionDepth === 0) {
+			return await this.transaction(
+				async (tx) => await tx.updateSearchIndex(nodeId, path, content),
+			);
+		}
 		const textContent = content || "";
 		const searchText = `${path} ${textContent}`;
 
-		const existing = await this.db.query.searchIndex.findFirst({
-			where: eq(schema.searchIndex.nodeId, nodeId),
-		});
-
-		if (existing) {
-			await this.db
-				.update(schema.searchIndex)
-				.set({
-					textContent,
-					searchVector: searchText,
-					updatedAt: new Date(),
-				})
-				.where(eq(schema.searchIndex.nodeId, nodeId));
-		} else {
-			await this.db.insert(schema.searchIndex).values({
+		await this.db
+			.insert(schema.searchIndex)
+			.values({
 				nodeId,
 				textContent,
 				searchVector: searchText,
 				updatedAt: new Date(),
+			})
+			.onConflictDoUpdate({
+				target: schema.searchIndex.nodeId,
+				set: {
+					textContent,
+					searchVector: searchText,
+					updatedAt: new Date(),
+				},
 			});
-		}
 	}
 
-	async searchContent(
-		query: string,
-		basePath: string,
+	async findIndexedContent(
+		pathPrefix: string,
+		pathRegex: string | null,
+		offset: number,
 		limit: number,
-	): Promise<Array<{ nodeId: string; path: string }>> {
+	): Promise<Array<{ nodeId: string; path: string; content: string }>> {
 		const results = await this.db
 			.select({
 				nodeId: schema.searchIndex.nodeId,
 				path: schema.nodes.path,
+				content: schema.searchIndex.textContent,
 			})
 			.from(schema.searchIndex)
 			.innerJoin(
@@ -278,12 +1264,59 @@ export class SqliteDriver implements DatabaseDriver {
 			)
 			.where(
 				and(
-					like(schema.nodes.path, `${basePath}%`),
-					like(schema.searchIndex.textContent, `%${query}%`),
+					eq(schema.nodes.workspace, this.workspace),
+					sql`${schema.nodes.path} GLOB ${globPrefix(pathPrefix)}`,
+					pathRegex
+						? sql`${schema.nodes.path} REGEXP ${pathRegex}`
+						: undefined,
 				),
 			)
-			.limit(limit);
+			.orderBy(schema.nodes.path)
+			.limit(limit)
+			.offset(offset);
+
+		return results.map((r) => ({ ...r, content: r.content || "" }));
+	}
+
+	async searchContent(
+		query: SearchQuery,
+		basePath: string,
+		limit: number,
+	): Promise<
+		Array<{ nodeId: string; path: string; score: number; snippet: string }>
+	> {
+		const rows = this.db.all<{
+			node_id: string;
+			path: string;
+			rank: number;
+			snippet: string;
+		}>(sql`
+			SELECT
+				si.node_id,
+				n.path,
+				bm25(search_fts) AS rank,
+				snippet(search_fts, 0, '**', '**', '...', 20) AS snippet
+			FROM search_fts
+			INNER JOIN search_index si ON si.rowid = search_fts.rowid
+			INNER JOIN nodes n ON n.id = si.node_id
+			WHERE search_fts MATCH ${toFts5Query(query)}
+				AND n.workspace = ${this.workspace}
+				AND ${
+					basePath === "/"
+						? sql`1 = 1`
+						: sql`(n.path = ${basePath}
+							OR n.path GLOB ${globPrefix(`${basePath}/`)})`
+				}
+			ORDER BY rank, n.path
+			LIMIT ${limit}
+		`);
 
-		return results;
+		// bm25() is lower-is-better; negate so higher scores rank first
+		return rows.map((row) => ({
+			nodeId: row.node_id,
+			path: row.path,
+			score: -row.rank,
+			snippet: row.snippet,
+		}));
 	}
 }
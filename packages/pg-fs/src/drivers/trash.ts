@@ -0,0 +1,31 @@
+import type {
+	NodeRecord,
+	TrashedTree,
+	VersionRecord,
+} from "../schema/types.js";
+
+type Json<T> = {
+	[K in keyof T]: T[K] extends Date ? string : T[K];
+};
+
+/** A `TrashedTree` after a round trip through JSON. */
+export interface SerializedTrashedTree {
+	nodes: Json<NodeRecord>[];
+	versions: Json<VersionRecord>[];
+}
+
+/** Turns the dates of a tree stored as JSON back into `Date`s. */
+export function reviveTrashedTree(tree: SerializedTrashedTree): TrashedTree {
+	return {
+		nodes: tree.nodes.map((node) => ({
+			...node,
+			createdAt: new Date(node.createdAt),
+			modifiedAt: new Date(node.modifiedAt),
+			accessedAt: new Date(node.accessedAt),
+		})),
+		versions: tree.versions.map((version) => ({
+			...version,
+			createdAt: new Date(version.createdAt),
+		})),
+	};
+}
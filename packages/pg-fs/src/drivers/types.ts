@@ -1,34 +1,187 @@
-import type { NodeRecord, NewNodeRecord } from "../schema/types.js";
+import type {
+	NodeRecord,
+	NewNodeRecord,
+	VersionRecord,
+	NewVersionRecord,
+	ContentChunkRecord,
+	ContentRefRecord,
+	UsageRecord,
+	ChangeRecord,
+	AuditRecord,
+	NewAuditRecord,
+	AuditQuery,
+	ListQuery,
+	NodeQuery,
+	TrashRecord,
+	TrashedTree,
+	NewTrashRecord,
+	SnapshotRecord,
+	SnapshotEntry,
+	NewSnapshotRecord,
+} from "../schema/types.js";
+import type { SearchQuery } from "../search-query.js";
+
+export const DEFAULT_WORKSPACE = "default";
 
 export interface DatabaseDriver {
+	/** Workspace that every node and content query is scoped to */
+	readonly workspace: string;
+
+	/** Creates tables if needed and the root directory of this workspace. */
 	initialize(): Promise<void>;
 
+	/**
+	 * Returns a driver on the same connection (and transaction, if any)
+	 * scoped to another workspace. Workspaces share tables but never see each
+	 * other's nodes or content; content is deduplicated per workspace.
+	 */
+	withWorkspace(workspace: string): DatabaseDriver;
+
+	/**
+	 * Runs `fn` against a driver bound to a single transaction. The transaction
+	 * commits when `fn` resolves and rolls back when it throws. Calling
+	 * `transaction` on the bound driver nests via savepoints.
+	 */
+	transaction<T>(fn: (tx: DatabaseDriver) => Promise<T>): Promise<T>;
+
 	findNodeByPath(path: string): Promise<NodeRecord | undefined>;
 	insertNode(node: NewNodeRecord): Promise<void>;
 	updateNode(id: string, data: Partial<NodeRecord>): Promise<void>;
 	deleteNode(id: string): Promise<void>;
 	findChildNodes(parentId: string): Promise<NodeRecord[]>;
+	/** Hard links sharing `linkId`, by path. */
+	findNodesByLinkId(linkId: string): Promise<NodeRecord[]>;
 	findDescendantsByPathPrefix(pathPrefix: string): Promise<NodeRecord[]>;
+	/** Nodes matching `query`, by path. */
+	findNodes(query: NodeQuery): Promise<NodeRecord[]>;
+	/** One page of a listing, and how many nodes the whole listing has. */
+	listNodes(query: ListQuery): Promise<{ nodes: NodeRecord[]; total: number }>;
+	/**
+	 * Finds nodes whose full path starts with `pathPrefix` and matches the
+	 * anchored `pathRegex` (see `FileSystemUtils.globToRegex`), newest first.
+	 */
 	findNodesByGlob(
-		basePath: string,
-		namePattern: string,
+		pathPrefix: string,
+		pathRegex: string,
 		limit: number,
 	): Promise<NodeRecord[]>;
 
-	getContent(hash: string): Promise<string>;
-	getOrCreateContent(content: string): Promise<string>;
+	getContent(hash: string): Promise<Buffer>;
+	getOrCreateContent(content: Buffer): Promise<string>;
+	/**
+	 * Stores a manifest for content split into already-stored chunks. The
+	 * manifest takes over one reference to each chunk; if the manifest already
+	 * exists its count is bumped and the chunk references are released instead.
+	 */
+	getOrCreateChunkedContent(
+		hash: string,
+		size: number,
+		chunks: Array<{ hash: string; size: number }>,
+	): Promise<string>;
+	/**
+	 * Lists the chunks of `hash` overlapping the byte range [start, end), in
+	 * order. Unchunked content is returned as a single chunk.
+	 */
+	findContentChunks(
+		hash: string,
+		start: number,
+		end: number,
+	): Promise<ContentChunkRecord[]>;
 	incrementRefCount(hash: string): Promise<void>;
 	decrementRefCount(hash: string): Promise<void>;
-	garbageCollect(): Promise<number>;
+	/** Every content block in the workspace, for consistency checks. */
+	findContentRefs(): Promise<ContentRefRecord[]>;
+	setRefCount(hash: string, refCount: number): Promise<void>;
+	/** Sets the access time of nodes, for reads recorded in batches. */
+	touchNodes(ids: string[], accessedAt: Date): Promise<void>;
+	/** Sets the last access time of content blocks. */
+	touchContent(hashes: string[], accessedAt: Date): Promise<void>;
+	/**
+	 * Deletes unreferenced content, or only the content among it last
+	 * accessed before `accessedBefore`. Resolves to the number of blocks
+	 * deleted.
+	 */
+	garbageCollect(options?: { accessedBefore?: Date }): Promise<number>;
+	/**
+	 * Totals for the workspace, or for nodes owned by `owner`. `storedBytes`
+	 * always covers the whole workspace, as content is shared between owners.
+	 */
+	getUsage(owner?: string): Promise<UsageRecord>;
+
+	/**
+	 * Queues `change` for subscribers. Inside a transaction it is delivered
+	 * only if and when the outermost transaction commits.
+	 */
+	publishChange(change: ChangeRecord): Promise<void>;
+	/**
+	 * Calls `handler` for every change committed in this workspace through
+	 * any driver on the same storage. Resolves once the subscription is
+	 * active, to a function that ends it. Errors thrown by `handler` go to
+	 * `onError`, as does a lost connection, which also ends the subscription.
+	 */
+	subscribeChanges(
+		handler: (change: ChangeRecord) => void,
+		onError?: (error: unknown) => void,
+	): Promise<() => Promise<void>>;
+
+	/** Appends to the audit log. Entries are never updated or deleted. */
+	insertAuditEntry(entry: NewAuditRecord): Promise<void>;
+	/** Matching audit entries, newest first. */
+	findAuditEntries(query: AuditQuery): Promise<AuditRecord[]>;
+
+	/**
+	 * Stores a deleted tree. The entry takes over the content references its
+	 * nodes and versions held, so their content survives garbage collection.
+	 */
+	insertTrashEntry(entry: NewTrashRecord): Promise<void>;
+	/** Trash entries, most recently deleted first. */
+	findTrashEntries(): Promise<TrashRecord[]>;
+	findTrashedTree(id: string): Promise<TrashedTree | undefined>;
+	deleteTrashEntry(id: string): Promise<void>;
+
+	/**
+	 * Stores a snapshot. Callers hold a content reference for every file in
+	 * the manifest until the snapshot is deleted.
+	 */
+	insertSnapshot(snapshot: NewSnapshotRecord): Promise<void>;
+	/** Snapshots, newest first. */
+	findSnapshots(): Promise<SnapshotRecord[]>;
+	findSnapshotManifest(id: string): Promise<SnapshotEntry[] | undefined>;
+	deleteSnapshot(id: string): Promise<void>;
+
+	insertVersion(version: NewVersionRecord): Promise<void>;
+	findVersions(nodeId: string): Promise<VersionRecord[]>;
+	findVersion(
+		nodeId: string,
+		version: number,
+	): Promise<VersionRecord | undefined>;
+	findLatestVersion(nodeId: string): Promise<VersionRecord | undefined>;
 
 	updateSearchIndex(
 		nodeId: string,
 		path: string,
 		content?: string,
 	): Promise<void>;
+	/**
+	 * Pages through indexed file text under `pathPrefix`, ordered by path,
+	 * optionally restricted to paths matching the anchored `pathRegex`.
+	 */
+	findIndexedContent(
+		pathPrefix: string,
+		pathRegex: string | null,
+		offset: number,
+		limit: number,
+	): Promise<Array<{ nodeId: string; path: string; content: string }>>;
+	/**
+	 * Ranked full-text search. Higher scores rank first; scores are only
+	 * comparable within a single result set. Snippets mark hits with `**`.
+	 * Only nodes at or below `basePath` match.
+	 */
 	searchContent(
-		query: string,
+		query: SearchQuery,
 		basePath: string,
 		limit: number,
-	): Promise<Array<{ nodeId: string; path: string }>>;
+	): Promise<
+		Array<{ nodeId: string; path: string; score: number; snippet: string }>
+	>;
 }
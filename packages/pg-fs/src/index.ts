@@ -1,24 +1,51 @@
 import type { Pool } from "pg";
-import { DbFileSystem } from "./db-fs.js";
-import { createFileSystemTools } from "./tools.js";
+import { DbFileSystem, type DbFileSystemOptions } from "./db-fs.js";
+import { createFileSystemTools, type FileSystemTools } from "./tools.js";
 import { FileSystemUtils } from "./utils.js";
 import { systemPrompt } from "./system-prompt.js";
+import { Maintenance, type MaintenanceOptions } from "./maintenance.js";
 import type { DatabaseDriver } from "./drivers/types.js";
+import type { MemorySnapshot } from "./drivers/memory.js";
+import type { Principal } from "./permissions.js";
+import type { QuotaLimits } from "./quota.js";
 
 export * from "./schema.js";
 export * from "./db-fs.js";
 export * from "./tools.js";
 export * from "./utils.js";
+export * from "./search-query.js";
+export * from "./diff.js";
+export * from "./patch.js";
+export * from "./permissions.js";
+export * from "./quota.js";
+export * from "./revision.js";
+export * from "./links.js";
+export * from "./maintenance.js";
 export * from "./drivers/types.js";
+export * from "./drivers/memory.js";
 export * from "./schema/types.js";
 
 export interface DbFsConfig {
-	dialect: "postgresql" | "sqlite";
+	dialect: "postgresql" | "sqlite" | "memory";
 	pool?: Pool;
 	connectionString?: string;
 	filename?: string;
 	sqliteDatabase?: any;
+	/** Memory only: state to start from, as returned by `MemoryDriver.snapshot()` */
+	memorySnapshot?: MemorySnapshot;
 	autoInitialize?: boolean;
+	/** Files larger than this many bytes are stored as chunks (default 256 KiB) */
+	chunkSize?: number;
+	/** Isolated tree to operate on (default: "default") */
+	workspace?: string;
+	/** User and groups checked against node modes; omit for full access */
+	principal?: Principal;
+	/** Limits for the workspace as a whole */
+	quota?: QuotaLimits;
+	/** Limits applied to each owner separately */
+	ownerQuota?: QuotaLimits;
+	/** Runs background maintenance, see `Maintenance`; off by default */
+	maintenance?: MaintenanceOptions;
 }
 
 export interface PgFsConfig {
@@ -29,12 +56,22 @@ export interface PgFsConfig {
 export class DbFs {
 	public readonly driver: DatabaseDriver;
 	public readonly fs: DbFileSystem;
-	public readonly tools: ReturnType<typeof createFileSystemTools>;
+	public readonly tools: FileSystemTools;
 	public readonly utils: typeof FileSystemUtils;
-
-	private constructor(driver: DatabaseDriver) {
+	/** Background upkeep, when `maintenance` was configured */
+	public readonly maintenance: Maintenance | null;
+
+	private constructor(
+		driver: DatabaseDriver,
+		private options: DbFileSystemOptions,
+		maintenance: Maintenance | null = null,
+	) {
 		this.driver = driver;
-		this.fs = new DbFileSystem(driver);
+		this.maintenance = maintenance;
+		this.fs = new DbFileSystem(driver, {
+			...options,
+			onAccess: maintenance?.accessRecorder(driver.workspace),
+		});
 		this.tools = createFileSystemTools(this.fs);
 		this.utils = FileSystemUtils;
 	}
@@ -80,16 +117,40 @@ export class DbFs {
 			}
 
 			driver = new SqliteDriver(database);
+		} else if (config.dialect === "memory") {
+			const { MemoryDriver } = await import("./drivers/memory.js");
+			driver = new MemoryDriver(config.memorySnapshot);
 		} else {
 			throw new Error(`Unsupported dialect: ${config.dialect}`);
 		}
 
-		const instance = new DbFs(driver);
+		if (config.workspace !== undefined) {
+			driver = scopeDriver(driver, config.workspace);
+		}
+
+		const maintenance = config.maintenance
+			? new Maintenance(driver, config.maintenance)
+			: null;
+		const instance = new DbFs(
+			driver,
+			{
+				chunkSize: config.chunkSize,
+				principal: config.principal,
+				quota: config.quota,
+				ownerQuota: config.ownerQuota,
+			},
+			maintenance,
+		);
 
 		if (config.autoInitialize !== false) {
 			await instance.fs.initialize();
 		}
 
+		if (maintenance) {
+			await maintenance.addWorkspace(driver.workspace);
+			await maintenance.start();
+		}
+
 		return instance;
 	}
 
@@ -97,11 +158,46 @@ export class DbFs {
 		await this.fs.initialize();
 	}
 
+	/**
+	 * Returns a `DbFs` (filesystem and tools) for another workspace on the
+	 * same connection, creating its root directory if needed.
+	 */
+	async scope(workspace: string): Promise<DbFs> {
+		const instance = new DbFs(
+			scopeDriver(this.driver, workspace),
+			this.options,
+			this.maintenance,
+		);
+		await instance.initialize();
+		await this.maintenance?.addWorkspace(instance.driver.workspace);
+		return instance;
+	}
+
+	/**
+	 * Returns a `DbFs` on the same workspace whose operations are checked
+	 * against `principal`.
+	 */
+	withPrincipal(principal: Principal): DbFs {
+		return new DbFs(
+			this.driver,
+			{ ...this.options, principal },
+			this.maintenance,
+		);
+	}
+
+	/** Collects unreferenced content in this workspace. */
 	async garbageCollect(): Promise<number> {
 		return await this.driver.garbageCollect();
 	}
 }
 
+function scopeDriver(driver: DatabaseDriver, workspace: string): DatabaseDriver {
+	if (!FileSystemUtils.isValidWorkspace(workspace)) {
+		throw new Error(`Invalid workspace: ${workspace}`);
+	}
+	return driver.withWorkspace(workspace);
+}
+
 export async function createDbFs(config: DbFsConfig): Promise<DbFs> {
 	return await DbFs.create(config);
 }
@@ -120,6 +216,15 @@ export async function createSqliteFs(filename?: string): Promise<DbFs> {
 	});
 }
 
+export async function createMemoryFs(
+	snapshot?: MemorySnapshot,
+): Promise<DbFs> {
+	return await DbFs.create({
+		dialect: "memory",
+		memorySnapshot: snapshot,
+	});
+}
+
 export { DbFs as PgFs };
 
 export const TestSystemPrompt = systemPrompt;
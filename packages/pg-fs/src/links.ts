@@ -0,0 +1,25 @@
+import { FileSystemUtils } from "./utils.js";
+
+/** Symlinks followed while resolving one path before giving up, as on Linux */
+export const MAX_SYMLINK_HOPS = 40;
+
+export class SymlinkLoopError extends Error {
+	readonly code = "ELOOP";
+
+	constructor(readonly path: string) {
+		super(`ELOOP: too many symbolic links encountered, resolve '${path}'`);
+		this.name = "SymlinkLoopError";
+	}
+}
+
+/**
+ * Absolute path that a symlink at `linkPath` points to. Relative targets are
+ * resolved against the directory containing the link.
+ */
+export function resolveLinkTarget(linkPath: string, target: string): string {
+	if (target.startsWith("/")) {
+		return FileSystemUtils.normalizePath(target);
+	}
+	const parent = FileSystemUtils.getParentPath(linkPath) ?? "/";
+	return FileSystemUtils.normalizePath(`${parent}/${target}`);
+}
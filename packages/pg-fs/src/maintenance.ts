@@ -0,0 +1,317 @@
+import { DbFileSystem } from "./db-fs.js";
+import type { DatabaseDriver } from "./drivers/types.js";
+
+export type MaintenanceTask = "accessTimes" | "garbageCollect" | "searchIndex";
+
+export interface MaintenanceRun {
+	task: MaintenanceTask;
+	workspace: string;
+	/** Access times written, content blocks collected or files indexed */
+	count: number;
+	durationMs: number;
+	/** Set when the task failed; scheduled tasks are retried on a later tick */
+	error?: unknown;
+}
+
+export interface MaintenanceOptions {
+	/** How often pending work is checked for, in ms (default 1 second) */
+	intervalMs?: number;
+	/** Collect garbage at least this often, in ms (default 10 minutes) */
+	gcIntervalMs?: number;
+	/** Collect garbage after this many file changes and deletes (default 1000) */
+	gcThreshold?: number;
+	/**
+	 * Keep unreferenced content until it has gone unread for this long, so
+	 * content written again soon after it was deleted is reused rather than
+	 * collected under a concurrent write (default 10 minutes; 0 disables)
+	 */
+	contentRetentionMs?: number;
+	/** Rebuild search indexes this often, in ms; off by default */
+	searchIndexIntervalMs?: number;
+	/**
+	 * Called after every task, for metrics. Without it, failures of
+	 * scheduled tasks are emitted as process warnings.
+	 */
+	onRun?: (run: MaintenanceRun) => void;
+}
+
+interface WorkspaceState {
+	nodes: Set<string>;
+	content: Set<string>;
+	/** Changes that may have released content since the last collection */
+	changes: number;
+	lastCollected: number;
+	lastIndexed: number;
+	unsubscribe: (() => Promise<void>) | null;
+}
+
+const DEFAULT_INTERVAL_MS = 1000;
+const DEFAULT_GC_INTERVAL_MS = 10 * 60 * 1000;
+const DEFAULT_GC_THRESHOLD = 1000;
+const DEFAULT_CONTENT_RETENTION_MS = 10 * 60 * 1000;
+
+/**
+ * Background upkeep for the workspaces of a `DbFs`: writes the access times
+ * of reads in batches, collects unreferenced content on an interval or once
+ * enough files changed, and rebuilds search indexes. Its timer does not keep
+ * the process alive; `stop` writes any access times still pending.
+ */
+export class Maintenance {
+	private readonly workspaces = new Map<string, WorkspaceState>();
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private running: Promise<void> | null = null;
+
+	constructor(
+		private driver: DatabaseDriver,
+		private options: MaintenanceOptions = {},
+	) {}
+
+	/** Starts the timer, and counting changes towards `gcThreshold`. */
+	async start(): Promise<void> {
+		if (this.timer) {
+			return;
+		}
+
+		this.timer = setInterval(() => {
+			void this.tick();
+		}, this.options.intervalMs ?? DEFAULT_INTERVAL_MS);
+		this.timer.unref?.();
+
+		for (const [workspace, state] of this.workspaces) {
+			state.unsubscribe = await this.countChanges(workspace);
+		}
+	}
+
+	/** Stops the timer once a running tick ends, then flushes access times. */
+	async stop(): Promise<void> {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+
+		for (const state of this.workspaces.values()) {
+			await state.unsubscribe?.();
+			state.unsubscribe = null;
+		}
+
+		await this.running;
+		await this.flushAccessTimes();
+	}
+
+	/** Includes another workspace on the same storage. */
+	async addWorkspace(workspace: string): Promise<void> {
+		if (this.workspaces.has(workspace)) {
+			return;
+		}
+
+		const now = Date.now();
+		const state: WorkspaceState = {
+			nodes: new Set(),
+			content: new Set(),
+			changes: 0,
+			lastCollected: now,
+			lastIndexed: now,
+			unsubscribe: null,
+		};
+		this.workspaces.set(workspace, state);
+
+		if (this.timer) {
+			state.unsubscribe = await this.countChanges(workspace);
+		}
+	}
+
+	/**
+	 * An `onAccess` for a `DbFileSystem` on `workspace`, queueing the access
+	 * times of its reads until the next flush.
+	 */
+	accessRecorder(
+		workspace: string,
+	): (nodeId: string, contentHash: string | null) => void {
+		return (nodeId, contentHash) => {
+			const state = this.workspaces.get(workspace);
+			state?.nodes.add(nodeId);
+			if (state && contentHash) {
+				state.content.add(contentHash);
+			}
+		};
+	}
+
+	/**
+	 * Runs whatever is due: flushing access times, then collecting garbage
+	 * and rebuilding search indexes in workspaces whose turn has come.
+	 * Failures are reported through `onRun`, or as process warnings without
+	 * one, rather than thrown.
+	 */
+	async tick(): Promise<void> {
+		if (this.running) {
+			return await this.running;
+		}
+
+		this.running = this.runDueTasks().finally(() => {
+			this.running = null;
+		});
+		await this.running;
+	}
+
+	/** Writes queued access times. Resolves to the number written. */
+	async flushAccessTimes(): Promise<number> {
+		let written = 0;
+
+		for (const [workspace, state] of this.workspaces) {
+			if (state.nodes.size === 0 && state.content.size === 0) continue;
+
+			const nodes = [...state.nodes];
+			const content = [...state.content];
+			state.nodes.clear();
+			state.content.clear();
+
+			written += await this.measure("accessTimes", workspace, async () => {
+				const driver = this.driver.withWorkspace(workspace);
+				const now = new Date();
+				try {
+					await driver.transaction(async (tx) => {
+						await tx.touchNodes(nodes, now);
+						await tx.touchContent(content, now);
+					});
+				} catch (error) {
+					// Keep them for the next flush
+					for (const id of nodes) state.nodes.add(id);
+					for (const hash of content) state.content.add(hash);
+					throw error;
+				}
+				return nodes.length + content.length;
+			});
+		}
+
+		return written;
+	}
+
+	/**
+	 * Collects unreferenced content past `contentRetentionMs` in every
+	 * workspace. Resolves to the number of blocks deleted.
+	 */
+	async garbageCollect(): Promise<number> {
+		let collected = 0;
+		for (const workspace of this.workspaces.keys()) {
+			collected += await this.collect(workspace);
+		}
+		return collected;
+	}
+
+	/** Rebuilds the search index of every workspace. */
+	async rebuildSearchIndexes(): Promise<number> {
+		let indexed = 0;
+		for (const workspace of this.workspaces.keys()) {
+			indexed += await this.reindex(workspace);
+		}
+		return indexed;
+	}
+
+	private async runDueTasks(): Promise<void> {
+		const failed = (error: unknown) => this.reportFailure(error);
+		await this.flushAccessTimes().catch(failed);
+
+		const gcInterval = this.options.gcIntervalMs ?? DEFAULT_GC_INTERVAL_MS;
+		const gcThreshold = this.options.gcThreshold ?? DEFAULT_GC_THRESHOLD;
+		const indexInterval = this.options.searchIndexIntervalMs;
+
+		for (const [workspace, state] of this.workspaces) {
+			const now = Date.now();
+			if (
+				state.changes >= gcThreshold ||
+				now - state.lastCollected >= gcInterval
+			) {
+				await this.collect(workspace).catch(failed);
+			}
+			if (indexInterval && now - state.lastIndexed >= indexInterval) {
+				await this.reindex(workspace).catch(failed);
+			}
+		}
+	}
+
+	/** Failures already reached `onRun` if set; otherwise they are warned of. */
+	private reportFailure(error: unknown): void {
+		if (this.options.onRun) {
+			return;
+		}
+		const message = error instanceof Error ? error.message : String(error);
+		process.emitWarning(
+			`Maintenance task failed: ${message}`,
+			"MaintenanceWarning",
+		);
+	}
+
+	private async collect(workspace: string): Promise<number> {
+		const state = this.workspaces.get(workspace)!;
+		const retention =
+			this.options.contentRetentionMs ?? DEFAULT_CONTENT_RETENTION_MS;
+		const changes = state.changes;
+
+		const collected = await this.measure(
+			"garbageCollect",
+			workspace,
+			async () =>
+				await this.driver.withWorkspace(workspace).garbageCollect({
+					accessedBefore:
+						retention > 0 ? new Date(Date.now() - retention) : undefined,
+				}),
+		);
+		state.changes -= changes;
+		state.lastCollected = Date.now();
+		return collected;
+	}
+
+	private async reindex(workspace: string): Promise<number> {
+		const state = this.workspaces.get(workspace)!;
+		const fs = new DbFileSystem(this.driver.withWorkspace(workspace));
+
+		const indexed = await this.measure(
+			"searchIndex",
+			workspace,
+			async () => await fs.rebuildSearchIndex(),
+		);
+		state.lastIndexed = Date.now();
+		return indexed;
+	}
+
+	/** Counts committed changes that can release content references. */
+	private async countChanges(
+		workspace: string,
+	): Promise<() => Promise<void>> {
+		const state = this.workspaces.get(workspace)!;
+		return await this.driver
+			.withWorkspace(workspace)
+			.subscribeChanges((change) => {
+				if (change.type === "modify" || change.type === "delete") {
+					state.changes++;
+				}
+			});
+	}
+
+	private async measure(
+		task: MaintenanceTask,
+		workspace: string,
+		run: () => Promise<number>,
+	): Promise<number> {
+		const started = Date.now();
+		try {
+			const count = await run();
+			this.options.onRun?.({
+				task,
+				workspace,
+				count,
+				durationMs: Date.now() - started,
+			});
+			return count;
+		} catch (error) {
+			this.options.onRun?.({
+				task,
+				workspace,
+				count: 0,
+				durationMs: Date.now() - started,
+				error,
+			});
+			throw error;
+		}
+	}
+}
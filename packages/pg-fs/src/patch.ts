@@ -0,0 +1,503 @@
+import { FileSystemUtils } from "./utils.js";
+
+export interface PatchHunk {
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+	/** Body lines, each starting with " ", "-" or "+" */
+	lines: string[];
+	/** The old side ends without a newline */
+	oldNoNewline: boolean;
+	/** The new side ends without a newline */
+	newNoNewline: boolean;
+}
+
+export interface FilePatch {
+	/** null when the patch creates the file */
+	oldPath: string | null;
+	/** null when the patch deletes the file */
+	newPath: string | null;
+	hunks: PatchHunk[];
+}
+
+export interface HunkResult {
+	/** 1-based position of the hunk within its file */
+	hunk: number;
+	applied: boolean;
+	/** 1-based line of the patched file where the hunk landed */
+	line?: number;
+	/** Context lines ignored at each end to make the hunk fit */
+	fuzz?: number;
+	/** Why the hunk did not apply */
+	error?: string;
+}
+
+export interface StringEdit {
+	oldString: string;
+	newString: string;
+	/** Replace every occurrence instead of requiring a unique one */
+	replaceAll?: boolean;
+}
+
+export interface EditResult {
+	/** 1-based position of the edit in the list */
+	edit: number;
+	applied: boolean;
+	/** 1-based line of the first replacement */
+	line?: number;
+	replacements?: number;
+	/** Matched line by line ignoring whitespace differences */
+	fuzzy?: boolean;
+	/** Why the edit did not apply */
+	error?: string;
+}
+
+/** Default number of context lines a hunk may drop at each end to apply */
+export const DEFAULT_MAX_FUZZ = 2;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses a unified diff, as produced by `diff -u` or `git diff`, into one
+ * entry per file. `/dev/null` marks created and deleted files, git's
+ * `a/` and `b/` prefixes are dropped, and git rename headers are honoured.
+ */
+export function parsePatch(text: string): FilePatch[] {
+	const lines = text.split("\n");
+	const patches: FilePatch[] = [];
+	// Set while the last file seen only has a `diff --git` header
+	let gitHeader = false;
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		const patch = patches[patches.length - 1];
+
+		const git = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+		if (git) {
+			patches.push({ oldPath: git[1], newPath: git[2], hunks: [] });
+			gitHeader = true;
+		} else if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+			const [oldPath, newPath] = stripPrefixes(
+				headerPath(line),
+				headerPath(lines[i + 1]),
+			);
+			const sameFile =
+				gitHeader &&
+				(oldPath === null || oldPath === patch.oldPath) &&
+				(newPath === null || newPath === patch.newPath);
+			if (sameFile) {
+				// The header's paths already account for creates and renames
+				patch.oldPath = oldPath && patch.oldPath;
+				patch.newPath = newPath && patch.newPath;
+			} else {
+				patches.push({ oldPath, newPath, hunks: [] });
+			}
+			gitHeader = false;
+			i++;
+		} else if (!patch) {
+			continue;
+		} else if (HUNK_HEADER.test(line)) {
+			const [hunk, next] = parseHunk(lines, i);
+			patch.hunks.push(hunk);
+			gitHeader = false;
+			i = next - 1;
+		} else if (!gitHeader) {
+			continue;
+		} else if (line.startsWith("new file mode")) {
+			patch.oldPath = null;
+		} else if (line.startsWith("deleted file mode")) {
+			patch.newPath = null;
+		} else if (line.startsWith("rename from ")) {
+			patch.oldPath = line.slice("rename from ".length);
+		} else if (line.startsWith("rename to ")) {
+			patch.newPath = line.slice("rename to ".length);
+		}
+	}
+
+	return patches;
+}
+
+/** Resolves relative patch paths against `basePath`. */
+export function resolvePatchPaths(
+	patches: FilePatch[],
+	basePath: string = "/",
+): FilePatch[] {
+	const resolve = (path: string | null) =>
+		path === null
+			? null
+			: FileSystemUtils.normalizePath(
+					path.startsWith("/") ? path : `${basePath}/${path}`,
+				);
+	return patches.map((patch) => ({
+		...patch,
+		oldPath: resolve(patch.oldPath),
+		newPath: resolve(patch.newPath),
+	}));
+}
+
+/**
+ * Applies hunks to `content` in order. Each hunk is looked for near the line
+ * its header names, first exactly, then ignoring whitespace differences,
+ * then with up to `maxFuzz` context lines dropped at each end. Hunks that do
+ * not fit are reported and skipped.
+ */
+export function applyHunks(
+	content: string,
+	hunks: PatchHunk[],
+	maxFuzz: number = DEFAULT_MAX_FUZZ,
+): { content: string; hunks: HunkResult[] } {
+	const result = content === "" ? [] : content.replace(/\n$/, "").split("\n");
+	let trailingNewline = content === "" || content.endsWith("\n");
+	const results: HunkResult[] = [];
+	let shift = 0;
+	let floor = 0;
+
+	hunks.forEach((hunk, index) => {
+		const oldSide = hunk.lines
+			.filter((line) => !line.startsWith("+"))
+			.map((line) => line.slice(1));
+		const newSide = hunk.lines
+			.filter((line) => !line.startsWith("-"))
+			.map((line) => line.slice(1));
+		const leading = hunk.lines.findIndex((line) => !line.startsWith(" "));
+		const trailing = [...hunk.lines]
+			.reverse()
+			.findIndex((line) => !line.startsWith(" "));
+		const headerPos = oldSide.length === 0 ? hunk.oldStart : hunk.oldStart - 1;
+
+		const found = locateHunk(result, oldSide, {
+			expected: headerPos + shift,
+			floor,
+			leading: leading === -1 ? oldSide.length : leading,
+			trailing: trailing === -1 ? 0 : trailing,
+			maxFuzz,
+		});
+
+		if (!found) {
+			const reason = mismatch(
+				result,
+				oldSide,
+				Math.max(floor, headerPos + shift),
+			);
+			results.push({
+				hunk: index + 1,
+				applied: false,
+				error: `Hunk #${index + 1} (${hunkRange(hunk)}) does not match: ${reason}`,
+			});
+			return;
+		}
+
+		const { pos, drop, fuzz } = found;
+		const removed = oldSide.length - drop.start - drop.end;
+		const inserted = newSide.slice(drop.start, newSide.length - drop.end);
+		result.splice(pos, removed, ...inserted);
+		shift = pos - drop.start - headerPos + inserted.length - removed;
+		floor = pos + inserted.length;
+
+		if (hunk.newNoNewline) {
+			trailingNewline = false;
+		} else if (hunk.oldNoNewline) {
+			trailingNewline = true;
+		}
+
+		results.push({
+			hunk: index + 1,
+			applied: true,
+			line: pos + 1,
+			...(fuzz > 0 ? { fuzz } : {}),
+		});
+	});
+
+	const joined = result.join("\n");
+	return {
+		content: result.length > 0 && trailingNewline ? `${joined}\n` : joined,
+		hunks: results,
+	};
+}
+
+/**
+ * Applies string replacements in order. Each `oldString` must match exactly
+ * once, unless `replaceAll` is set; text that does not match exactly is
+ * looked up line by line ignoring whitespace differences.
+ */
+export function applyEdits(
+	content: string,
+	edits: StringEdit[],
+): { content: string; edits: EditResult[] } {
+	const results: EditResult[] = [];
+	let current = content;
+
+	edits.forEach((edit, index) => {
+		const number = index + 1;
+		const fail = (error: string) =>
+			results.push({
+				edit: number,
+				applied: false,
+				error: `Edit #${number}: ${error}`,
+			});
+
+		if (edit.oldString === "") {
+			fail("old_string is empty");
+			return;
+		}
+		if (edit.oldString === edit.newString) {
+			fail("old_string and new_string are identical");
+			return;
+		}
+
+		const offsets: number[] = [];
+		for (
+			let at = current.indexOf(edit.oldString);
+			at !== -1;
+			at = current.indexOf(edit.oldString, at + edit.oldString.length)
+		) {
+			offsets.push(at);
+		}
+
+		if (offsets.length > 1 && !edit.replaceAll) {
+			const lines = offsets.map((at) => lineAt(current, at)).join(", ");
+			fail(
+				`old_string appears ${offsets.length} times (lines ${lines}). Include more surrounding text or set replace_all.`,
+			);
+			return;
+		}
+
+		if (offsets.length > 0) {
+			const line = lineAt(current, offsets[0]);
+			current = edit.replaceAll
+				? current.split(edit.oldString).join(edit.newString)
+				: current.replace(edit.oldString, () => edit.newString);
+			results.push({
+				edit: number,
+				applied: true,
+				line,
+				replacements: offsets.length,
+			});
+			return;
+		}
+
+		const lines = current.split("\n");
+		const target = edit.oldString.replace(/\n$/, "").split("\n");
+		const starts = findLines(lines, target);
+		if (starts.length === 0) {
+			fail(`old_string not found. ${closestLine(lines, target)}`);
+			return;
+		}
+		if (starts.length > 1 && !edit.replaceAll) {
+			const places = starts.map((start) => start + 1).join(", ");
+			fail(
+				`old_string matches ${starts.length} places when ignoring whitespace (lines ${places}). Include more surrounding text or set replace_all.`,
+			);
+			return;
+		}
+
+		const replacement =
+			edit.newString === "" ? [] : edit.newString.replace(/\n$/, "").split("\n");
+		for (const start of [...starts].reverse()) {
+			lines.splice(start, target.length, ...replacement);
+		}
+		current = lines.join("\n");
+		results.push({
+			edit: number,
+			applied: true,
+			line: starts[0] + 1,
+			replacements: starts.length,
+			fuzzy: true,
+		});
+	});
+
+	return { content: current, edits: results };
+}
+
+function headerPath(line: string): string | null {
+	const path = line.slice(4).split("\t")[0].trim();
+	return path === "/dev/null" ? null : path;
+}
+
+/** Drops git's `a/` and `b/` prefixes when both sides use them. */
+function stripPrefixes(
+	oldPath: string | null,
+	newPath: string | null,
+): [string | null, string | null] {
+	const prefixed =
+		(oldPath === null || oldPath.startsWith("a/")) &&
+		(newPath === null || newPath.startsWith("b/"));
+	return prefixed
+		? [oldPath?.slice(2) ?? null, newPath?.slice(2) ?? null]
+		: [oldPath, newPath];
+}
+
+/** Reads the hunk starting at `lines[start]` and returns the next index. */
+function parseHunk(lines: string[], start: number): [PatchHunk, number] {
+	const [, oldStart, oldLines, newStart, newLines] = lines[start].match(
+		HUNK_HEADER,
+	)!;
+	const hunk: PatchHunk = {
+		oldStart: Number(oldStart),
+		oldLines: oldLines === undefined ? 1 : Number(oldLines),
+		newStart: Number(newStart),
+		newLines: newLines === undefined ? 1 : Number(newLines),
+		lines: [],
+		oldNoNewline: false,
+		newNoNewline: false,
+	};
+
+	let i = start + 1;
+	for (; i < lines.length; i++) {
+		const line = lines[i];
+		if (
+			HUNK_HEADER.test(line) ||
+			line.startsWith("diff --git ") ||
+			(line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ "))
+		) {
+			break;
+		}
+
+		if (line.startsWith("\\")) {
+			const previous = hunk.lines[hunk.lines.length - 1]?.[0];
+			if (previous !== "+") hunk.oldNoNewline = true;
+			if (previous !== "-") hunk.newNoNewline = true;
+		} else if (line === "") {
+			// Blank context lines often lose their leading space
+			hunk.lines.push(" ");
+		} else if (/^[ +-]/.test(line)) {
+			hunk.lines.push(line);
+		} else {
+			break;
+		}
+	}
+
+	// Blank lines past the counts in the header separate files, not context
+	const count = (prefix: string) =>
+		hunk.lines.filter((line) => line[0] !== prefix).length;
+	while (
+		hunk.lines[hunk.lines.length - 1] === " " &&
+		(count("+") > hunk.oldLines || count("-") > hunk.newLines)
+	) {
+		hunk.lines.pop();
+	}
+
+	return [hunk, i];
+}
+
+function locateHunk(
+	lines: string[],
+	oldSide: string[],
+	options: {
+		expected: number;
+		floor: number;
+		leading: number;
+		trailing: number;
+		maxFuzz: number;
+	},
+): { pos: number; drop: { start: number; end: number }; fuzz: number } | null {
+	const { expected, floor, leading, trailing, maxFuzz } = options;
+	if (oldSide.length === 0) {
+		const pos = Math.min(Math.max(expected, floor), lines.length);
+		return { pos, drop: { start: 0, end: 0 }, fuzz: 0 };
+	}
+
+	let previous = -1;
+	for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+		const drop = {
+			start: Math.min(fuzz, leading),
+			end: Math.min(fuzz, trailing),
+		};
+		// Nothing more to drop, or nothing left to anchor the hunk
+		if (drop.start + drop.end === previous) break;
+		if (drop.start + drop.end >= oldSide.length) break;
+		previous = drop.start + drop.end;
+
+		const pattern = oldSide.slice(drop.start, oldSide.length - drop.end);
+		for (const normalize of [(line: string) => line, normalizeWhitespace]) {
+			const pos = nearestMatch(
+				lines,
+				pattern,
+				normalize,
+				expected + drop.start,
+				floor,
+			);
+			if (pos !== null) {
+				return { pos, drop, fuzz };
+			}
+		}
+	}
+	return null;
+}
+
+/** Start of the match of `pattern` closest to `expected`, at or after `floor`. */
+function nearestMatch(
+	lines: string[],
+	pattern: string[],
+	normalize: (line: string) => string,
+	expected: number,
+	floor: number,
+): number | null {
+	const last = lines.length - pattern.length;
+	const matchesAt = (pos: number) =>
+		pos >= floor &&
+		pos <= last &&
+		pattern.every((line, k) => normalize(lines[pos + k]) === normalize(line));
+
+	for (let distance = 0; distance <= lines.length; distance++) {
+		if (matchesAt(expected - distance)) return expected - distance;
+		if (matchesAt(expected + distance)) return expected + distance;
+	}
+	return null;
+}
+
+/** Every start of `pattern` in `lines`, ignoring whitespace differences. */
+function findLines(lines: string[], pattern: string[]): number[] {
+	const starts: number[] = [];
+	for (let pos = 0; pos + pattern.length <= lines.length; pos++) {
+		const matches = pattern.every(
+			(line, k) =>
+				normalizeWhitespace(lines[pos + k]) === normalizeWhitespace(line),
+		);
+		if (matches) {
+			starts.push(pos);
+		}
+	}
+	return starts;
+}
+
+/** Describes the first line at `pos` that differs from what the hunk expects. */
+function mismatch(lines: string[], expected: string[], pos: number): string {
+	for (let k = 0; k < expected.length; k++) {
+		const actual = lines[pos + k];
+		if (actual === undefined) {
+			return `expected ${JSON.stringify(expected[k])} at line ${pos + k + 1}, but the file has ${lines.length} lines`;
+		}
+		if (actual !== expected[k]) {
+			return `expected ${JSON.stringify(expected[k])} at line ${pos + k + 1}, found ${JSON.stringify(actual)}`;
+		}
+	}
+	return `context overlaps an earlier hunk at line ${pos + 1}`;
+}
+
+/** Points at where the first line of `target` occurs, if anywhere. */
+function closestLine(lines: string[], target: string[]): string {
+	const first = target.find((line) => line.trim() !== "");
+	const at =
+		first === undefined
+			? -1
+			: lines.findIndex(
+					(line) => normalizeWhitespace(line) === normalizeWhitespace(first),
+				);
+	return at === -1
+		? "Read the file again to get its current content."
+		: `Its first line matches line ${at + 1}, but the lines after it differ.`;
+}
+
+function hunkRange(hunk: PatchHunk): string {
+	return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+function lineAt(content: string, offset: number): number {
+	return content.slice(0, offset).split("\n").length;
+}
+
+function normalizeWhitespace(line: string): string {
+	return line.replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,59 @@
+import type { NodeRecord } from "./schema/types.js";
+
+/** Identity that filesystem operations are checked against. */
+export interface Principal {
+	user: string;
+	groups?: string[];
+}
+
+export type Access = "read" | "write" | "execute";
+
+const ACCESS_BITS: Record<Access, number> = {
+	read: 4,
+	write: 2,
+	execute: 1,
+};
+
+/**
+ * Raised when the principal lacks permission for an operation. `code`
+ * matches Node's `EACCES` so callers can branch on it without parsing the
+ * message.
+ */
+export class PermissionDeniedError extends Error {
+	readonly code = "EACCES";
+
+	constructor(
+		readonly operation: string,
+		readonly path: string,
+	) {
+		super(`EACCES: permission denied, ${operation} '${path}'`);
+		this.name = "PermissionDeniedError";
+	}
+}
+
+/**
+ * Checks `access` against the owner, group or other bits of the node's mode.
+ * As on Unix, only the first class the principal falls into applies.
+ */
+export function hasAccess(
+	node: Pick<NodeRecord, "mode" | "owner" | "group">,
+	principal: Principal,
+	access: Access,
+): boolean {
+	const mode = parseInt(node.mode, 8);
+	const shift =
+		node.owner === principal.user
+			? 6
+			: principal.groups?.includes(node.group)
+				? 3
+				: 0;
+	return ((mode >> shift) & ACCESS_BITS[access]) !== 0;
+}
+
+/** Accepts "644" or "0644" and returns the four-digit form. */
+export function normalizeMode(mode: string): string {
+	if (!/^0?[0-7]{3}$/.test(mode)) {
+		throw new Error(`Invalid mode: ${mode}`);
+	}
+	return mode.padStart(4, "0");
+}
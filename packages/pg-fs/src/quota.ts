@@ -0,0 +1,38 @@
+import type { UsageRecord } from "./schema/types.js";
+
+/** Limits checked whenever files or directories are created or grow. */
+export interface QuotaLimits {
+	/** Total size of all files, in bytes */
+	maxBytes?: number;
+	/** Number of files and directories, not counting the root */
+	maxFiles?: number;
+	/** Size of a single file, in bytes */
+	maxFileSize?: number;
+	/** Number of path segments, e.g. 3 for /a/b/c */
+	maxDepth?: number;
+}
+
+export interface DiskUsage extends UsageRecord {
+	/** Set when the totals only cover this owner's nodes */
+	owner?: string;
+	/** Limits that apply to these totals */
+	limits: QuotaLimits;
+}
+
+/**
+ * Raised when an operation would exceed a quota. `code` matches the Unix
+ * `EDQUOT` errno so callers can branch on it without parsing the message.
+ */
+export class QuotaExceededError extends Error {
+	readonly code = "EDQUOT";
+
+	constructor(
+		readonly limit: keyof QuotaLimits,
+		readonly value: number,
+		operation: string,
+		readonly path: string,
+	) {
+		super(`EDQUOT: ${limit} of ${value} exceeded, ${operation} '${path}'`);
+		this.name = "QuotaExceededError";
+	}
+}
@@ -0,0 +1,21 @@
+/**
+ * Raised when a conditional write finds that the file changed since the
+ * caller read it. `code` matches the Unix `ESTALE` errno so callers can
+ * branch on it without parsing the message.
+ */
+export class ConflictError extends Error {
+	readonly code = "ESTALE";
+
+	constructor(
+		readonly path: string,
+		/** Revision the caller expected */
+		readonly expected: string,
+		/** Current revision, or null if the file does not exist */
+		readonly actual: string | null,
+	) {
+		super(
+			`ESTALE: file changed since revision ${expected}, write '${path}'`,
+		);
+		this.name = "ConflictError";
+	}
+}
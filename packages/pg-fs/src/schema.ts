@@ -1,12 +1,20 @@
 export {
 	nodes,
 	contentBlocks,
+	contentChunks,
 	searchIndex,
 	versions,
+	auditLog,
+	trash,
+	snapshots,
 	type Node,
 	type NewNode,
 	type ContentBlock,
 	type NewContentBlock,
+	type ContentChunk,
 	type SearchIndex,
 	type Version,
+	type AuditEntry,
+	type TrashEntry,
+	type Snapshot,
 } from "./schema/pg.js";
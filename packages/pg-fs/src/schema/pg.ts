@@ -1,20 +1,39 @@
+import { sql } from "drizzle-orm";
 import {
 	AnyPgColumn,
 	bigint,
+	bigserial,
 	boolean,
+	customType,
+	foreignKey,
 	index,
+	integer,
 	jsonb,
 	pgTable,
+	primaryKey,
 	text,
 	timestamp,
 	uniqueIndex,
 } from "drizzle-orm/pg-core";
 
+const tsvector = customType<{ data: string }>({
+	dataType() {
+		return "tsvector";
+	},
+});
+
+const bytea = customType<{ data: Buffer }>({
+	dataType() {
+		return "bytea";
+	},
+});
+
 export const nodes = pgTable(
 	"nodes",
 	{
 		id: text("id").primaryKey(),
-		path: text("path").notNull().unique(),
+		workspace: text("workspace").notNull().default("default"),
+		path: text("path").notNull(),
 		name: text("name").notNull(),
 		treePath: text("tree_path").notNull(),
 		parentId: text("parent_id").references((): AnyPgColumn => nodes.id, {
@@ -29,46 +48,86 @@ export const nodes = pgTable(
 		accessedAt: timestamp("accessed_at").notNull().defaultNow(),
 		mode: text("mode").notNull().default("0644"),
 		owner: text("owner").notNull().default("default"),
+		group: text("group").notNull().default("default"),
 		metadata: jsonb("metadata").default({}),
+		linkTarget: text("link_target"),
+		linkId: text("link_id"),
 	},
 	(table) => ({
-		pathIdx: uniqueIndex("path_idx").on(table.path),
+		pathIdx: uniqueIndex("workspace_path_idx").on(table.workspace, table.path),
 		parentIdx: index("parent_idx").on(table.parentId),
 		treePathIdx: index("tree_path_idx").on(table.treePath),
 		nameIdx: index("name_idx").on(table.name),
 		parentNameIdx: index("parent_name_idx").on(table.parentId, table.name),
 		modifiedIdx: index("modified_idx").on(table.modifiedAt),
+		linkIdx: index("link_idx").on(table.workspace, table.linkId),
+		// For `find`: metadata containment and key existence
+		metadataIdx: index("metadata_idx").using("gin", table.metadata),
 	}),
 );
 
 export const contentBlocks = pgTable(
 	"content_blocks",
 	{
-		hash: text("hash").primaryKey(),
-		data: text("data").notNull(),
+		workspace: text("workspace").notNull().default("default"),
+		hash: text("hash").notNull(),
+		data: bytea("data").notNull(),
 		size: bigint("size", { mode: "number" }).notNull(),
 		refCount: bigint("ref_count", { mode: "number" }).notNull().default(1),
+		chunkCount: integer("chunk_count").notNull().default(0),
 		createdAt: timestamp("created_at").notNull().defaultNow(),
 		lastAccessedAt: timestamp("last_accessed_at").notNull().defaultNow(),
 	},
 	(table) => ({
+		pk: primaryKey({ columns: [table.workspace, table.hash] }),
 		refCountIdx: index("ref_count_idx").on(table.refCount),
 		lastAccessIdx: index("last_access_idx").on(table.lastAccessedAt),
 	}),
 );
 
+export const contentChunks = pgTable(
+	"content_chunks",
+	{
+		workspace: text("workspace").notNull().default("default"),
+		contentHash: text("content_hash").notNull(),
+		seq: integer("seq").notNull(),
+		chunkHash: text("chunk_hash").notNull(),
+		offset: bigint("offset", { mode: "number" }).notNull(),
+		size: integer("size").notNull(),
+	},
+	(table) => ({
+		pk: primaryKey({
+			columns: [table.workspace, table.contentHash, table.seq],
+		}),
+		contentFk: foreignKey({
+			columns: [table.workspace, table.contentHash],
+			foreignColumns: [contentBlocks.workspace, contentBlocks.hash],
+		}).onDelete("cascade"),
+		chunkFk: foreignKey({
+			columns: [table.workspace, table.chunkHash],
+			foreignColumns: [contentBlocks.workspace, contentBlocks.hash],
+		}),
+		chunkHashIdx: index("chunk_hash_idx").on(table.workspace, table.chunkHash),
+	}),
+);
+
 export const searchIndex = pgTable(
 	"search_index",
 	{
 		nodeId: text("node_id")
 			.primaryKey()
 			.references(() => nodes.id, { onDelete: "cascade" }),
-		searchVector: text("search_vector"),
+		searchVector: tsvector("search_vector").generatedAlwaysAs(
+			sql`to_tsvector('english'::regconfig, coalesce(text_content, ''))`,
+		),
 		textContent: text("text_content"),
 		updatedAt: timestamp("updated_at").notNull().defaultNow(),
 	},
 	(table) => ({
-		searchVectorIdx: index("search_vector_idx").on(table.searchVector),
+		searchVectorIdx: index("search_vector_idx").using(
+			"gin",
+			table.searchVector,
+		),
 	}),
 );
 
@@ -79,10 +138,9 @@ export const versions = pgTable(
 		nodeId: text("node_id")
 			.notNull()
 			.references(() => nodes.id, { onDelete: "cascade" }),
+		workspace: text("workspace").notNull().default("default"),
 		version: bigint("version", { mode: "number" }).notNull(),
-		contentHash: text("content_hash")
-			.notNull()
-			.references(() => contentBlocks.hash),
+		contentHash: text("content_hash").notNull(),
 		size: bigint("size", { mode: "number" }).notNull(),
 		createdAt: timestamp("created_at").notNull().defaultNow(),
 		createdBy: text("created_by").notNull(),
@@ -94,6 +152,78 @@ export const versions = pgTable(
 			table.version,
 		),
 		nodeIdx: index("version_node_idx").on(table.nodeId),
+		contentFk: foreignKey({
+			columns: [table.workspace, table.contentHash],
+			foreignColumns: [contentBlocks.workspace, contentBlocks.hash],
+		}),
+	}),
+);
+
+export const auditLog = pgTable(
+	"audit_log",
+	{
+		id: bigserial("id", { mode: "number" }).primaryKey(),
+		workspace: text("workspace").notNull().default("default"),
+		operation: text("operation").notNull(),
+		path: text("path").notNull(),
+		oldPath: text("old_path"),
+		oldHash: text("old_hash"),
+		newHash: text("new_hash"),
+		actor: text("actor"),
+		toolCallId: text("tool_call_id"),
+		timestamp: timestamp("timestamp").notNull().defaultNow(),
+	},
+	(table) => ({
+		workspacePathIdx: index("audit_workspace_path_idx").on(
+			table.workspace,
+			table.path,
+		),
+		workspaceTimestampIdx: index("audit_workspace_timestamp_idx").on(
+			table.workspace,
+			table.timestamp,
+		),
+	}),
+);
+
+export const trash = pgTable(
+	"trash",
+	{
+		id: text("id").primaryKey(),
+		workspace: text("workspace").notNull().default("default"),
+		path: text("path").notNull(),
+		isDirectory: boolean("is_directory").notNull().default(false),
+		nodeCount: integer("node_count").notNull(),
+		size: bigint("size", { mode: "number" }).notNull().default(0),
+		deletedAt: timestamp("deleted_at").notNull().defaultNow(),
+		deletedBy: text("deleted_by"),
+		tree: jsonb("tree").notNull(),
+	},
+	(table) => ({
+		workspacePathIdx: index("trash_workspace_path_idx").on(
+			table.workspace,
+			table.path,
+		),
+	}),
+);
+
+export const snapshots = pgTable(
+	"snapshots",
+	{
+		id: text("id").primaryKey(),
+		workspace: text("workspace").notNull().default("default"),
+		label: text("label").notNull(),
+		path: text("path").notNull(),
+		nodeCount: integer("node_count").notNull(),
+		size: bigint("size", { mode: "number" }).notNull().default(0),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		createdBy: text("created_by"),
+		manifest: jsonb("manifest").notNull(),
+	},
+	(table) => ({
+		workspaceLabelIdx: uniqueIndex("snapshot_workspace_label_idx").on(
+			table.workspace,
+			table.label,
+		),
 	}),
 );
 
@@ -101,5 +231,9 @@ export type Node = typeof nodes.$inferSelect;
 export type NewNode = typeof nodes.$inferInsert;
 export type ContentBlock = typeof contentBlocks.$inferSelect;
 export type NewContentBlock = typeof contentBlocks.$inferInsert;
+export type ContentChunk = typeof contentChunks.$inferSelect;
 export type SearchIndex = typeof searchIndex.$inferSelect;
 export type Version = typeof versions.$inferSelect;
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type TrashEntry = typeof trash.$inferSelect;
+export type Snapshot = typeof snapshots.$inferSelect;
@@ -1,7 +1,10 @@
 import {
 	AnySQLiteColumn,
+	blob,
+	foreignKey,
 	index,
 	integer,
+	primaryKey,
 	sqliteTable,
 	text,
 	uniqueIndex,
@@ -11,7 +14,8 @@ export const nodes = sqliteTable(
 	"nodes",
 	{
 		id: text("id").primaryKey(),
-		path: text("path").notNull().unique(),
+		workspace: text("workspace").notNull().default("default"),
+		path: text("path").notNull(),
 		name: text("name").notNull(),
 		treePath: text("tree_path").notNull(),
 		parentId: text("parent_id").references((): AnySQLiteColumn => nodes.id, {
@@ -34,27 +38,33 @@ export const nodes = sqliteTable(
 			.$defaultFn(() => new Date()),
 		mode: text("mode").notNull().default("0644"),
 		owner: text("owner").notNull().default("default"),
+		group: text("group").notNull().default("default"),
 		metadata: text("metadata", { mode: "json" })
 			.$type<Record<string, unknown>>()
 			.default({}),
+		linkTarget: text("link_target"),
+		linkId: text("link_id"),
 	},
 	(table) => ({
-		pathIdx: uniqueIndex("path_idx").on(table.path),
+		pathIdx: uniqueIndex("workspace_path_idx").on(table.workspace, table.path),
 		parentIdx: index("parent_idx").on(table.parentId),
 		treePathIdx: index("tree_path_idx").on(table.treePath),
 		nameIdx: index("name_idx").on(table.name),
 		parentNameIdx: index("parent_name_idx").on(table.parentId, table.name),
 		modifiedIdx: index("modified_idx").on(table.modifiedAt),
+		linkIdx: index("link_idx").on(table.workspace, table.linkId),
 	}),
 );
 
 export const contentBlocks = sqliteTable(
 	"content_blocks",
 	{
-		hash: text("hash").primaryKey(),
-		data: text("data").notNull(),
+		workspace: text("workspace").notNull().default("default"),
+		hash: text("hash").notNull(),
+		data: blob("data", { mode: "buffer" }).notNull(),
 		size: integer("size").notNull(),
 		refCount: integer("ref_count").notNull().default(1),
+		chunkCount: integer("chunk_count").notNull().default(0),
 		createdAt: integer("created_at", { mode: "timestamp" })
 			.notNull()
 			.$defaultFn(() => new Date()),
@@ -63,11 +73,38 @@ export const contentBlocks = sqliteTable(
 			.$defaultFn(() => new Date()),
 	},
 	(table) => ({
+		pk: primaryKey({ columns: [table.workspace, table.hash] }),
 		refCountIdx: index("ref_count_idx").on(table.refCount),
 		lastAccessIdx: index("last_access_idx").on(table.lastAccessedAt),
 	}),
 );
 
+export const contentChunks = sqliteTable(
+	"content_chunks",
+	{
+		workspace: text("workspace").notNull().default("default"),
+		contentHash: text("content_hash").notNull(),
+		seq: integer("seq").notNull(),
+		chunkHash: text("chunk_hash").notNull(),
+		offset: integer("offset").notNull(),
+		size: integer("size").notNull(),
+	},
+	(table) => ({
+		pk: primaryKey({
+			columns: [table.workspace, table.contentHash, table.seq],
+		}),
+		contentFk: foreignKey({
+			columns: [table.workspace, table.contentHash],
+			foreignColumns: [contentBlocks.workspace, contentBlocks.hash],
+		}).onDelete("cascade"),
+		chunkFk: foreignKey({
+			columns: [table.workspace, table.chunkHash],
+			foreignColumns: [contentBlocks.workspace, contentBlocks.hash],
+		}),
+		chunkHashIdx: index("chunk_hash_idx").on(table.workspace, table.chunkHash),
+	}),
+);
+
 export const searchIndex = sqliteTable(
 	"search_index",
 	{
@@ -92,10 +129,9 @@ export const versions = sqliteTable(
 		nodeId: text("node_id")
 			.notNull()
 			.references(() => nodes.id, { onDelete: "cascade" }),
+		workspace: text("workspace").notNull().default("default"),
 		version: integer("version").notNull(),
-		contentHash: text("content_hash")
-			.notNull()
-			.references(() => contentBlocks.hash),
+		contentHash: text("content_hash").notNull(),
 		size: integer("size").notNull(),
 		createdAt: integer("created_at", { mode: "timestamp" })
 			.notNull()
@@ -109,6 +145,87 @@ export const versions = sqliteTable(
 			table.version,
 		),
 		nodeIdx: index("version_node_idx").on(table.nodeId),
+		contentFk: foreignKey({
+			columns: [table.workspace, table.contentHash],
+			foreignColumns: [contentBlocks.workspace, contentBlocks.hash],
+		}),
+	}),
+);
+
+export const auditLog = sqliteTable(
+	"audit_log",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		workspace: text("workspace").notNull().default("default"),
+		operation: text("operation").notNull(),
+		path: text("path").notNull(),
+		oldPath: text("old_path"),
+		oldHash: text("old_hash"),
+		newHash: text("new_hash"),
+		actor: text("actor"),
+		toolCallId: text("tool_call_id"),
+		// Milliseconds, so `since` queries can tell apart entries a second apart
+		timestamp: integer("timestamp", { mode: "timestamp_ms" })
+			.notNull()
+			.$defaultFn(() => new Date()),
+	},
+	(table) => ({
+		workspacePathIdx: index("audit_workspace_path_idx").on(
+			table.workspace,
+			table.path,
+		),
+		workspaceTimestampIdx: index("audit_workspace_timestamp_idx").on(
+			table.workspace,
+			table.timestamp,
+		),
+	}),
+);
+
+export const trash = sqliteTable(
+	"trash",
+	{
+		id: text("id").primaryKey(),
+		workspace: text("workspace").notNull().default("default"),
+		path: text("path").notNull(),
+		isDirectory: integer("is_directory", { mode: "boolean" })
+			.notNull()
+			.default(false),
+		nodeCount: integer("node_count").notNull(),
+		size: integer("size").notNull().default(0),
+		deletedAt: integer("deleted_at", { mode: "timestamp_ms" })
+			.notNull()
+			.$defaultFn(() => new Date()),
+		deletedBy: text("deleted_by"),
+		tree: text("tree", { mode: "json" }).notNull(),
+	},
+	(table) => ({
+		workspacePathIdx: index("trash_workspace_path_idx").on(
+			table.workspace,
+			table.path,
+		),
+	}),
+);
+
+export const snapshots = sqliteTable(
+	"snapshots",
+	{
+		id: text("id").primaryKey(),
+		workspace: text("workspace").notNull().default("default"),
+		label: text("label").notNull(),
+		path: text("path").notNull(),
+		nodeCount: integer("node_count").notNull(),
+		size: integer("size").notNull().default(0),
+		createdAt: integer("created_at", { mode: "timestamp_ms" })
+			.notNull()
+			.$defaultFn(() => new Date()),
+		createdBy: text("created_by"),
+		manifest: text("manifest", { mode: "json" }).notNull(),
+	},
+	(table) => ({
+		workspaceLabelIdx: uniqueIndex("snapshot_workspace_label_idx").on(
+			table.workspace,
+			table.label,
+		),
 	}),
 );
 
@@ -116,5 +233,9 @@ export type Node = typeof nodes.$inferSelect;
 export type NewNode = typeof nodes.$inferInsert;
 export type ContentBlock = typeof contentBlocks.$inferSelect;
 export type NewContentBlock = typeof contentBlocks.$inferInsert;
+export type ContentChunk = typeof contentChunks.$inferSelect;
 export type SearchIndex = typeof searchIndex.$inferSelect;
 export type Version = typeof versions.$inferSelect;
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type TrashEntry = typeof trash.$inferSelect;
+export type Snapshot = typeof snapshots.$inferSelect;
@@ -1,5 +1,6 @@
 export interface NodeRecord {
 	id: string;
+	workspace: string;
 	path: string;
 	name: string;
 	treePath: string;
@@ -13,7 +14,12 @@ export interface NodeRecord {
 	accessedAt: Date;
 	mode: string;
 	owner: string;
+	group: string;
 	metadata: Record<string, unknown> | null;
+	/** Path a symbolic link points to, as given; null for other nodes */
+	linkTarget: string | null;
+	/** Shared by hard links to the same file; null if it was never linked */
+	linkId: string | null;
 }
 
 export interface NewNodeRecord {
@@ -28,21 +34,241 @@ export interface NewNodeRecord {
 	contentHash?: string | null;
 	mode?: string;
 	owner?: string;
+	group?: string;
 	metadata?: Record<string, unknown>;
+	linkTarget?: string | null;
+	linkId?: string | null;
 }
 
 export interface ContentBlockRecord {
+	workspace: string;
 	hash: string;
-	data: string;
+	data: Buffer;
 	size: number;
 	refCount: number;
+	chunkCount: number;
 	createdAt: Date;
 	lastAccessedAt: Date;
 }
 
+export interface ContentChunkRecord {
+	hash: string;
+	offset: number;
+	size: number;
+}
+
+/** A content block's stored reference count and the chunks it points to */
+export interface ContentRefRecord {
+	hash: string;
+	refCount: number;
+	/** Chunk hashes in order, empty for unchunked content */
+	chunks: string[];
+}
+
+export type ChangeType = "create" | "modify" | "delete" | "rename";
+
+export interface ChangeRecord {
+	type: ChangeType;
+	workspace: string;
+	path: string;
+	/** Previous path, for renames */
+	oldPath?: string;
+	/** Node after the change, or before it for deletes */
+	node: Omit<NodeRecord, "metadata">;
+	timestamp: Date;
+}
+
+export type AuditOperation =
+	| "write"
+	| "mkdir"
+	| "unlink"
+	| "rename"
+	| "chmod"
+	| "chown"
+	| "restore"
+	| "purge"
+	| "symlink"
+	| "link"
+	| "metadata";
+
+export interface AuditRecord {
+	/** Increases with every entry, so it orders the log */
+	id: number;
+	workspace: string;
+	operation: AuditOperation;
+	path: string;
+	/** Previous path, for renames */
+	oldPath: string | null;
+	/** Content before the change, null for directories and new files */
+	oldHash: string | null;
+	/** Content after the change, null for directories and deletes */
+	newHash: string | null;
+	actor: string | null;
+	toolCallId: string | null;
+	timestamp: Date;
+}
+
+export type NewAuditRecord = Omit<
+	AuditRecord,
+	"id" | "workspace" | "timestamp"
+>;
+
+export interface AuditQuery {
+	/** Entries whose path or previous path is at or below this path */
+	path?: string;
+	/** Entries recorded at or after this time */
+	since?: Date;
+	actor?: string;
+	toolCallId?: string;
+	limit: number;
+}
+
+export type ListSortKey = "name" | "modified" | "size" | "created";
+
+/** One page of a directory listing for `listNodes`. */
+export interface ListQuery {
+	/** Directory to list the children of */
+	parentId: string;
+	/** Path of that directory; with `recursive`, every node below it is listed */
+	path: string;
+	recursive?: boolean;
+	/** Anchored regex that full paths must match (see `globToRegex`) */
+	pathRegex?: string;
+	/**
+	 * Without `sortBy` or `order`, directories come first, then names in
+	 * order; recursive listings are by path. Ties are broken by path.
+	 */
+	sortBy?: ListSortKey;
+	order?: "asc" | "desc";
+	limit: number;
+	offset: number;
+}
+
+/** A metadata value `find` can match exactly */
+export type MetadataValue = string | number | boolean;
+
+/** Filters for `findNodes`; a node must match every one given. */
+export interface NodeQuery {
+	/** Nodes below this path */
+	path?: string;
+	isDirectory?: boolean;
+	/** Metadata keys that must be present, with any value */
+	keys?: string[];
+	/** Metadata entries that must have exactly these values */
+	metadata?: Record<string, MetadataValue>;
+	/** Strings that must all be in the `tags` array of the metadata */
+	tags?: string[];
+	/** A MIME type, or a `type/*` wildcard such as `image/*` */
+	mimeType?: string;
+	minSize?: number;
+	maxSize?: number;
+	/** Nodes modified at or after this time */
+	modifiedAfter?: Date;
+	/** Nodes modified before this time */
+	modifiedBefore?: Date;
+	limit: number;
+}
+
+export interface UsageRecord {
+	files: number;
+	/** Excludes the root directory */
+	directories: number;
+	/** Sum of file sizes */
+	bytes: number;
+	/** Deduplicated size of all content blocks, including unreferenced ones */
+	storedBytes: number;
+}
+
 export interface SearchIndexRecord {
 	nodeId: string;
 	searchVector: string | null;
 	textContent: string | null;
 	updatedAt: Date;
 }
+
+export interface VersionRecord {
+	id: string;
+	nodeId: string;
+	version: number;
+	contentHash: string;
+	size: number;
+	createdAt: Date;
+	createdBy: string;
+	comment: string | null;
+}
+
+export interface NewVersionRecord {
+	id: string;
+	nodeId: string;
+	version: number;
+	contentHash: string;
+	size: number;
+	createdBy: string;
+	comment?: string | null;
+	/** Defaults to now; set when versions are restored from the trash */
+	createdAt?: Date;
+}
+
+export interface TrashRecord {
+	id: string;
+	workspace: string;
+	/** Path the tree was deleted from */
+	path: string;
+	isDirectory: boolean;
+	/** Files and directories in the tree, including its top node */
+	nodeCount: number;
+	/** Sum of file sizes in the tree */
+	size: number;
+	deletedAt: Date;
+	deletedBy: string | null;
+}
+
+/** A deleted tree, as it was when deleted. */
+export interface TrashedTree {
+	/** Parents come before their children */
+	nodes: NodeRecord[];
+	versions: VersionRecord[];
+}
+
+export type NewTrashRecord = Omit<TrashRecord, "workspace" | "deletedAt"> & {
+	tree: TrashedTree;
+};
+
+export interface SnapshotRecord {
+	id: string;
+	workspace: string;
+	/** Unique within the workspace */
+	label: string;
+	/** Root of the captured tree */
+	path: string;
+	/** Files and directories captured, including the root */
+	nodeCount: number;
+	/** Sum of captured file sizes */
+	size: number;
+	createdAt: Date;
+	createdBy: string | null;
+}
+
+/** One captured file or directory. Parents come before their children. */
+export type SnapshotEntry = Pick<
+	NodeRecord,
+	| "path"
+	| "isDirectory"
+	| "contentHash"
+	| "size"
+	| "mimeType"
+	| "mode"
+	| "owner"
+	| "group"
+	| "metadata"
+> & {
+	/** Missing from snapshots taken before symlinks */
+	linkTarget?: string | null;
+};
+
+export type NewSnapshotRecord = Omit<
+	SnapshotRecord,
+	"workspace" | "createdAt"
+> & {
+	manifest: SnapshotEntry[];
+};
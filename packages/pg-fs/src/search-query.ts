@@ -0,0 +1,202 @@
+export type SearchQuery =
+	| { type: "term"; value: string; prefix: boolean }
+	| { type: "phrase"; terms: string[] }
+	| { type: "and"; children: SearchQuery[] }
+	| { type: "or"; children: SearchQuery[] }
+	| { type: "not"; child: SearchQuery };
+
+type Token =
+	| { type: "word"; value: string }
+	| { type: "phrase"; value: string }
+	| { type: "and" | "or" | "not" | "lparen" | "rparen" };
+
+const WORD_CHARS = /[\p{L}\p{N}_]+/gu;
+
+/**
+ * Parses a user search query into a backend-neutral tree.
+ *
+ * Syntax: whitespace-separated terms are ANDed; `OR` and `AND` combine terms,
+ * `NOT term` or `-term` excludes, `"quoted words"` match as a phrase, `term*`
+ * matches by prefix and parentheses group. Exclusions must sit next to at
+ * least one positive term because SQLite FTS5 has no standalone NOT.
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+	const tokens = tokenize(query);
+	let pos = 0;
+
+	const parseOr = (): SearchQuery | null => {
+		const children: SearchQuery[] = [];
+		const first = parseAnd();
+		if (first) children.push(first);
+
+		while (tokens[pos]?.type === "or") {
+			pos++;
+			const next = parseAnd();
+			if (next) children.push(next);
+		}
+
+		if (children.length === 0) return null;
+		return children.length === 1 ? children[0] : { type: "or", children };
+	};
+
+	const parseAnd = (): SearchQuery | null => {
+		const children: SearchQuery[] = [];
+
+		while (pos < tokens.length) {
+			const token = tokens[pos];
+			if (token.type === "or" || token.type === "rparen") break;
+			if (token.type === "and") {
+				pos++;
+				continue;
+			}
+			const unary = parseUnary();
+			if (unary) children.push(unary);
+		}
+
+		if (children.length === 0) return null;
+		return children.length === 1 ? children[0] : { type: "and", children };
+	};
+
+	const parseUnary = (): SearchQuery | null => {
+		const token = tokens[pos++];
+
+		if (token.type === "not") {
+			const next = tokens[pos];
+			if (!next || next.type === "or" || next.type === "rparen") return null;
+			const child = parseUnary();
+			return child ? { type: "not", child } : null;
+		}
+
+		if (token.type === "lparen") {
+			const inner = parseOr();
+			if (tokens[pos]?.type === "rparen") pos++;
+			return inner;
+		}
+
+		if (token.type === "phrase") {
+			const terms = token.value.match(WORD_CHARS) || [];
+			if (terms.length === 0) return null;
+			return terms.length === 1
+				? { type: "term", value: terms[0], prefix: false }
+				: { type: "phrase", terms };
+		}
+
+		if (token.type === "word") {
+			const prefix = token.value.endsWith("*");
+			const terms = token.value.match(WORD_CHARS) || [];
+			if (terms.length === 0) return null;
+			if (terms.length === 1) return { type: "term", value: terms[0], prefix };
+			return { type: "phrase", terms };
+		}
+
+		return null;
+	};
+
+	const tree = parseOr();
+	if (!tree) {
+		throw new Error("Search query is empty");
+	}
+
+	validateNegation(tree, false);
+	return tree;
+}
+
+function tokenize(query: string): Token[] {
+	const tokens: Token[] = [];
+	let depth = 0;
+	let i = 0;
+
+	while (i < query.length) {
+		const char = query[i];
+
+		if (/\s/.test(char)) {
+			i++;
+		} else if (char === '"') {
+			const close = query.indexOf('"', i + 1);
+			const end = close === -1 ? query.length : close;
+			tokens.push({ type: "phrase", value: query.slice(i + 1, end) });
+			i = end + 1;
+		} else if (char === "(") {
+			tokens.push({ type: "lparen" });
+			depth++;
+			i++;
+		} else if (char === ")") {
+			if (depth > 0) {
+				tokens.push({ type: "rparen" });
+				depth--;
+			}
+			i++;
+		} else if (char === "-" && /[^\s"()-]/.test(query[i + 1] ?? " ")) {
+			tokens.push({ type: "not" });
+			i++;
+		} else {
+			let end = i;
+			while (end < query.length && !/[\s"()]/.test(query[end])) end++;
+			const word = query.slice(i, end);
+			if (word === "AND") tokens.push({ type: "and" });
+			else if (word === "OR") tokens.push({ type: "or" });
+			else if (word === "NOT") tokens.push({ type: "not" });
+			else tokens.push({ type: "word", value: word });
+			i = end;
+		}
+	}
+
+	return tokens;
+}
+
+function validateNegation(node: SearchQuery, allowed: boolean): void {
+	if (node.type === "not") {
+		if (!allowed) {
+			throw new Error(
+				"Search query exclusions must be combined with at least one positive term",
+			);
+		}
+		validateNegation(node.child, false);
+	} else if (node.type === "and") {
+		const hasPositive = node.children.some((c) => c.type !== "not");
+		for (const child of node.children) validateNegation(child, hasPositive);
+	} else if (node.type === "or") {
+		for (const child of node.children) validateNegation(child, false);
+	}
+}
+
+/** Compiles a parsed query to PostgreSQL `to_tsquery` syntax. */
+export function toTsQuery(node: SearchQuery): string {
+	switch (node.type) {
+		case "term":
+			return `'${node.value.replace(/'/g, "''")}'${node.prefix ? ":*" : ""}`;
+		case "phrase":
+			return `(${node.terms.map((t) => `'${t.replace(/'/g, "''")}'`).join(" <-> ")})`;
+		case "and":
+			return `(${node.children.map(toTsQuery).join(" & ")})`;
+		case "or":
+			return `(${node.children.map(toTsQuery).join(" | ")})`;
+		case "not":
+			return `!${toTsQuery(node.child)}`;
+	}
+}
+
+/** Compiles a parsed query to SQLite FTS5 MATCH syntax. */
+export function toFts5Query(node: SearchQuery): string {
+	switch (node.type) {
+		case "term":
+			return `"${node.value.replace(/"/g, '""')}"${node.prefix ? "*" : ""}`;
+		case "phrase":
+			return `"${node.terms.join(" ").replace(/"/g, '""')}"`;
+		case "and": {
+			const positives = node.children.filter((c) => c.type !== "not");
+			const negatives = node.children.filter(
+				(c): c is Extract<SearchQuery, { type: "not" }> => c.type === "not",
+			);
+			let query = `(${positives.map(toFts5Query).join(" AND ")})`;
+			for (const negative of negatives) {
+				query += ` NOT ${toFts5Query(negative.child)}`;
+			}
+			return `(${query})`;
+		}
+		case "or":
+			return `(${node.children.map(toFts5Query).join(" OR ")})`;
+		case "not":
+			throw new Error("Unsupported standalone exclusion in search query");
+	}
+}
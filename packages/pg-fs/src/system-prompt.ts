@@ -222,6 +222,8 @@ Usage:
   file_path: string;
   // The content to write to the file
   content: string;
+  // Encoding of content (optional: "utf8" | "base64", default: "utf8"); use base64 for binary files
+  encoding?: string;
   // MIME type of the file (e.g., text/plain, application/json) (optional)
   mime_type?: string;
   // Create parent directories if they do not exist (optional, default: false)
@@ -239,6 +241,7 @@ Usage:
 - Only use emojis if the user explicitly requests it. Avoid adding emojis to files unless asked.
 - The edit will FAIL if \`old_string\` is not unique in the file. Either provide a larger string with more surrounding context to make it unique or use \`replace_all\` to change every instance of \`old_string\`. 
 - Use \`replace_all\` for replacing and renaming strings across the file. This parameter is useful if you want to rename a variable for instance.
+- The edit fails with code ESTALE if you have not read the file yet, or if someone else changed it since you last read it. Read it again and redo the edit against the current content.
 
 \`\`\`typescript
 {
@@ -251,8 +254,39 @@ Usage:
 }
 \`\`\`
 
+# multi_edit
+Makes several edits to one file in a single atomic write. Edits apply in order, each to the result of the previous one. If any edit fails, none are applied and each failure is reported. Text that does not match exactly is matched line by line ignoring whitespace differences. Fails with code ESTALE if you have not read the file yet or it changed since you last read it.
+
+\`\`\`typescript
+{
+  // The absolute path to the file to modify
+  file_path: string;
+  // Replacements to apply, in order
+  edits: Array<{
+    // The text to replace (must appear only once unless replace_all is set)
+    old_string: string;
+    // The text to replace it with
+    new_string: string;
+    // Replace every occurrence of old_string (optional, default: false)
+    replace_all?: boolean;
+  }>;
+}
+\`\`\`
+
+# apply_patch
+Applies a unified diff (as produced by diff -u or git diff) that may modify, create, delete and rename several files. Use /dev/null as the old path to create a file and as the new path to delete one. Hunks are located by their context even if line numbers are off. The patch applies atomically: if any hunk fails, nothing is changed and each failed hunk is reported with the line that did not match.
+
+\`\`\`typescript
+{
+  // The unified diff to apply
+  patch: string;
+  // Directory that relative paths in the patch resolve against (optional, default: "/")
+  base_path?: string;
+}
+\`\`\`
+
 # ls
-Lists files and directories in a given path. Returns names and metadata.
+Lists files and directories in a given path. Set recursive to list everything below it, pattern to filter by glob, and sort_by/order to sort. Returns names and metadata.
 
 \`\`\`typescript
 {
@@ -260,6 +294,17 @@ Lists files and directories in a given path. Returns names and metadata.
   path: string;
   // Return detailed file information (optional, default: false)
   detailed?: boolean;
+  // List everything below the directory; names become paths relative to it (optional, default: false)
+  recursive?: boolean;
+  // Glob the entries must match, e.g. *.ts; without a slash it matches names at any depth (optional)
+  pattern?: string;
+  // Sort key (optional, default: directories first, then by name; by path when recursive)
+  sort_by?: "name" | "modified" | "size" | "created";
+  // Sort direction (optional, default: "asc")
+  order?: "asc" | "desc";
+  // Number of items to skip, and the most to return (optional, max 500)
+  offset?: number;
+  limit?: number;
 }
 \`\`\`
 
@@ -276,7 +321,7 @@ Creates a new directory at the specified path.
 \`\`\`
 
 # unlink
-Deletes a file or directory. Use recursive option for non-empty directories.
+Deletes a file or directory by moving it to the trash, from where restore_trash can bring it back. Use recursive option for non-empty directories.
 
 \`\`\`typescript
 {
@@ -287,6 +332,25 @@ Deletes a file or directory. Use recursive option for non-empty directories.
 }
 \`\`\`
 
+# list_trash
+Lists files and directories in the trash, most recently deleted first, with their original paths. Use restore_trash to bring one back.
+
+\`\`\`typescript
+{}
+\`\`\`
+
+# restore_trash
+Restores the most recently deleted file or directory from its original path, including its contents and version history. Pass dest_path to restore it somewhere else, e.g. when the original path is taken.
+
+\`\`\`typescript
+{
+  // The original path of the deleted item
+  path: string;
+  // Where to restore it (optional, default: the original path)
+  dest_path?: string;
+}
+\`\`\`
+
 # rename
 Moves or renames a file or directory from one path to another.
 
@@ -313,6 +377,66 @@ Copies a file or directory from one location to another.
 }
 \`\`\`
 
+# chmod
+Changes the permission mode of a file or directory (octal, e.g. 0644 or 755). Only the owner can change the mode.
+
+\`\`\`typescript
+{
+  // The absolute path to change
+  path: string;
+  // Octal permission bits for owner, group and others
+  mode: string;
+}
+\`\`\`
+
+# chown
+Changes the owner and optionally the group of a file or directory. Owners may move their files into one of their own groups.
+
+\`\`\`typescript
+{
+  // The absolute path to change
+  path: string;
+  // The new owning user
+  owner: string;
+  // The new owning group (optional)
+  group?: string;
+}
+\`\`\`
+
+# symlink
+Creates a symbolic link at link_path pointing to target. Reads, writes and listings through the link reach the target; unlink and rename act on the link itself. The target may be relative to the link's directory and need not exist yet.
+
+\`\`\`typescript
+{
+  // The path the link points to
+  target: string;
+  // The absolute path of the link to create
+  link_path: string;
+}
+\`\`\`
+
+# link
+Creates a hard link: new_path becomes another name for the file at existing_path. Both share one content, so writing either changes both, and deleting one leaves the other. Only files can be hard linked.
+
+\`\`\`typescript
+{
+  // The absolute path of the file
+  existing_path: string;
+  // The absolute path of the link to create
+  new_path: string;
+}
+\`\`\`
+
+# readlink
+Returns the target of a symbolic link as it was given, without following it.
+
+\`\`\`typescript
+{
+  // The absolute path of the symbolic link
+  path: string;
+}
+\`\`\`
+
 # stat
 Gets detailed information about a file or directory.
 
@@ -323,6 +447,16 @@ Gets detailed information about a file or directory.
 }
 \`\`\`
 
+# disk_usage
+Reports how many files and directories exist and how many bytes they use, with the quota limits that apply. Check this before large writes to see how much space is left.
+
+\`\`\`typescript
+{
+  // Only count files and directories owned by this user, against the per-owner quota (optional)
+  owner?: string;
+}
+\`\`\`
+
 # exists
 Checks whether a file or directory exists at the given path.
 
@@ -350,22 +484,61 @@ Checks whether a file or directory exists at the given path.
 }
 \`\`\`
 
+# find
+- Finds files and directories by metadata, tags, MIME type, size and modification time
+- Every filter given must match; results are sorted by path and include each file's tags and metadata
+- Use this tool when files are organized by tags or metadata rather than by name
+
+\`\`\`typescript
+{
+  // Directory to search below (optional, default: "/")
+  path?: string;
+  // Tags that must all be present (optional)
+  tags?: string[];
+  // Metadata keys that must have exactly these values (optional)
+  metadata?: Record<string, string | number | boolean>;
+  // Metadata keys that must be present, with any value (optional)
+  has_keys?: string[];
+  // MIME type, or a wildcard such as image/* (optional)
+  mime_type?: string;
+  // Size range in bytes (optional)
+  min_size?: number;
+  max_size?: number;
+  // Modification time range as ISO 8601 times (optional)
+  modified_after?: string;
+  modified_before?: string;
+  // Only files or only directories (optional, default: both)
+  type?: "file" | "directory";
+}
+\`\`\`
+
 # grep
 - Fast content search tool that works with any codebase size
 - Searches file contents using regular expressions
 - Supports full regex syntax (eg. "log.*Error", "function\s+\w+", etc.)
 - Filter files by pattern with the include parameter (eg. "*.js", "*.{ts,tsx}")
-- Returns file paths with at least one match sorted by modification time
+- Returns matching lines with line numbers; set output_mode to "files_with_matches" for paths only or "count" for match counts per file
 - Use this tool when you need to find files containing specific patterns
-- If you need to identify/count the number of matches within files, use the Bash tool with \`rg\` (ripgrep) directly. Do NOT use \`grep\`.
 - When you are doing an open ended search that may require multiple rounds of globbing and grepping, use the Agent tool instead
 
 \`\`\`typescript
 {
-  // Text to search for in file contents
-  query: string;
+  // Regular expression to search for in file contents, or a fulltext query
+  pattern: string;
+  // "regex" | "fulltext" (optional, default: "regex"); fulltext ranks files by relevance
+  search_mode?: string;
   // Base directory to search from (optional, default: "/")
   base_path?: string;
+  // Glob filter for files to search, e.g. "*.js" (optional)
+  include?: string;
+  // Match case exactly (optional, default: true)
+  case_sensitive?: boolean;
+  // "content" | "files_with_matches" | "count" (optional, default: "content")
+  output_mode?: string;
+  // Lines of context before/after/around each match (optional)
+  before_context?: number;
+  after_context?: number;
+  context?: number;
 }
 \`\`\``
 
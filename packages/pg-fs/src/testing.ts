@@ -0,0 +1,1299 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { DEFAULT_WORKSPACE, type DatabaseDriver } from "./drivers/types.js";
+import type {
+	AuditQuery,
+	ChangeRecord,
+	ChangeType,
+	NewAuditRecord,
+	ListQuery,
+	NewNodeRecord,
+	NodeQuery,
+} from "./schema/types.js";
+import { FileSystemUtils } from "./utils.js";
+import { parseSearchQuery } from "./search-query.js";
+
+export interface DriverConformanceOptions {
+	/** Label shown in the suite title */
+	name?: string;
+	/** Called after each test, e.g. to close connections */
+	destroyDriver?: (driver: DatabaseDriver) => Promise<void>;
+}
+
+/**
+ * Registers a vitest suite that checks a `DatabaseDriver` against the
+ * behaviour `DbFileSystem` relies on. `createDriver` must return a driver
+ * over empty storage; the suite calls `initialize()` itself.
+ *
+ * Search tests only use unstemmed, lowercase words so that backends with
+ * different tokenizers agree.
+ */
+export function runDriverConformance(
+	createDriver: () => DatabaseDriver | Promise<DatabaseDriver>,
+	options: DriverConformanceOptions = {},
+): void {
+	const title = options.name
+		? `DatabaseDriver conformance (${options.name})`
+		: "DatabaseDriver conformance";
+
+	describe(title, () => {
+		let driver: DatabaseDriver;
+		let rootId: string;
+
+		const addNode = async (
+			path: string,
+			fields: Partial<NewNodeRecord> = {},
+		): Promise<string> => {
+			const parentPath = FileSystemUtils.getParentPath(path);
+			const parent = parentPath
+				? await driver.findNodeByPath(parentPath)
+				: undefined;
+			const id = FileSystemUtils.generateId();
+
+			await driver.insertNode({
+				id,
+				path,
+				name: FileSystemUtils.getFileName(path),
+				treePath: FileSystemUtils.pathToTreePath(path),
+				parentId: parent?.id ?? null,
+				...fields,
+			});
+			return id;
+		};
+
+		const addFile = async (path: string, text: string): Promise<string> => {
+			const data = Buffer.from(text);
+			const contentHash = await driver.getOrCreateContent(data);
+			const id = await addNode(path, { contentHash, size: data.length });
+			await driver.updateSearchIndex(id, path, text);
+			return id;
+		};
+
+		beforeEach(async () => {
+			driver = await createDriver();
+			await driver.initialize();
+			const root = await driver.findNodeByPath("/");
+			rootId = root!.id;
+		});
+
+		afterEach(async () => {
+			await options.destroyDriver?.(driver);
+		});
+
+		describe("nodes", () => {
+			it("creates a root directory once", async () => {
+				await driver.initialize();
+
+				const root = await driver.findNodeByPath("/");
+				expect(root).toMatchObject({
+					path: "/",
+					isDirectory: true,
+					parentId: null,
+				});
+				expect(await driver.findChildNodes(rootId)).toEqual([]);
+			});
+
+			it("inserts nodes with column defaults", async () => {
+				await addNode("/file.txt");
+
+				const node = await driver.findNodeByPath("/file.txt");
+				expect(node).toMatchObject({
+					path: "/file.txt",
+					name: "file.txt",
+					parentId: rootId,
+					isDirectory: false,
+					size: 0,
+					mimeType: null,
+					contentHash: null,
+					mode: "0644",
+					owner: "default",
+					group: "default",
+					metadata: {},
+				});
+				expect(node!.createdAt).toBeInstanceOf(Date);
+				expect(node!.modifiedAt).toBeInstanceOf(Date);
+			});
+
+			it("stores symlink targets and finds hard links by link id", async () => {
+				await addNode("/current", { linkTarget: "runs/42" });
+				await addNode("/b.txt", { linkId: "inode" });
+				await addNode("/a.txt", { linkId: "inode" });
+				await addNode("/c.txt");
+
+				expect(await driver.findNodeByPath("/current")).toMatchObject({
+					linkTarget: "runs/42",
+					linkId: null,
+				});
+				expect(
+					(await driver.findNodesByLinkId("inode")).map((n) => n.path),
+				).toEqual(["/a.txt", "/b.txt"]);
+				expect((await driver.findNodeByPath("/c.txt"))?.linkTarget).toBeNull();
+			});
+
+			it("sets access times in batches", async () => {
+				const ids = [await addNode("/a.txt"), await addNode("/b.txt")];
+				const accessedAt = new Date("2024-01-02T03:04:05Z");
+
+				await driver.touchNodes(ids, accessedAt);
+				for (const path of ["/a.txt", "/b.txt"]) {
+					const node = await driver.findNodeByPath(path);
+					expect(node!.accessedAt.getTime()).toBe(accessedAt.getTime());
+				}
+			});
+
+			it("normalizes lookup paths", async () => {
+				await addNode("/dir", { isDirectory: true });
+
+				expect((await driver.findNodeByPath("/dir/"))?.path).toBe("/dir");
+				expect(await driver.findNodeByPath("/missing")).toBeUndefined();
+			});
+
+			it("rejects duplicate paths", async () => {
+				await addNode("/file.txt");
+				await expect(addNode("/file.txt")).rejects.toThrow();
+			});
+
+			it("round-trips metadata as JSON", async () => {
+				await addNode("/file.txt", {
+					metadata: { tags: ["a", "b"], nested: { n: 1 } },
+				});
+
+				const node = await driver.findNodeByPath("/file.txt");
+				expect(node!.metadata).toEqual({
+					tags: ["a", "b"],
+					nested: { n: 1 },
+				});
+			});
+
+			it("finds nodes by metadata, tags, type and size", async () => {
+				await addNode("/docs", { isDirectory: true });
+				await addNode("/docs/a.md", {
+					size: 10,
+					mimeType: "text/markdown",
+					metadata: { tags: ["draft", "team"], status: "open", n: 1 },
+				});
+				await addNode("/docs/b.png", {
+					size: 500,
+					mimeType: "image/png",
+					metadata: { tags: ["team"], reviewed: true },
+				});
+				await addNode("/c.md", {
+					size: 20,
+					mimeType: "text/markdown",
+					metadata: { status: "open", n: "1" },
+				});
+
+				const find = async (query: Partial<NodeQuery>) =>
+					(await driver.findNodes({ limit: 10, ...query })).map(
+						(n) => n.path,
+					);
+
+				expect(await find({ tags: ["team"] })).toEqual([
+					"/docs/a.md",
+					"/docs/b.png",
+				]);
+				expect(await find({ tags: ["team", "draft"] })).toEqual([
+					"/docs/a.md",
+				]);
+				expect(await find({ metadata: { status: "open" } })).toEqual([
+					"/c.md",
+					"/docs/a.md",
+				]);
+				expect(await find({ metadata: { n: 1 } })).toEqual(["/docs/a.md"]);
+				expect(await find({ metadata: { reviewed: true } })).toEqual([
+					"/docs/b.png",
+				]);
+				expect(await find({ keys: ["reviewed"] })).toEqual(["/docs/b.png"]);
+				expect(await find({ mimeType: "image/*" })).toEqual(["/docs/b.png"]);
+				expect(
+					await find({ mimeType: "text/markdown", path: "/docs" }),
+				).toEqual(["/docs/a.md"]);
+				expect(await find({ minSize: 15, maxSize: 500 })).toEqual([
+					"/c.md",
+					"/docs/b.png",
+				]);
+				expect(await find({ isDirectory: true, path: "/" })).toEqual([
+					"/",
+					"/docs",
+				]);
+				expect(
+					await find({ modifiedBefore: new Date(Date.now() - 60_000) }),
+				).toEqual([]);
+				expect(await find({ metadata: { status: "open" }, limit: 1 })).toEqual(
+					["/c.md"],
+				);
+			});
+
+			it("updates only the given fields", async () => {
+				const id = await addNode("/file.txt", { mimeType: "text/plain" });
+				await driver.updateNode(id, { path: "/renamed.txt", size: 12 });
+
+				expect(await driver.findNodeByPath("/file.txt")).toBeUndefined();
+				expect(await driver.findNodeByPath("/renamed.txt")).toMatchObject({
+					id,
+					size: 12,
+					mimeType: "text/plain",
+				});
+			});
+
+			it("ignores updates and deletes of missing nodes", async () => {
+				await driver.updateNode("missing", { size: 1 });
+				await driver.deleteNode("missing");
+			});
+
+			it("lists children with directories first, then by name", async () => {
+				await addNode("/b.txt");
+				await addNode("/a.txt");
+				await addNode("/z", { isDirectory: true });
+				await addNode("/z/nested.txt");
+
+				const children = await driver.findChildNodes(rootId);
+				expect(children.map((c) => c.name)).toEqual(["z", "a.txt", "b.txt"]);
+			});
+
+			it("lists pages sorted, recursively and by pattern", async () => {
+				await addNode("/b.txt", { size: 1 });
+				await addNode("/a.md", { size: 3 });
+				await addNode("/z", { isDirectory: true });
+				await addNode("/z/c.txt", { size: 2 });
+
+				const list = async (query: Partial<ListQuery>) => {
+					const { nodes, total } = await driver.listNodes({
+						parentId: rootId,
+						path: "/",
+						limit: 10,
+						offset: 0,
+						...query,
+					});
+					return { paths: nodes.map((n) => n.path), total };
+				};
+
+				expect(await list({})).toEqual({
+					paths: ["/z", "/a.md", "/b.txt"],
+					total: 3,
+				});
+				expect(await list({ sortBy: "size", order: "desc" })).toEqual({
+					paths: ["/a.md", "/b.txt", "/z"],
+					total: 3,
+				});
+				expect(await list({ order: "desc", limit: 1, offset: 1 })).toEqual({
+					paths: ["/b.txt"],
+					total: 3,
+				});
+				expect(await list({ recursive: true })).toEqual({
+					paths: ["/a.md", "/b.txt", "/z", "/z/c.txt"],
+					total: 4,
+				});
+				expect(
+					await list({
+						recursive: true,
+						pathRegex: FileSystemUtils.globToRegex("**/*.txt"),
+						sortBy: "size",
+					}),
+				).toEqual({ paths: ["/b.txt", "/z/c.txt"], total: 2 });
+			});
+
+			it("cascades deletes to descendants", async () => {
+				const dir = await addNode("/dir", { isDirectory: true });
+				await addNode("/dir/sub", { isDirectory: true });
+				await addNode("/dir/sub/file.txt");
+
+				await driver.deleteNode(dir);
+
+				expect(await driver.findNodeByPath("/dir/sub")).toBeUndefined();
+				expect(
+					await driver.findNodeByPath("/dir/sub/file.txt"),
+				).toBeUndefined();
+			});
+
+			it("finds descendants by literal, case-sensitive path prefix", async () => {
+				await addNode("/dir", { isDirectory: true });
+				await addNode("/dir/a.txt");
+				await addNode("/dir2", { isDirectory: true });
+				await addNode("/dir2/b.txt");
+				await addNode("/Dir", { isDirectory: true });
+				await addNode("/Dir/c.txt");
+				await addNode("/d_r", { isDirectory: true });
+				await addNode("/d_r/d.txt");
+
+				const dir = await driver.findDescendantsByPathPrefix("/dir");
+				expect(dir.map((n) => n.path)).toEqual(["/dir/a.txt"]);
+
+				const underscore = await driver.findDescendantsByPathPrefix("/d_r");
+				expect(underscore.map((n) => n.path)).toEqual(["/d_r/d.txt"]);
+			});
+		});
+
+		describe("glob", () => {
+			beforeEach(async () => {
+				await addNode("/src", { isDirectory: true });
+				await addNode("/src/a.ts");
+				await addNode("/src/b.js");
+				await addNode("/src/lib", { isDirectory: true });
+				await addNode("/src/lib/c.ts");
+				await addNode("/SRC", { isDirectory: true });
+				await addNode("/SRC/d.ts");
+			});
+
+			it("matches anchored regexes under a prefix", async () => {
+				const nodes = await driver.findNodesByGlob(
+					FileSystemUtils.globLiteralPrefix("**/*.ts", "/src"),
+					FileSystemUtils.globToRegex("**/*.ts", "/src"),
+					10,
+				);
+
+				expect(nodes.map((n) => n.path).sort()).toEqual([
+					"/src/a.ts",
+					"/src/lib/c.ts",
+				]);
+			});
+
+			it("does not cross directory boundaries with a single star", async () => {
+				const nodes = await driver.findNodesByGlob(
+					"/src/",
+					FileSystemUtils.globToRegex("*.ts", "/src"),
+					10,
+				);
+
+				expect(nodes.map((n) => n.path)).toEqual(["/src/a.ts"]);
+			});
+
+			it("orders newest first, then by path, and applies the limit", async () => {
+				const nodes = await driver.findNodesByGlob(
+					"/src/",
+					FileSystemUtils.globToRegex("**", "/src"),
+					2,
+				);
+
+				expect(nodes).toHaveLength(2);
+				const [first, second] = nodes;
+				expect(
+					first.modifiedAt.getTime() > second.modifiedAt.getTime() ||
+						first.path < second.path,
+				).toBe(true);
+			});
+		});
+
+		describe("content", () => {
+			it("deduplicates identical content by hash", async () => {
+				const data = Buffer.from("hello");
+				const first = await driver.getOrCreateContent(data);
+				const second = await driver.getOrCreateContent(Buffer.from("hello"));
+
+				expect(first).toBe(FileSystemUtils.hashContent(data));
+				expect(second).toBe(first);
+
+				await driver.decrementRefCount(first);
+				expect(await driver.garbageCollect()).toBe(0);
+				await driver.decrementRefCount(first);
+				expect(await driver.garbageCollect()).toBe(1);
+			});
+
+			it("stores binary content byte for byte", async () => {
+				const data = Buffer.from([0, 255, 10, 0, 128]);
+				const hash = await driver.getOrCreateContent(data);
+
+				expect((await driver.getContent(hash)).equals(data)).toBe(true);
+			});
+
+			it("throws for unknown content", async () => {
+				await expect(driver.getContent("missing")).rejects.toThrow(
+					"Content not found",
+				);
+			});
+
+			it("collects only unreferenced content", async () => {
+				const kept = await driver.getOrCreateContent(Buffer.from("kept"));
+				const dropped = await driver.getOrCreateContent(Buffer.from("gone"));
+				await driver.incrementRefCount(kept);
+				await driver.decrementRefCount(kept);
+				await driver.decrementRefCount(dropped);
+
+				expect(await driver.garbageCollect()).toBe(1);
+				expect(await driver.garbageCollect()).toBe(0);
+				expect((await driver.getContent(kept)).toString()).toBe("kept");
+				await expect(driver.getContent(dropped)).rejects.toThrow();
+			});
+
+			it("collects only content last accessed before a cutoff", async () => {
+				const idle = await driver.getOrCreateContent(Buffer.from("idle"));
+				const recent = await driver.getOrCreateContent(Buffer.from("recent"));
+				await driver.decrementRefCount(idle);
+				await driver.decrementRefCount(recent);
+				await driver.touchContent([idle], new Date("2024-01-01T00:00:00Z"));
+
+				const cutoff = new Date(Date.now() - 60_000);
+				expect(await driver.garbageCollect({ accessedBefore: cutoff })).toBe(1);
+				expect((await driver.getContent(recent)).toString()).toBe("recent");
+				expect(await driver.garbageCollect()).toBe(1);
+			});
+
+			it("returns unchunked content as a single chunk", async () => {
+				const hash = await driver.getOrCreateContent(Buffer.from("abc"));
+
+				expect(await driver.findContentChunks(hash, 0, 3)).toEqual([
+					{ hash, offset: 0, size: 3 },
+				]);
+				expect(await driver.findContentChunks("missing", 0, 3)).toEqual([]);
+			});
+		});
+
+		describe("chunked content", () => {
+			const parts = ["aaaa", "bbbb", "cc"];
+			const whole = Buffer.from(parts.join(""));
+
+			const storeChunked = async (): Promise<string> => {
+				const chunks = [];
+				for (const part of parts) {
+					chunks.push({
+						hash: await driver.getOrCreateContent(Buffer.from(part)),
+						size: part.length,
+					});
+				}
+				return await driver.getOrCreateChunkedContent(
+					FileSystemUtils.hashContent(whole),
+					whole.length,
+					chunks,
+				);
+			};
+
+			it("reassembles chunks in order", async () => {
+				const hash = await storeChunked();
+				expect((await driver.getContent(hash)).equals(whole)).toBe(true);
+			});
+
+			it("returns only chunks overlapping a byte range", async () => {
+				const hash = await storeChunked();
+
+				const chunks = await driver.findContentChunks(hash, 3, 8);
+				expect(chunks.map((c) => [c.offset, c.size])).toEqual([
+					[0, 4],
+					[4, 4],
+				]);
+				expect(chunks[1].hash).toBe(FileSystemUtils.hashContent("bbbb"));
+			});
+
+			it("reuses an existing manifest and releases the new chunk refs", async () => {
+				const hash = await storeChunked();
+				expect(await storeChunked()).toBe(hash);
+
+				await driver.decrementRefCount(hash);
+				expect(await driver.garbageCollect()).toBe(0);
+				await driver.decrementRefCount(hash);
+				expect(await driver.garbageCollect()).toBe(parts.length + 1);
+			});
+
+			it("collects chunks once their manifest is released", async () => {
+				const hash = await storeChunked();
+				await driver.decrementRefCount(hash);
+
+				expect(await driver.garbageCollect()).toBe(parts.length + 1);
+			});
+
+			it("counts chunk bytes once in usage", async () => {
+				await storeChunked();
+				expect((await driver.getUsage()).storedBytes).toBe(whole.length);
+			});
+
+			it("lists every block with its ref count and chunks", async () => {
+				const hash = await storeChunked();
+				await driver.incrementRefCount(hash);
+
+				const refs = await driver.findContentRefs();
+				expect(refs).toHaveLength(parts.length + 1);
+				expect(refs.find((ref) => ref.hash === hash)).toEqual({
+					hash,
+					refCount: 2,
+					chunks: parts.map((part) => FileSystemUtils.hashContent(part)),
+				});
+				expect(
+					refs.find((ref) => ref.hash === FileSystemUtils.hashContent("cc")),
+				).toMatchObject({ refCount: 1, chunks: [] });
+			});
+
+			it("collects content whose ref count was set to zero", async () => {
+				const hash = await storeChunked();
+				await driver.setRefCount(hash, 0);
+
+				expect(await driver.garbageCollect()).toBe(parts.length + 1);
+				expect(await driver.findContentRefs()).toEqual([]);
+			});
+		});
+
+		describe("usage", () => {
+			it("reports zero for an empty workspace", async () => {
+				expect(await driver.getUsage()).toEqual({
+					files: 0,
+					directories: 0,
+					bytes: 0,
+					storedBytes: 0,
+				});
+			});
+
+			it("totals nodes and deduplicated content", async () => {
+				await addNode("/dir", { isDirectory: true });
+				await addFile("/dir/a.txt", "same");
+				await addFile("/dir/b.txt", "same");
+				await addNode("/mine.txt", { size: 10, owner: "alice" });
+
+				expect(await driver.getUsage()).toEqual({
+					files: 3,
+					directories: 1,
+					bytes: 18,
+					storedBytes: 4,
+				});
+				expect(await driver.getUsage("alice")).toMatchObject({
+					files: 1,
+					directories: 0,
+					bytes: 10,
+				});
+			});
+		});
+
+		describe("audit log", () => {
+			const entry = (path: string, fields: Partial<NewAuditRecord> = {}) => ({
+				operation: "write" as const,
+				path,
+				oldPath: null,
+				oldHash: null,
+				newHash: null,
+				actor: null,
+				toolCallId: null,
+				...fields,
+			});
+
+			it("returns entries newest first, filtered by path, actor and call", async () => {
+				await driver.insertAuditEntry(entry("/docs/a.md", { actor: "alice" }));
+				await driver.insertAuditEntry(
+					entry("/notes/b.md", {
+						operation: "rename",
+						oldPath: "/docs/b.md",
+						actor: "bob",
+						toolCallId: "call-1",
+					}),
+				);
+				await driver.insertAuditEntry(entry("/docsx/c.md", { actor: "alice" }));
+
+				const all = await driver.findAuditEntries({ limit: 10 });
+				expect(all.map((e) => e.path)).toEqual([
+					"/docsx/c.md",
+					"/notes/b.md",
+					"/docs/a.md",
+				]);
+				expect(all[0].id).toBeGreaterThan(all[1].id);
+				expect(all[0].timestamp).toBeInstanceOf(Date);
+				expect(all[0].workspace).toBe(driver.workspace);
+
+				const paths = async (query: Partial<AuditQuery>) =>
+					(await driver.findAuditEntries({ limit: 10, ...query })).map(
+						(e) => e.path,
+					);
+				expect(await paths({ path: "/docs" })).toEqual([
+					"/notes/b.md",
+					"/docs/a.md",
+				]);
+				expect(await paths({ path: "/" })).toHaveLength(3);
+				expect(await paths({ actor: "alice" })).toEqual([
+					"/docsx/c.md",
+					"/docs/a.md",
+				]);
+				expect(await paths({ toolCallId: "call-1" })).toEqual(["/notes/b.md"]);
+				expect(await paths({ limit: 1 })).toEqual(["/docsx/c.md"]);
+				expect(
+					await paths({ since: new Date(Date.now() + 60_000) }),
+				).toEqual([]);
+			});
+
+			it("scopes entries to the workspace and drops them on rollback", async () => {
+				const other = driver.withWorkspace("other");
+				await other.insertAuditEntry(entry("/theirs.txt"));
+
+				await expect(
+					driver.transaction(async (tx) => {
+						await tx.insertAuditEntry(entry("/lost.txt"));
+						throw new Error("boom");
+					}),
+				).rejects.toThrow("boom");
+				await driver.insertAuditEntry(entry("/kept.txt"));
+
+				const entries = await driver.findAuditEntries({ limit: 10 });
+				expect(entries.map((e) => e.path)).toEqual(["/kept.txt"]);
+			});
+		});
+
+		describe("trash", () => {
+			const trashFile = async (id: string, path: string) => {
+				const nodeId = await addFile(path, `content of ${path}`);
+				const node = (await driver.findNodeByPath(path))!;
+				await driver.insertVersion({
+					id: `${id}-v1`,
+					nodeId,
+					version: 1,
+					contentHash: node.contentHash!,
+					size: node.size,
+					createdBy: "tester",
+				});
+				const versions = await driver.findVersions(nodeId);
+
+				await driver.insertTrashEntry({
+					id,
+					path,
+					isDirectory: false,
+					nodeCount: 1,
+					size: node.size,
+					deletedBy: "tester",
+					tree: { nodes: [node], versions },
+				});
+				await driver.deleteNode(nodeId);
+				return { node, versions };
+			};
+
+			it("lists entries newest first without their trees", async () => {
+				await trashFile("first", "/a.txt");
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				await trashFile("second", "/b.txt");
+
+				const entries = await driver.findTrashEntries();
+				expect(entries.map((e) => e.id)).toEqual(["second", "first"]);
+				expect(entries[0]).toMatchObject({
+					path: "/b.txt",
+					isDirectory: false,
+					nodeCount: 1,
+					deletedBy: "tester",
+					workspace: driver.workspace,
+				});
+				expect(entries[0].deletedAt).toBeInstanceOf(Date);
+				expect(entries[0]).not.toHaveProperty("tree");
+			});
+
+			it("returns trees with their dates intact", async () => {
+				const { node, versions } = await trashFile("entry", "/a.txt");
+
+				const tree = await driver.findTrashedTree("entry");
+				expect(tree?.nodes).toEqual([node]);
+				expect(tree?.nodes[0].createdAt).toBeInstanceOf(Date);
+				expect(tree?.versions).toEqual(versions);
+				expect(await driver.findTrashedTree("missing")).toBeUndefined();
+			});
+
+			it("deletes entries, scoped to the workspace", async () => {
+				await trashFile("entry", "/a.txt");
+				const other = driver.withWorkspace("other");
+
+				expect(await other.findTrashEntries()).toEqual([]);
+				expect(await other.findTrashedTree("entry")).toBeUndefined();
+				await other.deleteTrashEntry("entry");
+				expect(await driver.findTrashEntries()).toHaveLength(1);
+
+				await driver.deleteTrashEntry("entry");
+				expect(await driver.findTrashEntries()).toEqual([]);
+			});
+
+			it("keeps the creation time of reinserted versions", async () => {
+				const nodeId = await addFile("/a.txt", "a");
+				const createdAt = new Date("2024-01-02T03:04:05.000Z");
+				await driver.insertVersion({
+					id: "old",
+					nodeId,
+					version: 1,
+					contentHash: FileSystemUtils.hashContent("a"),
+					size: 1,
+					createdBy: "tester",
+					createdAt,
+				});
+
+				expect((await driver.findVersion(nodeId, 1))?.createdAt).toEqual(
+					createdAt,
+				);
+			});
+		});
+
+		describe("snapshots", () => {
+			const manifest = [
+				{
+					path: "/a.txt",
+					isDirectory: false,
+					contentHash: FileSystemUtils.hashContent("a"),
+					size: 1,
+					mimeType: "text/plain",
+					mode: "0644",
+					owner: "tester",
+					group: "default",
+					metadata: { tag: "x" },
+				},
+			];
+			const addSnapshot = (id: string, label: string) =>
+				driver.insertSnapshot({
+					id,
+					label,
+					path: "/",
+					nodeCount: 1,
+					size: 1,
+					createdBy: "tester",
+					manifest,
+				});
+
+			it("lists snapshots newest first without their manifests", async () => {
+				await addSnapshot("first", "before");
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				await addSnapshot("second", "after");
+
+				const snapshots = await driver.findSnapshots();
+				expect(snapshots.map((s) => s.label)).toEqual(["after", "before"]);
+				expect(snapshots[0]).toMatchObject({
+					id: "second",
+					path: "/",
+					nodeCount: 1,
+					size: 1,
+					createdBy: "tester",
+					workspace: driver.workspace,
+				});
+				expect(snapshots[0].createdAt).toBeInstanceOf(Date);
+				expect(snapshots[0]).not.toHaveProperty("manifest");
+				expect(await driver.findSnapshotManifest("first")).toEqual(manifest);
+			});
+
+			it("rejects duplicate labels within a workspace", async () => {
+				await addSnapshot("first", "label");
+				await expect(addSnapshot("second", "label")).rejects.toThrow();
+
+				await driver.withWorkspace("other").insertSnapshot({
+					id: "third",
+					label: "label",
+					path: "/",
+					nodeCount: 0,
+					size: 0,
+					createdBy: null,
+					manifest: [],
+				});
+			});
+
+			it("deletes snapshots, scoped to the workspace", async () => {
+				await addSnapshot("entry", "label");
+				const other = driver.withWorkspace("other");
+
+				expect(await other.findSnapshots()).toEqual([]);
+				expect(await other.findSnapshotManifest("entry")).toBeUndefined();
+				await other.deleteSnapshot("entry");
+				expect(await driver.findSnapshots()).toHaveLength(1);
+
+				await driver.deleteSnapshot("entry");
+				expect(await driver.findSnapshots()).toEqual([]);
+			});
+		});
+
+		describe("versions", () => {
+			it("lists versions newest first and finds them by number", async () => {
+				const nodeId = await addFile("/file.txt", "v1");
+				const hash = FileSystemUtils.hashContent("v1");
+
+				for (const version of [1, 2, 3]) {
+					await driver.insertVersion({
+						id: FileSystemUtils.generateId(),
+						nodeId,
+						version,
+						contentHash: hash,
+						size: 2,
+						createdBy: "tester",
+						comment: version === 2 ? "second" : undefined,
+					});
+				}
+
+				const versions = await driver.findVersions(nodeId);
+				expect(versions.map((v) => v.version)).toEqual([3, 2, 1]);
+				expect((await driver.findVersion(nodeId, 2))?.comment).toBe("second");
+				expect((await driver.findVersion(nodeId, 1))?.comment).toBeNull();
+				expect(await driver.findVersion(nodeId, 9)).toBeUndefined();
+				expect((await driver.findLatestVersion(nodeId))?.version).toBe(3);
+			});
+
+			it("rejects duplicate version numbers", async () => {
+				const nodeId = await addFile("/file.txt", "v1");
+				const version = {
+					nodeId,
+					version: 1,
+					contentHash: FileSystemUtils.hashContent("v1"),
+					size: 2,
+					createdBy: "tester",
+				};
+
+				await driver.insertVersion({ id: "a", ...version });
+				await expect(
+					driver.insertVersion({ id: "b", ...version }),
+				).rejects.toThrow();
+			});
+
+			it("deletes versions with their node", async () => {
+				const nodeId = await addFile("/file.txt", "v1");
+				await driver.insertVersion({
+					id: FileSystemUtils.generateId(),
+					nodeId,
+					version: 1,
+					contentHash: FileSystemUtils.hashContent("v1"),
+					size: 2,
+					createdBy: "tester",
+				});
+
+				await driver.deleteNode(nodeId);
+				expect(await driver.findVersions(nodeId)).toEqual([]);
+			});
+		});
+
+		describe("search index", () => {
+			it("replaces indexed text on update", async () => {
+				const id = await addFile("/notes.txt", "first draft");
+				await driver.updateSearchIndex(id, "/notes.txt", "second draft");
+
+				const indexed = await driver.findIndexedContent("/", null, 0, 10);
+				expect(indexed).toEqual([
+					{ nodeId: id, path: "/notes.txt", content: "second draft" },
+				]);
+			});
+
+			it("pages indexed content by path under a prefix", async () => {
+				await addNode("/docs", { isDirectory: true });
+				for (const name of ["c", "a", "b"]) {
+					await addFile(`/docs/${name}.md`, name);
+				}
+				await addFile("/other.md", "other");
+
+				const page = await driver.findIndexedContent("/docs/", null, 1, 2);
+				expect(page.map((r) => r.path)).toEqual(["/docs/b.md", "/docs/c.md"]);
+
+				const filtered = await driver.findIndexedContent(
+					"/",
+					FileSystemUtils.globToRegex("**/a.md"),
+					0,
+					10,
+				);
+				expect(filtered.map((r) => r.path)).toEqual(["/docs/a.md"]);
+			});
+
+			it("drops index entries with their node", async () => {
+				const id = await addFile("/notes.txt", "text");
+				await driver.deleteNode(id);
+
+				expect(await driver.findIndexedContent("/", null, 0, 10)).toEqual([]);
+			});
+		});
+
+		describe("full-text search", () => {
+			const search = (query: string, basePath = "/", limit = 10) =>
+				driver.searchContent(parseSearchQuery(query), basePath, limit);
+
+			beforeEach(async () => {
+				await addNode("/docs", { isDirectory: true });
+				await addFile(
+					"/docs/gc.md",
+					"the garbage collector frees blocks when garbage piles up",
+				);
+				await addFile(
+					"/docs/cache.md",
+					"the cache keeps blocks warm and garbage out of the way",
+				);
+				await addFile("/todo.md", "remember the garbage truck on monday");
+			});
+
+			it("finds documents containing every term", async () => {
+				const results = await search("garbage blocks");
+				expect(results.map((r) => r.path).sort()).toEqual([
+					"/docs/cache.md",
+					"/docs/gc.md",
+				]);
+			});
+
+			it("matches case-insensitively", async () => {
+				const results = await search("MONDAY");
+				expect(results.map((r) => r.path)).toEqual(["/todo.md"]);
+			});
+
+			it("supports phrases, prefixes, OR and exclusions", async () => {
+				expect((await search('"garbage truck"')).map((r) => r.path)).toEqual([
+					"/todo.md",
+				]);
+				expect((await search("collect*")).map((r) => r.path)).toEqual([
+					"/docs/gc.md",
+				]);
+				expect(
+					(await search("monday OR warm")).map((r) => r.path).sort(),
+				).toEqual(["/docs/cache.md", "/todo.md"]);
+				expect(
+					(await search("garbage -blocks")).map((r) => r.path),
+				).toEqual(["/todo.md"]);
+			});
+
+			it("ranks more relevant documents first", async () => {
+				const results = await search("garbage");
+				expect(results[0].path).toBe("/docs/gc.md");
+				for (let i = 1; i < results.length; i++) {
+					expect(results[i - 1].score).toBeGreaterThanOrEqual(results[i].score);
+				}
+			});
+
+			it("marks hits in snippets", async () => {
+				const [result] = await search("monday");
+				expect(result.snippet).toContain("**monday**");
+			});
+
+			it("respects the base path and limit", async () => {
+				const scoped = await search("garbage", "/docs");
+				expect(scoped.every((r) => r.path.startsWith("/docs/"))).toBe(true);
+				expect(scoped).toHaveLength(2);
+
+				expect(await search("garbage", "/", 1)).toHaveLength(1);
+			});
+
+			it("does not match siblings sharing the base path's prefix", async () => {
+				await addNode("/docs2", { isDirectory: true });
+				await addFile("/docs2/gc.md", "garbage in a sibling directory");
+
+				const scoped = await search("garbage", "/docs");
+				expect(scoped.map((r) => r.path).sort()).toEqual([
+					"/docs/cache.md",
+					"/docs/gc.md",
+				]);
+				expect(
+					(await search("garbage", "/docs/gc.md")).map((r) => r.path),
+				).toEqual(["/docs/gc.md"]);
+			});
+		});
+
+		describe("workspaces", () => {
+			let other: DatabaseDriver;
+
+			beforeEach(async () => {
+				other = driver.withWorkspace("other");
+				await other.initialize();
+			});
+
+			it("scopes drivers to the default workspace unless told otherwise", () => {
+				expect(driver.workspace).toBe(DEFAULT_WORKSPACE);
+				expect(other.workspace).toBe("other");
+			});
+
+			it("gives each workspace its own root and paths", async () => {
+				await addNode("/shared.txt");
+				const otherRoot = await other.findNodeByPath("/");
+
+				expect(otherRoot!.id).not.toBe(rootId);
+				expect(otherRoot!.workspace).toBe("other");
+				expect(await other.findNodeByPath("/shared.txt")).toBeUndefined();
+				expect(await other.findChildNodes(rootId)).toEqual([]);
+
+				await other.insertNode({
+					id: "other-shared",
+					path: "/shared.txt",
+					name: "shared.txt",
+					treePath: "shared_txt",
+					parentId: otherRoot!.id,
+				});
+				expect((await other.findNodeByPath("/shared.txt"))?.id).toBe(
+					"other-shared",
+				);
+			});
+
+			it("ignores updates and deletes of another workspace's nodes", async () => {
+				const id = await addNode("/file.txt");
+
+				await other.updateNode(id, { size: 99 });
+				await other.deleteNode(id);
+
+				expect(await driver.findNodeByPath("/file.txt")).toMatchObject({
+					size: 0,
+				});
+			});
+
+			it("hides other workspaces from glob, indexed content and search", async () => {
+				await addFile("/notes.md", "private tenant notes");
+
+				const pathRegex = FileSystemUtils.globToRegex("**/*.md");
+				expect(await other.findNodesByGlob("/", pathRegex, 10)).toEqual([]);
+				expect(await other.findIndexedContent("/", null, 0, 10)).toEqual([]);
+				expect(
+					await other.searchContent(parseSearchQuery("tenant"), "/", 10),
+				).toEqual([]);
+			});
+
+			it("deduplicates and counts content per workspace", async () => {
+				const data = Buffer.from("same bytes");
+				const hash = await driver.getOrCreateContent(data);
+				expect(await other.getOrCreateContent(data)).toBe(hash);
+
+				await other.decrementRefCount(hash);
+				expect(await driver.garbageCollect()).toBe(0);
+				expect(await other.garbageCollect()).toBe(1);
+
+				expect((await driver.getContent(hash)).equals(data)).toBe(true);
+				await expect(other.getContent(hash)).rejects.toThrow(
+					"Content not found",
+				);
+			});
+
+			it("keeps the workspace inside transactions", async () => {
+				await other.transaction(async (tx) => {
+					expect(tx.workspace).toBe("other");
+					const root = await tx.findNodeByPath("/");
+					await tx.insertNode({
+						id: "in-tx",
+						path: "/in-tx.txt",
+						name: "in-tx.txt",
+						treePath: "in_tx_txt",
+						parentId: root!.id,
+					});
+				});
+
+				expect(await other.findNodeByPath("/in-tx.txt")).toBeDefined();
+				expect(await driver.findNodeByPath("/in-tx.txt")).toBeUndefined();
+			});
+		});
+
+		describe("changes", () => {
+			const change = async (
+				type: ChangeType,
+				path: string,
+			): Promise<ChangeRecord> => {
+				const { metadata: _metadata, ...node } =
+					(await driver.findNodeByPath("/"))!;
+				return {
+					type,
+					workspace: driver.workspace,
+					path,
+					node,
+					timestamp: new Date(),
+				};
+			};
+
+			// Delivery is asynchronous, and a network round trip on some backends
+			const waitFor = async (check: () => boolean) => {
+				for (let i = 0; i < 200 && !check(); i++) {
+					await new Promise((resolve) => setTimeout(resolve, 10));
+				}
+			};
+
+			it("delivers published changes to subscribers", async () => {
+				const received: ChangeRecord[] = [];
+				const unsubscribe = await driver.subscribeChanges((c) =>
+					received.push(c),
+				);
+
+				await driver.publishChange(await change("create", "/a.txt"));
+				await waitFor(() => received.length === 1);
+				await unsubscribe();
+
+				expect(received).toHaveLength(1);
+				expect(received[0]).toMatchObject({
+					type: "create",
+					path: "/a.txt",
+					workspace: driver.workspace,
+					node: { path: "/", isDirectory: true },
+				});
+				expect(received[0].timestamp).toBeInstanceOf(Date);
+				expect(received[0].node.createdAt).toBeInstanceOf(Date);
+			});
+
+			it("delivers changes only once their transaction commits", async () => {
+				const received: string[] = [];
+				const unsubscribe = await driver.subscribeChanges((c) =>
+					received.push(c.path),
+				);
+
+				await expect(
+					driver.transaction(async (tx) => {
+						await tx.publishChange(await change("create", "/lost.txt"));
+						throw new Error("boom");
+					}),
+				).rejects.toThrow("boom");
+
+				await driver.transaction(async (tx) => {
+					await tx.publishChange(await change("create", "/kept.txt"));
+					await expect(
+						tx.transaction(async (inner) => {
+							await inner.publishChange(await change("create", "/inner.txt"));
+							throw new Error("inner");
+						}),
+					).rejects.toThrow("inner");
+					await new Promise((resolve) => setTimeout(resolve, 20));
+					expect(received).toEqual([]);
+				});
+
+				await waitFor(() => received.length === 1);
+				await unsubscribe();
+				expect(received).toEqual(["/kept.txt"]);
+			});
+
+			it("only delivers changes of the subscriber's workspace", async () => {
+				const other = driver.withWorkspace("other");
+				await other.initialize();
+
+				const received: string[] = [];
+				const unsubscribe = await other.subscribeChanges((c) =>
+					received.push(c.path),
+				);
+
+				await driver.publishChange(await change("create", "/mine.txt"));
+				await other.publishChange({
+					...(await change("create", "/theirs.txt")),
+					workspace: "other",
+				});
+				await waitFor(() => received.length === 1);
+				await unsubscribe();
+
+				await other.publishChange({
+					...(await change("create", "/late.txt")),
+					workspace: "other",
+				});
+				await new Promise((resolve) => setTimeout(resolve, 20));
+				expect(received).toEqual(["/theirs.txt"]);
+			});
+		});
+
+		describe("transactions", () => {
+			it("commits when the callback resolves", async () => {
+				const result = await driver.transaction(async (tx) => {
+					await tx.insertNode({
+						id: "committed",
+						path: "/committed.txt",
+						name: "committed.txt",
+						treePath: "committed_txt",
+						parentId: rootId,
+					});
+					return "done";
+				});
+
+				expect(result).toBe("done");
+				expect(await driver.findNodeByPath("/committed.txt")).toBeDefined();
+			});
+
+			it("rolls back every change when the callback throws", async () => {
+				const hash = await driver.getOrCreateContent(Buffer.from("shared"));
+
+				await expect(
+					driver.transaction(async (tx) => {
+						await tx.insertNode({
+							id: "rolled-back",
+							path: "/rolled-back.txt",
+							name: "rolled-back.txt",
+							treePath: "rolled_back_txt",
+							parentId: rootId,
+						});
+						await tx.incrementRefCount(hash);
+						await tx.getOrCreateContent(Buffer.from("new"));
+						throw new Error("boom");
+					}),
+				).rejects.toThrow("boom");
+
+				expect(await driver.findNodeByPath("/rolled-back.txt")).toBeUndefined();
+				await expect(
+					driver.getContent(FileSystemUtils.hashContent("new")),
+				).rejects.toThrow();
+
+				await driver.decrementRefCount(hash);
+				expect(await driver.garbageCollect()).toBe(1);
+			});
+
+			it("rolls back a failed nested transaction only", async () => {
+				await driver.transaction(async (tx) => {
+					await tx.insertNode({
+						id: "outer",
+						path: "/outer.txt",
+						name: "outer.txt",
+						treePath: "outer_txt",
+						parentId: rootId,
+					});
+					await expect(
+						tx.transaction(async (inner) => {
+							await inner.insertNode({
+								id: "inner",
+								path: "/inner.txt",
+								name: "inner.txt",
+								treePath: "inner_txt",
+								parentId: rootId,
+							});
+							throw new Error("inner");
+						}),
+					).rejects.toThrow("inner");
+				});
+
+				expect(await driver.findNodeByPath("/outer.txt")).toBeDefined();
+				expect(await driver.findNodeByPath("/inner.txt")).toBeUndefined();
+			});
+
+			it("keeps writes made outside a transaction that rolls back", async () => {
+				const hash = await driver.getOrCreateContent(Buffer.from("shared"));
+				let opened!: () => void;
+				const open = new Promise<void>((resolve) => {
+					opened = resolve;
+				});
+
+				const aborted = driver.transaction(async (tx) => {
+					await tx.incrementRefCount(hash);
+					opened();
+					await new Promise((resolve) => setTimeout(resolve, 10));
+					throw new Error("abort");
+				});
+				await open;
+				const outside = Promise.all([
+					addNode("/outside.txt"),
+					driver.incrementRefCount(hash),
+				]);
+
+				await expect(aborted).rejects.toThrow("abort");
+				await outside;
+				expect(await driver.findNodeByPath("/outside.txt")).toBeDefined();
+				const refs = await driver.findContentRefs();
+				expect(refs.find((ref) => ref.hash === hash)?.refCount).toBe(2);
+			});
+
+			it("joins transactions started through the outer driver inside one", async () => {
+				const outside = (id: string) =>
+					driver.transaction(async (inner) => {
+						await inner.insertNode({
+							id,
+							path: `/${id}.txt`,
+							name: `${id}.txt`,
+							treePath: `${id}_txt`,
+							parentId: rootId,
+						});
+					});
+
+				await expect(
+					driver.transaction(async (tx) => {
+						await outside("aborted");
+						expect(await tx.findNodeByPath("/aborted.txt")).toBeDefined();
+						throw new Error("abort");
+					}),
+				).rejects.toThrow("abort");
+				await driver.transaction(async () => {
+					await outside("joined");
+				});
+
+				expect(await driver.findNodeByPath("/aborted.txt")).toBeUndefined();
+				expect(await driver.findNodeByPath("/joined.txt")).toBeDefined();
+			});
+
+			it("runs concurrent transactions without interleaving", async () => {
+				await Promise.all(
+					Array.from({ length: 5 }, (_, i) =>
+						driver.transaction(async (tx) => {
+							await tx.insertNode({
+								id: `node-${i}`,
+								path: `/file-${i}.txt`,
+								name: `file-${i}.txt`,
+								treePath: `file_${i}_txt`,
+								parentId: rootId,
+							});
+							if (i === 2) throw new Error("skip");
+						}).catch(() => undefined),
+					),
+				);
+
+				const children = await driver.findChildNodes(rootId);
+				expect(children.map((c) => c.name)).toEqual([
+					"file-0.txt",
+					"file-1.txt",
+					"file-3.txt",
+					"file-4.txt",
+				]);
+			});
+		});
+	});
+}
@@ -1,15 +1,197 @@
 import { tool } from "ai";
 import { z } from "zod";
-import type { DbFileSystem } from "./db-fs.js";
+import type { DbFileSystem, FileStats, ListOptions } from "./db-fs.js";
+import { parsePatch, resolvePatchPaths } from "./patch.js";
+import { PermissionDeniedError } from "./permissions.js";
+import { QuotaExceededError } from "./quota.js";
+import { ConflictError } from "./revision.js";
+import { resolveLinkTarget, SymlinkLoopError } from "./links.js";
+import { FileSystemUtils } from "./utils.js";
+
+export type FileSystemTools = ReturnType<typeof buildTools>;
+export type FileSystemToolName = keyof FileSystemTools;
+
+export interface FileSystemToolsOptions {
+	/** Leave out every tool that modifies the filesystem */
+	readOnly?: boolean;
+	/** Only include these tools */
+	tools?: FileSystemToolName[];
+	/** Globs of paths the tools may touch (default: everything) */
+	allow?: string[];
+	/** Globs of paths the tools may never touch, even when allowed */
+	deny?: string[];
+	/** Recorded as the actor of every change in the audit log */
+	actor?: string;
+}
+
+const MUTATING_TOOLS: FileSystemToolName[] = [
+	"write",
+	"edit",
+	"multi_edit",
+	"apply_patch",
+	"mkdir",
+	"unlink",
+	"rename",
+	"copy",
+	"chmod",
+	"chown",
+	"symlink",
+	"link",
+	"restore",
+	"restore_trash",
+];
+
+/**
+ * Creates the AI SDK tools for `fs`. Options narrow the tool set and the
+ * paths it can reach; paths outside the policy come back as failed tool
+ * results with `code: "EPERM"`, and are left out of listings and search
+ * results. A `dir/**` glob also covers `dir` itself.
+ */
+export function createFileSystemTools(fs: DbFileSystem): FileSystemTools;
+export function createFileSystemTools(
+	fs: DbFileSystem,
+	options: FileSystemToolsOptions,
+): Partial<FileSystemTools>;
+export function createFileSystemTools(
+	fs: DbFileSystem,
+	options: FileSystemToolsOptions = {},
+): Partial<FileSystemTools> {
+	const tools = buildTools(
+		fs,
+		new PathPolicy(options.allow, options.deny),
+		options.actor,
+	);
+
+	return Object.fromEntries(
+		Object.entries(tools).filter(([name]) => {
+			const toolName = name as FileSystemToolName;
+			if (options.tools && !options.tools.includes(toolName)) return false;
+			return !(options.readOnly && MUTATING_TOOLS.includes(toolName));
+		}),
+	) as Partial<FileSystemTools>;
+}
+
+function buildTools(fs: DbFileSystem, policy: PathPolicy, actor?: string) {
+	// Changes are recorded in the audit log with the tool call that made them
+	const audited = (toolCallId: string) =>
+		fs.withAuditContext({ actor, toolCallId });
+
+	// Revision of each file as of this tool set's last read or write, so
+	// edits can tell when someone else changed the file in between
+	const revisions = new Map<string, string>();
+	const remember = async (path: string) => {
+		const { revision } = await fs.stat(path);
+		revisions.set(FileSystemUtils.normalizePath(path), revision!);
+		return revision;
+	};
+	// Without a revision there is nothing to compare against, so edits
+	// require a prior read or write instead of overwriting blindly
+	const unread = (path: string) => ({
+		success: false as const,
+		code: "ESTALE",
+		error: `File has not been read: ${path}. Read it before editing it.`,
+	});
+
+	// Lists a directory page by page. Under a restrictive policy pages count
+	// allowed entries, and the listing is only scanned as far as the page
+	const listAllowed = async (
+		path: string,
+		options: ListOptions,
+	): Promise<{
+		items: FileStats[];
+		hasMore: boolean;
+		offset: number;
+		limit: number;
+	}> => {
+		if (policy.isOpen) {
+			return await fs.readdirStats(path, options);
+		}
+
+		const offset = options.offset || 0;
+		const allowed: FileStats[] = [];
+		let limit = 0;
+		for (let scanned = 0; ; ) {
+			const page = await fs.readdirStats(path, {
+				...options,
+				offset: scanned,
+				limit: undefined,
+			});
+			limit = Math.min(options.limit || page.limit, page.limit);
+			allowed.push(...page.items.filter((s) => policy.allows(s.path)));
+			scanned += page.items.length;
+			// One allowed entry past the page tells that more follow
+			if (!page.hasMore || allowed.length > offset + limit) break;
+		}
+
+		return {
+			items: allowed.slice(offset, offset + limit),
+			hasMore: allowed.length > offset + limit,
+			offset,
+			limit,
+		};
+	};
+
+	// Paths are checked as given and with symbolic links resolved, so a link
+	// cannot lead out of the policy
+	const check = async (
+		operation: string,
+		path: string,
+		view: DbFileSystem = fs,
+	) => {
+		if (!policy.allows(path)) {
+			throw new ToolPolicyError(operation, path);
+		}
+		if (!policy.isOpen && !policy.allows(await view.realpath(path))) {
+			throw new ToolPolicyError(operation, path);
+		}
+	};
+
+	// Recursive operations must not reach into denied paths below `sourcePath`,
+	// nor create them below `destPath`. Pass the transaction making the change
+	// as `view`, so the tree cannot change between the check and the change.
+	const checkTree = async (
+		operation: string,
+		sourcePath: string,
+		destPath: string | undefined,
+		view: DbFileSystem,
+	) => {
+		await check(operation, sourcePath, view);
+		if (destPath !== undefined) await check(operation, destPath, view);
+		if (
+			policy.coversTree(sourcePath) &&
+			(destPath === undefined || policy.coversTree(destPath))
+		) {
+			return;
+		}
+		if (!(await view.exists(sourcePath))) return;
+		if (!(await view.stat(sourcePath)).isDirectory) return;
+
+		// Walk the tree a page at a time instead of loading it whole
+		for (let offset = 0; ; ) {
+			const page = await view.readdir(sourcePath, {
+				recursive: true,
+				offset,
+			});
+			for (const relative of page.items) {
+				const below = (dir: string) =>
+					FileSystemUtils.normalizePath(`${dir}/${relative}`);
+				await check(operation, below(sourcePath), view);
+				if (destPath !== undefined) {
+					await check(operation, below(destPath), view);
+				}
+			}
+			offset += page.items.length;
+			if (!page.hasMore) break;
+		}
+	};
 
-export function createFileSystemTools(fs: DbFileSystem) {
 	return {
 		/**
 		 * Read file contents with pagination support for large files
 		 */
 		read: tool({
 			description:
-				"Reads a file from the filesystem and returns its contents. For large files, use offset and limit to read in chunks. Returns metadata about pagination.",
+				"Reads a file from the filesystem and returns its contents. For large files, use offset and limit to read in chunks. Returns metadata about pagination. Binary files (images, PDFs, archives) must be read with base64 encoding.",
 			inputSchema: z.object({
 				file_path: z
 					.string()
@@ -19,7 +201,9 @@ export function createFileSystemTools(fs: DbFileSystem) {
 				encoding: z
 					.enum(["utf8", "base64"])
 					.optional()
-					.describe("Encoding format for the file content"),
+					.describe(
+						"Encoding format for the file content. Use base64 for binary files.",
+					),
 				offset: z
 					.number()
 					.int()
@@ -39,15 +223,21 @@ export function createFileSystemTools(fs: DbFileSystem) {
 			}),
 			execute: async ({ file_path, encoding, offset, limit }) => {
 				try {
+					await check("read", file_path);
 					const result = await fs.readFile(file_path, {
 						encoding,
 						offset,
 						limit,
 					});
+					revisions.set(
+						FileSystemUtils.normalizePath(file_path),
+						result.revision,
+					);
 
 					return {
 						success: true,
 						content: result.content,
+						revision: result.revision,
 						totalSize: result.totalSize,
 						totalLines: result.totalLines,
 						hasMore: result.hasMore,
@@ -58,10 +248,7 @@ export function createFileSystemTools(fs: DbFileSystem) {
 							: undefined,
 					};
 				} catch (error) {
-					return {
-						success: false,
-						error: error instanceof Error ? error.message : "Unknown error",
-					};
+					return toolError(error);
 				}
 			},
 		}),
@@ -77,6 +264,13 @@ export function createFileSystemTools(fs: DbFileSystem) {
 					.string()
 					.describe("The absolute path where the file should be written"),
 				content: z.string().describe("The content to write to the file"),
+				encoding: z
+					.enum(["utf8", "base64"])
+					.optional()
+					.default("utf8")
+					.describe(
+						"Encoding of content. Use base64 to write binary files such as images, PDFs and archives.",
+					),
 				mime_type: z
 					.string()
 					.optional()
@@ -89,26 +283,31 @@ export function createFileSystemTools(fs: DbFileSystem) {
 					.default(false)
 					.describe("Create parent directories if they do not exist"),
 			}),
-			execute: async ({ file_path, content, mime_type, create_parents }) => {
+			execute: async (
+				{ file_path, content, encoding, mime_type, create_parents },
+				{ toolCallId },
+			) => {
 				try {
-					await fs.writeFile(file_path, content, {
+					await check("write", file_path);
+					const data =
+						encoding === "base64" ? Buffer.from(content, "base64") : content;
+					await audited(toolCallId).writeFile(file_path, data, {
 						mimeType: mime_type,
 						createParents: create_parents,
 					});
 
 					const stats = await fs.stat(file_path);
+					await remember(file_path);
 
 					return {
 						success: true,
 						path: file_path,
 						size: stats.size,
+						revision: stats.revision,
 						modifiedAt: stats.modifiedAt.toISOString(),
 					};
 				} catch (error) {
-					return {
-						success: false,
-						error: error instanceof Error ? error.message : "Unknown error",
-					};
+					return toolError(error);
 				}
 			},
 		}),
@@ -118,7 +317,7 @@ export function createFileSystemTools(fs: DbFileSystem) {
 		 */
 		edit: tool({
 			description:
-				"Edits an existing file by replacing exact text. The old_string must match the file contents exactly. For large files, read the relevant section first using offset/limit.",
+				"Edits an existing file by replacing exact text. The old_string must match the file contents exactly. For large files, read the relevant section first using offset/limit. Fails with code ESTALE if you have not read the file yet or it changed since you last read it; read it again before retrying.",
 			inputSchema: z.object({
 				file_path: z
 					.string()
@@ -130,11 +329,21 @@ export function createFileSystemTools(fs: DbFileSystem) {
 					),
 				new_string: z.string().describe("The text to replace it with"),
 			}),
-			execute: async ({ file_path, old_string, new_string }) => {
+			execute: async ({ file_path, old_string, new_string }, { toolCallId }) => {
 				try {
+					await check("edit", file_path);
 					// Read full file for edit operation
 					const result = await fs.readFile(file_path);
 					const content = result.content;
+					const lastRead = revisions.get(
+						FileSystemUtils.normalizePath(file_path),
+					);
+					if (lastRead === undefined) {
+						return unread(file_path);
+					}
+					if (lastRead !== result.revision) {
+						throw new ConflictError(file_path, lastRead, result.revision);
+					}
 
 					if (!content.includes(old_string)) {
 						return {
@@ -152,18 +361,152 @@ export function createFileSystemTools(fs: DbFileSystem) {
 					}
 
 					const newContent = content.replace(old_string, new_string);
-					await fs.writeFile(file_path, newContent);
+					await audited(toolCallId).writeFile(file_path, newContent, {
+						ifMatch: lastRead,
+					});
 
 					return {
 						success: true,
 						path: file_path,
+						revision: await remember(file_path),
 						message: "File edited successfully",
 					};
 				} catch (error) {
+					return toolError(error);
+				}
+			},
+		}),
+
+		/**
+		 * Apply several string replacements to one file at once
+		 */
+		multi_edit: tool({
+			description:
+				"Makes several edits to one file in a single atomic write. Edits apply in order, each to the result of the previous one. If any edit fails, none are applied and each failure is reported. Text that does not match exactly is matched line by line ignoring whitespace differences. Fails with code ESTALE if you have not read the file yet or it changed since you last read it.",
+			inputSchema: z.object({
+				file_path: z
+					.string()
+					.describe("The absolute path to the file to modify"),
+				edits: z
+					.array(
+						z.object({
+							old_string: z
+								.string()
+								.describe(
+									"The text to replace (must appear only once unless replace_all is set)",
+								),
+							new_string: z.string().describe("The text to replace it with"),
+							replace_all: z
+								.boolean()
+								.optional()
+								.default(false)
+								.describe("Replace every occurrence of old_string"),
+						}),
+					)
+					.min(1)
+					.describe("Replacements to apply, in order"),
+			}),
+			execute: async ({ file_path, edits }, { toolCallId }) => {
+				try {
+					await check("edit", file_path);
+					const lastRead = revisions.get(
+						FileSystemUtils.normalizePath(file_path),
+					);
+					if (lastRead === undefined) {
+						// Report a missing file as such
+						await fs.stat(file_path);
+						return unread(file_path);
+					}
+					const result = await audited(toolCallId).editFile(
+						file_path,
+						edits.map((edit) => ({
+							oldString: edit.old_string,
+							newString: edit.new_string,
+							replaceAll: edit.replace_all,
+						})),
+						{ ifMatch: lastRead },
+					);
+					const failed = result.edits.filter((edit) => !edit.applied);
+
+					if (!result.applied) {
+						return {
+							success: false,
+							error: `${failed.length} of ${edits.length} edits failed, the file was not changed. ${failed.map((edit) => edit.error).join(" ")}`,
+							edits: result.edits,
+						};
+					}
+
+					return {
+						success: true,
+						path: file_path,
+						edits: result.edits,
+						revision: await remember(file_path),
+						message: `Applied ${edits.length} edits`,
+					};
+				} catch (error) {
+					return toolError(error);
+				}
+			},
+		}),
+
+		/**
+		 * Apply a unified diff to one or more files
+		 */
+		apply_patch: tool({
+			description:
+				"Applies a unified diff (as produced by diff -u or git diff) that may modify, create, delete and rename several files. Use /dev/null as the old path to create a file and as the new path to delete one. Hunks are located by their context even if line numbers are off. The patch applies atomically: if any hunk fails, nothing is changed and each failed hunk is reported with the line that did not match.",
+			inputSchema: z.object({
+				patch: z.string().describe("The unified diff to apply"),
+				base_path: z
+					.string()
+					.optional()
+					.default("/")
+					.describe("Directory that relative paths in the patch resolve against"),
+			}),
+			execute: async ({ patch, base_path }, { toolCallId }) => {
+				try {
+					const files = resolvePatchPaths(parsePatch(patch), base_path);
+					for (const file of files) {
+						if (file.oldPath) await check("apply_patch", file.oldPath);
+						if (file.newPath) await check("apply_patch", file.newPath);
+					}
+
+					const result = await audited(toolCallId).applyPatch(files);
+					const summary = result.files.map((file) => ({
+						path: file.path,
+						operation: file.operation,
+						...(file.oldPath ? { oldPath: file.oldPath } : {}),
+						hunks: file.hunks,
+					}));
+
+					if (!result.applied) {
+						const total = result.files.reduce(
+							(sum, file) => sum + file.hunks.length,
+							0,
+						);
+						const failures = result.files.flatMap((file) =>
+							file.hunks
+								.filter((hunk) => !hunk.applied)
+								.map((hunk) => `${file.path}: ${hunk.error}`),
+						);
+						return {
+							success: false,
+							error: `${failures.length} of ${total} hunks failed, no files were changed. ${failures.join(" ")}`,
+							files: summary,
+						};
+					}
+
+					for (const file of files) {
+						if (file.oldPath) revisions.delete(file.oldPath);
+					}
+
 					return {
-						success: false,
-						error: error instanceof Error ? error.message : "Unknown error",
+						success: true,
+						files: summary,
+						message: `Patched ${result.files.length} files`,
 					};
+				} catch (error) {
+					return toolError(error);
 				}
 			},
 		}),
@@ -173,7 +516,7 @@ export function createFileSystemTools(fs: DbFileSystem) {
 		 */
 		ls: tool({
 			description:
-				"Lists files and directories in a given path. For large directories, use offset and limit for pagination. Returns names and metadata.",
+				"Lists files and directories in a given path. Set recursive to list everything below it, pattern to filter by glob, and sort_by/order to sort. For large directories, use offset and limit for pagination. Returns names and metadata.",
 			inputSchema: z.object({
 				path: z.string().describe("The absolute path to the directory to list"),
 				detailed: z
@@ -181,6 +524,29 @@ export function createFileSystemTools(fs: DbFileSystem) {
 					.optional()
 					.default(false)
 					.describe("Return detailed file information"),
+				recursive: z
+					.boolean()
+					.optional()
+					.default(false)
+					.describe(
+						"List everything below the directory; names become paths relative to it",
+					),
+				pattern: z
+					.string()
+					.optional()
+					.describe(
+						"Glob the entries must match, e.g. *.ts; without a slash it matches names at any depth",
+					),
+				sort_by: z
+					.enum(["name", "modified", "size", "created"])
+					.optional()
+					.describe(
+						"Sort key (default: directories first, then by name; by path when recursive)",
+					),
+				order: z
+					.enum(["asc", "desc"])
+					.optional()
+					.describe("Sort direction (default asc)"),
 				offset: z
 					.number()
 					.int()
@@ -196,48 +562,60 @@ export function createFileSystemTools(fs: DbFileSystem) {
 						"Maximum number of items to return (max 500, for large directories)",
 					),
 			}),
-			execute: async ({ path, detailed, offset, limit }) => {
+			execute: async ({
+				path,
+				detailed,
+				recursive,
+				pattern,
+				sort_by,
+				order,
+				offset,
+				limit,
+			}) => {
 				try {
-					if (detailed) {
-						const result = await fs.readdirStats(path, { offset, limit });
-						return {
-							success: true,
-							path,
-							items: result.items.map((s) => ({
-								name: s.name,
-								type: s.isDirectory ? "directory" : "file",
-								size: s.size,
-								modified: s.modifiedAt.toISOString(),
-								mimeType: s.mimeType,
-							})),
-							total: result.total,
-							hasMore: result.hasMore,
-							offset: result.offset,
-							limit: result.limit,
-							message: result.hasMore
-								? `Directory has more items. Use offset=${result.offset + result.limit} to see more.`
-								: undefined,
-						};
-					} else {
-						const result = await fs.readdir(path, { offset, limit });
+					await check("ls", path);
+					const result = await listAllowed(path, {
+						recursive,
+						pattern,
+						sortBy: sort_by,
+						order,
+						offset,
+						limit,
+					});
+					const dir = await fs.realpath(path);
+					const prefix = dir === "/" ? "/" : `${dir}/`;
+					const items = result.items.map((s) => {
+						if (!detailed) {
+							return recursive ? s.path.slice(prefix.length) : s.name;
+						}
 						return {
-							success: true,
-							path,
-							items: result.items,
-							total: result.total,
-							hasMore: result.hasMore,
-							offset: result.offset,
-							limit: result.limit,
-							message: result.hasMore
-								? `Directory has more items. Use offset=${result.offset + result.limit} to see more.`
-								: undefined,
+							name: s.name,
+							...(recursive ? { path: s.path } : {}),
+							type: s.isSymbolicLink
+								? "symlink"
+								: s.isDirectory
+									? "directory"
+									: "file",
+							...(s.linkTarget ? { target: s.linkTarget } : {}),
+							size: s.size,
+							modified: s.modifiedAt.toISOString(),
+							mimeType: s.mimeType,
 						};
-					}
-				} catch (error) {
+					});
+
 					return {
-						success: false,
-						error: error instanceof Error ? error.message : "Unknown error",
+						success: true,
+						path,
+						items,
+						hasMore: result.hasMore,
+						offset: result.offset,
+						limit: result.limit,
+						message: result.hasMore
+							? `Directory has more items. Use offset=${result.offset + result.limit} to see more.`
+							: undefined,
 					};
+				} catch (error) {
+					return toolError(error);
 				}
 			},
 		}),
@@ -257,19 +635,17 @@ export function createFileSystemTools(fs: DbFileSystem) {
 					.default(false)
 					.describe("Create parent directories if they do not exist"),
 			}),
-			execute: async ({ path, recursive }) => {
+			execute: async ({ path, recursive }, { toolCallId }) => {
 				try {
-					await fs.mkdir(path, { recursive });
+					await check("mkdir", path);
+					await audited(toolCallId).mkdir(path, { recursive });
 					return {
 						success: true,
 						path,
 						message: "Directory created successfully",
 					};
 				} catch (error) {
-					return {
-						success: false,
-						error: error instanceof Error ? error.message : "Unknown error",
-					};
+					return toolError(error);
 				}
 			},
 		}),
@@ -279,7 +655,7 @@ export function createFileSystemTools(fs: DbFileSystem) {
 		 */
 		unlink: tool({
 			description:
-				"Deletes a file or directory. Use recursive option for non-empty directories.",
+				"Deletes a file or directory by moving it to the trash, from where restore_trash can bring it back. Use recursive option for non-empty directories.",
 			inputSchema: z.object({
 				path: z.string().describe("The absolute path to delete"),
 				recursive: z
@@ -288,19 +664,19 @@ export function createFileSystemTools(fs: DbFileSystem) {
 					.default(false)
 					.describe("Delete directory and all its contents"),
 			}),
-			execute: async ({ path, recursive }) => {
+			execute: async ({ path, recursive }, { toolCallId }) => {
 				try {
-					await fs.unlink(path, { recursive });
+					await audited(toolCallId).transaction(async (tx) => {
+						await checkTree("unlink", path, undefined, tx);
+						await tx.unlink(path, { recursive });
+					});
 					return {
 						success: true,
 						path,
-						message: "Deleted successfully",
+						message: "Moved to trash",
 					};
 				} catch (error) {
-					return {
-						success: false,
-						error: error instanceof Error ? error.message : "Unknown error",
-					};
+					return toolError(error);
 				}
 			},
 		}),
@@ -315,9 +691,12 @@ export function createFileSystemTools(fs: DbFileSystem) {
 				old_path: z.string().describe("The current path"),
 				new_path: z.string().describe("The new path"),
 			}),
-			execute: async ({ old_path, new_path }) => {
+			execute: async ({ old_path, new_path }, { toolCallId }) => {
 				try {
-					await fs.rename(old_path, new_path);
+					await audited(toolCallId).transaction(async (tx) => {
+						await checkTree("rename", old_path, new_path, tx);
+						await tx.rename(old_path, new_path);
+					});
 					return {
 						success: true,
 						oldPath: old_path,
@@ -325,10 +704,7 @@ export function createFileSystemTools(fs: DbFileSystem) {
 						message: "Renamed successfully",
 					};
 				} catch (error) {
-					return {
-						success: false,
-						error: error instanceof Error ? error.message : "Unknown error",
-					};
+					return toolError(error);
 				}
 			},
 		}),
@@ -347,9 +723,12 @@ export function createFileSystemTools(fs: DbFileSystem) {
 					.default(false)
 					.describe("Copy directory and all its contents"),
 			}),
-			execute: async ({ source_path, dest_path, recursive }) => {
+			execute: async ({ source_path, dest_path, recursive }, { toolCallId }) => {
 				try {
-					await fs.copy(source_path, dest_path, { recursive });
+					await audited(toolCallId).transaction(async (tx) => {
+						await checkTree("copy", source_path, dest_path, tx);
+						await tx.copy(source_path, dest_path, { recursive });
+					});
 					return {
 						success: true,
 						sourcePath: source_path,
@@ -357,10 +736,140 @@ export function createFileSystemTools(fs: DbFileSystem) {
 						message: "Copied successfully",
 					};
 				} catch (error) {
+					return toolError(error);
+				}
+			},
+		}),
+
+		/**
+		 * Change permission bits
+		 */
+		chmod: tool({
+			description:
+				"Changes the permission mode of a file or directory (octal, e.g. 0644 or 755). Only the owner can change the mode.",
+			inputSchema: z.object({
+				path: z.string().describe("The absolute path to change"),
+				mode: z
+					.string()
+					.describe("Octal permission bits for owner, group and others"),
+			}),
+			execute: async ({ path, mode }, { toolCallId }) => {
+				try {
+					await check("chmod", path);
+					await audited(toolCallId).chmod(path, mode);
+					return {
+						success: true,
+						path,
+						message: "Mode changed successfully",
+					};
+				} catch (error) {
+					return toolError(error);
+				}
+			},
+		}),
+
+		/**
+		 * Change owner and group
+		 */
+		chown: tool({
+			description:
+				"Changes the owner and optionally the group of a file or directory. Owners may move their files into one of their own groups.",
+			inputSchema: z.object({
+				path: z.string().describe("The absolute path to change"),
+				owner: z.string().describe("The new owning user"),
+				group: z.string().optional().describe("The new owning group"),
+			}),
+			execute: async ({ path, owner, group }, { toolCallId }) => {
+				try {
+					await check("chown", path);
+					await audited(toolCallId).chown(path, owner, group);
+					return {
+						success: true,
+						path,
+						message: "Owner changed successfully",
+					};
+				} catch (error) {
+					return toolError(error);
+				}
+			},
+		}),
+
+		/**
+		 * Create a symbolic link
+		 */
+		symlink: tool({
+			description:
+				"Creates a symbolic link at link_path pointing to target. Reads, writes and listings through the link reach the target; unlink and rename act on the link itself. The target may be relative to the link's directory and need not exist yet.",
+			inputSchema: z.object({
+				target: z.string().describe("The path the link points to"),
+				link_path: z
+					.string()
+					.describe("The absolute path of the link to create"),
+			}),
+			execute: async ({ target, link_path }, { toolCallId }) => {
+				try {
+					const resolved = resolveLinkTarget(
+						FileSystemUtils.normalizePath(link_path),
+						target,
+					);
+					await check("symlink", link_path);
+					await check("symlink", resolved);
+					await audited(toolCallId).symlink(target, link_path);
+					return {
+						success: true,
+						path: link_path,
+						target,
+						message: "Symbolic link created successfully",
+					};
+				} catch (error) {
+					return toolError(error);
+				}
+			},
+		}),
+
+		/**
+		 * Create a hard link
+		 */
+		link: tool({
+			description:
+				"Creates a hard link: new_path becomes another name for the file at existing_path. Both share one content, so writing either changes both, and deleting one leaves the other. Only files can be hard linked.",
+			inputSchema: z.object({
+				existing_path: z.string().describe("The absolute path of the file"),
+				new_path: z
+					.string()
+					.describe("The absolute path of the link to create"),
+			}),
+			execute: async ({ existing_path, new_path }, { toolCallId }) => {
+				try {
+					await check("link", existing_path);
+					await check("link", new_path);
+					await audited(toolCallId).link(existing_path, new_path);
 					return {
-						success: false,
-						error: error instanceof Error ? error.message : "Unknown error",
+						success: true,
+						path: new_path,
+						message: "Hard link created successfully",
 					};
+				} catch (error) {
+					return toolError(error);
+				}
+			},
+		}),
+
+		/**
+		 * Read a symbolic link
+		 */
+		readlink: tool({
+			description:
+				"Returns the target of a symbolic link as it was given, without following it.",
+			inputSchema: z.object({
+				path: z.string().describe("The absolute path of the symbolic link"),
+			}),
+			execute: async ({ path }) => {
+				try {
+					await check("readlink", path);
+					return { success: true, path, target: await fs.readlink(path) };
+				} catch (error) {
+					return toolError(error);
 				}
 			},
 		}),
@@ -375,6 +884,7 @@ export function createFileSystemTools(fs: DbFileSystem) {
 			}),
 			execute: async ({ path }) => {
 				try {
+					await check("stat", path);
 					const stats = await fs.stat(path);
 					return {
 						success: true,
@@ -384,10 +894,187 @@ export function createFileSystemTools(fs: DbFileSystem) {
 						accessedAt: stats.accessedAt.toISOString(),
 					};
 				} catch (error) {
+					return toolError(error);
+				}
+			},
+		}),
+
+		/**
+		 * Report storage usage against quotas
+		 */
+		disk_usage: tool({
+			description:
+				"Reports how many files and directories exist and how many bytes they use, with the quota limits that apply. Check this before large writes to see how much space is left.",
+			inputSchema: z.object({
+				owner: z
+					.string()
+					.optional()
+					.describe(
+						"Only count files and directories owned by this user, against the per-owner quota",
+					),
+			}),
+			execute: async ({ owner }) => {
+				try {
+					const usage = await fs.diskUsage(owner);
+					const { maxBytes, maxFiles } = usage.limits;
+					return {
+						success: true,
+						...usage,
+						remainingBytes:
+							maxBytes === undefined
+								? undefined
+								: Math.max(0, maxBytes - usage.bytes),
+						remainingFiles:
+							maxFiles === undefined
+								? undefined
+								: Math.max(0, maxFiles - usage.files - usage.directories),
+					};
+				} catch (error) {
+					return toolError(error);
+				}
+			},
+		}),
+
+		/**
+		 * List or read previous versions of a file
+		 */
+		history: tool({
+			description:
+				"Lists the version history of a file, newest first. Every write creates a new version. Pass a version number to read the content of that version.",
+			inputSchema: z.object({
+				path: z.string().describe("The absolute path to the file"),
+				version: z
+					.number()
+					.int()
+					.positive()
+					.optional()
+					.describe("Version number to read the content of"),
+				encoding: z
+					.enum(["utf8", "base64"])
+					.optional()
+					.describe(
+						"Encoding for version content. Use base64 for binary files.",
+					),
+			}),
+			execute: async ({ path, version, encoding }) => {
+				try {
+					await check("history", path);
+					if (version !== undefined) {
+						const result = await fs.readVersion(path, version, {
+							encoding,
+						});
+						return {
+							success: true,
+							path,
+							...result,
+							createdAt: result.createdAt.toISOString(),
+						};
+					}
+
+					const versions = await fs.listVersions(path);
 					return {
-						success: false,
-						error: error instanceof Error ? error.message : "Unknown error",
+						success: true,
+						path,
+						versions: versions.map((v) => ({
+							...v,
+							createdAt: v.createdAt.toISOString(),
+						})),
+						count: versions.length,
 					};
+				} catch (error) {
+					return toolError(error);
+				}
+			},
+		}),
+
+		/**
+		 * Restore a previous version of a file
+		 */
+		restore: tool({
+			description:
+				"Restores a file to the content of a previous version. The restore is recorded as a new version, so it can itself be undone. Use history to find version numbers.",
+			inputSchema: z.object({
+				path: z.string().describe("The absolute path to the file"),
+				version: z
+					.number()
+					.int()
+					.positive()
+					.describe("The version number to restore"),
+			}),
+			execute: async ({ path, version }, { toolCallId }) => {
+				try {
+					await check("restore", path);
+					await audited(toolCallId).restoreVersion(path, version);
+					return {
+						success: true,
+						path,
+						restoredVersion: version,
+						message: `Restored version ${version}`,
+					};
+				} catch (error) {
+					return toolError(error);
+				}
+			},
+		}),
+
+		/**
+		 * List deleted files and directories
+		 */
+		list_trash: tool({
+			description:
+				"Lists files and directories in the trash, most recently deleted first, with their original paths. Use restore_trash to bring one back.",
+			inputSchema: z.object({}),
+			execute: async () => {
+				try {
+					const entries = (await fs.listTrash()).filter((entry) =>
+						policy.allows(entry.path),
+					);
+					return {
+						success: true,
+						entries: entries.map((entry) => ({
+							path: entry.path,
+							isDirectory: entry.isDirectory,
+							nodeCount: entry.nodeCount,
+							size: entry.size,
+							deletedAt: entry.deletedAt.toISOString(),
+							deletedBy: entry.deletedBy,
+						})),
+						count: entries.length,
+					};
+				} catch (error) {
+					return toolError(error);
+				}
+			},
+		}),
+
+		/**
+		 * Restore a deleted file or directory from the trash
+		 */
+		restore_trash: tool({
+			description:
+				"Restores the most recently deleted file or directory from its original path, including its contents and version history. Pass dest_path to restore it somewhere else, e.g. when the original path is taken.",
+			inputSchema: z.object({
+				path: z.string().describe("The original path of the deleted item"),
+				dest_path: z
+					.string()
+					.optional()
+					.describe("Where to restore it (default: the original path)"),
+			}),
+			execute: async ({ path, dest_path }, { toolCallId }) => {
+				try {
+					await check("restore", path);
+					await audited(toolCallId).transaction(async (tx) => {
+						await tx.restore(path, { to: dest_path });
+						// The restored tree must not bring back denied paths
+						await checkTree("restore", dest_path ?? path, undefined, tx);
+					});
+					return {
+						success: true,
+						path: dest_path ?? path,
+						message: "Restored from trash",
+					};
+				} catch (error) {
+					return toolError(error);
 				}
 			},
 		}),
@@ -403,6 +1090,7 @@ export function createFileSystemTools(fs: DbFileSystem) {
 			}),
 			execute: async ({ path }) => {
 				try {
+					await check("exists", path);
 					const exists = await fs.exists(path);
 					return {
 						success: true,
@@ -410,10 +1098,7 @@ export function createFileSystemTools(fs: DbFileSystem) {
 						exists,
 					};
 				} catch (error) {
-					return {
-						success: false,
-						error: error instanceof Error ? error.message : "Unknown error",
-					};
+					return toolError(error);
 				}
 			},
 		}),
@@ -423,11 +1108,13 @@ export function createFileSystemTools(fs: DbFileSystem) {
 		 */
 		glob: tool({
 			description:
-				"Searches for files matching a glob pattern. Supports * (any chars) and ? (single char). Returns up to 100 matches by default.",
+				"Searches for files matching a glob pattern relative to base_path. Supports * and ? within a path segment, ** across directories, [abc] character classes and {a,b} alternatives. Returns matches sorted by modification time, newest first, up to 100 by default.",
 			inputSchema: z.object({
 				pattern: z
 					.string()
-					.describe("Glob pattern to match (e.g., *.txt, file?.md)"),
+					.describe(
+						"Glob pattern to match (e.g., *.txt, src/**/*.ts, **/*.{ts,tsx})",
+					),
 				base_path: z
 					.string()
 					.optional()
@@ -443,72 +1130,388 @@ export function createFileSystemTools(fs: DbFileSystem) {
 			execute: async ({ pattern, base_path, limit }) => {
 				try {
 					const result = await fs.glob(pattern, base_path, limit);
+					const matches = result.matches.filter((p) => policy.allows(p));
 					return {
 						success: true,
 						pattern,
 						basePath: base_path,
-						matches: result.matches,
-						count: result.matches.length,
+						matches,
+						count: matches.length,
 						hasMore: result.hasMore,
 						message: result.hasMore
 							? "More matches exist. Refine your pattern or increase limit."
 							: undefined,
 					};
 				} catch (error) {
+					return toolError(error);
+				}
+			},
+		}),
+
+		/**
+		 * Find files by metadata and attributes
+		 */
+		find: tool({
+			description:
+				"Finds files and directories by metadata, tags, MIME type, size and modification time. Every filter given must match. Returns matches sorted by path with their metadata, up to 100 by default.",
+			inputSchema: z.object({
+				path: z
+					.string()
+					.optional()
+					.default("/")
+					.describe("Directory to search below"),
+				tags: z
+					.array(z.string())
+					.optional()
+					.describe("Tags that must all be present"),
+				metadata: z
+					.record(z.union([z.string(), z.number(), z.boolean()]))
+					.optional()
+					.describe("Metadata keys that must have exactly these values"),
+				has_keys: z
+					.array(z.string())
+					.optional()
+					.describe("Metadata keys that must be present, with any value"),
+				mime_type: z
+					.string()
+					.optional()
+					.describe("MIME type, or a wildcard such as image/*"),
+				min_size: z
+					.number()
+					.int()
+					.nonnegative()
+					.optional()
+					.describe("Minimum size in bytes"),
+				max_size: z
+					.number()
+					.int()
+					.nonnegative()
+					.optional()
+					.describe("Maximum size in bytes"),
+				modified_after: z
+					.string()
+					.datetime({ offset: true })
+					.optional()
+					.describe("Only files modified at or after this ISO 8601 time"),
+				modified_before: z
+					.string()
+					.datetime({ offset: true })
+					.optional()
+					.describe("Only files modified before this ISO 8601 time"),
+				type: z
+					.enum(["file", "directory"])
+					.optional()
+					.describe("Only files or only directories (default: both)"),
+				limit: z
+					.number()
+					.int()
+					.positive()
+					.optional()
+					.describe("Maximum number of results to return (default 100)"),
+			}),
+			execute: async (input) => {
+				try {
+					const result = await fs.find({
+						path: input.path,
+						tags: input.tags,
+						metadata: input.metadata,
+						keys: input.has_keys,
+						mimeType: input.mime_type,
+						minSize: input.min_size,
+						maxSize: input.max_size,
+						modifiedAfter: input.modified_after
+							? new Date(input.modified_after)
+							: undefined,
+						modifiedBefore: input.modified_before
+							? new Date(input.modified_before)
+							: undefined,
+						type: input.type,
+						limit: input.limit,
+					});
+					const items = result.items
+						.filter((s) => policy.allows(s.path))
+						.map((s) => ({
+							path: s.path,
+							type: s.isDirectory ? "directory" : "file",
+							size: s.size,
+							modified: s.modifiedAt.toISOString(),
+							mimeType: s.mimeType,
+							tags: s.tags,
+							metadata: s.metadata,
+						}));
 					return {
-						success: false,
-						error: error instanceof Error ? error.message : "Unknown error",
+						success: true,
+						items,
+						count: items.length,
+						hasMore: result.hasMore,
+						message: result.hasMore
+							? "More matches exist. Narrow the filters or increase limit."
+							: undefined,
 					};
+				} catch (error) {
+					return toolError(error);
 				}
 			},
 		}),
 
 		/**
-		 * Search file contents with result limit
+		 * Search file contents by regular expression
 		 */
 		grep: tool({
 			description:
-				"Searches file contents for text matching a query. Returns matching file paths with relevance scores. Limited to 100 results by default.",
+				"Searches file contents. In regex mode (default) returns matching lines with line numbers, optionally with surrounding context; use output_mode to get only file paths or per-file match counts. In fulltext mode returns files ranked by relevance with highlighted snippets. Limited to 100 files by default.",
 			inputSchema: z.object({
-				query: z.string().describe("Text to search for in file contents"),
+				pattern: z
+					.string()
+					.describe(
+						"Regular expression to search for (JavaScript syntax, e.g. log.*Error, function\\s+\\w+), or a fulltext query in fulltext mode",
+					),
+				search_mode: z
+					.enum(["regex", "fulltext"])
+					.optional()
+					.default("regex")
+					.describe(
+						'fulltext ranks files by relevance. Fulltext queries support "exact phrases", prefix*, OR, NOT/-term and parentheses; words are stemmed.',
+					),
 				base_path: z
 					.string()
 					.optional()
 					.default("/")
 					.describe("Base directory to search from"),
+				include: z
+					.string()
+					.optional()
+					.describe(
+						"Glob filter for files to search (e.g. *.ts, src/**/*.{ts,tsx}). Patterns without a slash match file names at any depth.",
+					),
+				case_sensitive: z
+					.boolean()
+					.optional()
+					.default(true)
+					.describe("Match case exactly"),
+				output_mode: z
+					.enum(["content", "files_with_matches", "count"])
+					.optional()
+					.default("content")
+					.describe(
+						"content returns matching lines, files_with_matches returns only paths, count returns match counts per file",
+					),
+				before_context: z
+					.number()
+					.int()
+					.nonnegative()
+					.optional()
+					.describe("Number of lines to show before each match"),
+				after_context: z
+					.number()
+					.int()
+					.nonnegative()
+					.optional()
+					.describe("Number of lines to show after each match"),
+				context: z
+					.number()
+					.int()
+					.nonnegative()
+					.optional()
+					.describe("Number of lines to show before and after each match"),
 				limit: z
 					.number()
 					.int()
 					.positive()
 					.optional()
-					.describe("Maximum number of results to return (default 100)"),
+					.describe("Maximum number of files to return (default 100)"),
 			}),
-			execute: async ({ query, base_path, limit }) => {
+			execute: async ({
+				pattern,
+				search_mode,
+				base_path,
+				include,
+				case_sensitive,
+				output_mode,
+				before_context,
+				after_context,
+				context,
+				limit,
+			}) => {
 				try {
-					const result = await fs.search(query, base_path, limit);
+					if (search_mode === "fulltext") {
+						const result = await fs.search(pattern, base_path, limit);
+						const results = result.results.filter((r) =>
+							policy.allows(r.path),
+						);
+						return {
+							success: true,
+							query: pattern,
+							basePath: base_path,
+							...(output_mode === "files_with_matches"
+								? { files: results.map((r) => r.path) }
+								: { results }),
+							count: results.length,
+							hasMore: result.hasMore,
+							message: result.hasMore
+								? "More matches exist. Refine your query or increase limit."
+								: undefined,
+						};
+					}
+
+					const withContext = output_mode === "content";
+					const result = await fs.grep(pattern, {
+						basePath: base_path,
+						include,
+						caseSensitive: case_sensitive,
+						before: withContext ? (before_context ?? context) : 0,
+						after: withContext ? (after_context ?? context) : 0,
+						limit,
+					});
+					const files = result.files.filter((f) => policy.allows(f.path));
+
+					const message = result.hasMore
+						? "More matching files exist. Refine your pattern or increase limit."
+						: undefined;
+
+					if (output_mode === "files_with_matches") {
+						return {
+							success: true,
+							pattern,
+							basePath: base_path,
+							files: files.map((f) => f.path),
+							count: files.length,
+							hasMore: result.hasMore,
+							message,
+						};
+					}
+
+					if (output_mode === "count") {
+						return {
+							success: true,
+							pattern,
+							basePath: base_path,
+							counts: files.map((f) => ({
+								path: f.path,
+								count: f.matchCount,
+							})),
+							totalMatches: files.reduce(
+								(sum, f) => sum + f.matchCount,
+								0,
+							),
+							hasMore: result.hasMore,
+							message,
+						};
+					}
+
 					return {
 						success: true,
-						query,
+						pattern,
 						basePath: base_path,
-						results: result.results.map((r) => ({
-							path: r.path,
-							score: r.score,
-						})),
-						count: result.results.length,
+						results: files,
+						count: files.length,
 						hasMore: result.hasMore,
-						message: result.hasMore
-							? "More matches exist. Refine your query or increase limit."
-							: undefined,
+						message,
 					};
 				} catch (error) {
-					return {
-						success: false,
-						error: error instanceof Error ? error.message : "Unknown error",
-					};
+					return toolError(error);
 				}
 			},
 		}),
 	};
 }
 
-export type FileSystemTools = ReturnType<typeof createFileSystemTools>;
\ No newline at end of file
+/** Allow and deny globs checked against every path a tool touches. */
+class PathPolicy {
+	private readonly allowed: RegExp[] | null;
+	private readonly denied: RegExp[];
+
+	constructor(
+		private readonly allowPatterns?: string[],
+		private readonly denyPatterns: string[] = [],
+	) {
+		this.allowed = allowPatterns
+			? allowPatterns.flatMap(patternToRegexes)
+			: null;
+		this.denied = denyPatterns.flatMap(patternToRegexes);
+	}
+
+	get isOpen(): boolean {
+		return this.allowed === null && this.denied.length === 0;
+	}
+
+	allows(path: string): boolean {
+		const normalized = FileSystemUtils.normalizePath(path);
+		const matches = (regex: RegExp) => regex.test(normalized);
+		return (
+			(this.allowed === null || this.allowed.some(matches)) &&
+			!this.denied.some(matches)
+		);
+	}
+
+	/**
+	 * Whether the patterns alone show that everything below `dir` is allowed:
+	 * an allow pattern covers a whole directory containing it, and no deny
+	 * pattern's literal directory is above or below it. False means the tree
+	 * has to be walked.
+	 */
+	coversTree(dir: string): boolean {
+		const normalized = FileSystemUtils.normalizePath(dir);
+		const prefix = normalized === "/" ? "/" : `${normalized}/`;
+
+		const covers = (pattern: string) => {
+			const body = pattern.replace(/^\/+/, "");
+			if (body === "**") return true;
+			const root = body.slice(0, -"/**".length);
+			return (
+				body.endsWith("/**") &&
+				!/[*?[\]{}\\]/.test(root) &&
+				prefix.startsWith(`${FileSystemUtils.normalizePath(root)}/`)
+			);
+		};
+		const reaches = (pattern: string) => {
+			const literal = FileSystemUtils.globLiteralPrefix(pattern);
+			return literal.startsWith(prefix) || prefix.startsWith(literal);
+		};
+
+		return (
+			(this.allowPatterns?.some(covers) ?? true) &&
+			!this.denyPatterns.some(reaches)
+		);
+	}
+}
+
+function patternToRegexes(pattern: string): RegExp[] {
+	const regexes = [new RegExp(FileSystemUtils.globToRegex(pattern))];
+	if (pattern.endsWith("/**")) {
+		regexes.push(
+			new RegExp(FileSystemUtils.globToRegex(pattern.slice(0, -3))),
+		);
+	}
+	return regexes;
+}
+
+class ToolPolicyError extends Error {
+	readonly code = "EPERM";
+
+	constructor(operation: string, path: string) {
+		super(
+			`EPERM: operation not permitted by tool policy, ${operation} '${path}'`,
+		);
+		this.name = "ToolPolicyError";
+	}
+}
+
+/**
+ * Failed tool result. Permission, policy, quota and conflict errors carry
+ * their errno style `code` so the agent can tell them apart from a missing
+ * file.
+ */
+function toolError(error: unknown) {
+	return {
+		success: false,
+		error: error instanceof Error ? error.message : "Unknown error",
+		...(error instanceof PermissionDeniedError ||
+		error instanceof ToolPolicyError ||
+		error instanceof QuotaExceededError ||
+		error instanceof ConflictError ||
+		error instanceof SymlinkLoopError
+			? { code: error.code }
+			: {}),
+	};
+}
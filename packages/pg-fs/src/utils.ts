@@ -1,8 +1,21 @@
 import crypto from "crypto";
 
 export class FileSystemUtils {
-	static hashContent(content: string): string {
-		return crypto.createHash("sha256").update(content).digest("hex");
+	static hashContent(content: string | Buffer): string {
+		return FileSystemUtils.createHasher().update(content).digest("hex");
+	}
+
+	/** Incremental form of `hashContent` for streamed content. */
+	static createHasher(): crypto.Hash {
+		return crypto.createHash("sha256");
+	}
+
+	/**
+	 * Uses the same heuristic as git: content with a NUL byte in the first
+	 * 8000 bytes is treated as binary.
+	 */
+	static isBinary(content: Buffer): boolean {
+		return content.subarray(0, 8000).includes(0);
 	}
 
 	static generateId(): string {
@@ -46,6 +59,166 @@ export class FileSystemUtils {
 		return normalized.substring(lastSlash + 1);
 	}
 
+	/**
+	 * Converts a glob pattern into an anchored regular expression source that
+	 * matches full paths under `basePath`. Supports `*`, `?`, `**`, character
+	 * classes (`[a-z]`, `[!abc]`) and nested brace alternation (`{ts,tsx}`).
+	 * The output only uses syntax shared by JavaScript and PostgreSQL regexes.
+	 */
+	static globToRegex(pattern: string, basePath: string = "/"): string {
+		const base = FileSystemUtils.normalizePath(basePath);
+		const prefix = base === "/" ? "/" : `${base}/`;
+		const body = pattern.replace(/^\/+/, "");
+		return `^${FileSystemUtils.escapeRegex(prefix)}${FileSystemUtils.globBodyToRegex(body)}$`;
+	}
+
+	/**
+	 * Returns the longest directory prefix of a glob that contains no
+	 * wildcards, so callers can narrow candidates with an indexed prefix scan.
+	 */
+	static globLiteralPrefix(pattern: string, basePath: string = "/"): string {
+		const base = FileSystemUtils.normalizePath(basePath);
+		const segments = pattern.replace(/^\/+/, "").split("/");
+		const literal: string[] = [];
+
+		for (const segment of segments.slice(0, -1)) {
+			if (/[*?[\]{}\\]/.test(segment)) break;
+			literal.push(segment);
+		}
+
+		const prefix = base === "/" ? "/" : `${base}/`;
+		return literal.length > 0 ? `${prefix}${literal.join("/")}/` : prefix;
+	}
+
+	private static globBodyToRegex(glob: string): string {
+		let regex = "";
+		let i = 0;
+
+		while (i < glob.length) {
+			const char = glob[i];
+
+			if (char === "*") {
+				const atSegmentStart = i === 0 || glob[i - 1] === "/";
+				if (glob[i + 1] === "*" && atSegmentStart) {
+					const next = glob[i + 2];
+					if (next === "/") {
+						regex += "(?:[^/]+/)*";
+						i += 3;
+						continue;
+					}
+					if (next === undefined) {
+						regex += ".*";
+						i += 2;
+						continue;
+					}
+				}
+				while (glob[i] === "*") i++;
+				regex += "[^/]*";
+				continue;
+			}
+
+			if (char === "?") {
+				regex += "[^/]";
+				i++;
+				continue;
+			}
+
+			if (char === "[") {
+				const close = glob.indexOf("]", i + 2);
+				if (close === -1) {
+					regex += "\\[";
+					i++;
+					continue;
+				}
+				let members = glob.slice(i + 1, close);
+				let negated = false;
+				if (members[0] === "!" || members[0] === "^") {
+					negated = true;
+					members = members.slice(1);
+				}
+				members = members.replace(/[\\\]\[^]/g, (m) => `\\${m}`);
+				regex += negated ? `[^/${members}]` : `[${members}]`;
+				i = close + 1;
+				continue;
+			}
+
+			if (char === "{") {
+				const close = FileSystemUtils.findClosingBrace(glob, i);
+				if (close === -1) {
+					regex += "\\{";
+					i++;
+					continue;
+				}
+				const alternatives = FileSystemUtils.splitBraceAlternatives(
+					glob.slice(i + 1, close),
+				);
+				regex += `(?:${alternatives.map((alt) => FileSystemUtils.globBodyToRegex(alt)).join("|")})`;
+				i = close + 1;
+				continue;
+			}
+
+			if (char === "\\" && i + 1 < glob.length) {
+				regex += FileSystemUtils.escapeRegex(glob[i + 1]);
+				i += 2;
+				continue;
+			}
+
+			regex += FileSystemUtils.escapeRegex(char);
+			i++;
+		}
+
+		return regex;
+	}
+
+	private static findClosingBrace(glob: string, open: number): number {
+		let depth = 0;
+		for (let i = open; i < glob.length; i++) {
+			if (glob[i] === "\\") {
+				i++;
+			} else if (glob[i] === "{") {
+				depth++;
+			} else if (glob[i] === "}") {
+				depth--;
+				if (depth === 0) return i;
+			}
+		}
+		return -1;
+	}
+
+	private static splitBraceAlternatives(inner: string): string[] {
+		const alternatives: string[] = [];
+		let depth = 0;
+		let current = "";
+
+		for (let i = 0; i < inner.length; i++) {
+			const char = inner[i];
+			if (char === "\\" && i + 1 < inner.length) {
+				current += char + inner[i + 1];
+				i++;
+				continue;
+			}
+			if (char === "{") depth++;
+			if (char === "}") depth--;
+			if (char === "," && depth === 0) {
+				alternatives.push(current);
+				current = "";
+				continue;
+			}
+			current += char;
+		}
+		alternatives.push(current);
+
+		return alternatives;
+	}
+
+	private static escapeRegex(text: string): string {
+		return text.replace(/[.*+?^${}()|[\]\\\/-]/g, "\\$&");
+	}
+
+	static isValidWorkspace(workspace: string): boolean {
+		return /^[\w.:@-]{1,128}$/.test(workspace);
+	}
+
 	static isValidPath(path: string): boolean {
 		if (!path.startsWith("/")) return false;
 		if (path.includes("//")) return false;
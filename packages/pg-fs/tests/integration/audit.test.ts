@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+	createFileSystemTools,
+	createSqliteFs,
+	FileSystemUtils,
+	PermissionDeniedError,
+	type DbFs,
+} from "../../src/index.js";
+
+const call = async (tool: any, input: Record<string, unknown>, id: string) =>
+	await tool.execute(input, { toolCallId: id, messages: [] });
+
+describe("DbFileSystem audit log (SQLite)", () => {
+	let dbfs: DbFs;
+
+	beforeEach(async () => {
+		dbfs = await createSqliteFs();
+	});
+
+	it("should record every mutation with old and new content hashes", async () => {
+		const v1 = FileSystemUtils.hashContent("v1");
+		const v2 = FileSystemUtils.hashContent("v2");
+
+		await dbfs.fs.writeFile("/docs/a.md", "v1", { createParents: true });
+		await dbfs.fs.writeFile("/docs/a.md", "v2");
+		await dbfs.fs.chmod("/docs/a.md", "0600");
+		await dbfs.fs.rename("/docs/a.md", "/docs/b.md");
+		await dbfs.fs.unlink("/docs", { recursive: true });
+
+		const entries = await dbfs.fs.auditLog();
+		expect(
+			entries
+				.reverse()
+				.map((e) => [e.operation, e.path, e.oldPath, e.oldHash, e.newHash]),
+		).toEqual([
+			["mkdir", "/docs", null, null, null],
+			["write", "/docs/a.md", null, null, v1],
+			["write", "/docs/a.md", null, v1, v2],
+			["chmod", "/docs/a.md", null, v2, v2],
+			["rename", "/docs/b.md", "/docs/a.md", v2, v2],
+			["unlink", "/docs", null, null, null],
+		]);
+	});
+
+	it("should not record changes that were rolled back", async () => {
+		await expect(
+			dbfs.fs.transaction(async (tx) => {
+				await tx.writeFile("/draft.txt", "draft");
+				throw new Error("abort");
+			}),
+		).rejects.toThrow("abort");
+
+		expect(await dbfs.fs.auditLog()).toEqual([]);
+	});
+
+	it("should record the actor and tool call from write options and contexts", async () => {
+		await dbfs.fs.writeFile("/a.txt", "a", {
+			actor: "planner",
+			toolCallId: "call-1",
+		});
+		await dbfs.fs
+			.withAuditContext({ actor: "reviewer" })
+			.rename("/a.txt", "/b.txt");
+		await dbfs.fs.chmod("/", "0777");
+		await dbfs.withPrincipal({ user: "alice" }).fs.writeFile("/c.txt", "c");
+
+		const entries = await dbfs.fs.auditLog();
+		expect(entries.map((e) => [e.path, e.actor, e.toolCallId])).toEqual([
+			["/c.txt", "alice", null],
+			["/", null, null],
+			["/b.txt", "reviewer", null],
+			["/a.txt", "planner", "call-1"],
+		]);
+	});
+
+	it("should record the tool call id of every tool that changes files", async () => {
+		const tools = createFileSystemTools(dbfs.fs, { actor: "agent" });
+
+		await call(
+			tools.write,
+			{ file_path: "/src/main.ts", content: "one", create_parents: true },
+			"call-write",
+		);
+		await call(
+			tools.edit,
+			{ file_path: "/src/main.ts", old_string: "one", new_string: "two" },
+			"call-edit",
+		);
+		await call(
+			tools.copy,
+			{ source_path: "/src", dest_path: "/backup", recursive: true },
+			"call-copy",
+		);
+
+		const copy = await dbfs.fs.auditLog({ toolCallId: "call-copy" });
+		expect(copy.map((e) => [e.operation, e.path]).reverse()).toEqual([
+			["mkdir", "/backup"],
+			["write", "/backup/main.ts"],
+		]);
+
+		const entries = await dbfs.fs.auditLog({ path: "/src", actor: "agent" });
+		expect(entries.map((e) => [e.operation, e.toolCallId])).toEqual([
+			["write", "call-edit"],
+			["write", "call-write"],
+			["mkdir", "call-write"],
+		]);
+	});
+
+	it("should filter entries by path, time and limit", async () => {
+		const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+		await dbfs.fs.writeFile("/old.txt", "old");
+		await tick();
+		const since = new Date();
+		await tick();
+		await dbfs.fs.writeFile("/logs/new.txt", "new", { createParents: true });
+		await dbfs.fs.rename("/old.txt", "/logs/old.txt");
+
+		const recent = await dbfs.fs.auditLog({ since });
+		expect(recent.map((e) => e.path)).toEqual([
+			"/logs/old.txt",
+			"/logs/new.txt",
+			"/logs",
+		]);
+		expect(
+			(await dbfs.fs.auditLog({ path: "/old.txt" })).map((e) => e.operation),
+		).toEqual(["rename", "write"]);
+		expect(await dbfs.fs.auditLog({ limit: 1 })).toHaveLength(1);
+	});
+
+	it("should reserve the log for callers without a principal", async () => {
+		const alice = dbfs.withPrincipal({ user: "alice" });
+		await expect(alice.fs.auditLog()).rejects.toBeInstanceOf(
+			PermissionDeniedError,
+		);
+	});
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createSqliteFs, type DbFs } from "../../src/index.js";
+
+const PNG_HEADER = Buffer.from([
+	0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d, 0xff,
+]);
+
+describe("DbFileSystem binary content (SQLite)", () => {
+	let dbfs: DbFs;
+
+	beforeEach(async () => {
+		dbfs = await createSqliteFs();
+	});
+
+	it("should round-trip binary content byte for byte", async () => {
+		await dbfs.fs.writeFile("/image.png", PNG_HEADER);
+
+		const data = await dbfs.fs.readFileBuffer("/image.png");
+		expect(data.equals(PNG_HEADER)).toBe(true);
+	});
+
+	it("should accept Uint8Array views", async () => {
+		const backing = new Uint8Array([1, 2, 0, 3, 4, 5]);
+		await dbfs.fs.writeFile("/view.bin", backing.subarray(1, 4));
+
+		const data = await dbfs.fs.readFileBuffer("/view.bin");
+		expect([...data]).toEqual([2, 0, 3]);
+	});
+
+	it("should base64 encode the stored bytes", async () => {
+		await dbfs.fs.writeFile("/image.png", PNG_HEADER);
+
+		const result = await dbfs.fs.readFile("/image.png", { encoding: "base64" });
+		expect(result.content).toBe(PNG_HEADER.toString("base64"));
+		expect(result.totalSize).toBe(PNG_HEADER.length);
+	});
+
+	it("should account size in bytes", async () => {
+		await dbfs.fs.writeFile("/utf8.txt", "héllo");
+		await dbfs.fs.writeFile("/image.png", PNG_HEADER);
+
+		expect((await dbfs.fs.stat("/utf8.txt")).size).toBe(6);
+		expect((await dbfs.fs.stat("/image.png")).size).toBe(PNG_HEADER.length);
+	});
+
+	it("should refuse to decode binary content as text", async () => {
+		await dbfs.fs.writeFile("/image.png", PNG_HEADER);
+
+		await expect(dbfs.fs.readFile("/image.png")).rejects.toThrow(
+			"use base64 encoding",
+		);
+	});
+
+	it("should copy binary files intact", async () => {
+		await dbfs.fs.writeFile("/image.png", PNG_HEADER);
+		await dbfs.fs.copy("/image.png", "/copy.png");
+
+		const data = await dbfs.fs.readFileBuffer("/copy.png");
+		expect(data.equals(PNG_HEADER)).toBe(true);
+	});
+
+	it("should write base64 content through the write tool", async () => {
+		const write = dbfs.tools.write as any;
+		const result = await write.execute(
+			{
+				file_path: "/tool.png",
+				content: PNG_HEADER.toString("base64"),
+				encoding: "base64",
+				create_parents: false,
+			},
+			{ toolCallId: "1", messages: [] },
+		);
+
+		expect(result.success).toBe(true);
+		expect(result.size).toBe(PNG_HEADER.length);
+	});
+});
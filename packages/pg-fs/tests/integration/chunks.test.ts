@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { DbFs, FileSystemUtils } from "../../src/index.js";
+
+const CHUNK_SIZE = 16;
+
+async function collect(stream: Readable): Promise<Buffer> {
+	const parts: Buffer[] = [];
+	for await (const part of stream) {
+		parts.push(part);
+	}
+	return Buffer.concat(parts);
+}
+
+describe("DbFileSystem chunked content (SQLite)", () => {
+	let dbfs: DbFs;
+	const data = Buffer.from(Array.from({ length: 100 }, (_, i) => i % 256));
+
+	beforeEach(async () => {
+		dbfs = await DbFs.create({ dialect: "sqlite", chunkSize: CHUNK_SIZE });
+	});
+
+	it("should split large files into chunks and reassemble them", async () => {
+		await dbfs.fs.writeFile("/large.bin", data);
+
+		const hash = FileSystemUtils.hashContent(data);
+		const chunks = await dbfs.driver.findContentChunks(hash, 0, data.length);
+		expect(chunks).toHaveLength(Math.ceil(data.length / CHUNK_SIZE));
+
+		const read = await dbfs.fs.readFileBuffer("/large.bin");
+		expect(read.equals(data)).toBe(true);
+		expect((await dbfs.fs.stat("/large.bin")).size).toBe(data.length);
+	});
+
+	it("should store small files as a single block", async () => {
+		await dbfs.fs.writeFile("/small.txt", "tiny");
+
+		const hash = FileSystemUtils.hashContent("tiny");
+		const chunks = await dbfs.driver.findContentChunks(hash, 0, 4);
+		expect(chunks).toEqual([{ hash, offset: 0, size: 4 }]);
+	});
+
+	it("should deduplicate chunks shared between files", async () => {
+		const edited = Buffer.from(data);
+		edited[data.length - 1] = 0xff;
+
+		await dbfs.fs.writeFile("/a.bin", data);
+		await dbfs.fs.writeFile("/b.bin", edited);
+
+		const first = await dbfs.driver.findContentChunks(
+			FileSystemUtils.hashContent(data),
+			0,
+			data.length,
+		);
+		const second = await dbfs.driver.findContentChunks(
+			FileSystemUtils.hashContent(edited),
+			0,
+			edited.length,
+		);
+
+		const shared = first.filter((c, i) => c.hash === second[i].hash);
+		expect(shared).toHaveLength(first.length - 1);
+	});
+
+	it("should read byte ranges across chunk boundaries", async () => {
+		await dbfs.fs.writeFile("/large.bin", data);
+
+		const range = await dbfs.fs.readFileRange("/large.bin", 10, 30);
+		expect(range.equals(data.subarray(10, 40))).toBe(true);
+
+		const tail = await dbfs.fs.readFileRange("/large.bin", 90, 50);
+		expect(tail.equals(data.subarray(90))).toBe(true);
+	});
+
+	it("should stream reads with an inclusive end", async () => {
+		await dbfs.fs.writeFile("/large.bin", data);
+
+		const all = await collect(dbfs.fs.createReadStream("/large.bin"));
+		expect(all.equals(data)).toBe(true);
+
+		const part = await collect(
+			dbfs.fs.createReadStream("/large.bin", { start: 5, end: 20 }),
+		);
+		expect(part.equals(data.subarray(5, 21))).toBe(true);
+	});
+
+	it("should stream writes into chunked storage", async () => {
+		const pieces = [
+			data.subarray(0, 7),
+			data.subarray(7, 50),
+			data.subarray(50),
+		];
+		await pipeline(
+			Readable.from(pieces),
+			dbfs.fs.createWriteStream("/streamed.bin"),
+		);
+
+		const read = await dbfs.fs.readFileBuffer("/streamed.bin");
+		expect(read.equals(data)).toBe(true);
+
+		const versions = await dbfs.fs.listVersions("/streamed.bin");
+		expect(versions).toHaveLength(1);
+	});
+
+	it("should store the same hash for streamed and buffered writes", async () => {
+		await dbfs.fs.writeFile("/buffered.bin", data);
+		await pipeline(
+			Readable.from([data]),
+			dbfs.fs.createWriteStream("/streamed.bin"),
+		);
+
+		const buffered = await dbfs.driver.findNodeByPath("/buffered.bin");
+		const streamed = await dbfs.driver.findNodeByPath("/streamed.bin");
+		expect(streamed?.contentHash).toBe(buffered?.contentHash);
+	});
+
+	it("should index streamed text for search", async () => {
+		await pipeline(
+			Readable.from([Buffer.from("streaming searchable words ".repeat(5))]),
+			dbfs.fs.createWriteStream("/notes.txt"),
+		);
+
+		const { results } = await dbfs.fs.search("searchable");
+		expect(results.map((r) => r.path)).toEqual(["/notes.txt"]);
+	});
+
+	it("should keep a streamed write made while a transaction aborts", async () => {
+		const aborted = dbfs.fs.transaction(async (tx) => {
+			await tx.writeFile("/draft.txt", "draft");
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			throw new Error("abort");
+		});
+		const streamed = pipeline(
+			Readable.from([data.subarray(0, 50), data.subarray(50)]),
+			dbfs.fs.createWriteStream("/streamed.bin"),
+		);
+
+		await expect(aborted).rejects.toThrow("abort");
+		await streamed;
+		expect((await dbfs.fs.readFileBuffer("/streamed.bin")).equals(data)).toBe(
+			true,
+		);
+		expect(await dbfs.fs.exists("/draft.txt")).toBe(false);
+	});
+
+	it("should release chunks when a streamed write fails", async () => {
+		const stream = dbfs.fs.createWriteStream("/missing/file.bin");
+		await expect(pipeline(Readable.from([data]), stream)).rejects.toThrow(
+			"Parent directory not found",
+		);
+
+		await dbfs.garbageCollect();
+		const chunks = await dbfs.driver.findContentChunks(
+			FileSystemUtils.hashContent(data.subarray(0, CHUNK_SIZE)),
+			0,
+			CHUNK_SIZE,
+		);
+		expect(chunks).toHaveLength(0);
+	});
+
+	it("should garbage collect chunks once no file references them", async () => {
+		await dbfs.fs.writeFile("/large.bin", data);
+		await dbfs.fs.unlink("/large.bin");
+		await dbfs.fs.emptyTrash();
+
+		const collected = await dbfs.garbageCollect();
+		expect(collected).toBe(Math.ceil(data.length / CHUNK_SIZE) + 1);
+	});
+});
@@ -0,0 +1,32 @@
+import BetterSqlite3 from "better-sqlite3";
+import pg from "pg";
+import { runDriverConformance } from "../../src/testing.js";
+import { MemoryDriver } from "../../src/drivers/memory.js";
+import { SqliteDriver } from "../../src/drivers/sqlite.js";
+import { PostgresDriver } from "../../src/drivers/pg.js";
+
+runDriverConformance(() => new MemoryDriver(), { name: "memory" });
+
+runDriverConformance(() => new SqliteDriver(new BetterSqlite3(":memory:")), {
+	name: "sqlite",
+});
+
+// Needs a database with the schema pushed (`pnpm db:push`)
+const connectionString = process.env.PGFS_TEST_DATABASE_URL;
+if (connectionString) {
+	let pool: pg.Pool;
+
+	runDriverConformance(
+		async () => {
+			pool = new pg.Pool({ connectionString });
+			await pool.query(
+				"TRUNCATE nodes, content_blocks, content_chunks, search_index, versions, audit_log, trash, snapshots CASCADE",
+			);
+			return new PostgresDriver(pool);
+		},
+		{
+			name: "postgresql",
+			destroyDriver: async () => await pool.end(),
+		},
+	);
+}
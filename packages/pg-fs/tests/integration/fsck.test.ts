@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+	DbFs,
+	FileSystemUtils,
+	PermissionDeniedError,
+} from "../../src/index.js";
+
+const CHUNK_SIZE = 16;
+const large = Buffer.from("0123456789abcdef".repeat(4) + "tail");
+
+for (const dialect of ["sqlite", "memory"] as const) {
+	describe(`DbFileSystem.fsck (${dialect})`, () => {
+		let dbfs: DbFs;
+
+		beforeEach(async () => {
+			dbfs = await DbFs.create({ dialect, chunkSize: CHUNK_SIZE });
+		});
+
+		it("should find nothing wrong after ordinary use", async () => {
+			await dbfs.fs.writeFile("/src/a.ts", "a", { createParents: true });
+			await dbfs.fs.writeFile("/src/a.ts", "a2");
+			await dbfs.fs.writeFile("/src/large.bin", large);
+			await dbfs.fs.copy("/src", "/copy", { recursive: true });
+			await dbfs.fs.snapshot("/src", "before");
+			await dbfs.fs.unlink("/copy/a.ts");
+			await dbfs.fs.fork("/src", "/branch");
+			await dbfs.fs.restoreSnapshot("before");
+
+			expect(await dbfs.fs.fsck()).toEqual({
+				refCounts: [],
+				orphans: [],
+				dangling: [],
+				reclaimed: 0,
+			});
+		});
+
+		it("should release every descendant on a permanent recursive delete", async () => {
+			await dbfs.fs.mkdir("/tmp/nested", { recursive: true });
+			await dbfs.fs.writeFile("/tmp/a.txt", "a");
+			await dbfs.fs.writeFile("/tmp/nested/b.txt", "b");
+			await dbfs.fs.writeFile("/tmp/nested/b.txt", "b2");
+			await dbfs.fs.writeFile("/tmp/nested/large.bin", large);
+
+			await dbfs.fs.unlink("/tmp", { recursive: true, permanent: true });
+
+			// Three small files, and two distinct chunks plus the manifest
+			expect(await dbfs.garbageCollect()).toBe(6);
+			expect((await dbfs.fs.fsck()).refCounts).toEqual([]);
+			expect((await dbfs.fs.diskUsage()).storedBytes).toBe(0);
+		});
+
+		it("should share content between a copy and its source", async () => {
+			await dbfs.fs.writeFile("/large.bin", large, { mimeType: "x/y" });
+			const { storedBytes } = await dbfs.fs.diskUsage();
+
+			await dbfs.fs.copy("/large.bin", "/copy.bin");
+			expect((await dbfs.fs.diskUsage()).storedBytes).toBe(storedBytes);
+			expect((await dbfs.fs.readFileBuffer("/copy.bin")).equals(large)).toBe(
+				true,
+			);
+			expect((await dbfs.fs.stat("/copy.bin")).mimeType).toBe("x/y");
+
+			await dbfs.fs.unlink("/large.bin", { permanent: true });
+			expect(await dbfs.garbageCollect()).toBe(0);
+			await dbfs.fs.unlink("/copy.bin", { permanent: true });
+			expect(await dbfs.garbageCollect()).toBeGreaterThan(0);
+		});
+
+		it("should copy directories larger than a listing page", async () => {
+			await dbfs.fs.transaction(async (tx) => {
+				for (let i = 0; i < 505; i++) {
+					await tx.writeFile(`/many/${i}.txt`, "same", {
+						createParents: true,
+					});
+				}
+			});
+
+			await dbfs.fs.copy("/many", "/copy", { recursive: true });
+			expect((await dbfs.fs.readdir("/copy", { limit: 1 })).total).toBe(505);
+			expect((await dbfs.fs.fsck()).refCounts).toEqual([]);
+		});
+
+		it("should reject copying a directory into itself", async () => {
+			await dbfs.fs.writeFile("/src/a.ts", "a", { createParents: true });
+
+			for (const dest of ["/src", "/src/copy", "/src/copy/deeper"]) {
+				await expect(
+					dbfs.fs.copy("/src", dest, { recursive: true }),
+				).rejects.toThrow("Cannot copy a directory into itself");
+			}
+			await expect(
+				dbfs.fs.copy("/", "/backup", { recursive: true }),
+			).rejects.toThrow("Cannot copy a directory into itself");
+			expect((await dbfs.fs.readdir("/src")).items).toEqual(["a.ts"]);
+		});
+
+		it("should report and repair wrong reference counts", async () => {
+			await dbfs.fs.writeFile("/kept.txt", "kept");
+			const kept = FileSystemUtils.hashContent("kept");
+			const leaked = await dbfs.driver.getOrCreateContent(Buffer.from("leak"));
+			await dbfs.driver.setRefCount(kept, 7);
+
+			const report = await dbfs.fs.fsck();
+			expect(report.refCounts).toEqual(
+				expect.arrayContaining([
+					{ hash: kept, stored: 7, actual: 2 },
+					{ hash: leaked, stored: 1, actual: 0 },
+				]),
+			);
+			expect(report.orphans).toEqual([leaked]);
+			expect(await dbfs.garbageCollect()).toBe(0);
+
+			expect(await dbfs.fs.fsck({ repair: true })).toMatchObject({
+				orphans: [leaked],
+				reclaimed: 1,
+			});
+			expect((await dbfs.fs.fsck()).refCounts).toEqual([]);
+			expect((await dbfs.fs.readFile("/kept.txt")).content).toBe("kept");
+		});
+
+		it("should be reserved for callers without a principal", async () => {
+			const alice = dbfs.withPrincipal({ user: "alice" });
+			await expect(alice.fs.fsck()).rejects.toBeInstanceOf(
+				PermissionDeniedError,
+			);
+		});
+	});
+}
+
+describe("DbFileSystem.fsck dangling content (memory)", () => {
+	it("should fall back to the newest intact version of a file", async () => {
+		const dbfs = await DbFs.create({ dialect: "memory" });
+		await dbfs.fs.writeFile("/notes.md", "one");
+		await dbfs.fs.writeFile("/notes.md", "two");
+		await dbfs.fs.writeFile("/empty.md", "gone");
+		// Lose the content of both files' latest versions
+		for (const text of ["two", "gone"]) {
+			await dbfs.driver.setRefCount(FileSystemUtils.hashContent(text), 0);
+		}
+		await dbfs.garbageCollect();
+
+		const report = await dbfs.fs.fsck({ repair: true });
+		expect(report.dangling).toEqual(
+			expect.arrayContaining([
+				{
+					hash: FileSystemUtils.hashContent("two"),
+					source: "node",
+					path: "/notes.md",
+				},
+				{
+					hash: FileSystemUtils.hashContent("gone"),
+					source: "version",
+					path: "/empty.md",
+				},
+			]),
+		);
+		expect((await dbfs.fs.readFile("/notes.md")).content).toBe("one");
+		expect((await dbfs.fs.readFile("/empty.md")).content).toBe("");
+		expect((await dbfs.fs.fsck()).refCounts).toEqual([]);
+	});
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createSqliteFs, type DbFs } from "../../src/index.js";
+
+describe("DbFileSystem glob (SQLite)", () => {
+	let dbfs: DbFs;
+
+	beforeEach(async () => {
+		dbfs = await createSqliteFs();
+		for (const path of [
+			"/src/index.ts",
+			"/src/app/page.tsx",
+			"/src/app/util.js",
+			"/README.md",
+		]) {
+			await dbfs.fs.writeFile(path, path, { createParents: true });
+		}
+	});
+
+	it("should match recursively with **", async () => {
+		const { matches } = await dbfs.fs.glob("src/**/*.ts");
+		expect(matches).toEqual(["/src/index.ts"]);
+	});
+
+	it("should match brace alternatives", async () => {
+		const { matches } = await dbfs.fs.glob("**/*.{ts,tsx}");
+		expect(matches.sort()).toEqual(["/src/app/page.tsx", "/src/index.ts"]);
+	});
+
+	it("should match relative to the base path", async () => {
+		const { matches } = await dbfs.fs.glob("*.js", "/src/app");
+		expect(matches).toEqual(["/src/app/util.js"]);
+	});
+
+	it("should sort matches by modification time, newest first", async () => {
+		await new Promise((resolve) => setTimeout(resolve, 1100));
+		await dbfs.fs.writeFile("/src/index.ts", "updated");
+
+		const { matches } = await dbfs.fs.glob("**/*.{ts,tsx}");
+		expect(matches[0]).toBe("/src/index.ts");
+	});
+});
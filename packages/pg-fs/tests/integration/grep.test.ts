@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createSqliteFs, type DbFs } from "../../src/index.js";
+
+describe("DbFileSystem grep (SQLite)", () => {
+	let dbfs: DbFs;
+
+	beforeEach(async () => {
+		dbfs = await createSqliteFs();
+		await dbfs.fs.writeFile(
+			"/src/app.ts",
+			["import x from 'x';", "// TODO: fix", "const a = 1;", "// todo later"].join(
+				"\n",
+			),
+			{ createParents: true },
+		);
+		await dbfs.fs.writeFile("/src/notes.md", "TODO: write docs", {
+			createParents: true,
+		});
+		await dbfs.fs.writeFile("/other.ts", "nothing here");
+	});
+
+	it("should return matching lines with line numbers", async () => {
+		const { files } = await dbfs.fs.grep("TODO");
+		expect(files.map((f) => f.path)).toEqual(["/src/app.ts", "/src/notes.md"]);
+		expect(files[0].lines).toEqual([
+			{ line: 2, text: "// TODO: fix", match: true },
+		]);
+	});
+
+	it("should support case-insensitive regexes", async () => {
+		const { files } = await dbfs.fs.grep("//\\s+todo", {
+			caseSensitive: false,
+		});
+		expect(files[0].matchCount).toBe(2);
+	});
+
+	it("should include context lines", async () => {
+		const { files } = await dbfs.fs.grep("TODO", {
+			include: "*.ts",
+			before: 1,
+			after: 1,
+		});
+		expect(files).toHaveLength(1);
+		expect(files[0].lines.map((l) => [l.line, l.match])).toEqual([
+			[1, false],
+			[2, true],
+			[3, false],
+		]);
+	});
+
+	it("should filter files with an include glob", async () => {
+		const { files } = await dbfs.fs.grep("TODO", { include: "*.md" });
+		expect(files.map((f) => f.path)).toEqual(["/src/notes.md"]);
+	});
+
+	it("should report whether more files match than the limit", async () => {
+		const first = await dbfs.fs.grep("TODO", { limit: 1 });
+		expect(first.files.map((f) => f.path)).toEqual(["/src/app.ts"]);
+		expect(first.hasMore).toBe(true);
+		expect(first).not.toHaveProperty("total");
+
+		expect((await dbfs.fs.grep("TODO", { limit: 2 })).hasMore).toBe(false);
+	});
+
+	it("should reject invalid regexes", async () => {
+		await expect(dbfs.fs.grep("(unclosed")).rejects.toThrow(
+			"Invalid regex pattern",
+		);
+	});
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+	createFileSystemTools,
+	DbFs,
+	SymlinkLoopError,
+} from "../../src/index.js";
+
+const call = async (tool: any, input: Record<string, unknown>) =>
+	await tool.execute(input, { toolCallId: "1", messages: [] });
+
+for (const dialect of ["sqlite", "memory"] as const) {
+	describe(`DbFileSystem links (${dialect})`, () => {
+		let dbfs: DbFs;
+
+		beforeEach(async () => {
+			dbfs = await DbFs.create({ dialect });
+			await dbfs.fs.writeFile("/releases/v1/app.js", "v1", {
+				createParents: true,
+			});
+			await dbfs.fs.writeFile("/releases/v2/app.js", "v2", {
+				createParents: true,
+			});
+		});
+
+		it("should resolve paths through a symbolic link", async () => {
+			await dbfs.fs.symlink("/releases/v1", "/current");
+
+			expect((await dbfs.fs.readFile("/current/app.js")).content).toBe("v1");
+			expect((await dbfs.fs.readdir("/current")).items).toEqual(["app.js"]);
+			expect(await dbfs.fs.realpath("/current/app.js")).toBe(
+				"/releases/v1/app.js",
+			);
+
+			await dbfs.fs.writeFile("/current/new.js", "new");
+			expect(await dbfs.fs.exists("/releases/v1/new.js")).toBe(true);
+
+			// Switching releases only replaces the link
+			await dbfs.fs.unlink("/current", { permanent: true });
+			await dbfs.fs.symlink("/releases/v2", "/current");
+			expect((await dbfs.fs.readFile("/current/app.js")).content).toBe("v2");
+			expect(await dbfs.fs.exists("/releases/v1/app.js")).toBe(true);
+		});
+
+		it("should resolve relative targets against the link's directory", async () => {
+			await dbfs.fs.symlink("../v2/app.js", "/releases/v1/next.js");
+
+			expect((await dbfs.fs.readFile("/releases/v1/next.js")).content).toBe(
+				"v2",
+			);
+			expect(await dbfs.fs.readlink("/releases/v1/next.js")).toBe(
+				"../v2/app.js",
+			);
+		});
+
+		it("should describe the link itself with lstat", async () => {
+			await dbfs.fs.symlink("/releases/v1", "/current");
+
+			const link = await dbfs.fs.lstat("/current");
+			expect(link.isSymbolicLink).toBe(true);
+			expect(link.isDirectory).toBe(false);
+			expect(link.linkTarget).toBe("/releases/v1");
+
+			const target = await dbfs.fs.stat("/current");
+			expect(target.isSymbolicLink).toBe(false);
+			expect(target.isDirectory).toBe(true);
+			expect(target.path).toBe("/releases/v1");
+
+			await expect(dbfs.fs.readlink("/releases")).rejects.toThrow(
+				"Not a symbolic link",
+			);
+		});
+
+		it("should allow dangling links and fail on loops", async () => {
+			await dbfs.fs.symlink("/missing", "/dangling");
+			expect(await dbfs.fs.exists("/dangling")).toBe(false);
+			expect((await dbfs.fs.lstat("/dangling")).isSymbolicLink).toBe(true);
+
+			await dbfs.fs.symlink("/b", "/a");
+			await dbfs.fs.symlink("/a", "/b");
+			await expect(dbfs.fs.readFile("/a")).rejects.toThrow(SymlinkLoopError);
+			await expect(dbfs.fs.readFile("/a/file")).rejects.toMatchObject({
+				code: "ELOOP",
+			});
+			expect(await dbfs.fs.exists("/a")).toBe(false);
+		});
+
+		it("should keep symbolic links through snapshots, forks and copies", async () => {
+			await dbfs.fs.symlink("app.js", "/releases/v1/main.js");
+			await dbfs.fs.snapshot("/releases", "before");
+
+			await dbfs.fs.unlink("/releases/v1/main.js");
+			await dbfs.fs.restoreSnapshot("before");
+			expect(await dbfs.fs.readlink("/releases/v1/main.js")).toBe("app.js");
+
+			await dbfs.fs.fork("/releases", "/fork");
+			await dbfs.fs.copy("/releases", "/copy", { recursive: true });
+			for (const root of ["/fork", "/copy"]) {
+				expect(await dbfs.fs.readlink(`${root}/v1/main.js`)).toBe("app.js");
+				expect(await dbfs.fs.realpath(`${root}/v1/main.js`)).toBe(
+					`${root}/v1/app.js`,
+				);
+			}
+		});
+
+		it("should share content and writes between hard links", async () => {
+			await dbfs.fs.link("/releases/v1/app.js", "/app.js");
+			const { storedBytes } = await dbfs.fs.diskUsage();
+
+			await dbfs.fs.writeFile("/app.js", "patched");
+			expect((await dbfs.fs.readFile("/releases/v1/app.js")).content).toBe(
+				"patched",
+			);
+			expect((await dbfs.fs.stat("/app.js")).nlink).toBe(2);
+			expect((await dbfs.fs.stat("/releases/v2/app.js")).nlink).toBe(1);
+			expect((await dbfs.fs.diskUsage()).storedBytes).toBeLessThanOrEqual(
+				storedBytes + "patched".length,
+			);
+
+			await dbfs.fs.unlink("/releases/v1/app.js", { permanent: true });
+			expect((await dbfs.fs.readFile("/app.js")).content).toBe("patched");
+			expect((await dbfs.fs.stat("/app.js")).nlink).toBe(1);
+			expect((await dbfs.fs.fsck()).refCounts).toEqual([]);
+
+			await expect(dbfs.fs.link("/releases", "/dir")).rejects.toThrow(
+				"Not a file",
+			);
+		});
+
+		it("should expose links as tools within the path policy", async () => {
+			const tools = createFileSystemTools(dbfs.fs, {
+				allow: ["/releases/v1/**", "/work/**"],
+			});
+			await dbfs.fs.mkdir("/work");
+
+			expect(
+				await call(tools.symlink, {
+					target: "/releases/v1",
+					link_path: "/work/current",
+				}),
+			).toMatchObject({ success: true });
+			expect(
+				await call(tools.readlink, { path: "/work/current" }),
+			).toMatchObject({ success: true, target: "/releases/v1" });
+			expect(
+				await call(tools.read, { file_path: "/work/current/app.js" }),
+			).toMatchObject({ success: true, content: "v1" });
+
+			// Neither a new link nor an existing one may lead out of the policy
+			expect(
+				await call(tools.symlink, {
+					target: "../releases/v2",
+					link_path: "/work/other",
+				}),
+			).toMatchObject({ success: false, code: "EPERM" });
+			await dbfs.fs.symlink("/releases/v2", "/work/escape");
+			expect(
+				await call(tools.read, { file_path: "/work/escape/app.js" }),
+			).toMatchObject({ success: false, code: "EPERM" });
+
+			expect(
+				await call(tools.link, {
+					existing_path: "/releases/v1/app.js",
+					new_path: "/work/app.js",
+				}),
+			).toMatchObject({ success: true });
+			expect(
+				await call(tools.link, {
+					existing_path: "/releases/v2/app.js",
+					new_path: "/work/v2.js",
+				}),
+			).toMatchObject({ success: false, code: "EPERM" });
+		});
+	});
+}
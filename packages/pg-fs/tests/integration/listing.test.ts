@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createFileSystemTools, DbFs } from "../../src/index.js";
+
+const call = async (tool: any, input: Record<string, unknown>) =>
+	await tool.execute(input, { toolCallId: "1", messages: [] });
+
+for (const dialect of ["sqlite", "memory"] as const) {
+	describe(`DbFileSystem listings (${dialect})`, () => {
+		let dbfs: DbFs;
+
+		beforeEach(async () => {
+			dbfs = await DbFs.create({ dialect });
+			await dbfs.fs.writeFile("/src/b.ts", "bb", { createParents: true });
+			await dbfs.fs.writeFile("/src/a.md", "aaa");
+			await dbfs.fs.writeFile("/src/lib/c.ts", "c", { createParents: true });
+			await dbfs.fs.writeFile("/src/lib/d.json", "{}");
+		});
+
+		it("should list directories first, then by name, by default", async () => {
+			expect((await dbfs.fs.readdir("/src")).items).toEqual([
+				"lib",
+				"a.md",
+				"b.ts",
+			]);
+		});
+
+		it("should sort by the given key and order", async () => {
+			const bySize = await dbfs.fs.readdir("/src", {
+				sortBy: "size",
+				order: "desc",
+			});
+			expect(bySize.items).toEqual(["a.md", "b.ts", "lib"]);
+
+			const byName = await dbfs.fs.readdirStats("/src", { order: "desc" });
+			expect(byName.items.map((s) => s.name)).toEqual(["lib", "b.ts", "a.md"]);
+		});
+
+		it("should list recursively with relative paths", async () => {
+			const result = await dbfs.fs.readdir("/src", { recursive: true });
+			expect(result.items).toEqual([
+				"a.md",
+				"b.ts",
+				"lib",
+				"lib/c.ts",
+				"lib/d.json",
+			]);
+			expect(result.total).toBe(5);
+
+			const root = await dbfs.fs.readdirStats("/", { recursive: true });
+			expect(root.items.map((s) => s.path)).toContain("/src/lib/d.json");
+			expect(root.items.map((s) => s.path)).not.toContain("/");
+		});
+
+		it("should filter by pattern", async () => {
+			expect(
+				(await dbfs.fs.readdir("/src", { pattern: "*.ts" })).items,
+			).toEqual(["b.ts"]);
+			expect(
+				(await dbfs.fs.readdir("/src", { pattern: "*.ts", recursive: true }))
+					.items,
+			).toEqual(["b.ts", "lib/c.ts"]);
+			expect(
+				(await dbfs.fs.readdir("/src", { pattern: "lib/*", recursive: true }))
+					.items,
+			).toEqual(["lib/c.ts", "lib/d.json"]);
+		});
+
+		it("should paginate after sorting and filtering", async () => {
+			const page = await dbfs.fs.readdir("/src", {
+				recursive: true,
+				limit: 2,
+				offset: 2,
+			});
+			expect(page).toEqual({
+				items: ["lib", "lib/c.ts"],
+				total: 5,
+				hasMore: true,
+				offset: 2,
+				limit: 2,
+			});
+		});
+
+		it("should leave out what the principal cannot read", async () => {
+			await dbfs.fs.chmod("/src/lib", "0700");
+			const bob = dbfs.withPrincipal({ user: "bob" });
+
+			const result = await bob.fs.readdir("/src", { recursive: true });
+			expect(result.items).toEqual(["a.md", "b.ts", "lib"]);
+
+			// Pages and totals count only the visible entries
+			expect(
+				await bob.fs.readdir("/src", { recursive: true, limit: 2 }),
+			).toMatchObject({ items: ["a.md", "b.ts"], total: 3, hasMore: true });
+			expect(
+				await bob.fs.readdir("/src", { recursive: true, offset: 2 }),
+			).toMatchObject({ items: ["lib"], total: 3, hasMore: false });
+		});
+
+		it("should fill find and glob results past hidden entries", async () => {
+			await dbfs.fs.writeFile("/src/z.ts", "z");
+			// The hidden files come first by path and by modification time
+			for (const path of ["/src/lib/c.ts", "/src/lib/d.json"]) {
+				await dbfs.fs.writeFile(path, "changed");
+			}
+			for (const path of ["/src/lib/c.ts", "/src/lib/d.json", "/src/z.ts"]) {
+				await dbfs.fs.tag(path, ["todo"]);
+			}
+			await dbfs.fs.chmod("/src/lib", "0700");
+			const bob = dbfs.withPrincipal({ user: "bob" });
+
+			const found = await bob.fs.find({ tags: ["todo"], limit: 1 });
+			expect(found.items.map((s) => s.path)).toEqual(["/src/z.ts"]);
+			expect(found.hasMore).toBe(false);
+
+			const globbed = await bob.fs.glob("**/{c,d,z}.*", "/src", 1);
+			expect(globbed.matches).toEqual(["/src/z.ts"]);
+			expect(globbed.hasMore).toBe(false);
+		});
+
+		it("should expose the options through the ls tool", async () => {
+			// lib/c.ts matches the pattern but not the policy
+			const tools = createFileSystemTools(dbfs.fs, {
+				allow: ["/src", "/src/*"],
+			});
+
+			expect(
+				await call(tools.ls, {
+					path: "/src",
+					recursive: true,
+					pattern: "*.ts",
+				}),
+			).toMatchObject({
+				success: true,
+				items: ["b.ts"],
+				hasMore: false,
+			});
+			expect(
+				await call(tools.ls, { path: "/src", recursive: true, limit: 2 }),
+			).toMatchObject({ items: ["a.md", "b.ts"], hasMore: true });
+			expect(
+				await call(tools.ls, {
+					path: "/src",
+					recursive: true,
+					offset: 2,
+					limit: 2,
+				}),
+			).toMatchObject({ items: ["lib"], hasMore: false });
+			expect(
+				await call(tools.ls, {
+					path: "/src",
+					detailed: true,
+					sort_by: "size",
+					order: "desc",
+				}),
+			).toMatchObject({
+				success: true,
+				items: [
+					{ name: "a.md", size: 3 },
+					{ name: "b.ts", size: 2 },
+					{ name: "lib", type: "directory" },
+				],
+			});
+		});
+	});
+}
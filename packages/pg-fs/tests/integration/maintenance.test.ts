@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+	DbFs,
+	FileSystemUtils,
+	type MaintenanceOptions,
+	type MaintenanceRun,
+} from "../../src/index.js";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+const LONG_AGO = new Date("2024-01-01T00:00:00Z");
+
+describe("Maintenance (SQLite)", () => {
+	let dbfs: DbFs;
+	let runs: MaintenanceRun[];
+
+	const create = async (options: MaintenanceOptions = {}) => {
+		dbfs = await DbFs.create({
+			dialect: "sqlite",
+			maintenance: {
+				intervalMs: 60_000,
+				...options,
+				onRun: (run) => runs.push(run),
+			},
+		});
+		return dbfs.maintenance!;
+	};
+
+	beforeEach(() => {
+		runs = [];
+	});
+
+	afterEach(async () => {
+		await dbfs.maintenance?.stop();
+	});
+
+	it("should write access times of reads in batches", async () => {
+		const maintenance = await create();
+		await dbfs.fs.writeFile("/a.txt", "a");
+		const { id } = (await dbfs.driver.findNodeByPath("/a.txt"))!;
+		await dbfs.driver.touchNodes([id], LONG_AGO);
+
+		await dbfs.fs.readFile("/a.txt");
+		await dbfs.fs.readFileBuffer("/a.txt");
+		expect((await dbfs.fs.stat("/a.txt")).accessedAt).toEqual(LONG_AGO);
+
+		expect(await maintenance.flushAccessTimes()).toBe(2);
+		const { accessedAt } = await dbfs.fs.stat("/a.txt");
+		expect(accessedAt.getTime()).toBeGreaterThan(LONG_AGO.getTime());
+		expect(await maintenance.flushAccessTimes()).toBe(0);
+		expect(runs.map((r) => [r.task, r.workspace, r.count])).toEqual([
+			["accessTimes", "default", 2],
+		]);
+	});
+
+	it("should collect garbage once enough files changed", async () => {
+		const maintenance = await create({
+			gcThreshold: 2,
+			contentRetentionMs: 0,
+		});
+		await dbfs.fs.writeFile("/a.txt", "one");
+		await dbfs.fs.writeFile("/a.txt", "two");
+		await flush();
+		await maintenance.tick();
+		expect(runs).toEqual([]);
+
+		await dbfs.fs.unlink("/a.txt", { permanent: true });
+		await flush();
+		await maintenance.tick();
+		expect(runs).toMatchObject([{ task: "garbageCollect", count: 2 }]);
+
+		await maintenance.tick();
+		expect(runs).toHaveLength(1);
+	});
+
+	it("should collect garbage on an interval", async () => {
+		await create({ intervalMs: 5, gcIntervalMs: 0, contentRetentionMs: 0 });
+		await dbfs.fs.writeFile("/a.txt", "a");
+		await dbfs.fs.unlink("/a.txt", { permanent: true });
+
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(runs.filter((r) => r.task === "garbageCollect")).not.toEqual([]);
+		expect((await dbfs.fs.diskUsage()).storedBytes).toBe(0);
+	});
+
+	it("should keep unreferenced content that was recently used", async () => {
+		const maintenance = await create();
+		await dbfs.fs.writeFile("/a.txt", "a");
+		await dbfs.fs.unlink("/a.txt", { permanent: true });
+
+		expect(await maintenance.garbageCollect()).toBe(0);
+		await dbfs.driver.touchContent(
+			[FileSystemUtils.hashContent("a")],
+			LONG_AGO,
+		);
+		expect(await maintenance.garbageCollect()).toBe(1);
+	});
+
+	it("should report failed tasks and retry them later", async () => {
+		const maintenance = await create({ gcIntervalMs: 0 });
+		const gc = vi
+			.spyOn(Object.getPrototypeOf(dbfs.driver), "garbageCollect")
+			.mockRejectedValueOnce(new Error("database is locked"));
+
+		await maintenance.tick();
+		expect(runs).toMatchObject([
+			{ task: "garbageCollect", error: { message: "database is locked" } },
+		]);
+		await maintenance.tick();
+		expect(runs[1]).toMatchObject({ task: "garbageCollect", count: 0 });
+		expect(runs[1].error).toBeUndefined();
+		gc.mockRestore();
+	});
+
+	it("should warn of failed tasks without onRun", async () => {
+		dbfs = await DbFs.create({
+			dialect: "sqlite",
+			maintenance: { intervalMs: 60_000, gcIntervalMs: 0 },
+		});
+		const gc = vi
+			.spyOn(Object.getPrototypeOf(dbfs.driver), "garbageCollect")
+			.mockRejectedValueOnce(new Error("database is locked"));
+		const warnings: Error[] = [];
+		const onWarning = (warning: Error) => warnings.push(warning);
+		process.on("warning", onWarning);
+
+		await dbfs.maintenance!.tick();
+		await flush();
+		process.off("warning", onWarning);
+		gc.mockRestore();
+
+		expect(warnings).toMatchObject([
+			{
+				name: "MaintenanceWarning",
+				message: "Maintenance task failed: database is locked",
+			},
+		]);
+	});
+
+	it("should rebuild search indexes", async () => {
+		const maintenance = await create();
+		await dbfs.fs.writeFile("/notes.md", "remember the milk");
+		const { id } = (await dbfs.driver.findNodeByPath("/notes.md"))!;
+		await dbfs.driver.updateSearchIndex(id, "/notes.md", "");
+		expect((await dbfs.fs.search("milk")).results).toEqual([]);
+
+		expect(await maintenance.rebuildSearchIndexes()).toBe(1);
+		expect((await dbfs.fs.search("milk")).results).toMatchObject([
+			{ path: "/notes.md" },
+		]);
+		expect(runs).toMatchObject([{ task: "searchIndex", count: 1 }]);
+	});
+
+	it("should cover scoped workspaces", async () => {
+		const maintenance = await create();
+		const other = await dbfs.scope("other");
+		expect(other.maintenance).toBe(maintenance);
+
+		await other.fs.writeFile("/a.txt", "a");
+		await other.fs.readFile("/a.txt");
+		await maintenance.flushAccessTimes();
+		expect(runs.map((r) => [r.task, r.workspace])).toEqual([
+			["accessTimes", "other"],
+		]);
+	});
+
+	it("should write access times right away without maintenance", async () => {
+		dbfs = await DbFs.create({ dialect: "sqlite" });
+		await dbfs.fs.writeFile("/a.txt", "a");
+		const { id } = (await dbfs.driver.findNodeByPath("/a.txt"))!;
+		await dbfs.driver.touchNodes([id], LONG_AGO);
+
+		await dbfs.fs.readFile("/a.txt");
+		expect((await dbfs.fs.stat("/a.txt")).accessedAt).not.toEqual(LONG_AGO);
+	});
+});
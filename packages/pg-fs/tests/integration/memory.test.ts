@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+	createMemoryFs,
+	MemoryDriver,
+	type DbFs,
+	type MemorySnapshot,
+} from "../../src/index.js";
+
+describe("DbFileSystem (memory)", () => {
+	let dbfs: DbFs;
+
+	beforeEach(async () => {
+		dbfs = await createMemoryFs();
+	});
+
+	it("should write, read and list files", async () => {
+		await dbfs.fs.writeFile("/src/index.ts", "export {};", {
+			createParents: true,
+		});
+
+		const { content } = await dbfs.fs.readFile("/src/index.ts");
+		expect(content).toBe("export {};");
+
+		const { items } = await dbfs.fs.readdir("/src");
+		expect(items).toEqual(["index.ts"]);
+	});
+
+	it("should rename directories with their children", async () => {
+		await dbfs.fs.writeFile("/a/b/c.txt", "c", { createParents: true });
+		await dbfs.fs.rename("/a", "/z");
+
+		expect(await dbfs.fs.exists("/a/b/c.txt")).toBe(false);
+		expect((await dbfs.fs.readFile("/z/b/c.txt")).content).toBe("c");
+	});
+
+	it("should cascade recursive deletes", async () => {
+		await dbfs.fs.writeFile("/dir/sub/file.txt", "data", {
+			createParents: true,
+		});
+		await dbfs.fs.unlink("/dir", { recursive: true });
+
+		expect(await dbfs.fs.exists("/dir/sub")).toBe(false);
+		expect(await dbfs.fs.exists("/dir/sub/file.txt")).toBe(false);
+		expect(await dbfs.driver.findNodesByGlob("/", ".*", 10)).toHaveLength(1);
+	});
+
+	it("should collect content no file references", async () => {
+		await dbfs.fs.writeFile("/file.txt", "data");
+		await dbfs.fs.unlink("/file.txt");
+		await dbfs.fs.emptyTrash();
+
+		expect(await dbfs.garbageCollect()).toBe(1);
+	});
+
+	it("should roll back failed transactions", async () => {
+		await dbfs.fs.writeFile("/kept.txt", "v1");
+
+		await expect(
+			dbfs.fs.transaction(async (tx) => {
+				await tx.writeFile("/kept.txt", "v2");
+				await tx.writeFile("/new.txt", "new");
+				throw new Error("boom");
+			}),
+		).rejects.toThrow("boom");
+
+		expect((await dbfs.fs.readFile("/kept.txt")).content).toBe("v1");
+		expect(await dbfs.fs.exists("/new.txt")).toBe(false);
+		expect(await dbfs.fs.listVersions("/kept.txt")).toHaveLength(1);
+	});
+
+	it("should keep committed savepoints and drop failed ones", async () => {
+		await dbfs.fs.transaction(async (tx) => {
+			await tx.writeFile("/kept.txt", "kept");
+			await expect(tx.writeFile("/missing/file.txt", "x")).rejects.toThrow(
+				"Parent directory not found",
+			);
+		});
+
+		expect(await dbfs.fs.exists("/kept.txt")).toBe(true);
+		expect(await dbfs.garbageCollect()).toBe(0);
+	});
+
+	it("should glob and grep", async () => {
+		await dbfs.fs.writeFile("/src/a.ts", "// TODO: a", {
+			createParents: true,
+		});
+		await dbfs.fs.writeFile("/src/b.js", "// TODO: b");
+
+		const { matches } = await dbfs.fs.glob("**/*.ts");
+		expect(matches).toEqual(["/src/a.ts"]);
+
+		const { files } = await dbfs.fs.grep("TODO", { include: "*.js" });
+		expect(files.map((f) => f.path)).toEqual(["/src/b.js"]);
+	});
+
+	it("should rank full-text matches and mark hits in snippets", async () => {
+		await dbfs.fs.writeFile("/one.md", "garbage collection runs nightly");
+		await dbfs.fs.writeFile(
+			"/two.md",
+			"collection of notes about garbage collection",
+		);
+		await dbfs.fs.writeFile("/three.md", "nothing relevant here");
+
+		const { results } = await dbfs.fs.search('"garbage collection" -nightly');
+		expect(results.map((r) => r.path)).toEqual(["/two.md"]);
+		expect(results[0].snippet).toContain("**garbage** **collection**");
+
+		const prefixed = await dbfs.fs.search("collect*");
+		expect(prefixed.results).toHaveLength(2);
+	});
+
+	it("should restore state from a JSON snapshot", async () => {
+		await dbfs.fs.writeFile("/docs/readme.md", "hello", {
+			createParents: true,
+			metadata: { tags: ["intro"] },
+		});
+		await dbfs.fs.writeFile("/docs/readme.md", "hello again");
+		await dbfs.fs.writeFile("/bin/data", Buffer.from([0, 1, 2, 255]), {
+			createParents: true,
+		});
+
+		const snapshot = (dbfs.driver as MemoryDriver).snapshot();
+		const restored = await createMemoryFs(
+			JSON.parse(JSON.stringify(snapshot)) as MemorySnapshot,
+		);
+
+		expect((await restored.fs.readFile("/docs/readme.md")).content).toBe(
+			"hello again",
+		);
+		expect([...(await restored.fs.readFileBuffer("/bin/data"))]).toEqual([
+			0, 1, 2, 255,
+		]);
+		expect(await restored.fs.listVersions("/docs/readme.md")).toHaveLength(2);
+
+		const stats = await restored.fs.stat("/docs/readme.md");
+		expect(stats.modifiedAt).toBeInstanceOf(Date);
+
+		const { results } = await restored.fs.search("again");
+		expect(results.map((r) => r.path)).toEqual(["/docs/readme.md"]);
+	});
+
+	it("should keep snapshots independent of later writes", async () => {
+		await dbfs.fs.writeFile("/a.txt", "before");
+		const driver = dbfs.driver as MemoryDriver;
+		const snapshot = driver.snapshot();
+
+		await dbfs.fs.writeFile("/a.txt", "after");
+		driver.restore(snapshot);
+
+		expect((await dbfs.fs.readFile("/a.txt")).content).toBe("before");
+	});
+
+	it("should keep the trash in snapshots", async () => {
+		await dbfs.fs.writeFile("/docs/a.md", "a", { createParents: true });
+		await dbfs.fs.unlink("/docs", { recursive: true });
+
+		const snapshot = (dbfs.driver as MemoryDriver).snapshot();
+		const restored = await createMemoryFs(
+			JSON.parse(JSON.stringify(snapshot)) as MemorySnapshot,
+		);
+
+		await restored.fs.restore("/docs");
+		expect((await restored.fs.readFile("/docs/a.md")).content).toBe("a");
+		expect((await restored.fs.stat("/docs/a.md")).createdAt).toBeInstanceOf(
+			Date,
+		);
+	});
+
+	it("should restore snapshots taken before workspaces", async () => {
+		await dbfs.fs.writeFile("/docs/readme.md", "hello", {
+			createParents: true,
+		});
+		await dbfs.fs.writeFile("/docs/readme.md", "hello again");
+
+		const snapshot = JSON.parse(
+			JSON.stringify((dbfs.driver as MemoryDriver).snapshot()),
+		);
+		for (const records of [
+			snapshot.nodes,
+			snapshot.contentBlocks,
+			snapshot.contentChunks,
+			snapshot.versions,
+		]) {
+			for (const record of records) {
+				delete record.workspace;
+			}
+		}
+		const restored = await createMemoryFs(snapshot as MemorySnapshot);
+
+		expect((await restored.fs.readFile("/docs/readme.md")).content).toBe(
+			"hello again",
+		);
+		expect(await restored.fs.listVersions("/docs/readme.md")).toHaveLength(2);
+		expect((await restored.fs.stat("/docs")).isDirectory).toBe(true);
+
+		// New writes land in, and deduplicate against, the default workspace
+		await restored.fs.writeFile("/copy.md", "hello again");
+		expect((await restored.fs.diskUsage()).files).toBe(2);
+		expect((await restored.fs.fsck()).refCounts).toEqual([]);
+	});
+
+	it("should reject unknown snapshot versions", () => {
+		expect(
+			() => new MemoryDriver({ version: 2 } as unknown as MemorySnapshot),
+		).toThrow("Unsupported memory snapshot version: 2");
+	});
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createFileSystemTools, DbFs } from "../../src/index.js";
+
+const call = async (tool: any, input: Record<string, unknown>) =>
+	await tool.execute(input, { toolCallId: "1", messages: [] });
+
+for (const dialect of ["sqlite", "memory"] as const) {
+	describe(`DbFileSystem metadata (${dialect})`, () => {
+		let dbfs: DbFs;
+
+		beforeEach(async () => {
+			dbfs = await DbFs.create({ dialect });
+			await dbfs.fs.writeFile("/docs/spec.md", "# Spec", {
+				createParents: true,
+				mimeType: "text/markdown",
+				metadata: { status: "draft", priority: 2 },
+			});
+			await dbfs.fs.writeFile("/docs/logo.png", Buffer.alloc(2048), {
+				mimeType: "image/png",
+			});
+			await dbfs.fs.writeFile("/notes.md", "notes", {
+				mimeType: "text/markdown",
+			});
+		});
+
+		it("should return metadata and tags from stat", async () => {
+			const stats = await dbfs.fs.stat("/docs/spec.md");
+			expect(stats.metadata).toEqual({ status: "draft", priority: 2 });
+			expect(stats.tags).toEqual([]);
+
+			await dbfs.fs.tag("/docs/spec.md", ["review", "q3"]);
+			await dbfs.fs.tag("/docs/spec.md", ["review"]);
+			expect((await dbfs.fs.stat("/docs/spec.md")).tags).toEqual([
+				"review",
+				"q3",
+			]);
+
+			await dbfs.fs.untag("/docs/spec.md", ["q3"]);
+			expect((await dbfs.fs.stat("/docs/spec.md")).tags).toEqual(["review"]);
+		});
+
+		it("should merge, remove and replace metadata", async () => {
+			await dbfs.fs.setMetadata("/docs/spec.md", {
+				status: "final",
+				priority: null,
+				owner: "ana",
+			});
+			expect((await dbfs.fs.stat("/docs/spec.md")).metadata).toEqual({
+				status: "final",
+				owner: "ana",
+			});
+
+			await dbfs.fs.setMetadata("/docs/spec.md", { a: 1 }, { replace: true });
+			expect((await dbfs.fs.stat("/docs/spec.md")).metadata).toEqual({ a: 1 });
+
+			// Metadata changes are not content changes
+			await dbfs.fs.writeFile("/docs/spec.md", "# Spec v2");
+			expect((await dbfs.fs.stat("/docs/spec.md")).metadata).toEqual({ a: 1 });
+			expect((await dbfs.fs.listVersions("/docs/spec.md")).length).toBe(2);
+
+			const [entry] = await dbfs.fs.auditLog({ limit: 3 });
+			expect(entry.operation).toBe("write");
+			expect(
+				(await dbfs.fs.auditLog()).filter((e) => e.operation === "metadata"),
+			).toHaveLength(2);
+		});
+
+		it("should find files by metadata, tags, type, size and time", async () => {
+			await dbfs.fs.tag("/docs/spec.md", ["review"]);
+			await dbfs.fs.tag("/notes.md", ["review", "personal"]);
+			const paths = async (options: Parameters<typeof dbfs.fs.find>[0]) =>
+				(await dbfs.fs.find(options)).items.map((s) => s.path);
+
+			expect(await paths({ tags: ["review"] })).toEqual([
+				"/docs/spec.md",
+				"/notes.md",
+			]);
+			expect(await paths({ tags: ["review"], path: "/docs" })).toEqual([
+				"/docs/spec.md",
+			]);
+			expect(await paths({ metadata: { status: "draft" } })).toEqual([
+				"/docs/spec.md",
+			]);
+			expect(await paths({ metadata: { priority: 2 } })).toEqual([
+				"/docs/spec.md",
+			]);
+			expect(await paths({ keys: ["priority"] })).toEqual(["/docs/spec.md"]);
+			expect(await paths({ mimeType: "image/*" })).toEqual(["/docs/logo.png"]);
+			expect(await paths({ mimeType: "text/markdown", maxSize: 6 })).toEqual([
+				"/docs/spec.md",
+				"/notes.md",
+			]);
+			expect(await paths({ minSize: 1024 })).toEqual(["/docs/logo.png"]);
+			expect(await paths({ type: "directory" })).toEqual(["/", "/docs"]);
+			expect(
+				await paths({ modifiedAfter: new Date(Date.now() + 60_000) }),
+			).toEqual([]);
+
+			const limited = await dbfs.fs.find({ tags: ["review"], limit: 1 });
+			expect(limited.items.map((s) => s.path)).toEqual(["/docs/spec.md"]);
+			expect(limited.hasMore).toBe(true);
+		});
+
+		it("should keep tags on copies and find them through the tool", async () => {
+			await dbfs.fs.tag("/docs/spec.md", ["review"]);
+			await dbfs.fs.copy("/docs", "/archive", { recursive: true });
+
+			const tools = createFileSystemTools(dbfs.fs, {
+				allow: ["/archive/**"],
+			});
+			expect(
+				await call(tools.find, { path: "/", tags: ["review"] }),
+			).toMatchObject({
+				success: true,
+				count: 1,
+				items: [
+					{
+						path: "/archive/spec.md",
+						type: "file",
+						tags: ["review"],
+						metadata: { status: "draft", priority: 2, tags: ["review"] },
+					},
+				],
+			});
+			expect(
+				await call(tools.find, { path: "/docs", tags: ["review"] }),
+			).toMatchObject({ success: true, count: 0, items: [] });
+		});
+	});
+}
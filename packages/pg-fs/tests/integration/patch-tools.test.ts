@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+	createFileSystemTools,
+	createSqliteFs,
+	type DbFs,
+} from "../../src/index.js";
+
+const call = async (tool: any, input: Record<string, unknown>) =>
+	await tool.execute(input, { toolCallId: "call-1", messages: [] });
+
+describe("multi_edit and apply_patch tools (SQLite)", () => {
+	let dbfs: DbFs;
+
+	beforeEach(async () => {
+		dbfs = await createSqliteFs();
+		await dbfs.fs.writeFile(
+			"/src/main.ts",
+			"import { a } from './a';\n\nconsole.log(a);\nconsole.log(a);\n",
+			{ createParents: true },
+		);
+		await dbfs.fs.writeFile("/src/old.ts", "export const old = 1;\n");
+		await dbfs.fs.writeFile("/README.md", "# Project\n");
+	});
+
+	it("should apply several edits as one write", async () => {
+		await call(dbfs.tools.read, { file_path: "/src/main.ts" });
+		const result = await call(dbfs.tools.multi_edit, {
+			file_path: "/src/main.ts",
+			edits: [
+				{ old_string: "'./a'", new_string: "'./b'" },
+				{ old_string: "{ a }", new_string: "{ b }" },
+				{ old_string: "log(a)", new_string: "log(b)", replace_all: true },
+			],
+		});
+
+		expect(result).toMatchObject({ success: true, message: "Applied 3 edits" });
+		expect((await dbfs.fs.readFile("/src/main.ts")).content).toBe(
+			"import { b } from './b';\n\nconsole.log(b);\nconsole.log(b);\n",
+		);
+		expect(await dbfs.fs.listVersions("/src/main.ts")).toHaveLength(2);
+	});
+
+	it("should leave the file unchanged when one edit fails", async () => {
+		await call(dbfs.tools.read, { file_path: "/src/main.ts" });
+		const result = await call(dbfs.tools.multi_edit, {
+			file_path: "/src/main.ts",
+			edits: [
+				{ old_string: "'./a'", new_string: "'./b'" },
+				{ old_string: "console.log(a);", new_string: "" },
+			],
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.error).toContain(
+			"Edit #2: old_string appears 2 times (lines 3, 4)",
+		);
+		expect(result.edits.map((e: any) => e.applied)).toEqual([true, false]);
+		expect((await dbfs.fs.readFile("/src/main.ts")).content).toContain(
+			"'./a'",
+		);
+	});
+
+	it("should create, delete, rename and modify files from one patch", async () => {
+		const patch = [
+			"diff --git a/src/main.ts b/src/main.ts",
+			"--- a/src/main.ts",
+			"+++ b/src/main.ts",
+			"@@ -1,3 +1,3 @@",
+			" import { a } from './a';",
+			"",
+			"-console.log(a);",
+			"+console.info(a);",
+			"diff --git a/src/old.ts b/lib/new.ts",
+			"similarity index 100%",
+			"rename from src/old.ts",
+			"rename to lib/new.ts",
+			"--- a/README.md",
+			"+++ /dev/null",
+			"@@ -1 +0,0 @@",
+			"-# Project",
+			"--- /dev/null",
+			"+++ b/docs/guide.md",
+			"@@ -0,0 +1 @@",
+			"+# Guide",
+			"",
+		].join("\n");
+
+		const result = await call(dbfs.tools.apply_patch, { patch });
+
+		expect(result).toMatchObject({ success: true, message: "Patched 4 files" });
+		expect(result.files.map((f: any) => [f.operation, f.path])).toEqual([
+			["modify", "/src/main.ts"],
+			["rename", "/lib/new.ts"],
+			["delete", "/README.md"],
+			["create", "/docs/guide.md"],
+		]);
+		expect((await dbfs.fs.readFile("/src/main.ts")).content).toBe(
+			"import { a } from './a';\n\nconsole.info(a);\nconsole.log(a);\n",
+		);
+		expect((await dbfs.fs.readFile("/lib/new.ts")).content).toBe(
+			"export const old = 1;\n",
+		);
+		expect(await dbfs.fs.exists("/README.md")).toBe(false);
+		expect((await dbfs.fs.readFile("/docs/guide.md")).content).toBe(
+			"# Guide\n",
+		);
+		expect(
+			(await dbfs.fs.auditLog({ toolCallId: "call-1" })).length,
+		).toBeGreaterThan(0);
+	});
+
+	it("should report failed hunks and change nothing", async () => {
+		const patch = [
+			"--- /dev/null",
+			"+++ /new.txt",
+			"@@ -0,0 +1 @@",
+			"+new",
+			"--- /src/main.ts",
+			"+++ /src/main.ts",
+			"@@ -3,2 +3,2 @@",
+			" console.log(a);",
+			"-console.warn(a);",
+			"+console.error(a);",
+			"",
+		].join("\n");
+
+		const result = await call(dbfs.tools.apply_patch, { patch });
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe(
+			'1 of 2 hunks failed, no files were changed. /src/main.ts: Hunk #1 (@@ -3,2 +3,2 @@) does not match: expected "console.warn(a);" at line 4, found "console.log(a);"',
+		);
+		expect(await dbfs.fs.exists("/new.txt")).toBe(false);
+	});
+
+	it("should resolve relative paths and respect the tool policy", async () => {
+		const tools = createFileSystemTools(dbfs.fs, { deny: ["/secrets/**"] });
+		const patch = "--- /dev/null\n+++ b/key.txt\n@@ -0,0 +1 @@\n+secret\n";
+
+		expect(
+			await call(tools.apply_patch, { patch, base_path: "/secrets" }),
+		).toMatchObject({ success: false, code: "EPERM" });
+		expect(
+			await call(tools.apply_patch, { patch, base_path: "/public" }),
+		).toMatchObject({ success: true });
+		expect(await dbfs.fs.exists("/public/key.txt")).toBe(true);
+	});
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import BetterSqlite3 from "better-sqlite3";
+import { DbFs, PermissionDeniedError } from "../../src/index.js";
+
+describe("DbFs permissions (SQLite)", () => {
+	let admin: DbFs;
+	let alice: DbFs;
+	let bob: DbFs;
+
+	beforeEach(async () => {
+		admin = await DbFs.create({ dialect: "sqlite" });
+		await admin.fs.mkdir("/home/alice", {
+			recursive: true,
+			owner: "alice",
+			group: "eng",
+		});
+		await admin.fs.mkdir("/shared", { mode: "0777" });
+
+		alice = admin.withPrincipal({ user: "alice", groups: ["eng"] });
+		bob = admin.withPrincipal({ user: "bob", groups: ["eng"] });
+	});
+
+	it("should give new nodes to the principal", async () => {
+		await alice.fs.writeFile("/home/alice/notes.md", "mine");
+
+		const stats = await alice.fs.stat("/home/alice/notes.md");
+		expect(stats).toMatchObject({ owner: "alice", group: "eng", mode: "0644" });
+
+		const versions = await alice.fs.listVersions("/home/alice/notes.md");
+		expect(versions[0].createdBy).toBe("alice");
+	});
+
+	it("should deny writes to directories the principal cannot write", async () => {
+		await expect(bob.fs.writeFile("/home/alice/x.txt", "x")).rejects.toThrow(
+			PermissionDeniedError,
+		);
+		await expect(bob.fs.mkdir("/home/alice/sub")).rejects.toThrow(
+			"EACCES: permission denied, mkdir '/home/alice/sub'",
+		);
+		await expect(bob.fs.writeFile("/root.txt", "x")).rejects.toMatchObject({
+			code: "EACCES",
+		});
+	});
+
+	it("should check group and other bits", async () => {
+		await alice.fs.writeFile("/shared/team.txt", "v1", { mode: "0664" });
+		await bob.fs.writeFile("/shared/team.txt", "v2");
+
+		const carol = admin.withPrincipal({ user: "carol" });
+		expect((await carol.fs.readFile("/shared/team.txt")).content).toBe("v2");
+		await expect(carol.fs.writeFile("/shared/team.txt", "v3")).rejects.toThrow(
+			"EACCES",
+		);
+	});
+
+	it("should deny reads without the read bit", async () => {
+		await alice.fs.writeFile("/shared/secret.txt", "s", { mode: "0600" });
+
+		await expect(bob.fs.readFile("/shared/secret.txt")).rejects.toThrow(
+			"EACCES: permission denied, open '/shared/secret.txt'",
+		);
+		await expect(bob.fs.readFileBuffer("/shared/secret.txt")).rejects.toThrow(
+			"EACCES",
+		);
+		await expect(bob.fs.readVersion("/shared/secret.txt", 1)).rejects.toThrow(
+			"EACCES",
+		);
+		expect((await alice.fs.readFile("/shared/secret.txt")).content).toBe("s");
+	});
+
+	it("should need search access to every directory above a path", async () => {
+		await admin.fs.mkdir("/private", { owner: "alice", mode: "0700" });
+		await admin.fs.writeFile("/private/s.txt", "s", { mode: "0644" });
+
+		await expect(bob.fs.readFile("/private/s.txt")).rejects.toThrow(
+			"EACCES: permission denied, search '/private/s.txt'",
+		);
+		await expect(bob.fs.stat("/private/s.txt")).rejects.toMatchObject({
+			code: "EACCES",
+		});
+		await expect(bob.fs.readdir("/private")).rejects.toThrow("EACCES");
+		await expect(bob.fs.writeFile("/private/t.txt", "t")).rejects.toThrow(
+			"EACCES",
+		);
+		expect(await bob.fs.exists("/private/s.txt")).toBe(false);
+
+		// Listing needs read but no search access, as on Unix
+		await admin.fs.chmod("/private", "0744");
+		expect((await bob.fs.readdir("/private")).items).toEqual(["s.txt"]);
+		await expect(bob.fs.stat("/private/s.txt")).rejects.toThrow("EACCES");
+
+		await admin.fs.chmod("/private", "0711");
+		expect((await bob.fs.readFile("/private/s.txt")).content).toBe("s");
+		expect((await alice.fs.stat("/private/s.txt")).size).toBe(1);
+	});
+
+	it("should hide unreadable files from grep and search", async () => {
+		await alice.fs.writeFile("/shared/open.txt", "needle");
+		await alice.fs.writeFile("/shared/closed.txt", "needle", {
+			mode: "0600",
+		});
+
+		const { files } = await bob.fs.grep("needle");
+		expect(files.map((f) => f.path)).toEqual(["/shared/open.txt"]);
+
+		const { results } = await bob.fs.search("needle");
+		expect(results.map((r) => r.path)).toEqual(["/shared/open.txt"]);
+	});
+
+	it("should need write access to the parent to unlink or rename", async () => {
+		await alice.fs.writeFile("/home/alice/keep.txt", "k", { mode: "0666" });
+
+		await expect(bob.fs.unlink("/home/alice/keep.txt")).rejects.toThrow(
+			"EACCES: permission denied, unlink",
+		);
+		await expect(
+			bob.fs.rename("/home/alice/keep.txt", "/shared/keep.txt"),
+		).rejects.toThrow("EACCES: permission denied, rename");
+		expect(await admin.fs.exists("/home/alice/keep.txt")).toBe(true);
+	});
+
+	it("should only let the owner chmod and only admins change owners", async () => {
+		await alice.fs.writeFile("/shared/a.txt", "a");
+
+		await expect(bob.fs.chmod("/shared/a.txt", "0666")).rejects.toThrow(
+			"EACCES: permission denied, chmod",
+		);
+		await alice.fs.chmod("/shared/a.txt", "600");
+		expect((await admin.fs.stat("/shared/a.txt")).mode).toBe("0600");
+		await expect(alice.fs.chmod("/shared/a.txt", "999")).rejects.toThrow(
+			"Invalid mode: 999",
+		);
+
+		await expect(alice.fs.chown("/shared/a.txt", "bob")).rejects.toThrow(
+			"EACCES",
+		);
+		await expect(
+			alice.fs.chown("/shared/a.txt", "alice", "ops"),
+		).rejects.toThrow("EACCES");
+
+		await admin.fs.chown("/shared/a.txt", "bob", "ops");
+		expect(await admin.fs.stat("/shared/a.txt")).toMatchObject({
+			owner: "bob",
+			group: "ops",
+		});
+	});
+
+	it("should report denials from tools with an EACCES code", async () => {
+		const write = bob.tools.write as any;
+		const result = await write.execute(
+			{ file_path: "/home/alice/x.txt", content: "x" },
+			{ toolCallId: "1", messages: [] },
+		);
+
+		expect(result).toMatchObject({ success: false, code: "EACCES" });
+
+		const chmod = alice.tools.chmod as any;
+		await alice.fs.writeFile("/shared/b.txt", "b");
+		expect(
+			await chmod.execute(
+				{ path: "/shared/b.txt", mode: "0640" },
+				{ toolCallId: "2", messages: [] },
+			),
+		).toMatchObject({ success: true });
+	});
+
+	it("should add the group column to existing SQLite databases", async () => {
+		const database = new BetterSqlite3(":memory:");
+		database.exec(`
+			CREATE TABLE nodes (
+				id TEXT PRIMARY KEY,
+				workspace TEXT NOT NULL DEFAULT 'default',
+				path TEXT NOT NULL,
+				name TEXT NOT NULL,
+				tree_path TEXT NOT NULL,
+				parent_id TEXT REFERENCES nodes(id) ON DELETE CASCADE,
+				is_directory INTEGER NOT NULL DEFAULT 0,
+				size INTEGER NOT NULL DEFAULT 0,
+				mime_type TEXT,
+				content_hash TEXT,
+				created_at INTEGER NOT NULL,
+				modified_at INTEGER NOT NULL,
+				accessed_at INTEGER NOT NULL,
+				mode TEXT NOT NULL DEFAULT '0644',
+				owner TEXT NOT NULL DEFAULT 'default',
+				metadata TEXT DEFAULT '{}'
+			);
+		`);
+
+		const migrated = await DbFs.create({
+			dialect: "sqlite",
+			sqliteDatabase: database,
+		});
+
+		expect((await migrated.fs.stat("/")).group).toBe("default");
+	});
+});
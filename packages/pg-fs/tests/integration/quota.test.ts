@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { DbFs, QuotaExceededError } from "../../src/index.js";
+
+describe("DbFs quotas (SQLite)", () => {
+	it("should reject files larger than maxFileSize", async () => {
+		const dbfs = await DbFs.create({
+			dialect: "sqlite",
+			quota: { maxFileSize: 10 },
+		});
+
+		await dbfs.fs.writeFile("/small.txt", "0123456789");
+		await expect(
+			dbfs.fs.writeFile("/big.txt", "0123456789A"),
+		).rejects.toThrow("EDQUOT: maxFileSize of 10 exceeded, write '/big.txt'");
+		expect(await dbfs.fs.exists("/big.txt")).toBe(false);
+	});
+
+	it("should stop streamed writes once they pass maxFileSize", async () => {
+		const dbfs = await DbFs.create({
+			dialect: "sqlite",
+			chunkSize: 4,
+			quota: { maxFileSize: 8 },
+		});
+
+		await expect(
+			pipeline(
+				Readable.from([Buffer.alloc(6), Buffer.alloc(6)]),
+				dbfs.fs.createWriteStream("/stream.bin"),
+			),
+		).rejects.toBeInstanceOf(QuotaExceededError);
+
+		expect(await dbfs.fs.exists("/stream.bin")).toBe(false);
+		await dbfs.garbageCollect();
+		expect((await dbfs.fs.diskUsage()).storedBytes).toBe(0);
+	});
+
+	it("should count total bytes and allow shrinking when full", async () => {
+		const dbfs = await DbFs.create({
+			dialect: "sqlite",
+			quota: { maxBytes: 20 },
+		});
+
+		await dbfs.fs.writeFile("/a.txt", "x".repeat(15));
+		await expect(dbfs.fs.writeFile("/b.txt", "y".repeat(6))).rejects.toThrow(
+			"EDQUOT: maxBytes of 20 exceeded",
+		);
+
+		await dbfs.fs.writeFile("/a.txt", "x".repeat(20));
+		await dbfs.fs.writeFile("/a.txt", "short");
+		await dbfs.fs.writeFile("/b.txt", "y".repeat(15));
+	});
+
+	it("should count files and directories against maxFiles", async () => {
+		const dbfs = await DbFs.create({
+			dialect: "sqlite",
+			quota: { maxFiles: 3 },
+		});
+
+		await dbfs.fs.writeFile("/dir/a.txt", "a", { createParents: true });
+		await dbfs.fs.mkdir("/other");
+		await expect(dbfs.fs.writeFile("/dir/b.txt", "b")).rejects.toThrow(
+			"EDQUOT: maxFiles of 3 exceeded",
+		);
+		await expect(
+			dbfs.fs.copy("/dir", "/copy", { recursive: true }),
+		).rejects.toThrow("EDQUOT");
+		expect(await dbfs.fs.exists("/copy")).toBe(false);
+	});
+
+	it("should limit depth for writes, mkdir and rename", async () => {
+		const dbfs = await DbFs.create({
+			dialect: "sqlite",
+			quota: { maxDepth: 2 },
+		});
+
+		await dbfs.fs.writeFile("/a/b", "ok", { createParents: true });
+		await expect(
+			dbfs.fs.mkdir("/a/b2/c", { recursive: true }),
+		).rejects.toThrow("EDQUOT: maxDepth of 2 exceeded, mkdir '/a/b2/c'");
+		expect(await dbfs.fs.exists("/a/b2")).toBe(false);
+
+		await dbfs.fs.mkdir("/x");
+		await expect(dbfs.fs.rename("/a", "/x/a")).rejects.toThrow("maxDepth");
+	});
+
+	it("should apply owner quotas to each owner separately", async () => {
+		const admin = await DbFs.create({
+			dialect: "sqlite",
+			ownerQuota: { maxBytes: 10 },
+		});
+		await admin.fs.chmod("/", "0777");
+
+		const alice = admin.withPrincipal({ user: "alice" });
+		const bob = admin.withPrincipal({ user: "bob" });
+
+		await alice.fs.writeFile("/alice.txt", "a".repeat(10));
+		await bob.fs.writeFile("/bob.txt", "b".repeat(10));
+		await expect(alice.fs.writeFile("/more.txt", "a")).rejects.toThrow(
+			"EDQUOT",
+		);
+
+		expect(await admin.fs.diskUsage("alice")).toMatchObject({
+			owner: "alice",
+			files: 1,
+			bytes: 10,
+			limits: { maxBytes: 10 },
+		});
+	});
+
+	it("should report usage with remaining space from the disk_usage tool", async () => {
+		const dbfs = await DbFs.create({
+			dialect: "sqlite",
+			quota: { maxBytes: 100, maxFiles: 10 },
+		});
+		await dbfs.fs.writeFile("/docs/a.md", "same", { createParents: true });
+		await dbfs.fs.writeFile("/docs/b.md", "same");
+
+		const diskUsage = dbfs.tools.disk_usage as any;
+		const result = await diskUsage.execute({}, { toolCallId: "1", messages: [] });
+
+		expect(result).toMatchObject({
+			success: true,
+			files: 2,
+			directories: 1,
+			bytes: 8,
+			storedBytes: 4,
+			limits: { maxBytes: 100, maxFiles: 10 },
+			remainingBytes: 92,
+			remainingFiles: 7,
+		});
+
+		const write = dbfs.tools.write as any;
+		expect(
+			await write.execute(
+				{ file_path: "/big.txt", content: "x".repeat(200) },
+				{ toolCallId: "2", messages: [] },
+			),
+		).toMatchObject({ success: false, code: "EDQUOT" });
+	});
+});
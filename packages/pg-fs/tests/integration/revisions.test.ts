@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+	ConflictError,
+	createFileSystemTools,
+	createSqliteFs,
+	type DbFs,
+} from "../../src/index.js";
+
+const call = async (tool: any, input: Record<string, unknown>) =>
+	await tool.execute(input, { toolCallId: "1", messages: [] });
+
+describe("DbFileSystem revisions (SQLite)", () => {
+	let dbfs: DbFs;
+
+	beforeEach(async () => {
+		dbfs = await createSqliteFs();
+		await dbfs.fs.writeFile("/notes.md", "first\n");
+	});
+
+	it("should change the revision on every write", async () => {
+		const { revision } = await dbfs.fs.readFile("/notes.md");
+		expect((await dbfs.fs.stat("/notes.md")).revision).toBe(revision);
+
+		await dbfs.fs.chmod("/notes.md", "0600");
+		expect((await dbfs.fs.stat("/notes.md")).revision).toBe(revision);
+
+		await dbfs.fs.writeFile("/notes.md", "first\n");
+		expect((await dbfs.fs.stat("/notes.md")).revision).not.toBe(revision);
+		expect((await dbfs.fs.stat("/")).revision).toBeUndefined();
+	});
+
+	it("should reject writes with a stale ifMatch", async () => {
+		const { revision } = await dbfs.fs.readFile("/notes.md");
+		await dbfs.fs.writeFile("/notes.md", "theirs\n");
+
+		const error = await dbfs.fs
+			.writeFile("/notes.md", "ours\n", { ifMatch: revision })
+			.catch((e) => e);
+		expect(error).toBeInstanceOf(ConflictError);
+		expect(error).toMatchObject({
+			code: "ESTALE",
+			expected: revision,
+			actual: (await dbfs.fs.stat("/notes.md")).revision,
+		});
+		expect((await dbfs.fs.readFile("/notes.md")).content).toBe("theirs\n");
+
+		const current = (await dbfs.fs.stat("/notes.md")).revision;
+		await dbfs.fs.writeFile("/notes.md", "ours\n", { ifMatch: current });
+		await expect(
+			dbfs.fs.writeFile("/missing.md", "x", { ifMatch: current }),
+		).rejects.toThrow("ESTALE");
+	});
+
+	it("should refuse edits to files the agent has not read", async () => {
+		const tools = createFileSystemTools(dbfs.fs);
+
+		expect(
+			await call(tools.edit, {
+				file_path: "/notes.md",
+				old_string: "first",
+				new_string: "1st",
+			}),
+		).toMatchObject({ success: false, code: "ESTALE" });
+		expect(
+			await call(tools.multi_edit, {
+				file_path: "/notes.md",
+				edits: [{ old_string: "first", new_string: "1st" }],
+			}),
+		).toMatchObject({ success: false, code: "ESTALE" });
+		expect(
+			await call(tools.multi_edit, {
+				file_path: "/missing.md",
+				edits: [{ old_string: "first", new_string: "1st" }],
+			}),
+		).toMatchObject({
+			success: false,
+			error: expect.stringContaining("not found"),
+		});
+		expect((await dbfs.fs.readFile("/notes.md")).content).toBe("first\n");
+
+		// Another tool set's reads do not count
+		await call(createFileSystemTools(dbfs.fs).read, { file_path: "/notes.md" });
+		expect(
+			await call(tools.edit, {
+				file_path: "/notes.md",
+				old_string: "first",
+				new_string: "1st",
+			}),
+		).toMatchObject({ success: false, code: "ESTALE" });
+	});
+
+	it("should fail edits to files changed since the agent read them", async () => {
+		const tools = createFileSystemTools(dbfs.fs);
+		await call(tools.read, { file_path: "/notes.md" });
+		await dbfs.fs.writeFile("/notes.md", "first\nsecond\n");
+
+		const stale = await call(tools.edit, {
+			file_path: "/notes.md",
+			old_string: "first",
+			new_string: "1st",
+		});
+		expect(stale).toMatchObject({ success: false, code: "ESTALE" });
+		expect(
+			await call(tools.multi_edit, {
+				file_path: "/notes.md",
+				edits: [{ old_string: "first", new_string: "1st" }],
+			}),
+		).toMatchObject({ success: false, code: "ESTALE" });
+
+		await call(tools.read, { file_path: "/notes.md" });
+		const edited = await call(tools.edit, {
+			file_path: "/notes.md",
+			old_string: "first",
+			new_string: "1st",
+		});
+		expect(edited).toMatchObject({ success: true });
+		expect(edited.revision).toBe((await dbfs.fs.stat("/notes.md")).revision);
+
+		// The agent's own changes do not count as concurrent ones
+		await call(tools.write, { file_path: "/notes.md", content: "mine\n" });
+		expect(
+			await call(tools.edit, {
+				file_path: "/notes.md",
+				old_string: "mine",
+				new_string: "still mine",
+			}),
+		).toMatchObject({ success: true });
+	});
+});
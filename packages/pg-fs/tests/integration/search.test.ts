@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createSqliteFs, type DbFs } from "../../src/index.js";
+
+describe("DbFileSystem search (SQLite)", () => {
+	let dbfs: DbFs;
+
+	beforeEach(async () => {
+		dbfs = await createSqliteFs();
+		await dbfs.fs.writeFile(
+			"/gc.md",
+			"Garbage collection removes unreferenced content blocks. Collection runs on demand.",
+		);
+		await dbfs.fs.writeFile("/drivers.md", "The SQLite driver and the Postgres driver.");
+		await dbfs.fs.writeFile("/misc.md", "Garbage in, garbage out.");
+	});
+
+	it("should rank results and return real scores", async () => {
+		const { results } = await dbfs.fs.search("collection");
+		expect(results.map((r) => r.path)).toEqual(["/gc.md"]);
+		expect(results[0].score).toBeGreaterThan(0);
+	});
+
+	it("should stem terms", async () => {
+		const { results } = await dbfs.fs.search("collecting");
+		expect(results.map((r) => r.path)).toEqual(["/gc.md"]);
+	});
+
+	it("should highlight hits in snippets", async () => {
+		const { results } = await dbfs.fs.search("sqlite");
+		expect(results[0].snippet).toContain("**SQLite**");
+	});
+
+	it("should support phrases, prefixes and exclusions", async () => {
+		expect(
+			(await dbfs.fs.search('"garbage collection"')).results.map((r) => r.path),
+		).toEqual(["/gc.md"]);
+		expect(
+			(await dbfs.fs.search("driv*")).results.map((r) => r.path),
+		).toEqual(["/drivers.md"]);
+		expect(
+			(await dbfs.fs.search("garbage -collection")).results.map((r) => r.path),
+		).toEqual(["/misc.md"]);
+	});
+
+	it("should reflect updates and deletes", async () => {
+		await dbfs.fs.writeFile("/misc.md", "Nothing relevant");
+		await dbfs.fs.unlink("/gc.md");
+
+		const { results } = await dbfs.fs.search("garbage");
+		expect(results).toEqual([]);
+	});
+});
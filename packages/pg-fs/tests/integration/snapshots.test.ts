@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createSqliteFs, type DbFs } from "../../src/index.js";
+
+describe("DbFileSystem snapshots (SQLite)", () => {
+	let dbfs: DbFs;
+
+	beforeEach(async () => {
+		dbfs = await createSqliteFs();
+		await dbfs.fs.writeFile("/project/src/main.ts", "main", {
+			createParents: true,
+		});
+		await dbfs.fs.writeFile("/project/README.md", "readme about snapshots");
+	});
+
+	it("should roll a tree back to a snapshot", async () => {
+		const snapshot = await dbfs.fs.snapshot("/project", "before");
+		expect(snapshot).toMatchObject({
+			label: "before",
+			path: "/project",
+			nodeCount: 4,
+			size: 26,
+		});
+
+		await dbfs.fs.writeFile("/project/src/main.ts", "broken");
+		await dbfs.fs.writeFile("/project/src/extra.ts", "extra");
+		await dbfs.fs.unlink("/project/README.md");
+		await dbfs.fs.restoreSnapshot("before");
+
+		expect((await dbfs.fs.readdir("/project/src")).items).toEqual(["main.ts"]);
+		expect((await dbfs.fs.readFile("/project/src/main.ts")).content).toBe(
+			"main",
+		);
+		expect((await dbfs.fs.readFile("/project/README.md")).content).toBe(
+			"readme about snapshots",
+		);
+		expect((await dbfs.fs.search("snapshots")).results).toHaveLength(1);
+		expect((await dbfs.fs.listTrash()).map((e) => e.path)).toEqual([
+			"/project/src/extra.ts",
+			"/project/README.md",
+		]);
+	});
+
+	it("should replace paths whose type changed since the snapshot", async () => {
+		await dbfs.fs.snapshot("/project", "before");
+		await dbfs.fs.unlink("/project/src", { recursive: true });
+		await dbfs.fs.writeFile("/project/src", "now a file");
+
+		await dbfs.fs.restoreSnapshot("before");
+
+		expect((await dbfs.fs.stat("/project/src")).isDirectory).toBe(true);
+		expect((await dbfs.fs.readFile("/project/src/main.ts")).content).toBe(
+			"main",
+		);
+	});
+
+	it("should keep snapshot content until the snapshot is deleted", async () => {
+		await dbfs.fs.snapshot("/", "all");
+		await dbfs.fs.unlink("/project", { recursive: true, permanent: true });
+		await dbfs.garbageCollect();
+
+		expect((await dbfs.fs.diskUsage()).storedBytes).toBe(26);
+		await dbfs.fs.restoreSnapshot("all");
+		expect((await dbfs.fs.readFile("/project/src/main.ts")).content).toBe(
+			"main",
+		);
+
+		await dbfs.fs.deleteSnapshot("all");
+		expect(await dbfs.fs.listSnapshots()).toEqual([]);
+		await dbfs.fs.unlink("/project", { recursive: true, permanent: true });
+		await dbfs.garbageCollect();
+		expect((await dbfs.fs.diskUsage()).storedBytes).toBe(0);
+	});
+
+	it("should reject duplicate and unknown labels", async () => {
+		await dbfs.fs.snapshot("/project", "label");
+
+		await expect(dbfs.fs.snapshot("/project", "label")).rejects.toThrow(
+			"Snapshot already exists: label",
+		);
+		await expect(dbfs.fs.restoreSnapshot("missing")).rejects.toThrow(
+			"Snapshot not found: missing",
+		);
+		await expect(dbfs.fs.snapshot("/missing", "other")).rejects.toThrow(
+			"Path not found: /missing",
+		);
+	});
+
+	it("should fork a tree without copying content", async () => {
+		await dbfs.fs.chmod("/project/src/main.ts", "0600");
+		const stored = (await dbfs.fs.diskUsage()).storedBytes;
+
+		await dbfs.fs.fork("/project", "/branches/experiment");
+
+		expect(await dbfs.fs.glob("**", "/branches/experiment")).toMatchObject({
+			matches: [
+				"/branches/experiment/README.md",
+				"/branches/experiment/src",
+				"/branches/experiment/src/main.ts",
+			],
+		});
+		expect((await dbfs.fs.stat("/branches/experiment/src/main.ts")).mode).toBe(
+			"0600",
+		);
+		expect((await dbfs.fs.diskUsage()).storedBytes).toBe(stored);
+		expect((await dbfs.fs.search("snapshots")).results).toHaveLength(2);
+
+		await dbfs.fs.writeFile("/branches/experiment/src/main.ts", "diverged");
+		expect((await dbfs.fs.readFile("/project/src/main.ts")).content).toBe(
+			"main",
+		);
+	});
+
+	it("should reject forks into an existing path or the source itself", async () => {
+		await expect(dbfs.fs.fork("/project", "/project")).rejects.toThrow(
+			"Destination path already exists",
+		);
+		await expect(dbfs.fs.fork("/project", "/project/copy")).rejects.toThrow(
+			"Cannot fork a directory into itself",
+		);
+	});
+
+	it("should limit snapshots to principals that can reach them", async () => {
+		const alice = dbfs.withPrincipal({ user: "alice" });
+		const bob = dbfs.withPrincipal({ user: "bob" });
+		await dbfs.fs.mkdir("/home", { mode: "0777" });
+		await alice.fs.writeFile("/home/alice/notes.md", "notes", {
+			createParents: true,
+		});
+		await alice.fs.snapshot("/home/alice", "alice");
+		await dbfs.fs.snapshot("/project", "project");
+
+		const labels = async (view: DbFs) =>
+			(await view.fs.listSnapshots()).map((s) => s.label).sort();
+		expect(await labels(bob)).toEqual(["alice", "project"]);
+		await alice.fs.chmod("/home/alice", "0700");
+		expect(await labels(bob)).toEqual(["project"]);
+		expect(await labels(alice)).toEqual(["alice", "project"]);
+
+		await expect(bob.fs.deleteSnapshot("alice")).rejects.toMatchObject({
+			code: "EACCES",
+		});
+		await expect(bob.fs.restoreSnapshot("project")).rejects.toMatchObject({
+			code: "EACCES",
+		});
+		await expect(bob.fs.deleteSnapshot("project")).rejects.toThrow(
+			"EACCES: permission denied, delete snapshot '/project'",
+		);
+
+		await dbfs.fs.chmod("/project", "0777");
+		await bob.fs.deleteSnapshot("project");
+		await alice.fs.deleteSnapshot("alice");
+		expect(await labels(dbfs)).toEqual([]);
+	});
+});
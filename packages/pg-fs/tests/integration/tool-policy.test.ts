@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+	createFileSystemTools,
+	createSqliteFs,
+	type DbFs,
+} from "../../src/index.js";
+
+const call = async (tool: any, input: Record<string, unknown>) =>
+	await tool.execute(input, { toolCallId: "1", messages: [] });
+
+describe("createFileSystemTools options (SQLite)", () => {
+	let dbfs: DbFs;
+
+	beforeEach(async () => {
+		dbfs = await createSqliteFs();
+		await dbfs.fs.writeFile("/docs/guide.md", "needle in docs", {
+			createParents: true,
+		});
+		await dbfs.fs.writeFile("/docs/private/notes.md", "needle in private", {
+			createParents: true,
+		});
+		await dbfs.fs.writeFile("/secrets/key.txt", "needle in secrets", {
+			createParents: true,
+		});
+	});
+
+	it("should leave out mutating tools when read-only", () => {
+		const tools = createFileSystemTools(dbfs.fs, { readOnly: true });
+
+		expect(Object.keys(tools)).toEqual(
+			expect.arrayContaining(["read", "ls", "stat", "glob", "grep"]),
+		);
+		for (const name of ["write", "edit", "unlink", "rename", "copy"]) {
+			expect(tools).not.toHaveProperty(name);
+		}
+	});
+
+	it("should only include the named tools", () => {
+		const tools = createFileSystemTools(dbfs.fs, { tools: ["read", "grep"] });
+		expect(Object.keys(tools).sort()).toEqual(["grep", "read"]);
+	});
+
+	it("should report paths outside the policy as tool errors", async () => {
+		const tools = createFileSystemTools(dbfs.fs, {
+			allow: ["/docs/**"],
+			deny: ["/docs/private/**"],
+		});
+
+		expect(
+			await call(tools.read, { file_path: "/docs/guide.md" }),
+		).toMatchObject({ success: true, content: "needle in docs" });
+		expect(
+			await call(tools.read, { file_path: "/secrets/key.txt" }),
+		).toMatchObject({
+			success: false,
+			code: "EPERM",
+			error: "EPERM: operation not permitted by tool policy, read '/secrets/key.txt'",
+		});
+		expect(
+			await call(tools.write, {
+				file_path: "/docs/private/new.md",
+				content: "x",
+			}),
+		).toMatchObject({ success: false, code: "EPERM" });
+		expect(await dbfs.fs.exists("/docs/private/new.md")).toBe(false);
+	});
+
+	it("should filter listings and search results", async () => {
+		const tools = createFileSystemTools(dbfs.fs, {
+			deny: ["/secrets/**", "/docs/private/**"],
+		});
+
+		const ls = await call(tools.ls, { path: "/" });
+		expect(ls.items).toEqual(["docs"]);
+
+		const glob = await call(tools.glob, { pattern: "**/*.{md,txt}" });
+		expect(glob.matches).toEqual(["/docs/guide.md"]);
+
+		const grep = await call(tools.grep, {
+			pattern: "needle",
+			output_mode: "files_with_matches",
+		});
+		expect(grep.files).toEqual(["/docs/guide.md"]);
+
+		const search = await call(tools.grep, {
+			pattern: "needle",
+			search_mode: "fulltext",
+			output_mode: "files_with_matches",
+		});
+		expect(search.files).toEqual(["/docs/guide.md"]);
+	});
+
+	it("should block recursive operations that reach denied paths", async () => {
+		const tools = createFileSystemTools(dbfs.fs, {
+			deny: ["/docs/private/**"],
+		});
+
+		expect(
+			await call(tools.unlink, { path: "/docs", recursive: true }),
+		).toMatchObject({ success: false, code: "EPERM" });
+		expect(
+			await call(tools.copy, {
+				source_path: "/docs",
+				dest_path: "/backup",
+				recursive: true,
+			}),
+		).toMatchObject({ success: false, code: "EPERM" });
+		expect(await dbfs.fs.exists("/docs/private/notes.md")).toBe(true);
+
+		expect(
+			await call(tools.rename, { old_path: "/secrets", new_path: "/vault" }),
+		).toMatchObject({ success: true });
+		expect(
+			await call(tools.rename, {
+				old_path: "/vault",
+				new_path: "/docs/private",
+			}),
+		).toMatchObject({ success: false, code: "EPERM" });
+	});
+
+	it("should check trees larger than a listing page", async () => {
+		const tools = createFileSystemTools(dbfs.fs, { deny: ["**/*.key"] });
+		await dbfs.fs.transaction(async (tx) => {
+			for (let i = 0; i < 505; i++) {
+				await tx.writeFile(`/data/${String(i).padStart(3, "0")}.txt`, "x", {
+					createParents: true,
+				});
+			}
+		});
+		await dbfs.fs.writeFile("/data/zz.key", "secret");
+
+		expect(
+			await call(tools.unlink, { path: "/data", recursive: true }),
+		).toMatchObject({ success: false, code: "EPERM" });
+		expect(await dbfs.fs.exists("/data/zz.key")).toBe(true);
+
+		await dbfs.fs.unlink("/data/zz.key");
+		expect(
+			await call(tools.unlink, { path: "/data", recursive: true }),
+		).toMatchObject({ success: true });
+	});
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createSqliteFs, type DbFs } from "../../src/index.js";
+
+describe("DbFileSystem transactions (SQLite)", () => {
+	let dbfs: DbFs;
+
+	beforeEach(async () => {
+		dbfs = await createSqliteFs();
+	});
+
+	it("should commit all operations together", async () => {
+		await dbfs.fs.transaction(async (tx) => {
+			await tx.mkdir("/project");
+			await tx.writeFile("/project/a.txt", "a");
+		});
+
+		expect(await dbfs.fs.exists("/project/a.txt")).toBe(true);
+	});
+
+	it("should roll back every operation when the callback throws", async () => {
+		await expect(
+			dbfs.fs.transaction(async (tx) => {
+				await tx.writeFile("/a.txt", "a");
+				throw new Error("boom");
+			}),
+		).rejects.toThrow("boom");
+
+		expect(await dbfs.fs.exists("/a.txt")).toBe(false);
+		expect(await dbfs.garbageCollect()).toBe(0);
+	});
+
+	it("should roll back only the failed nested operation", async () => {
+		await dbfs.fs.transaction(async (tx) => {
+			await tx.writeFile("/kept.txt", "kept");
+			await expect(tx.writeFile("/missing/file.txt", "x")).rejects.toThrow(
+				"Parent directory not found",
+			);
+		});
+
+		expect(await dbfs.fs.exists("/kept.txt")).toBe(true);
+	});
+
+	it("should serialize concurrent transactions", async () => {
+		await Promise.all(
+			Array.from({ length: 5 }, (_, i) =>
+				dbfs.fs.writeFile(`/file-${i}.txt`, `content ${i}`),
+			),
+		);
+
+		const { total } = await dbfs.fs.readdir("/");
+		expect(total).toBe(5);
+	});
+
+	it("should let the outer filesystem join the transaction", async () => {
+		await dbfs.fs.transaction(async (tx) => {
+			await tx.writeFile("/a.txt", "a");
+			await dbfs.fs.writeFile("/b.txt", "b");
+		});
+		await expect(
+			dbfs.fs.transaction(async (tx) => {
+				await tx.writeFile("/c.txt", "c");
+				await dbfs.fs.writeFile("/d.txt", "d");
+				throw new Error("boom");
+			}),
+		).rejects.toThrow("boom");
+
+		expect((await dbfs.fs.readdir("/")).items).toEqual(["a.txt", "b.txt"]);
+	});
+});
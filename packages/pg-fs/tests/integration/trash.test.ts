@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+	createFileSystemTools,
+	createSqliteFs,
+	type DbFs,
+} from "../../src/index.js";
+
+const call = async (tool: any, input: Record<string, unknown>) =>
+	await tool.execute(input, { toolCallId: "1", messages: [] });
+
+describe("DbFileSystem trash (SQLite)", () => {
+	let dbfs: DbFs;
+
+	beforeEach(async () => {
+		dbfs = await createSqliteFs();
+		await dbfs.fs.writeFile("/project/src/main.ts", "v1", {
+			createParents: true,
+		});
+		await dbfs.fs.writeFile("/project/src/main.ts", "v2");
+		await dbfs.fs.writeFile("/project/README.md", "readme about trash");
+	});
+
+	it("should move deleted trees to the trash and restore them", async () => {
+		const before = await dbfs.fs.stat("/project/src/main.ts");
+		await dbfs.fs.unlink("/project", { recursive: true });
+
+		expect(await dbfs.fs.exists("/project")).toBe(false);
+		expect(await dbfs.fs.listTrash()).toMatchObject([
+			{ path: "/project", isDirectory: true, nodeCount: 4, size: 20 },
+		]);
+
+		await dbfs.fs.restore("/project");
+
+		expect(await dbfs.fs.listTrash()).toEqual([]);
+		expect((await dbfs.fs.readFile("/project/src/main.ts")).content).toBe(
+			"v2",
+		);
+		expect(await dbfs.fs.stat("/project/src/main.ts")).toEqual(before);
+		expect(
+			(await dbfs.fs.listVersions("/project/src/main.ts")).map(
+				(v) => v.version,
+			),
+		).toEqual([2, 1]);
+		expect((await dbfs.fs.search("trash")).results).toHaveLength(1);
+	});
+
+	it("should restore to another path and recreate missing parents", async () => {
+		await dbfs.fs.unlink("/project/src/main.ts");
+		await dbfs.fs.writeFile("/project/src/main.ts", "replacement");
+
+		await expect(dbfs.fs.restore("/project/src/main.ts")).rejects.toThrow(
+			"Destination path already exists",
+		);
+		await dbfs.fs.restore("/project/src/main.ts", {
+			to: "/recovered/main.ts",
+		});
+
+		expect((await dbfs.fs.readFile("/recovered/main.ts")).content).toBe("v2");
+		await expect(dbfs.fs.restore("/project/src/main.ts")).rejects.toThrow(
+			"Not found in trash: /project/src/main.ts",
+		);
+	});
+
+	it("should only reclaim content once the trash is emptied", async () => {
+		await dbfs.fs.unlink("/project", { recursive: true });
+		expect(await dbfs.garbageCollect()).toBe(0);
+
+		expect(await dbfs.fs.emptyTrash(new Date(0))).toBe(0);
+		expect(await dbfs.fs.emptyTrash()).toBe(1);
+		expect(await dbfs.garbageCollect()).toBe(3);
+		await expect(dbfs.fs.restore("/project")).rejects.toThrow(
+			"Not found in trash",
+		);
+	});
+
+	it("should skip the trash for permanent deletes", async () => {
+		await dbfs.fs.unlink("/project/README.md", { permanent: true });
+
+		expect(await dbfs.fs.listTrash()).toEqual([]);
+		expect(await dbfs.garbageCollect()).toBe(1);
+	});
+
+	it("should show principals only the entries they deleted", async () => {
+		await dbfs.fs.chmod("/", "0777");
+		const alice = dbfs.withPrincipal({ user: "alice" });
+		await alice.fs.writeFile("/alice.txt", "a");
+		await alice.fs.unlink("/alice.txt");
+		await dbfs.fs.unlink("/project", { recursive: true });
+
+		expect((await alice.fs.listTrash()).map((e) => e.path)).toEqual([
+			"/alice.txt",
+		]);
+		await expect(alice.fs.restore("/project")).rejects.toThrow(
+			"Not found in trash",
+		);
+		expect(await alice.fs.emptyTrash()).toBe(1);
+		expect((await dbfs.fs.listTrash()).map((e) => e.path)).toEqual([
+			"/project",
+		]);
+	});
+
+	it("should list and restore trash through tools", async () => {
+		const tools = createFileSystemTools(dbfs.fs, {
+			deny: ["/project/src/**"],
+		});
+		await dbfs.fs.unlink("/project", { recursive: true });
+		await dbfs.fs.writeFile("/notes.txt", "n");
+		await dbfs.fs.unlink("/notes.txt");
+
+		const listed = await call(tools.list_trash, {});
+		expect(listed.entries.map((e: any) => e.path)).toEqual([
+			"/notes.txt",
+			"/project",
+		]);
+
+		expect(
+			await call(tools.restore_trash, { path: "/project" }),
+		).toMatchObject({ success: false, code: "EPERM" });
+		expect(await dbfs.fs.exists("/project")).toBe(false);
+
+		expect(
+			await call(tools.restore_trash, {
+				path: "/notes.txt",
+				dest_path: "/restored.txt",
+			}),
+		).toMatchObject({ success: true, path: "/restored.txt" });
+		expect((await dbfs.fs.readFile("/restored.txt")).content).toBe("n");
+	});
+});
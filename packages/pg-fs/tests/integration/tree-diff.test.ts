@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createSqliteFs, type DbFs } from "../../src/index.js";
+
+describe("DbFileSystem tree diff and merge (SQLite)", () => {
+	let dbfs: DbFs;
+
+	beforeEach(async () => {
+		dbfs = await createSqliteFs();
+		await dbfs.fs.writeFile("/shared/src/main.ts", "one\ntwo\nthree\n", {
+			createParents: true,
+		});
+		await dbfs.fs.writeFile("/shared/README.md", "readme\n");
+		await dbfs.fs.snapshot("/shared", "base");
+		await dbfs.fs.fork("/shared", "/work");
+	});
+
+	it("should report what changed between two directories", async () => {
+		await dbfs.fs.writeFile("/work/src/main.ts", "one\n2\nthree\n");
+		await dbfs.fs.writeFile("/work/src/util.ts", "util\n");
+		await dbfs.fs.unlink("/work/README.md");
+
+		const diff = await dbfs.fs.diffTrees("/shared", "/work");
+
+		expect(diff).toMatchObject({
+			added: ["src/util.ts"],
+			removed: ["README.md"],
+			modified: ["src/main.ts"],
+		});
+		expect(diff.files.map((f) => [f.path, f.status])).toEqual([
+			["README.md", "removed"],
+			["src/main.ts", "modified"],
+			["src/util.ts", "added"],
+		]);
+		expect(diff.files[1].diff).toBe(
+			[
+				"--- a/src/main.ts",
+				"+++ b/src/main.ts",
+				"@@ -1,3 +1,3 @@",
+				" one",
+				"-two",
+				"+2",
+				" three",
+				"",
+			].join("\n"),
+		);
+		expect(diff.files[2].diff).toContain("--- /dev/null\n+++ b/src/util.ts");
+	});
+
+	it("should compare against snapshots and skip binary content", async () => {
+		await dbfs.fs.writeFile("/shared/logo.png", Buffer.from([0, 1, 2]));
+		await dbfs.fs.mkdir("/shared/empty");
+
+		const diff = await dbfs.fs.diffTrees({ snapshot: "base" }, "/shared");
+
+		expect(diff.added).toEqual(["empty", "logo.png"]);
+		expect(diff.files).toEqual([
+			{ path: "logo.png", status: "added", diff: null },
+		]);
+		expect(
+			(await dbfs.fs.diffTrees({ snapshot: "base" }, "/work")).files,
+		).toEqual([]);
+	});
+
+	it("should merge non-overlapping changes into the target tree", async () => {
+		await dbfs.fs.writeFile("/shared/src/main.ts", "ONE\ntwo\nthree\n");
+		await dbfs.fs.writeFile("/work/src/main.ts", "one\ntwo\nTHREE\n");
+		await dbfs.fs.writeFile("/work/docs/guide.md", "guide\n", {
+			createParents: true,
+		});
+		await dbfs.fs.unlink("/work/README.md");
+
+		const result = await dbfs.fs.mergeTrees(
+			{ snapshot: "base" },
+			"/shared",
+			"/work",
+		);
+
+		expect(result).toEqual({
+			changed: [
+				"/shared/README.md",
+				"/shared/docs",
+				"/shared/docs/guide.md",
+				"/shared/src/main.ts",
+			],
+			conflicts: [],
+		});
+		expect((await dbfs.fs.readFile("/shared/src/main.ts")).content).toBe(
+			"ONE\ntwo\nTHREE\n",
+		);
+		expect((await dbfs.fs.readFile("/shared/docs/guide.md")).content).toBe(
+			"guide\n",
+		);
+		expect(await dbfs.fs.exists("/shared/README.md")).toBe(false);
+		expect(await dbfs.fs.diffTrees("/shared", "/work")).toMatchObject({
+			added: [],
+			removed: [],
+			modified: ["src/main.ts"],
+		});
+	});
+
+	it("should leave conflict markers where both sides changed the same lines", async () => {
+		await dbfs.fs.writeFile("/shared/src/main.ts", "one\nshared\nthree\n");
+		await dbfs.fs.writeFile("/work/src/main.ts", "one\nwork\nthree\n");
+		await dbfs.fs.unlink("/shared/README.md");
+		await dbfs.fs.writeFile("/work/README.md", "changed readme\n");
+
+		const result = await dbfs.fs.mergeTrees(
+			{ snapshot: "base" },
+			"/shared",
+			"/work",
+		);
+
+		expect(result.conflicts).toEqual([
+			"/shared/README.md",
+			"/shared/src/main.ts",
+		]);
+		expect((await dbfs.fs.readFile("/shared/src/main.ts")).content).toBe(
+			[
+				"one",
+				"<<<<<<< /shared/src/main.ts",
+				"shared",
+				"=======",
+				"work",
+				">>>>>>> /work",
+				"three",
+				"",
+			].join("\n"),
+		);
+		expect(await dbfs.fs.exists("/shared/README.md")).toBe(false);
+	});
+
+	it("should roll back the whole merge when a write fails", async () => {
+		const alice = dbfs.withPrincipal({ user: "alice" });
+		await dbfs.fs.writeFile("/work/src/util.ts", "util\n");
+
+		await expect(
+			alice.fs.mergeTrees({ snapshot: "base" }, "/shared", "/work"),
+		).rejects.toThrow("EACCES");
+		expect(await dbfs.fs.exists("/shared/src/util.ts")).toBe(false);
+	});
+});
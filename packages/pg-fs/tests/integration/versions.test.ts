@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createSqliteFs, type DbFs } from "../../src/index.js";
+
+describe("DbFileSystem versions (SQLite)", () => {
+	let dbfs: DbFs;
+
+	beforeEach(async () => {
+		dbfs = await createSqliteFs();
+	});
+
+	it("should record a version for every write", async () => {
+		await dbfs.fs.writeFile("/notes.txt", "one");
+		await dbfs.fs.writeFile("/notes.txt", "two", { comment: "second" });
+
+		const versions = await dbfs.fs.listVersions("/notes.txt");
+		expect(versions.map((v) => v.version)).toEqual([2, 1]);
+		expect(versions[0].comment).toBe("second");
+	});
+
+	it("should read a previous version", async () => {
+		await dbfs.fs.writeFile("/notes.txt", "one");
+		await dbfs.fs.writeFile("/notes.txt", "two");
+
+		const v1 = await dbfs.fs.readVersion("/notes.txt", 1);
+		expect(v1.content).toBe("one");
+		await expect(dbfs.fs.readVersion("/notes.txt", 5)).rejects.toThrow(
+			"Version 5 not found",
+		);
+	});
+
+	it("should restore a previous version as a new version", async () => {
+		await dbfs.fs.writeFile("/notes.txt", "one");
+		await dbfs.fs.writeFile("/notes.txt", "bad edit");
+		await dbfs.fs.restoreVersion("/notes.txt", 1);
+
+		const { content } = await dbfs.fs.readFile("/notes.txt");
+		expect(content).toBe("one");
+
+		const versions = await dbfs.fs.listVersions("/notes.txt");
+		expect(versions).toHaveLength(3);
+		expect(versions[0].comment).toBe("Restored from version 1");
+	});
+
+	it("should keep versioned content alive through garbage collection", async () => {
+		await dbfs.fs.writeFile("/notes.txt", "one");
+		await dbfs.fs.writeFile("/notes.txt", "two");
+		await dbfs.garbageCollect();
+
+		const v1 = await dbfs.fs.readVersion("/notes.txt", 1);
+		expect(v1.content).toBe("one");
+	});
+
+	it("should release version content when the file is deleted", async () => {
+		await dbfs.fs.writeFile("/notes.txt", "one");
+		await dbfs.fs.writeFile("/notes.txt", "two");
+		await dbfs.fs.unlink("/notes.txt");
+		await dbfs.fs.emptyTrash();
+
+		expect(await dbfs.garbageCollect()).toBe(2);
+	});
+});
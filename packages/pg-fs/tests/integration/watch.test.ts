@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+	createMemoryFs,
+	createSqliteFs,
+	type DbFs,
+	type FileChangeEvent,
+} from "../../src/index.js";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+for (const [name, create] of [
+	["SQLite", () => createSqliteFs()],
+	["memory", () => createMemoryFs()],
+] as const) {
+	describe(`DbFileSystem.watch (${name})`, () => {
+		let dbfs: DbFs;
+		let events: FileChangeEvent[];
+
+		beforeEach(async () => {
+			dbfs = await create();
+			events = [];
+		});
+
+		it("should report creates, modifications, renames and deletes", async () => {
+			const unwatch = await dbfs.fs.watch("/", (e) => events.push(e));
+
+			await dbfs.fs.writeFile("/a.txt", "one");
+			await dbfs.fs.writeFile("/a.txt", "three");
+			await dbfs.fs.mkdir("/dir");
+			await dbfs.fs.rename("/a.txt", "/dir/a.txt");
+			await dbfs.fs.unlink("/dir", { recursive: true });
+			await flush();
+			await unwatch();
+
+			expect(events.map((e) => [e.type, e.path, e.oldPath])).toEqual([
+				["create", "/a.txt", undefined],
+				["modify", "/a.txt", undefined],
+				["create", "/dir", undefined],
+				["rename", "/dir/a.txt", "/a.txt"],
+				["delete", "/dir", undefined],
+			]);
+			expect(events[1].stats).toMatchObject({
+				name: "a.txt",
+				isDirectory: false,
+				size: 5,
+			});
+			expect(events[4].stats.isDirectory).toBe(true);
+		});
+
+		it("should only report changes related to the watched path", async () => {
+			await dbfs.fs.mkdir("/src/lib", { recursive: true });
+			const unwatch = await dbfs.fs.watch("/src/lib", (e) => events.push(e));
+
+			await dbfs.fs.writeFile("/src/lib/a.ts", "a");
+			await dbfs.fs.writeFile("/src/other.ts", "b");
+			await dbfs.fs.writeFile("/src/library.ts", "c");
+			await dbfs.fs.rename("/src", "/app");
+			await flush();
+			await unwatch();
+
+			expect(events.map((e) => [e.type, e.path])).toEqual([
+				["create", "/src/lib/a.ts"],
+				["rename", "/app"],
+			]);
+		});
+
+		it("should not report rolled back changes", async () => {
+			const unwatch = await dbfs.fs.watch("/", (e) => events.push(e));
+
+			await expect(
+				dbfs.fs.transaction(async (tx) => {
+					await tx.writeFile("/draft.txt", "draft");
+					throw new Error("abort");
+				}),
+			).rejects.toThrow("abort");
+			await dbfs.fs.copy("/missing", "/copy").catch(() => undefined);
+			await flush();
+			await unwatch();
+
+			expect(events).toEqual([]);
+		});
+
+		it("should report changes made through other instances", async () => {
+			const unwatch = await dbfs.fs.watch("/", (e) => events.push(e));
+			const alice = dbfs.withPrincipal({ user: "alice" });
+			await dbfs.fs.chmod("/", "0777");
+
+			await alice.fs.writeFile("/alice.txt", "hi");
+			await flush();
+			await unwatch();
+			await dbfs.fs.writeFile("/after.txt", "ignored");
+			await flush();
+
+			expect(events.map((e) => [e.type, e.path, e.stats.owner])).toEqual([
+				["modify", "/", "system"],
+				["create", "/alice.txt", "alice"],
+			]);
+		});
+
+		it("should pass handler errors to onError", async () => {
+			const errors: unknown[] = [];
+			const failing = await dbfs.fs.watch(
+				"/",
+				() => {
+					throw new Error("handler failed");
+				},
+				{ onError: (error) => errors.push(error) },
+			);
+			const unwatch = await dbfs.fs.watch("/", (e) => events.push(e));
+
+			await dbfs.fs.writeFile("/a.txt", "a");
+			await dbfs.fs.writeFile("/b.txt", "b");
+			await flush();
+			await failing();
+			await unwatch();
+
+			expect(errors).toHaveLength(2);
+			expect((errors[0] as Error).message).toBe("handler failed");
+			expect(events.map((e) => e.path)).toEqual(["/a.txt", "/b.txt"]);
+		});
+
+		it("should skip nodes the principal cannot read", async () => {
+			await dbfs.fs.chmod("/", "0777");
+			const alice = dbfs.withPrincipal({ user: "alice" });
+			const unwatch = await alice.fs.watch("/", (e) => events.push(e));
+
+			await dbfs.fs.writeFile("/public.txt", "x", { mode: "0644" });
+			await dbfs.fs.writeFile("/private.txt", "x", { mode: "0600" });
+			await flush();
+			await unwatch();
+
+			expect(events.map((e) => e.path)).toEqual(["/public.txt"]);
+		});
+	});
+}
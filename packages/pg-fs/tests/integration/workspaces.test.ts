@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import BetterSqlite3 from "better-sqlite3";
+import { DbFs, FileSystemUtils } from "../../src/index.js";
+
+describe("DbFs workspaces (SQLite)", () => {
+	let database: BetterSqlite3.Database;
+	let acme: DbFs;
+	let globex: DbFs;
+
+	beforeEach(async () => {
+		database = new BetterSqlite3(":memory:");
+		acme = await DbFs.create({
+			dialect: "sqlite",
+			sqliteDatabase: database,
+			workspace: "acme",
+		});
+		globex = await acme.scope("globex");
+	});
+
+	it("should isolate files between workspaces on one database", async () => {
+		await acme.fs.writeFile("/secret.txt", "acme only");
+
+		expect(acme.fs.workspace).toBe("acme");
+		expect(globex.fs.workspace).toBe("globex");
+		expect(await globex.fs.exists("/secret.txt")).toBe(false);
+		expect((await globex.fs.readdir("/")).items).toEqual([]);
+	});
+
+	it("should allow the same path in different workspaces", async () => {
+		await acme.fs.writeFile("/config.json", '{"tenant":"acme"}');
+		await globex.fs.writeFile("/config.json", '{"tenant":"globex"}');
+
+		expect((await acme.fs.readFile("/config.json")).content).toContain("acme");
+		expect((await globex.fs.readFile("/config.json")).content).toContain(
+			"globex",
+		);
+	});
+
+	it("should keep glob, grep and search inside the workspace", async () => {
+		await acme.fs.writeFile("/notes.md", "quarterly revenue numbers");
+
+		expect((await globex.fs.glob("**/*.md")).matches).toEqual([]);
+		expect((await globex.fs.grep("revenue")).files).toEqual([]);
+		expect((await globex.fs.search("revenue")).results).toEqual([]);
+	});
+
+	it("should not let tools escape the workspace", async () => {
+		await acme.fs.writeFile("/secret.txt", "acme only");
+
+		const read = globex.tools.read as any;
+		const result = await read.execute(
+			{ file_path: "/../../acme/secret.txt" },
+			{ toolCallId: "1", messages: [] },
+		);
+
+		expect(result.success).toBe(false);
+	});
+
+	it("should account content separately per workspace", async () => {
+		await acme.fs.writeFile("/a.txt", "identical");
+		await globex.fs.writeFile("/b.txt", "identical");
+
+		await globex.fs.unlink("/b.txt");
+		await globex.fs.emptyTrash();
+		expect(await acme.garbageCollect()).toBe(0);
+		expect(await globex.garbageCollect()).toBe(1);
+		expect((await acme.fs.readFile("/a.txt")).content).toBe("identical");
+	});
+
+	it("should reject invalid workspace ids", async () => {
+		await expect(acme.scope("")).rejects.toThrow("Invalid workspace");
+		await expect(acme.fs.scope("a/b")).rejects.toThrow("Invalid workspace");
+	});
+
+	it("should migrate databases created before workspaces", async () => {
+		const legacy = new BetterSqlite3(":memory:");
+		const now = Math.floor(Date.now() / 1000);
+		const hash = FileSystemUtils.hashContent("legacy");
+
+		legacy.exec(`
+			CREATE TABLE nodes (
+				id TEXT PRIMARY KEY,
+				path TEXT NOT NULL UNIQUE,
+				name TEXT NOT NULL,
+				tree_path TEXT NOT NULL,
+				parent_id TEXT REFERENCES nodes(id) ON DELETE CASCADE,
+				is_directory INTEGER NOT NULL DEFAULT 0,
+				size INTEGER NOT NULL DEFAULT 0,
+				mime_type TEXT,
+				content_hash TEXT,
+				created_at INTEGER NOT NULL,
+				modified_at INTEGER NOT NULL,
+				accessed_at INTEGER NOT NULL,
+				mode TEXT NOT NULL DEFAULT '0644',
+				owner TEXT NOT NULL DEFAULT 'default',
+				metadata TEXT DEFAULT '{}'
+			);
+			CREATE TABLE content_blocks (
+				hash TEXT PRIMARY KEY,
+				data TEXT NOT NULL,
+				size INTEGER NOT NULL,
+				ref_count INTEGER NOT NULL DEFAULT 1,
+				created_at INTEGER NOT NULL,
+				last_accessed_at INTEGER NOT NULL
+			);
+			INSERT INTO nodes (id, path, name, tree_path, is_directory, created_at, modified_at, accessed_at)
+				VALUES ('root', '/', '', 'root', 1, ${now}, ${now}, ${now});
+			INSERT INTO nodes (id, path, name, tree_path, parent_id, size, content_hash, created_at, modified_at, accessed_at)
+				VALUES ('file', '/legacy.txt', 'legacy.txt', 'legacy_txt', 'root', 6, '${hash}', ${now}, ${now}, ${now});
+			INSERT INTO content_blocks (hash, data, size, created_at, last_accessed_at)
+				VALUES ('${hash}', 'legacy', 6, ${now}, ${now});
+		`);
+
+		const migrated = await DbFs.create({
+			dialect: "sqlite",
+			sqliteDatabase: legacy,
+		});
+
+		expect((await migrated.fs.readFile("/legacy.txt")).content).toBe("legacy");
+		expect(migrated.fs.workspace).toBe("default");
+
+		const other = await migrated.scope("other");
+		await other.fs.writeFile("/legacy.txt", "separate");
+		expect((await migrated.fs.readFile("/legacy.txt")).content).toBe("legacy");
+	});
+});
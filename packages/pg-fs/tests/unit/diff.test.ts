@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { mergeText, unifiedDiff } from "../../src/diff.js";
+
+const lines = (count: number) =>
+	Array.from({ length: count }, (_, i) => `line ${i + 1}\n`).join("");
+
+describe("unifiedDiff", () => {
+	it("should return an empty string for equal texts", () => {
+		expect(unifiedDiff("a\nb\n", "a\nb\n")).toBe("");
+	});
+
+	it("should render changes with context in separate hunks", () => {
+		const before = lines(12);
+		const after = before
+			.replace("line 2\n", "line two\n")
+			.replace("line 11\n", "");
+
+		expect(
+			unifiedDiff(before, after, { oldLabel: "a/f.txt", newLabel: "b/f.txt" }),
+		).toBe(
+			[
+				"--- a/f.txt",
+				"+++ b/f.txt",
+				"@@ -1,5 +1,5 @@",
+				" line 1",
+				"-line 2",
+				"+line two",
+				" line 3",
+				" line 4",
+				" line 5",
+				"@@ -8,5 +8,4 @@",
+				" line 8",
+				" line 9",
+				" line 10",
+				"-line 11",
+				" line 12",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("should mark content without a trailing newline", () => {
+		expect(unifiedDiff("", "new")).toBe(
+			"--- a\n+++ b\n@@ -0,0 +1 @@\n+new\n\\ No newline at end of file\n",
+		);
+	});
+});
+
+describe("mergeText", () => {
+	it("should combine changes to different regions", () => {
+		const base = lines(6);
+		const ours = base.replace("line 1\n", "ours\n");
+		const theirs = base.replace("line 6\n", "theirs\n");
+
+		expect(mergeText(base, ours, theirs)).toEqual({
+			content: ours.replace("line 6\n", "theirs\n"),
+			conflicts: 0,
+		});
+	});
+
+	it("should take identical changes once", () => {
+		const base = "a\nb\nc\n";
+		const both = "a\nB\nc\n";
+		expect(mergeText(base, both, both)).toEqual({
+			content: both,
+			conflicts: 0,
+		});
+	});
+
+	it("should wrap overlapping changes in conflict markers", () => {
+		const result = mergeText("a\nb\nc\n", "a\nours\nc\n", "a\ntheirs\nc\n", {
+			ours: "main",
+			theirs: "branch",
+		});
+
+		expect(result.conflicts).toBe(1);
+		expect(result.content).toBe(
+			"a\n<<<<<<< main\nours\n=======\ntheirs\n>>>>>>> branch\nc\n",
+		);
+	});
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { unifiedDiff } from "../../src/diff.js";
+import { applyEdits, applyHunks, parsePatch } from "../../src/patch.js";
+
+const lines = (count: number) =>
+	Array.from({ length: count }, (_, i) => `line ${i + 1}\n`).join("");
+
+describe("parsePatch", () => {
+	it("should parse creates, deletes and git renames", () => {
+		const patches = parsePatch(
+			[
+				"diff --git a/old.ts b/new.ts",
+				"similarity index 100%",
+				"rename from old.ts",
+				"rename to new.ts",
+				"--- a/gone.ts",
+				"+++ /dev/null",
+				"@@ -1 +0,0 @@",
+				"-bye",
+				"--- /dev/null",
+				"+++ b/src/made.ts\t2024-01-01 00:00:00",
+				"@@ -0,0 +1,2 @@",
+				"+hello",
+				"+world",
+				"",
+			].join("\n"),
+		);
+
+		expect(
+			patches.map((p) => [p.oldPath, p.newPath, p.hunks.length]),
+		).toEqual([
+			["old.ts", "new.ts", 0],
+			["gone.ts", null, 1],
+			[null, "src/made.ts", 1],
+		]);
+		expect(patches[2].hunks[0].lines).toEqual(["+hello", "+world"]);
+	});
+
+	it("should keep blank context lines that lost their leading space", () => {
+		const [patch] = parsePatch("--- a\n+++ b\n@@ -1,3 +1,3 @@\n a\n\n-b\n+B\n\n");
+		expect(patch.hunks[0].lines).toEqual([" a", " ", "-b", "+B"]);
+	});
+});
+
+describe("applyHunks", () => {
+	const before = lines(30);
+	const after = before
+		.replace("line 3\n", "three\n")
+		.replace("line 20\n", "")
+		.replace("line 29\n", "line 29\nextra\n");
+	const [patch] = parsePatch(unifiedDiff(before, after));
+
+	it("should apply hunks at their header lines", () => {
+		expect(applyHunks(before, patch.hunks).content).toBe(after);
+	});
+
+	it("should find hunks whose lines moved", () => {
+		const result = applyHunks(`new\nlines\n${before}`, patch.hunks);
+		expect(result.content).toBe(`new\nlines\n${after}`);
+		expect(result.hunks.map((h) => h.line)).toEqual([3, 19, 28]);
+	});
+
+	it("should drop outer context lines when they no longer match", () => {
+		const drifted = before.replace("line 17\n", "seventeen\n");
+		const result = applyHunks(drifted, patch.hunks);
+
+		expect(result.hunks[1]).toEqual({
+			hunk: 2,
+			applied: true,
+			line: 18,
+			fuzz: 1,
+		});
+		expect(result.content).toBe(after.replace("line 17\n", "seventeen\n"));
+	});
+
+	it("should report the line a failing hunk expected", () => {
+		const changed = before.replace("line 19\n", "nineteen\n");
+		const result = applyHunks(changed, patch.hunks);
+
+		expect(result.hunks.map((h) => h.applied)).toEqual([true, false, true]);
+		expect(result.hunks[1].error).toBe(
+			'Hunk #2 (@@ -17,7 +17,6 @@) does not match: expected "line 19" at line 19, found "nineteen"',
+		);
+	});
+});
+
+describe("applyEdits", () => {
+	it("should apply edits in order", () => {
+		const result = applyEdits("let a = 1;\nlet b = a;\n", [
+			{ oldString: "let a", newString: "let x" },
+			{ oldString: "= a;", newString: "= x;" },
+		]);
+		expect(result.content).toBe("let x = 1;\nlet b = x;\n");
+		expect(result.edits.map((e) => e.line)).toEqual([1, 2]);
+	});
+
+	it("should report ambiguous matches with their lines", () => {
+		const result = applyEdits("a\nb\na\n", [{ oldString: "a", newString: "c" }]);
+		expect(result.edits[0].error).toBe(
+			"Edit #1: old_string appears 2 times (lines 1, 3). Include more surrounding text or set replace_all.",
+		);
+		expect(
+			applyEdits("a\nb\na\n", [
+				{ oldString: "a", newString: "c", replaceAll: true },
+			]).content,
+		).toBe("c\nb\nc\n");
+	});
+
+	it("should match lines ignoring whitespace differences", () => {
+		const result = applyEdits("if (x) {\n\treturn 1;\n}\n", [
+			{ oldString: "if (x) {\n  return 1;", newString: "if (y) {\n\treturn 2;" },
+		]);
+		expect(result.content).toBe("if (y) {\n\treturn 2;\n}\n");
+		expect(result.edits[0]).toMatchObject({ applied: true, fuzzy: true });
+	});
+});
@@ -4,6 +4,7 @@ import {
 	contentBlocks,
 	searchIndex,
 	versions,
+	auditLog,
 } from "../../src/schema.js";
 
 describe("Schema", () => {
@@ -64,4 +65,16 @@ describe("Schema", () => {
 			expect(versions).toHaveProperty("contentHash");
 		});
 	});
+
+	describe("auditLog table", () => {
+		it("should have required columns", () => {
+			expect(auditLog).toHaveProperty("id");
+			expect(auditLog).toHaveProperty("operation");
+			expect(auditLog).toHaveProperty("path");
+			expect(auditLog).toHaveProperty("oldHash");
+			expect(auditLog).toHaveProperty("newHash");
+			expect(auditLog).toHaveProperty("actor");
+			expect(auditLog).toHaveProperty("toolCallId");
+		});
+	});
 });
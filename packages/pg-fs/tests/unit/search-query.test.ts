@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import {
+	parseSearchQuery,
+	toFts5Query,
+	toTsQuery,
+} from "../../src/search-query.js";
+
+describe("parseSearchQuery", () => {
+	it("should AND whitespace-separated terms", () => {
+		expect(parseSearchQuery("database driver")).toEqual({
+			type: "and",
+			children: [
+				{ type: "term", value: "database", prefix: false },
+				{ type: "term", value: "driver", prefix: false },
+			],
+		});
+	});
+
+	it("should parse phrases, prefixes and exclusions", () => {
+		const query = parseSearchQuery('"garbage collect" ref* -legacy');
+		expect(toTsQuery(query)).toBe(
+			"(('garbage' <-> 'collect') & 'ref':* & !'legacy')",
+		);
+		expect(toFts5Query(query)).toBe(
+			'(("garbage collect" AND "ref"*) NOT "legacy")',
+		);
+	});
+
+	it("should parse OR and grouping", () => {
+		const query = parseSearchQuery("(sqlite OR postgres) driver");
+		expect(toTsQuery(query)).toBe("(('sqlite' | 'postgres') & 'driver')");
+		expect(toFts5Query(query)).toBe('((("sqlite" OR "postgres") AND "driver"))');
+	});
+
+	it("should strip punctuation that would break query syntax", () => {
+		expect(toTsQuery(parseSearchQuery("it's"))).toBe("('it' <-> 's')");
+		expect(toFts5Query(parseSearchQuery('a"b'))).toBe('(("a" AND "b"))');
+	});
+
+	it("should reject empty queries", () => {
+		expect(() => parseSearchQuery("  ")).toThrow("Search query is empty");
+	});
+
+	it("should reject queries with only exclusions", () => {
+		expect(() => parseSearchQuery("-legacy")).toThrow("exclusions");
+		expect(() => parseSearchQuery("a OR NOT b")).toThrow("exclusions");
+	});
+});
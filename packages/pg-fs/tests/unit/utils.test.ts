@@ -130,6 +130,18 @@ describe("FileSystemUtils", () => {
 		});
 	});
 
+	describe("isBinary", () => {
+		it("should detect content with NUL bytes as binary", () => {
+			expect(FileSystemUtils.isBinary(Buffer.from([0x89, 0x50, 0x00]))).toBe(
+				true,
+			);
+		});
+
+		it("should treat UTF-8 text as non-binary", () => {
+			expect(FileSystemUtils.isBinary(Buffer.from("héllo\n"))).toBe(false);
+		});
+	});
+
 	describe("generateId", () => {
 		it("should generate unique IDs", () => {
 			const id1 = FileSystemUtils.generateId();
@@ -144,4 +156,55 @@ describe("FileSystemUtils", () => {
 			);
 		});
 	});
+
+	describe("globToRegex", () => {
+		const matches = (pattern: string, path: string, base = "/") =>
+			new RegExp(FileSystemUtils.globToRegex(pattern, base)).test(path);
+
+		it("should keep * and ? within a single segment", () => {
+			expect(matches("*.ts", "/index.ts")).toBe(true);
+			expect(matches("*.ts", "/src/index.ts")).toBe(false);
+			expect(matches("file?.md", "/file1.md")).toBe(true);
+			expect(matches("file?.md", "/file10.md")).toBe(false);
+		});
+
+		it("should match ** across zero or more directories", () => {
+			expect(matches("src/**/*.ts", "/src/index.ts")).toBe(true);
+			expect(matches("src/**/*.ts", "/src/a/b/index.ts")).toBe(true);
+			expect(matches("src/**/*.ts", "/lib/index.ts")).toBe(false);
+			expect(matches("docs/**", "/docs/a/b.md")).toBe(true);
+		});
+
+		it("should support brace alternation", () => {
+			expect(matches("**/*.{ts,tsx}", "/app/page.tsx")).toBe(true);
+			expect(matches("**/*.{ts,tsx}", "/app/page.js")).toBe(false);
+			expect(matches("{src,lib/{a,b}}/*.js", "/lib/b/x.js")).toBe(true);
+		});
+
+		it("should support character classes", () => {
+			expect(matches("log[0-9].txt", "/log7.txt")).toBe(true);
+			expect(matches("log[!0-9].txt", "/log7.txt")).toBe(false);
+			expect(matches("log[!0-9].txt", "/logx.txt")).toBe(true);
+		});
+
+		it("should match relative to the base path", () => {
+			expect(matches("*.ts", "/src/index.ts", "/src")).toBe(true);
+			expect(matches("*.ts", "/index.ts", "/src")).toBe(false);
+		});
+
+		it("should escape regex metacharacters", () => {
+			expect(matches("a+b(1).txt", "/a+b(1).txt")).toBe(true);
+			expect(matches("a.txt", "/abtxt")).toBe(false);
+		});
+	});
+
+	describe("globLiteralPrefix", () => {
+		it("should return the wildcard-free directory prefix", () => {
+			expect(FileSystemUtils.globLiteralPrefix("src/lib/**/*.ts")).toBe(
+				"/src/lib/",
+			);
+			expect(FileSystemUtils.globLiteralPrefix("*.ts", "/src")).toBe("/src/");
+			expect(FileSystemUtils.globLiteralPrefix("{a,b}/x.ts")).toBe("/");
+		});
+	});
 });